@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { User, AppView, Project, TimeEntry, Settings, ActivityLog, Task, AuthenticatedUser, Workspace } from './types';
+import { User, AppView, Project, TimeEntry, Settings, ActivityLog, Task, AuthenticatedUser, Workspace, ClassificationRule } from './types';
 import { FaceAttendance } from './components/FaceAttendance';
 import { ScreenLogger } from './components/ScreenLogger';
 import { InsightsDashboard } from './components/InsightsDashboard';
@@ -8,14 +8,22 @@ import { ConsentDialog } from './components/ConsentDialog';
 import { Settings as SettingsComponent } from './components/Settings';
 import { CalculationDetails } from './components/CalculationDetails';
 import { IdleDialog } from './components/IdleDialog';
+import { DeviceConflictDialog } from './components/DeviceConflictDialog';
 import { CombinedInsights } from './components/CombinedInsights';
+import { CaptureReview } from './components/CaptureReview';
+import { TimelineEditor, ReattributionResult } from './components/TimelineEditor';
+import { ManualTimeEntries } from './components/ManualTimeEntries';
 import { useSurveillance } from './hooks/useSurveillance';
 import { applyBlurWithIntensity } from './utils/imageBlur';
 import { authState } from './services/authState';
 import { UserAvatar } from './components/UserAvatar';
 import { apiService } from './services/apiService';
+import { trackingSync } from './services/trackingSync';
+import { compositeScoreCalculator } from './services/compositeScoreCalculator';
+import { classificationRules } from './services/classificationRules';
 import { getApiConfig } from './config/apiConfig';
 import { devLog, devWarn, isDevMode } from './utils/devMode';
+import type { DeviceConflict, DeviceConflictResolution, ManualTimeEntry, ManualTimeEntryUpdate, PendingCapture, ScreenChange, TaskSuggestion } from './types/electron';
 
 // Electron API types are defined in types/electron.d.ts
 
@@ -28,6 +36,10 @@ const INITIAL_USER: User = {
     isCheckedIn: false
 };
 
+const TASK_SUGGESTION_POLL_MS = 60 * 1000;
+const TASK_SUGGESTION_SNOOZE_MS = 30 * 60 * 1000; // A dismissed suggestion stays hidden this long
+const MANUAL_TIME_POLL_MS = 5 * 60 * 1000; // How often pending manual time is checked for a review decision
+
 const App: React.FC = () => {
     // State
     const [user, setUser] = useState<User | null>(null);
@@ -81,6 +93,24 @@ const App: React.FC = () => {
     const [syncMessage, setSyncMessage] = useState<string>('');
     const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
     
+    // Overlapping timer runs found when merging another device's data for a task
+    const [deviceConflicts, setDeviceConflicts] = useState<{
+        projectId: string;
+        taskId: string;
+        taskName: string;
+        conflicts: DeviceConflict[];
+    } | null>(null);
+    
+    // Screenshots held locally for review before upload (settings.reviewBeforeUpload)
+    const [pendingCaptures, setPendingCaptures] = useState<PendingCapture[]>([]);
+    
+    // Task that fits what is on screen better than the running one (learned locally in the main process)
+    const [taskSuggestion, setTaskSuggestion] = useState<TaskSuggestion | null>(null);
+    const dismissedSuggestionsRef = useRef<Map<string, number>>(new Map()); // "projectId/taskId" -> dismissed until (ms)
+    
+    // Time added by hand for work away from the computer, newest first (stored by the main process)
+    const [manualTimeEntries, setManualTimeEntries] = useState<ManualTimeEntry[]>([]);
+    
     // Today's tasks (for restoration and continuation)
     const [todayTasks, setTodayTasks] = useState<Array<{
         projectId: string;
@@ -363,326 +393,21 @@ const App: React.FC = () => {
             }
             console.log(`[UPLOAD-TASK] ✅ login_token found (length: ${loginToken.length})`);
 
-            // Load tracking data from file (load today's data)
-            console.log(`[UPLOAD-TASK] 📋 Step 1: Loading tracking data from file...`);
-            const taskData = await window.electronAPI.loadTaskTrackingData(projectId, taskId, 'today');
-            if (!taskData) {
-                const error = 'No tracking data found';
-                console.log(`[UPLOAD-TASK] ⚠️ ${error} for task ${taskId}`);
-                return { success: false, error };
-            }
-            console.log(`[UPLOAD-TASK] ✅ Tracking data loaded successfully`);
-
-            // Log raw data from file
-            console.log('[UPLOAD] 📦 Raw data loaded from file:', {
-                version: taskData.version,
-                metadata: taskData.metadata,
-                trackingDataKeys: Object.keys(taskData.trackingData || {}),
-                activityLogsCount: taskData.trackingData?.activityLogs?.length || 0,
-                activeWindowsCount: taskData.trackingData?.activeWindows?.length || 0,
-                screenshotsCount: taskData.trackingData?.screenshots?.length || 0,
-                webcamPhotosCount: taskData.trackingData?.webcamPhotos?.length || 0,
-                urlHistoryCount: taskData.trackingData?.urlHistory?.length || 0,
-                summary: taskData.trackingData?.summary,
-            });
-
-            // Ensure the data matches the expected format from the API documentation
-            const formattedData = {
-                version: taskData.version || '1.0.0',
-                metadata: {
-                    createdAt: taskData.metadata?.createdAt || new Date().toISOString(),
-                    lastUpdated: taskData.metadata?.lastUpdated || new Date().toISOString(),
-                    taskId: taskData.metadata?.taskId || taskId,
-                    projectId: taskData.metadata?.projectId || projectId,
-                    taskName: taskData.metadata?.taskName || 'Unknown Task',
-                    projectName: taskData.metadata?.projectName || 'Unknown Project',
-                    currentSessionStart: taskData.metadata?.currentSessionStart || null,
-                },
-                trackingData: {
-                    activityLogs: taskData.trackingData?.activityLogs || [],
-                    windowTracking: taskData.trackingData?.activeWindows || [],
-                    screenshots: taskData.trackingData?.screenshots || [],
-                    webcamPhotos: taskData.trackingData?.webcamPhotos || [],
-                    urlHistory: taskData.trackingData?.urlHistory || [],
-                    summary: taskData.trackingData?.summary || {
-                        totalTime: 0,
-                        totalKeystrokes: 0,
-                        totalMouseClicks: 0,
-                        totalScreenshots: 0,
-                        totalWebcamPhotos: 0,
-                        totalUrls: 0,
-                        totalActivityLogs: 0,
-                        firstActivity: null,
-                        lastActivity: new Date().toISOString(),
-                    },
-                },
-            };
-
-            // Log formatted data structure
-            console.log('[UPLOAD] 📋 Formatted data structure:', {
-                version: formattedData.version,
-                metadata: formattedData.metadata,
-                trackingData: {
-                    activityLogsCount: formattedData.trackingData.activityLogs.length,
-                    windowTrackingCount: formattedData.trackingData.windowTracking.length,
-                    screenshotsCount: formattedData.trackingData.screenshots.length,
-                    webcamPhotosCount: formattedData.trackingData.webcamPhotos.length,
-                    urlHistoryCount: formattedData.trackingData.urlHistory.length,
-                    summary: formattedData.trackingData.summary,
-                },
-            });
-
-            // Log sample activity log entry (first one)
-            if (formattedData.trackingData.activityLogs.length > 0) {
-                console.log('[UPLOAD] 📝 Sample activity log entry (first):', formattedData.trackingData.activityLogs[0]);
-            }
-
-            // Log sample window tracking entry (first one)
-            if (formattedData.trackingData.windowTracking.length > 0) {
-                console.log('[UPLOAD] 🪟 Sample window tracking entry (first):', formattedData.trackingData.windowTracking[0]);
-            }
-
-            // Log sample screenshot entry (first one)
-            if (formattedData.trackingData.screenshots.length > 0) {
-                const firstScreenshot = formattedData.trackingData.screenshots[0];
-                console.log('[UPLOAD] 📸 Sample screenshot entry (first):', {
-                    id: firstScreenshot.id,
-                    timestamp: firstScreenshot.timestamp,
-                    isBlurred: firstScreenshot.isBlurred,
-                    dataUrlLength: firstScreenshot.dataUrl?.length || 0,
-                    dataUrlPreview: firstScreenshot.dataUrl?.substring(0, 100) || 'N/A',
-                });
-            }
-
-            // Log sample webcam photo entry (first one)
-            if (formattedData.trackingData.webcamPhotos.length > 0) {
-                const firstWebcam = formattedData.trackingData.webcamPhotos[0];
-                console.log('[UPLOAD] 📷 Sample webcam photo entry (first):', {
-                    id: firstWebcam.id,
-                    timestamp: firstWebcam.timestamp,
-                    dataUrlLength: firstWebcam.dataUrl?.length || 0,
-                    dataUrlPreview: firstWebcam.dataUrl?.substring(0, 100) || 'N/A',
-                });
-            }
-
-            // Convert to JSON string (minified, no pretty printing to reduce size)
-            console.log('[UPLOAD-TASK] 📋 Step 2: Converting data to JSON string...');
-            const jsonString = JSON.stringify(formattedData);
-            const originalSize = new Blob([jsonString]).size;
-            console.log('[UPLOAD-TASK] 📄 Original JSON size:', originalSize, 'bytes (', (originalSize / 1024 / 1024).toFixed(2), 'MB)');
-
-            // Compress the JSON using gzip if CompressionStream is available
-            let file: File;
-            let finalSize = originalSize;
-            
-            console.log('[UPLOAD-TASK] 📋 Step 3: Creating file (with compression if available)...');
-            console.log('[UPLOAD-TASK] 📋 CompressionStream available:', typeof CompressionStream !== 'undefined');
-            
-            // For small files (< 1MB), skip compression to avoid hanging
-            const shouldCompress = typeof CompressionStream !== 'undefined' && originalSize > 1024 * 1024; // Only compress if > 1MB
-            console.log('[UPLOAD-TASK] 📋 Should compress:', shouldCompress, '(file size:', originalSize, 'bytes)');
-            
-            try {
-                if (shouldCompress) {
-                    console.log('[UPLOAD-TASK] 🔄 Starting compression...');
-                    // Use CompressionStream API (available in modern browsers)
-                    const stream = new CompressionStream('gzip');
-                    const writer = stream.writable.getWriter();
-                    const reader = stream.readable.getReader();
-                    
-                    // Write JSON string to compression stream
-                    console.log('[UPLOAD-TASK] 📤 Writing to compression stream...');
-                    const encoder = new TextEncoder();
-                    const jsonBytes = encoder.encode(jsonString);
-                    await writer.write(jsonBytes);
-                    await writer.close();
-                    console.log('[UPLOAD-TASK] ✅ Finished writing to compression stream');
-                    
-                    // Read compressed data
-                    console.log('[UPLOAD-TASK] 📥 Reading compressed data...');
-                    const chunks: Uint8Array[] = [];
-                    let done = false;
-                    let chunkCount = 0;
-                    while (!done) {
-                        const { value, done: streamDone } = await reader.read();
-                        done = streamDone;
-                        if (value) {
-                            chunks.push(value);
-                            chunkCount++;
-                        }
-                    }
-                    console.log('[UPLOAD-TASK] ✅ Read', chunkCount, 'chunks from compression stream');
-                    
-                    // Combine chunks
-                    console.log('[UPLOAD-TASK] 🔄 Combining chunks...');
-                    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-                    const compressed = new Uint8Array(totalLength);
-                    let offset = 0;
-                    for (const chunk of chunks) {
-                        compressed.set(chunk, offset);
-                        offset += chunk.length;
-                    }
-                    
-                    finalSize = compressed.length;
-                    const compressionRatio = ((1 - finalSize / originalSize) * 100).toFixed(1);
-                    console.log('[UPLOAD-TASK] ✅ Compressed size:', finalSize, 'bytes (', (finalSize / 1024 / 1024).toFixed(2), 'MB)');
-                    console.log('[UPLOAD-TASK] 📊 Compression ratio:', compressionRatio + '% reduction');
-                    
-                    // Create compressed file
-                    console.log('[UPLOAD-TASK] 📦 Creating compressed file...');
-                    const compressedBlob = new Blob([compressed], { type: 'application/gzip' });
-                    file = new File([compressedBlob], `${taskId}.json.gz`, { type: 'application/gzip' });
-                    console.log('[UPLOAD-TASK] ✅ Compressed file created:', file.name, file.size, 'bytes');
-                } else {
-                    // Fallback: use minified JSON without compression
-                    console.log('[UPLOAD-TASK] ⚠️ Skipping compression (file too small or CompressionStream unavailable), sending uncompressed JSON');
-                    const blob = new Blob([jsonString], { type: 'application/json' });
-                    file = new File([blob], `${taskId}.json`, { type: 'application/json' });
-                    console.log('[UPLOAD-TASK] ✅ Uncompressed file created:', file.name, file.size, 'bytes');
-                }
-            } catch (compressionError: any) {
-                console.error('[UPLOAD-TASK] ❌ Compression failed, using uncompressed:', compressionError);
-                console.error('[UPLOAD-TASK] 📋 Compression error details:', {
-                    name: compressionError.name,
-                    message: compressionError.message,
-                    stack: compressionError.stack,
-                });
-                // Fallback to uncompressed
-                const blob = new Blob([jsonString], { type: 'application/json' });
-                file = new File([blob], `${taskId}.json`, { type: 'application/json' });
-                console.log('[UPLOAD-TASK] ✅ Fallback uncompressed file created:', file.name, file.size, 'bytes');
-            }
-            
-            console.log('[UPLOAD-TASK] 📋 Final file details:', {
-                name: file.name,
-                type: file.type,
-                size: file.size,
-                sizeMB: (file.size / 1024 / 1024).toFixed(2),
-            });
-
-            // Check if file is still too large (PHP limit is typically 40MB)
-            const MAX_FILE_SIZE = 35 * 1024 * 1024; // 35MB (safety margin below 40MB PHP limit)
-            if (file.size > MAX_FILE_SIZE) {
-                console.warn('[UPLOAD] ⚠️ File still too large after compression:', file.size, 'bytes');
-                console.log('[UPLOAD] 📸 Removing screenshots and webcam photos to reduce size...');
-                
-                // Create a version without screenshots/webcam photos
-                const dataWithoutMedia = {
-                    ...formattedData,
-                    trackingData: {
-                        ...formattedData.trackingData,
-                        screenshots: [], // Remove screenshots
-                        webcamPhotos: [], // Remove webcam photos
-                        summary: {
-                            ...formattedData.trackingData.summary,
-                            // Keep counts for reference
-                            totalScreenshots: formattedData.trackingData.screenshots.length,
-                            totalWebcamPhotos: formattedData.trackingData.webcamPhotos.length,
-                        }
-                    }
-                };
-                
-                const jsonStringNoMedia = JSON.stringify(dataWithoutMedia);
-                const sizeNoMedia = new Blob([jsonStringNoMedia]).size;
-                console.log('[UPLOAD] 📄 Size without media:', sizeNoMedia, 'bytes (', (sizeNoMedia / 1024 / 1024).toFixed(2), 'MB)');
-                
-                // Try compressing the version without media
-                try {
-                    if (typeof CompressionStream !== 'undefined') {
-                        const stream = new CompressionStream('gzip');
-                        const writer = stream.writable.getWriter();
-                        const reader = stream.readable.getReader();
-                        
-                        const encoder = new TextEncoder();
-                        const jsonBytes = encoder.encode(jsonStringNoMedia);
-                        await writer.write(jsonBytes);
-                        await writer.close();
-                        
-                        const chunks: Uint8Array[] = [];
-                        let done = false;
-                        while (!done) {
-                            const { value, done: streamDone } = await reader.read();
-                            done = streamDone;
-                            if (value) {
-                                chunks.push(value);
-                            }
-                        }
-                        
-                        const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-                        const compressed = new Uint8Array(totalLength);
-                        let offset = 0;
-                        for (const chunk of chunks) {
-                            compressed.set(chunk, offset);
-                            offset += chunk.length;
-                        }
-                        
-                        const compressedBlob = new Blob([compressed], { type: 'application/gzip' });
-                        file = new File([compressedBlob], `${taskId}.json.gz`, { type: 'application/gzip' });
-                        console.log('[UPLOAD] ✅ Compressed size without media:', file.size, 'bytes (', (file.size / 1024 / 1024).toFixed(2), 'MB)');
-                    } else {
-                        const blob = new Blob([jsonStringNoMedia], { type: 'application/json' });
-                        file = new File([blob], `${taskId}.json`, { type: 'application/json' });
-                    }
-                } catch (error) {
-                    console.error('[UPLOAD] ❌ Failed to compress without media, using uncompressed:', error);
-                    const blob = new Blob([jsonStringNoMedia], { type: 'application/json' });
-                    file = new File([blob], `${taskId}.json`, { type: 'application/json' });
-                }
-                
-                if (file.size > MAX_FILE_SIZE) {
-                    console.error('[UPLOAD] ❌ File still too large even without media:', file.size, 'bytes');
-                    return { 
-                        success: false, 
-                        error: `File too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum allowed: ${(MAX_FILE_SIZE / 1024 / 1024).toFixed(2)}MB` 
-                    };
-                }
-            }
-
-            // Get workspace ID
-            console.log('[UPLOAD-TASK] 📋 Step 4: Preparing upload parameters...');
+            // Only what the server hasn't acknowledged yet goes up (items past the task's sync cursor and removals)
             const workspaceId = currentWorkspace?.workspace_id?.toString();
-            console.log('[UPLOAD-TASK] 📋 Upload parameters:', { 
-                projectId, 
-                taskId, 
-                workspaceId: workspaceId || 'not provided', 
-                fileSize: file.size,
-                fileSizeMB: (file.size / 1024 / 1024).toFixed(2),
-                originalSize: originalSize,
-                originalSizeMB: (originalSize / 1024 / 1024).toFixed(2),
-                compressionRatio: originalSize > 0 ? ((1 - file.size / originalSize) * 100).toFixed(1) + '%' : 'N/A',
-                fileName: file.name,
-                fileType: file.type,
-            });
-
-            // Upload using API
-            console.log(`[UPLOAD-TASK] 📋 Step 5: Calling apiService.uploadTrackingFile...`);
-            console.log(`[UPLOAD-TASK] 📋 Upload parameters:`, {
-                projectId,
-                taskId,
-                workspaceId: workspaceId || 'not provided',
-                fileSize: file.size,
-                fileName: file instanceof File ? file.name : 'blob',
-                fileType: file.type,
-            });
+            const result = await trackingSync.syncTask(projectId, taskId, workspaceId);
             
-            const response = await apiService.uploadTrackingFile(projectId, taskId, file, workspaceId);
-            
-            console.log(`[UPLOAD-TASK] 📋 API Response received:`, JSON.stringify(response, null, 2));
-            
-            if (response.success) {
-                const message = response.message || response.data?.message || 'Tracking data queued for processing';
-                console.log(`[UPLOAD-TASK] ✅ Successfully uploaded tracking file for task ${taskId}`);
-                console.log(`[UPLOAD-TASK] 📋 Response message: ${message}`);
-                console.log(`[UPLOAD-TASK] 📋 Response data:`, JSON.stringify(response.data, null, 2));
-                console.log(`[UPLOAD-TASK] ℹ️  Note: File is queued for background processing. Processing typically takes 5-30 seconds.`);
+            if (result.success) {
+                const message = result.upToDate
+                    ? 'Already up to date'
+                    : result.message || `${result.sent || 0} item(s) synced`;
+                console.log(`[UPLOAD-TASK] ✅ Synced task ${taskId}: ${result.upToDate ? 'already up to date' : `${result.sent || 0} item(s) in ${result.requests} request(s)${result.queued ? ', queued in the outbox' : ''}${result.partial ? ', partially accepted' : ''}`}`);
                 console.log(`[UPLOAD-TASK] ========================================`);
-                return { success: true, data: response.data, message };
+                return { success: true, data: result, message };
             } else {
-                console.error(`[UPLOAD-TASK] ❌ Failed to upload tracking file for task ${taskId}`);
-                console.error(`[UPLOAD-TASK] 📋 Error: ${response.error}`);
-                console.error(`[UPLOAD-TASK] 📋 Full response:`, JSON.stringify(response, null, 2));
+                console.error(`[UPLOAD-TASK] ❌ Failed to sync task ${taskId}: ${result.error}`);
                 console.log(`[UPLOAD-TASK] ========================================`);
-                return { success: false, error: response.error };
+                return { success: false, error: result.error };
             }
         } catch (error: any) {
             console.error(`[UPLOAD-TASK] ❌ Exception occurred while uploading task ${taskId}`);
@@ -707,6 +432,136 @@ const App: React.FC = () => {
         }
     };
 
+    // Pull today's tracking data for a task from the server and merge what other devices recorded
+    const mergeRemoteDeviceData = async (projectId: string, taskId: string, taskName: string) => {
+        if (!window.electronAPI?.mergeRemoteTrackingData) {
+            return;
+        }
+        try {
+            const today = new Date().toISOString().split('T')[0];
+            const response = await apiService.listTrackingData({
+                project_id: projectId,
+                task_id: taskId,
+                start_date: today,
+                end_date: today,
+            });
+            if (!response.success || !response.data?.length) {
+                return;
+            }
+            
+            const merged = await window.electronAPI.mergeRemoteTrackingData(projectId, taskId, response.data);
+            const openConflicts = merged.success ? merged.conflicts.filter(c => c.status === 'open') : [];
+            if (openConflicts.length > 0) {
+                console.log(`[DEVICE-MERGE] ⚠️ ${openConflicts.length} conflict(s) with other devices on task ${taskId}`);
+                setDeviceConflicts({ projectId, taskId, taskName, conflicts: openConflicts });
+            }
+        } catch (error: any) {
+            // Non-critical - local tracking data is unaffected
+            console.warn('[DEVICE-MERGE] Could not merge remote tracking data:', error.message);
+        }
+    };
+
+    const handleResolveDeviceConflict = async (conflictId: string, resolution: DeviceConflictResolution) => {
+        if (!deviceConflicts || !window.electronAPI?.resolveDeviceConflict) {
+            return;
+        }
+        const result = await window.electronAPI.resolveDeviceConflict(deviceConflicts.projectId, deviceConflicts.taskId, conflictId, resolution);
+        if (!result.success) {
+            console.error('[DEVICE-MERGE] Failed to resolve conflict:', result.error);
+            return;
+        }
+        const remaining = result.conflicts.filter(c => c.status === 'open');
+        setDeviceConflicts(remaining.length > 0 ? { ...deviceConflicts, conflicts: remaining } : null);
+    };
+
+    useEffect(() => {
+        if (!window.electronAPI?.getPendingCaptures) {
+            return;
+        }
+        window.electronAPI.getPendingCaptures().then(result => {
+            if (result.success) {
+                setPendingCaptures(result.captures);
+            }
+        });
+        window.electronAPI.onPendingCapturesUpdate(setPendingCaptures);
+        return () => {
+            window.electronAPI?.removePendingCapturesListener();
+        };
+    }, []);
+
+    // A screenshot deleted in review marks its interval as removed by the user
+    const handleCaptureRemoved = (activityLogId: string, deductedSeconds: number) => {
+        setActivityLogs(prev => prev.map(log => log.id === activityLogId
+            ? { ...log, screenshotRemovedByUser: true, deductedSeconds: Math.max(log.deductedSeconds || 0, deductedSeconds) }
+            : log));
+    };
+
+    // Intervals moved in the timeline editor: follow them here, then sync both task files
+    const handleActivityLogsMoved = async ({ audit, source, target }: ReattributionResult) => {
+        const movedIds = new Set(audit.activityLogIds);
+        setActivityLogs(prev => prev.map(log => movedIds.has(log.id)
+            ? { ...log, projectId: target.projectId, taskId: target.taskId, reattributedFrom: { ...audit.from, at: audit.movedAt, auditId: audit.id, movedBy: audit.movedBy, reason: audit.reason } }
+            : log));
+        setTaskAccumulatedTime(prev => ({
+            ...prev,
+            [source.taskId]: source.totalTime,
+            [target.taskId]: target.totalTime
+        }));
+
+        await uploadTrackingFileForTask(source.projectId, source.taskId);
+        await uploadTrackingFileForTask(target.projectId, target.taskId);
+    };
+
+    // Send manual time the server has not seen yet, then pick up review decisions on pending entries
+    const syncManualTimeEntries = useCallback(async () => {
+        const api = window.electronAPI;
+        if (!api?.getManualTimeEntries) return;
+        try {
+            const loaded = await api.getManualTimeEntries();
+            if (!loaded.success) return;
+            const updates: ManualTimeEntryUpdate[] = [];
+            if (authState.isAuthenticated()) {
+                for (const entry of loaded.entries.filter(e => e.status === 'pending' && !e.submittedAt)) {
+                    const result = await apiService.submitManualTimeEntry(entry);
+                    if (result.success) {
+                        updates.push({ id: entry.id, submittedAt: new Date().toISOString() });
+                    } else {
+                        console.error('[MANUAL-TIME] Failed to submit manual time:', result.error);
+                    }
+                }
+                const awaitingReview = loaded.entries.filter(e => e.status === 'pending' && (e.submittedAt || updates.some(u => u.id === e.id)));
+                if (awaitingReview.length > 0) {
+                    const statuses = await apiService.getManualTimeEntryStatuses(awaitingReview.map(e => e.id), currentWorkspace?.workspace_id?.toString());
+                    if (statuses.success && statuses.data) {
+                        updates.push(...statuses.data);
+                    }
+                }
+            }
+            const changed = updates.length > 0 ? (await api.updateManualTimeEntries(updates)).changed : 0;
+            setManualTimeEntries(changed > 0 ? (await api.getManualTimeEntries()).entries : loaded.entries);
+        } catch (error) {
+            console.error('[MANUAL-TIME] Failed to sync manual time:', error);
+        }
+    }, [currentWorkspace?.workspace_id]);
+
+    useEffect(() => {
+        if (!authStateData.isAuthenticated) return;
+        syncManualTimeEntries();
+        const interval = setInterval(syncManualTimeEntries, MANUAL_TIME_POLL_MS);
+        return () => clearInterval(interval);
+    }, [authStateData.isAuthenticated, syncManualTimeEntries]);
+
+    // A withdrawn entry the server already has is withdrawn there too
+    const handleManualTimeWithdrawn = async (entry: ManualTimeEntry) => {
+        setManualTimeEntries(prev => prev.filter(e => e.id !== entry.id));
+        if (entry.submittedAt) {
+            const result = await apiService.withdrawManualTimeEntry(entry.id);
+            if (!result.success) {
+                console.error('[MANUAL-TIME] Failed to withdraw manual time on the server:', result.error);
+            }
+        }
+    };
+
     // Upload all today's tracking files (memoized with useCallback to prevent useEffect re-runs)
     const uploadAllTrackingFiles = useCallback(async (showStatus: boolean = false) => {
         // CRITICAL: Log immediately to verify function is called
@@ -826,6 +681,7 @@ const App: React.FC = () => {
                     if (result.success) {
                         successCount++;
                         console.log(`[UPLOAD] ✅ Task ${task.taskId} uploaded successfully!`);
+                        await mergeRemoteDeviceData(task.projectId, task.taskId, task.taskName);
                         console.log(`[UPLOAD] 📋 Response message: ${result.message || 'No message'}`);
                     } else {
                         errorCount++;
@@ -1745,6 +1601,7 @@ const App: React.FC = () => {
                 try {
                     const savedSettings = await window.electronAPI.getSettings();
                     setSettings(savedSettings);
+                    classificationRules.setUserRules(savedSettings?.classificationRules);
                 } catch (error) {
                     console.error('Error loading settings:', error);
                 }
@@ -1753,6 +1610,29 @@ const App: React.FC = () => {
         loadSettings();
     }, []);
 
+    // Save a rule chosen in the classification explainer - replaces the user rule with the same id, otherwise adds it
+    const handleClassificationOverride = async (rule: ClassificationRule) => {
+        if (!window.electronAPI?.getSettings) return;
+        const savedSettings = await window.electronAPI.getSettings();
+        const rules = savedSettings?.classificationRules || [];
+        const nextRules = rules.some(r => r.id === rule.id)
+            ? rules.map(r => r.id === rule.id ? rule : r)
+            : [...rules, rule];
+        const nextSettings = { ...savedSettings, classificationRules: nextRules };
+        await window.electronAPI.setSettings(nextSettings);
+        setSettings(nextSettings);
+        classificationRules.setUserRules(nextRules);
+        console.log(`[CLASSIFICATION] ${rules.length === nextRules.length ? 'Updated' : 'Added'} rule ${rule.id} from the explainer (${rule.category})`);
+    };
+
+    // Organization classification policy for the current workspace
+    useEffect(() => {
+        if (!authStateData.isAuthenticated) return;
+        classificationRules.loadPolicy(currentWorkspace?.workspace_id?.toString()).catch((error) => {
+            console.error('[CLASSIFICATION] Failed to load the organization policy:', error);
+        });
+    }, [authStateData.isAuthenticated, currentWorkspace?.workspace_id]);
+
     // Fetch today's tasks and restore last active task on app startup
     useEffect(() => {
         const fetchTodayTasksAndRestore = async () => {
@@ -2222,6 +2102,97 @@ const App: React.FC = () => {
         };
     }, [isTimerRunning, startTime, selectedTaskId, selectedProjectId, taskAccumulatedTime]);
 
+    // Ask for a task suggestion every minute while the timer runs
+    useEffect(() => {
+        if (!isTimerRunning || userStatus !== 'working' || !selectedTaskId || !window.electronAPI?.getTaskSuggestion) {
+            setTaskSuggestion(null);
+            return;
+        }
+        const candidates = tasks
+            .filter(t => !t.completed)
+            .map(t => ({ id: t.id, projectId: t.projectId, name: t.name }));
+        if (candidates.length < 2) return;
+
+        const checkSuggestion = async () => {
+            try {
+                const result = await window.electronAPI!.getTaskSuggestion(candidates);
+                const suggestion = result.success ? result.suggestion : null;
+                const dismissedUntil = suggestion ? dismissedSuggestionsRef.current.get(`${suggestion.projectId}/${suggestion.taskId}`) || 0 : 0;
+                setTaskSuggestion(suggestion && dismissedUntil < Date.now() ? suggestion : null);
+            } catch (error) {
+                console.error('[TASK-SUGGEST] Failed to get a task suggestion:', error);
+            }
+        };
+        checkSuggestion();
+        const interval = setInterval(checkSuggestion, TASK_SUGGESTION_POLL_MS);
+        return () => clearInterval(interval);
+    }, [isTimerRunning, userStatus, selectedTaskId, selectedProjectId, tasks]);
+
+    const dismissTaskSuggestion = () => {
+        if (taskSuggestion) {
+            dismissedSuggestionsRef.current.set(`${taskSuggestion.projectId}/${taskSuggestion.taskId}`, Date.now() + TASK_SUGGESTION_SNOOZE_MS);
+        }
+        setTaskSuggestion(null);
+    };
+
+    // Move the running timer to another task: the current session is closed on the old task and a new
+    // one starts now. useSurveillance hands main-process tracking over (update-task-tracking) once the
+    // selected task changes.
+    const switchRunningTask = (task: Task) => {
+        if (!isTimerRunning || task.id === selectedTaskId) return;
+        const now = Date.now();
+        const sessionSeconds = startTime ? Math.floor((now - startTime) / 1000) : 0;
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        const previousTaskId = selectedTaskId;
+        const previousTask = tasks.find(t => t.id === previousTaskId);
+        const nextAccumulated = { ...taskAccumulatedTime };
+        if (previousTaskId) {
+            nextAccumulated[previousTaskId] = (nextAccumulated[previousTaskId] || 0) + sessionSeconds;
+        }
+        setTaskAccumulatedTime(nextAccumulated);
+
+        setTimeEntries(prev => {
+            const entries = [...prev];
+            const openIndex = entries.findIndex(e => e.startTime >= today && e.taskId === previousTaskId && !e.endTime);
+            const closed: TimeEntry = {
+                id: now.toString(),
+                description: previousTask?.name || description || '(No description)',
+                projectId: selectedProjectId || '4',
+                taskId: previousTaskId || undefined,
+                startTime: new Date(startTime || now),
+                endTime: new Date(now),
+                duration: sessionSeconds
+            };
+            if (openIndex !== -1) {
+                entries[openIndex] = { ...entries[openIndex], ...closed, description: entries[openIndex].description };
+            } else {
+                entries.unshift(closed);
+            }
+            if (!entries.some(e => e.startTime >= today && e.taskId === task.id)) {
+                entries.unshift({
+                    id: `temp-${now}`,
+                    description: task.name,
+                    projectId: task.projectId,
+                    taskId: task.id,
+                    startTime: new Date(now),
+                    endTime: undefined,
+                    duration: 0
+                });
+            }
+            return entries;
+        });
+
+        console.log(`[TASK-SUGGEST] Switching running timer from task ${previousTaskId} to ${task.id}`);
+        setSelectedProjectId(task.projectId);
+        setSelectedTaskId(task.id);
+        setDescription(task.name);
+        setElapsedSeconds(nextAccumulated[task.id] || 0);
+        setStartTime(now);
+        setTaskSuggestion(null);
+    };
+
     // Check if we're in dev mode (check for localhost or development indicators)
     const isDevMode = window.location.hostname === 'localhost' || 
                       window.location.hostname === '127.0.0.1' ||
@@ -2423,6 +2394,8 @@ const App: React.FC = () => {
                 const captureMedia = async () => {
                     const screenshots: string[] = [];
                     let webcamPhoto: string | null = null;
+                    let screenChange: ScreenChange | null = null;
+                    let suppressedRuleId: string | null = null;
                     let tempCameraStream: MediaStream | null = null;
                     
                     try {
@@ -2720,7 +2693,7 @@ const App: React.FC = () => {
                                     try {
                                         console.log(`📸 Attempting to capture screenshot ${i + 1}/${screenshotCount}...`);
                                         const shouldBlur = settings?.enableScreenshotBlur || false;
-                                        const screenshotResult = await window.electronAPI.captureScreenshot(shouldBlur);
+                                        const screenshotResult = await window.electronAPI.captureScreenshot(shouldBlur, latestLog.id);
                                         console.log(`📸 Screenshot ${i + 1} IPC call completed, result type:`, typeof screenshotResult);
                                         
                                         // Handle null, old format (string), and new format (object with dataUrl and fileUrl)
@@ -2729,18 +2702,36 @@ const App: React.FC = () => {
                                         } else {
                                             let fileUrl: string | null = null;
                                             let dataUrl: string | null = null;
+                                            let fileUrls: string[] = [];
+                                            let pendingReview = false;
                                             
                                             if (typeof screenshotResult === 'string') {
                                                 // Old format: just dataUrl string
                                                 dataUrl = screenshotResult;
                                             } else if (screenshotResult && typeof screenshotResult === 'object') {
-                                                // New format: object with dataUrl and fileUrl
-                                                const resultObj = screenshotResult as { dataUrl?: string; fileUrl?: string };
+                                                // New format: object with dataUrl and fileUrl (plus fileUrls when each display is stored separately)
+                                                const resultObj = screenshotResult as { dataUrl?: string; fileUrl?: string; fileUrls?: string[]; pendingReview?: boolean; screenChange?: ScreenChange; suppressed?: boolean; suppressedRuleId?: string };
                                                 dataUrl = resultObj.dataUrl || null;
                                                 fileUrl = resultObj.fileUrl || null;
+                                                fileUrls = resultObj.fileUrls || [];
+                                                pendingReview = !!resultObj.pendingReview;
+                                                screenChange = resultObj.screenChange || null;
+                                                if (resultObj.suppressed) {
+                                                    suppressedRuleId = resultObj.suppressedRuleId || '';
+                                                }
                                             }
                                             
-                                            if (fileUrl) {
+                                            if (suppressedRuleId !== null) {
+                                                console.log(`Screenshot ${i + 1} suppressed for privacy (exclusion rule ${suppressedRuleId})`);
+                                            } else if (screenChange?.skipped) {
+                                                console.log(`Screenshot ${i + 1} skipped - screen unchanged (${screenChange.changePercent}% different from the previous one)`);
+                                            } else if (pendingReview) {
+                                                // Uploaded from the outbox once the review window passes - the URL isn't known yet
+                                                console.log(`Screenshot ${i + 1} held locally for review before upload`);
+                                            } else if (fileUrls.length > 1) {
+                                                screenshots.push(...fileUrls);
+                                                console.log(`Screenshot ${i + 1} captured ${fileUrls.length} displays and uploaded successfully`);
+                                            } else if (fileUrl) {
                                                 // Use fileUrl from server (preferred)
                                                 screenshots.push(fileUrl);
                                                 console.log(`Screenshot ${i + 1} captured and uploaded successfully, fileUrl: ${fileUrl.substring(0, 80)}...`);
@@ -3000,9 +2991,41 @@ const App: React.FC = () => {
                         }
                     }
                     
+                    // Capture results that belong on the log itself: a privacy suppression is kept as a marker,
+                    // an unchanged screen lowers the activity part of the composite score (rescored here).
+                    // The log is sent again so the stored copy carries the same fields
+                    let logUpdates: Partial<ActivityLog> = {};
+                    if (suppressedRuleId !== null) {
+                        logUpdates = {
+                            screenshotSuppressed: true,
+                            screenshotSuppressedRuleId: suppressedRuleId || undefined
+                        };
+                    } else if (screenChange?.unchanged) {
+                        const rescoredLog: ActivityLog = {
+                            ...latestLog,
+                            screenUnchanged: true,
+                            screenChangePercent: screenChange.changePercent ?? undefined
+                        };
+                        const compositeResult = compositeScoreCalculator.calculateCompositeScore(rescoredLog);
+                        logUpdates = {
+                            screenUnchanged: true,
+                            screenChangePercent: rescoredLog.screenChangePercent,
+                            compositeScore: compositeResult.score,
+                            scoreBreakdown: compositeResult.breakdown,
+                            scoreClassification: compositeResult.classification
+                        };
+                        console.log(`Screen unchanged for log ${latestLog.id}, composite score ${latestLog.compositeScore} -> ${compositeResult.score}`);
+                    }
+                    const hasLogUpdates = Object.keys(logUpdates).length > 0;
+                    if (hasLogUpdates && latestLog.taskId === selectedTaskId && latestLog.projectId === selectedProjectId) {
+                        window.electronAPI?.addActivityLogToTask({ ...latestLog, ...logUpdates }).catch(err => {
+                            console.error('Failed to save capture metadata to activity log:', err);
+                        });
+                    }
+                    
                     // Update the log with captured media (APPEND screenshots, don't replace)
                     // IMPORTANT: Only update logs that belong to the current task
-                    if (screenshots.length > 0 || webcamPhoto) {
+                    if (screenshots.length > 0 || webcamPhoto || hasLogUpdates) {
                         setActivityLogs(prev => {
                             const newLogs = [...prev];
                             // Find log by ID AND verify it belongs to current task
@@ -3015,6 +3038,10 @@ const App: React.FC = () => {
                                 const existingLog = newLogs[logIndex];
                                 const updates: Partial<ActivityLog> = {};
                                 
+                                if (hasLogUpdates) {
+                                    Object.assign(updates, logUpdates);
+                                }
+                                
                                 if (screenshots.length > 0) {
                                     // APPEND new screenshots to existing ones (don't replace)
                                     const existingScreenshots = existingLog.screenshotUrls || (existingLog.screenshotUrl ? [existingLog.screenshotUrl] : []);
@@ -3421,6 +3448,20 @@ const App: React.FC = () => {
         );
     }
 
+    // Show device conflict dialog if the same task was tracked on two machines at once
+    if (deviceConflicts) {
+        return (
+            <div className="min-h-screen flex flex-col bg-gray-950 font-sans">
+                <DeviceConflictDialog
+                    taskName={deviceConflicts.taskName}
+                    conflicts={deviceConflicts.conflicts}
+                    onResolve={handleResolveDeviceConflict}
+                    onDismiss={() => setDeviceConflicts(null)}
+                />
+            </div>
+        );
+    }
+
     // OAuth login handler
     const handleOAuthLogin = async () => {
         // CRITICAL: Don't start OAuth if already authenticated
@@ -4193,6 +4234,8 @@ const App: React.FC = () => {
                         logs={activityLogs}
                         projects={projects}
                         tasks={tasks}
+                        manualEntries={manualTimeEntries}
+                        onOverrideClassification={handleClassificationOverride}
                         onClose={() => {
                             setView(AppView.DASHBOARD);
                             setInsightsTaskFilter(undefined);
@@ -4233,6 +4276,67 @@ const App: React.FC = () => {
         );
     }
 
+    if (view === AppView.CAPTURE_REVIEW) {
+        return (
+            <div className="min-h-screen bg-gray-950 flex flex-col font-sans">
+                <TitleBar />
+                <div className="flex-1 flex justify-center">
+                    {hiddenElements}
+                    <div className="w-full max-w-7xl bg-gray-900 shadow-2xl overflow-hidden flex flex-col border-x border-gray-800 mx-auto">
+                    <CaptureReview
+                        pendingCaptures={pendingCaptures}
+                        deletionPolicy={settings?.reviewDeletionPolicy || 'deduct-interval'}
+                        onClose={() => setView(AppView.DASHBOARD)}
+                        onCaptureRemoved={handleCaptureRemoved}
+                    />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (view === AppView.TIMELINE_EDITOR) {
+        return (
+            <div className="min-h-screen bg-gray-950 flex flex-col font-sans">
+                <TitleBar />
+                <div className="flex-1 flex justify-center">
+                    {hiddenElements}
+                    <div className="w-full max-w-7xl bg-gray-900 shadow-2xl overflow-hidden flex flex-col border-x border-gray-800 mx-auto">
+                    <TimelineEditor
+                        projects={projects}
+                        tasks={tasks}
+                        runningTask={isTimerRunning && selectedTaskId ? { projectId: selectedProjectId, taskId: selectedTaskId } : null}
+                        onClose={() => setView(AppView.DASHBOARD)}
+                        onMoved={handleActivityLogsMoved}
+                    />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (view === AppView.MANUAL_TIME) {
+        return (
+            <div className="min-h-screen bg-gray-950 flex flex-col font-sans">
+                <TitleBar />
+                <div className="flex-1 flex justify-center">
+                    {hiddenElements}
+                    <div className="w-full max-w-7xl bg-gray-900 shadow-2xl overflow-hidden flex flex-col border-x border-gray-800 mx-auto">
+                    <ManualTimeEntries
+                        projects={projects}
+                        tasks={tasks}
+                        entries={manualTimeEntries}
+                        workspaceId={currentWorkspace?.workspace_id?.toString()}
+                        onClose={() => setView(AppView.DASHBOARD)}
+                        onAdded={() => syncManualTimeEntries()}
+                        onWithdrawn={handleManualTimeWithdrawn}
+                    />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     if (view === AppView.SETTINGS) {
         return (
             <div className="min-h-screen bg-gray-950 flex flex-col font-sans">
@@ -4591,6 +4695,41 @@ const App: React.FC = () => {
                              {activityLogs.length > 0 && <span className="absolute top-0 right-0 w-1.5 h-1.5 sm:w-2 sm:h-2 bg-red-500 rounded-full"></span>}
                         </button>
                         
+                        {/* Timeline Editor Button - move intervals tracked on the wrong task */}
+                        <button 
+                            onClick={() => setView(AppView.TIMELINE_EDITOR)}
+                            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 flex items-center justify-center transition-colors"
+                            title="Edit Timeline"
+                        >
+                            <i className="fas fa-exchange-alt text-[10px] sm:text-xs"></i>
+                        </button>
+                        
+                        {/* Manual Time Button - time away from the computer, sent for approval */}
+                        <button 
+                            onClick={() => setView(AppView.MANUAL_TIME)}
+                            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 flex items-center justify-center transition-colors relative"
+                            title="Manual Time"
+                        >
+                            <i className="fas fa-user-clock text-[10px] sm:text-xs"></i>
+                            {manualTimeEntries.some(e => e.status === 'pending') && (
+                                <span className="absolute -top-1 -right-1 min-w-[14px] h-3.5 px-0.5 bg-yellow-500 text-white text-[9px] leading-[14px] rounded-full text-center">{manualTimeEntries.filter(e => e.status === 'pending').length}</span>
+                            )}
+                        </button>
+                        
+                        {/* Review Before Upload Button - only while the mode is on or captures are still pending */}
+                        {(settings?.reviewBeforeUpload || pendingCaptures.length > 0) && (
+                            <button 
+                                onClick={() => setView(AppView.CAPTURE_REVIEW)}
+                                className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 flex items-center justify-center transition-colors relative"
+                                title="Review Screenshots"
+                            >
+                                <i className="fas fa-user-shield text-[10px] sm:text-xs"></i>
+                                {pendingCaptures.length > 0 && (
+                                    <span className="absolute -top-1 -right-1 min-w-[14px] h-3.5 px-0.5 bg-red-500 text-white text-[9px] leading-[14px] rounded-full text-center">{pendingCaptures.length}</span>
+                                )}
+                            </button>
+                        )}
+                        
                         {/* Settings Button - Fourth */}
                         <button 
                             onClick={() => setView(AppView.SETTINGS)}
@@ -5099,6 +5238,45 @@ const App: React.FC = () => {
                                     </div>
                                 </div>
                                 
+                                {isTimerRunning && taskSuggestion && (() => {
+                                    const suggestedTask = tasks.find(t => t.id === taskSuggestion.taskId && t.projectId === taskSuggestion.projectId);
+                                    if (!suggestedTask) return null;
+                                    const suggestedProject = projects.find(p => p.id === suggestedTask.projectId);
+                                    return (
+                                        <div className="mb-3 p-2.5 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                                            <div className="flex items-start gap-2">
+                                                <i className="fas fa-lightbulb text-amber-400 text-xs mt-0.5"></i>
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-amber-300 text-xs">Working on something else?</p>
+                                                    <p className="text-white text-xs font-medium truncate">
+                                                        {suggestedTask.name}
+                                                        {suggestedProject && <span className="text-gray-400 font-normal"> · {suggestedProject.name}</span>}
+                                                    </p>
+                                                    {taskSuggestion.reasons.length > 0 && (
+                                                        <p className="text-gray-500 text-[10px] truncate">
+                                                            Based on {taskSuggestion.reasons.map(r => r.value).join(', ')}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            <div className="flex justify-end gap-2 mt-2">
+                                                <button
+                                                    onClick={dismissTaskSuggestion}
+                                                    className="px-2 py-1 text-[10px] sm:text-xs text-gray-400 hover:text-white transition-colors"
+                                                >
+                                                    Dismiss
+                                                </button>
+                                                <button
+                                                    onClick={() => switchRunningTask(suggestedTask)}
+                                                    className="px-2 py-1 text-[10px] sm:text-xs rounded bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 transition-colors"
+                                                >
+                                                    <i className="fas fa-exchange-alt mr-1"></i>Switch
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })()}
+                                
                                 {!isTimerRunning && selectedTaskId && (() => {
                                     const accumulated = taskAccumulatedTime[selectedTaskId] || 0;
                                     return accumulated > 0;
@@ -0,0 +1,86 @@
+// Pushes the active tab to the desktop app's bridge (ws://127.0.0.1:<port>/bridge).
+// Nothing is sent until the pairing token from the app's Settings is saved in the options page.
+const DEFAULT_PORT = 17345;
+const HEARTBEAT_MS = 20000; // The app treats a tab as stale after 90s; also keeps the service worker awake
+
+let socket = null;
+let paired = false;
+
+const detectBrowser = () => {
+  const agent = navigator.userAgent;
+  if (agent.includes('Firefox/')) return 'Firefox';
+  if (agent.includes('Edg/')) return 'Edge';
+  if (agent.includes('OPR/')) return 'Opera';
+  if (navigator.brave) return 'Brave';
+  return 'Chrome';
+};
+
+const setStatus = (status) => chrome.storage.local.set({ status, statusAt: Date.now() });
+
+const connect = async () => {
+  if (socket && socket.readyState <= WebSocket.OPEN) return;
+  const { token, port } = await chrome.storage.local.get(['token', 'port']);
+  if (!token) return;
+
+  const ws = new WebSocket(`ws://127.0.0.1:${port || DEFAULT_PORT}/bridge`);
+  socket = ws;
+  ws.onopen = () => {
+    ws.send(JSON.stringify({ type: 'hello', token, browser: detectBrowser(), version: chrome.runtime.getManifest().version }));
+  };
+  ws.onmessage = (event) => {
+    let message;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'paired') {
+      paired = true;
+      setStatus('paired');
+      sendActiveTab();
+    } else if (message.type === 'error') {
+      setStatus(message.error);
+    }
+  };
+  ws.onclose = () => {
+    if (socket === ws) {
+      socket = null;
+      paired = false;
+    }
+  };
+  ws.onerror = () => setStatus('unreachable');
+};
+
+const sendActiveTab = async () => {
+  if (!socket || !paired || socket.readyState !== WebSocket.OPEN) return;
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  if (!tab) return;
+  socket.send(JSON.stringify({
+    type: 'tab',
+    url: tab.incognito ? null : (tab.url || null),
+    title: tab.title || '',
+    incognito: !!tab.incognito
+  }));
+};
+
+chrome.tabs.onActivated.addListener(sendActiveTab);
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (tab.active && (changeInfo.url || changeInfo.title)) sendActiveTab();
+});
+chrome.windows.onFocusChanged.addListener(sendActiveTab);
+
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.token || changes.port) {
+    socket?.close();
+    socket = null;
+    paired = false;
+    connect();
+  }
+});
+
+// Reconnect after the app restarts or the service worker was unloaded
+chrome.alarms.create('tyrodesk-bridge', { periodInMinutes: 0.5 });
+chrome.alarms.onAlarm.addListener(() => connect());
+setInterval(sendActiveTab, HEARTBEAT_MS);
+
+connect();
@@ -0,0 +1,33 @@
+const STATUS_LABELS = {
+  paired: 'Paired with Tyrodesk Tracker',
+  'invalid-token': 'The app rejected this token - copy it again from Settings',
+  unreachable: 'Tyrodesk Tracker is not running, or the browser extension bridge is off'
+};
+
+const tokenInput = document.getElementById('token');
+const portInput = document.getElementById('port');
+const statusLine = document.getElementById('status');
+
+const showStatus = ({ status }) => {
+  statusLine.textContent = STATUS_LABELS[status] || '';
+};
+
+chrome.storage.local.get(['token', 'port', 'status']).then(({ token, port, status }) => {
+  tokenInput.value = token || '';
+  portInput.value = port || '';
+  showStatus({ status });
+});
+
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.status) showStatus({ status: changes.status.newValue });
+});
+
+document.getElementById('save').addEventListener('click', () => {
+  const port = parseInt(portInput.value, 10);
+  chrome.storage.local.set({
+    token: tokenInput.value.trim(),
+    port: port >= 1024 && port <= 65535 ? port : null,
+    status: null
+  });
+  statusLine.textContent = 'Connecting...';
+});
@@ -0,0 +1,157 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import type { PendingCapture, PendingCaptureImage } from '../types/electron';
+
+type ReviewCapture = PendingCapture & { images: PendingCaptureImage[] };
+
+interface CaptureReviewProps {
+    pendingCaptures: PendingCapture[]; // Kept current by the app's pending-captures listener
+    deletionPolicy: 'deduct-interval' | 'keep-time';
+    onClose: () => void;
+    onCaptureRemoved: (activityLogId: string, deductedSeconds: number) => void;
+}
+
+export const CaptureReview: React.FC<CaptureReviewProps> = ({ pendingCaptures, deletionPolicy, onClose, onCaptureRemoved }) => {
+    const [captures, setCaptures] = useState<ReviewCapture[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    const loadCaptures = useCallback(async () => {
+        if (!window.electronAPI?.getPendingCaptures) {
+            setLoading(false);
+            return;
+        }
+        const result = await window.electronAPI.getPendingCaptures();
+        if (result.success) {
+            setCaptures(result.captures.sort((a, b) => b.capturedAt - a.capturedAt));
+        } else {
+            setError(result.error || 'Failed to load captures');
+        }
+        setLoading(false);
+    }, []);
+
+    // Reload previews whenever a capture is added or released
+    const pendingKey = pendingCaptures.map(capture => capture.id).join(',');
+    useEffect(() => {
+        loadCaptures();
+    }, [loadCaptures, pendingKey]);
+
+    useEffect(() => {
+        const ticker = setInterval(() => setNow(Date.now()), 15000);
+        return () => clearInterval(ticker);
+    }, []);
+
+    const handleKeep = async (captureId: string) => {
+        if (!window.electronAPI?.keepPendingCapture) return;
+        setBusyId(captureId);
+        setError(null);
+        const result = await window.electronAPI.keepPendingCapture(captureId);
+        if (result.success) {
+            setCaptures(prev => prev.filter(capture => capture.id !== captureId));
+        } else {
+            setError(result.error || 'Failed to upload capture');
+        }
+        setBusyId(null);
+    };
+
+    const handleDelete = async (captureId: string) => {
+        if (!window.electronAPI?.deletePendingCapture) return;
+        setBusyId(captureId);
+        setError(null);
+        const result = await window.electronAPI.deletePendingCapture(captureId);
+        if (result.success) {
+            setCaptures(prev => prev.filter(capture => capture.id !== captureId));
+            if (result.activityLogId) {
+                onCaptureRemoved(result.activityLogId, result.deductedSeconds || 0);
+            }
+        } else {
+            setError(result.error || 'Failed to delete capture');
+        }
+        setBusyId(null);
+    };
+
+    const formatRemaining = (releaseAt: number) => {
+        const minutes = Math.ceil((releaseAt - now) / 60000);
+        return minutes <= 0 ? 'Uploading now' : `Uploads in ${minutes}m`;
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-gray-900 text-white">
+            <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+                <div>
+                    <h2 className="font-semibold text-lg flex items-center">
+                        <i className="fas fa-user-shield text-blue-400 mr-2"></i>
+                        Review Screenshots
+                    </h2>
+                    <p className="text-xs text-gray-400 mt-1">
+                        {deletionPolicy === 'deduct-interval'
+                            ? 'Deleted screenshots are logged as removed by you and their interval is deducted from tracked time'
+                            : 'Deleted screenshots are logged as removed by you; tracked time is not changed'}
+                    </p>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-white">
+                    <i className="fas fa-times"></i>
+                </button>
+            </div>
+
+            {error && (
+                <div className="mx-4 mt-3 bg-red-900/30 border border-red-800 text-red-300 text-xs rounded-lg px-3 py-2">{error}</div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-4">
+                {loading ? (
+                    <p className="text-xs text-gray-500 text-center mt-10">Loading captures...</p>
+                ) : captures.length === 0 ? (
+                    <div className="text-center text-gray-500 mt-10">
+                        <i className="fas fa-check-circle text-4xl mb-2"></i>
+                        <p className="text-sm">Nothing waiting for review</p>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {captures.map(capture => (
+                            <div key={capture.id} className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700">
+                                <div className={`grid gap-px bg-black ${capture.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                                    {capture.images.map(image => (
+                                        <div key={image.recordId} className="relative aspect-video bg-black">
+                                            {image.dataUrl ? (
+                                                <img src={image.dataUrl} alt="Pending screenshot" className="h-full w-full object-contain" />
+                                            ) : (
+                                                <div className="h-full flex items-center justify-center text-xs text-gray-500">Preview unavailable</div>
+                                            )}
+                                            {image.display && capture.images.length > 1 && (
+                                                <span className="absolute top-1 left-1 text-[10px] bg-black/60 px-1.5 py-0.5 rounded">{image.display.name}</span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="p-3 space-y-2">
+                                    <div className="flex justify-between text-xs">
+                                        <span className="text-white">{new Date(capture.capturedAt).toLocaleTimeString()}</span>
+                                        <span className="text-gray-400">{formatRemaining(capture.releaseAt)}</span>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleKeep(capture.id)}
+                                            disabled={busyId === capture.id}
+                                            className="flex-1 py-1.5 px-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded text-xs font-semibold transition-colors"
+                                        >
+                                            <i className="fas fa-upload mr-1"></i> Keep
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(capture.id)}
+                                            disabled={busyId === capture.id}
+                                            className="flex-1 py-1.5 px-2 bg-gray-700 hover:bg-red-600 disabled:opacity-50 text-white rounded text-xs font-semibold transition-colors"
+                                        >
+                                            <i className="fas fa-trash mr-1"></i> Delete
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
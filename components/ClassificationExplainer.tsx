@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityLog, ClassificationRule, ProductivityCategory } from '../types';
+import { ActivityCategory, ClassificationLayer, ClassificationScope, RuleOutcome, getDefaultActivity } from '../config/appClassifications';
+import { appClassifier } from '../services/appClassifier';
+import { urlClassifier } from '../services/urlClassifier';
+import { classificationRules, validateClassificationRule } from '../services/classificationRules';
+import { compositeScoreCalculator } from '../services/compositeScoreCalculator';
+
+interface ClassificationExplainerProps {
+    log: ActivityLog;
+    onClose: () => void;
+    onOverride: (rule: ClassificationRule) => Promise<void>;
+}
+
+// One row in the rule list, app or URL
+type EvaluatedRule = {
+    key: string;
+    kind: ClassificationRule['kind'];
+    layer: ClassificationLayer;
+    outcome: RuleOutcome;
+    pattern: string;
+    detail?: string;
+    category: ProductivityCategory;
+    weight?: number;
+    activity: ActivityCategory;
+    scope?: ClassificationScope;
+    sourceId?: string;
+};
+
+const CATEGORIES: ProductivityCategory[] = ['productive', 'neutral', 'unproductive'];
+
+const CATEGORY_STYLES: Record<ProductivityCategory, string> = {
+    productive: 'text-green-300 bg-green-900/30',
+    neutral: 'text-gray-300 bg-gray-700',
+    unproductive: 'text-red-300 bg-red-900/30'
+};
+
+const LAYER_LABELS: Record<ClassificationLayer, string> = {
+    user: 'Your rule',
+    policy: 'Organization policy',
+    default: 'Default'
+};
+
+const OUTCOME_STYLES: Record<RuleOutcome, { label: string; className: string; icon: string }> = {
+    matched: { label: 'Matched', className: 'text-green-300', icon: 'fa-check-circle' },
+    pattern_mismatch: { label: 'Title / path did not match', className: 'text-gray-500', icon: 'fa-not-equal' },
+    out_of_scope: { label: 'Not in scope', className: 'text-gray-500', icon: 'fa-user-slash' },
+    outranked: { label: 'Outranked', className: 'text-yellow-400', icon: 'fa-level-down-alt' }
+};
+
+// Rules are compiled to regexes; show "^github\.com$" as github.com and anything else as "/source/"
+const patternToText = (pattern: string | RegExp): string => {
+    if (typeof pattern === 'string') return pattern;
+    const exact = /^\^((?:[\w-]|\\\.)+)\$$/.exec(pattern.source);
+    return exact ? exact[1].replace(/\\\./g, '.') : `/${pattern.source}/`;
+};
+
+const describeScope = (scope?: ClassificationScope) => [
+    scope?.departments?.length ? `dept ${scope.departments.join(', ')}` : null,
+    scope?.workspaceIds?.length ? `workspace ${scope.workspaceIds.join(', ')}` : null,
+    scope?.projectIds?.length ? `project ${scope.projectIds.join(', ')}` : null
+].filter(Boolean).join(' · ');
+
+export const ClassificationExplainer: React.FC<ClassificationExplainerProps> = ({ log, onClose, onOverride }) => {
+    const [rulesVersion, setRulesVersion] = useState(0);
+    const [overridingKey, setOverridingKey] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const context = classificationRules.getContext(log.projectId);
+
+    // Re-run the rules as they are now; rulesVersion changes after an override
+    const explanation = useMemo(() => {
+        const app = appClassifier.explainApp(log.activeWindow || '', log.windowTitle, context);
+        const url = log.activeUrl ? urlClassifier.explainUrl(log.activeUrl, context) : null;
+        const rows: EvaluatedRule[] = [
+            ...app.evaluations.map((evaluation, index) => ({
+                key: `app-${index}`,
+                kind: 'app' as const,
+                layer: evaluation.layer,
+                outcome: evaluation.outcome,
+                pattern: patternToText(evaluation.rule.processName),
+                detail: evaluation.rule.titlePattern ? patternToText(evaluation.rule.titlePattern) : undefined,
+                category: evaluation.rule.category,
+                weight: evaluation.rule.weight,
+                activity: evaluation.rule.activity ?? getDefaultActivity(evaluation.rule.category),
+                scope: evaluation.rule.scope,
+                sourceId: evaluation.rule.sourceId
+            })),
+            ...(url?.evaluations || []).map((evaluation, index) => ({
+                key: `url-${index}`,
+                kind: 'url' as const,
+                layer: evaluation.layer,
+                outcome: evaluation.outcome,
+                pattern: patternToText(evaluation.rule.domainPattern),
+                detail: evaluation.rule.pathPattern ? patternToText(evaluation.rule.pathPattern) : undefined,
+                category: evaluation.rule.category,
+                weight: evaluation.rule.weight,
+                activity: evaluation.rule.activity ?? getDefaultActivity(evaluation.rule.category),
+                scope: evaluation.rule.scope,
+                sourceId: evaluation.rule.sourceId
+            }))
+        ];
+        return { app, url, rows };
+    }, [log, rulesVersion, context.department, context.workspaceId]);
+
+    const { app, url, rows } = explanation;
+
+    // The score as recorded, and what the current rules would make of the same interval
+    const recorded = compositeScoreCalculator.calculateCompositeScore(log);
+    const withCurrentRules = compositeScoreCalculator.calculateCompositeScore({
+        ...log,
+        appCategory: app.result.category,
+        appCategoryWeight: app.result.weight,
+        urlCategory: url?.result.category,
+        urlCategoryWeight: url?.result.weight
+    });
+    const components: Array<{ key: keyof typeof recorded.breakdown; label: string; source: string }> = [
+        { key: 'activity', label: 'Activity', source: `${log.keyboardEvents + log.mouseEvents} inputs${recorded.screenUnchanged ? ' · screen unchanged' : ''}` },
+        { key: 'app', label: 'App', source: log.appCategory ? `${log.appCategory}${log.appCategoryWeight !== undefined ? ` (${log.appCategoryWeight.toFixed(2)})` : ''}` : 'not classified' },
+        { key: 'url', label: 'URL', source: log.urlCategory ? `${log.urlCategory}${log.urlCategoryWeight !== undefined ? ` (${log.urlCategoryWeight.toFixed(2)})` : ''}` : 'no URL - app score used' },
+        { key: 'focus', label: 'Focus', source: log.focusScore !== undefined ? `${log.contextSwitches ?? 0} context switches` : 'not measured' }
+    ];
+
+    const handleOverride = async (row: EvaluatedRule | null, kind: ClassificationRule['kind'], category: ProductivityCategory) => {
+        const existing = row?.layer === 'user' && row.sourceId
+            ? classificationRules.getUserRules().find(rule => rule.id === row.sourceId)
+            : undefined;
+        // Without a row this is a new rule for an unclassified app / domain
+        const rule: ClassificationRule = existing
+            ? { ...existing, category, weight: undefined }
+            : {
+                id: `classify_${Date.now()}`,
+                kind,
+                ...(kind === 'app'
+                    ? { processName: row?.pattern || log.activeWindow, titlePattern: row?.detail }
+                    : { domainPattern: row?.pattern || url?.result.domain, pathPattern: row?.detail }),
+                category,
+                enabled: true
+            };
+        const problem = validateClassificationRule(rule);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        setNotice(null);
+        try {
+            await onOverride(rule);
+            setRulesVersion(version => version + 1);
+            setOverridingKey(null);
+            setNotice(existing ? 'Your rule was updated' : 'Added to your classification rules - it applies from the next interval');
+        } catch (err: any) {
+            setError(err?.message || 'Failed to save the rule');
+        }
+        setSaving(false);
+    };
+
+    const renderOverride = (key: string, row: EvaluatedRule | null, kind: ClassificationRule['kind']) => overridingKey === key && (
+        <div className="flex items-center gap-1 mt-2">
+            <span className="text-gray-400 mr-1">{row?.layer === 'user' ? 'Change to' : 'Override as'}</span>
+            {CATEGORIES.map(category => (
+                <button
+                    key={category}
+                    onClick={(e) => { e.stopPropagation(); handleOverride(row, kind, category); }}
+                    disabled={saving}
+                    className={`px-2 py-0.5 rounded capitalize disabled:opacity-50 ${CATEGORY_STYLES[category]}`}
+                >
+                    {category}
+                </button>
+            ))}
+        </div>
+    );
+
+    const renderRules = (kind: ClassificationRule['kind'], title: string, subject: string, matchType: string, weight: number) => {
+        const kindRows = rows.filter(row => row.kind === kind);
+        const unmatchedKey = `${kind}-none`;
+        return (
+            <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 text-xs">
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-bold text-gray-400 uppercase text-[10px]">{title}</h3>
+                    <span className="text-gray-500 font-mono truncate ml-2">{subject}</span>
+                </div>
+                <p className="text-gray-300 mb-2">
+                    Result: <span className="font-semibold">{matchType === 'none' ? 'no rule matched' : matchType.replace(/_/g, ' ')}</span> · weight {weight.toFixed(2)}
+                </p>
+                {kindRows.length === 0 ? (
+                    <div
+                        onClick={() => setOverridingKey(overridingKey === unmatchedKey ? null : unmatchedKey)}
+                        className="p-2 rounded border border-dashed border-gray-600 text-gray-400 cursor-pointer hover:border-blue-500"
+                    >
+                        No rule covers this {kind === 'app' ? 'app' : 'site'}, so it counts as neutral. Click to classify it.
+                        {renderOverride(unmatchedKey, null, kind)}
+                    </div>
+                ) : (
+                    <div className="space-y-1">
+                        {kindRows.map(row => {
+                            const outcome = OUTCOME_STYLES[row.outcome];
+                            const scope = describeScope(row.scope);
+                            return (
+                                <div
+                                    key={row.key}
+                                    onClick={() => setOverridingKey(overridingKey === row.key ? null : row.key)}
+                                    className={`p-2 rounded border cursor-pointer hover:border-blue-500 ${row.outcome === 'matched' ? 'border-green-700 bg-green-900/10' : 'border-gray-700'}`}
+                                    title="Click to override"
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <i className={`fas ${outcome.icon} ${outcome.className}`} title={outcome.label}></i>
+                                        <span className="font-mono text-white truncate flex-1">
+                                            {row.pattern}{row.detail ? ` · ${kind === 'app' ? 'title' : 'path'} ${row.detail}` : ''}
+                                        </span>
+                                        <span className={`text-[10px] px-1.5 py-0.5 rounded ${CATEGORY_STYLES[row.category]}`}>
+                                            {row.category}{row.weight !== undefined ? ` ${row.weight}` : ''}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-500">
+                                        <span>{LAYER_LABELS[row.layer]}</span>
+                                        <span>{row.activity}</span>
+                                        <span className={outcome.className}>{outcome.label}</span>
+                                        {scope && <span className="text-blue-300">{scope}</span>}
+                                    </div>
+                                    {renderOverride(row.key, row, kind)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto p-2 sm:p-4">
+            <div className="bg-gray-950 text-white w-full max-w-2xl max-h-[90vh] m-2 sm:m-4 rounded-lg shadow-2xl flex flex-col animate-fade-in">
+                <div className="p-3 sm:p-4 bg-gray-900 border-b border-gray-800 flex justify-between items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                        <h2 className="text-base sm:text-lg font-bold flex items-center gap-2">
+                            <i className="fas fa-search text-blue-500 text-sm sm:text-base"></i>
+                            <span className="truncate">Why was this classified?</span>
+                        </h2>
+                        <p className="text-[10px] sm:text-xs text-gray-500 mt-1 truncate">
+                            {new Date(log.timestamp).toLocaleString()} · {log.activeWindow}{log.windowTitle ? ` - ${log.windowTitle}` : ''}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-white bg-gray-800 p-2 rounded-lg transition-colors flex-shrink-0"
+                        title="Close"
+                    >
+                        <i className="fas fa-times text-sm sm:text-base"></i>
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="mx-4 mt-3 bg-red-900/30 border border-red-800 text-red-300 text-xs rounded-lg px-3 py-2">{error}</div>
+                )}
+                {notice && (
+                    <div className="mx-4 mt-3 bg-green-900/30 border border-green-800 text-green-300 text-xs rounded-lg px-3 py-2">{notice}</div>
+                )}
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-3 sm:p-4 space-y-3">
+                    <p className="text-[10px] text-gray-500">
+                        Rules run as they are now, for {[context.department, context.workspaceId && `workspace ${context.workspaceId}`, `project ${log.projectId}`].filter(Boolean).join(' · ')}.
+                        Your rules come first, then the organization policy, then the defaults; the first layer with a match decides.
+                        {!log.windowTitle && ' The window title was not recorded for this interval, so title rules are checked against an empty title.'}
+                        {' '}{app.rulesChecked} app and {url?.rulesChecked ?? 0} website rules were checked. Click a rule to override it.
+                    </p>
+
+                    {renderRules('app', 'App rules', log.activeWindow, app.result.matchType, app.result.weight)}
+                    {url && renderRules('url', 'Website rules', url.result.domain, url.result.matchType, url.result.weight)}
+
+                    {/* How the classification fed the composite score */}
+                    <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 text-xs">
+                        <h3 className="font-bold text-gray-400 uppercase text-[10px] mb-2">Composite Score</h3>
+                        <table className="w-full">
+                            <thead>
+                                <tr className="text-[10px] text-gray-500 text-left">
+                                    <th className="font-normal pb-1">Component</th>
+                                    <th className="font-normal pb-1">From</th>
+                                    <th className="font-normal pb-1 text-right">Score</th>
+                                    <th className="font-normal pb-1 text-right">Weight</th>
+                                    <th className="font-normal pb-1 text-right">Points</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {components.map(component => (
+                                    <tr key={component.key} className={component.key === 'app' || component.key === 'url' ? 'text-white' : 'text-gray-400'}>
+                                        <td className="py-0.5">{component.label}</td>
+                                        <td className="py-0.5 text-gray-500">{component.source}</td>
+                                        <td className="py-0.5 text-right font-mono">{recorded.breakdown[component.key]}</td>
+                                        <td className="py-0.5 text-right font-mono">{Math.round(recorded.weights[component.key] * 100)}%</td>
+                                        <td className="py-0.5 text-right font-mono">{(recorded.breakdown[component.key] * recorded.weights[component.key]).toFixed(1)}</td>
+                                    </tr>
+                                ))}
+                                <tr className="border-t border-gray-700 font-semibold">
+                                    <td className="pt-1" colSpan={4}>Composite score</td>
+                                    <td className="pt-1 text-right font-mono" style={{ color: recorded.classification.color }}>{recorded.score}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                        {log.compositeScore !== undefined && log.compositeScore !== recorded.score && (
+                            <p className="text-[10px] text-gray-500 mt-2">The stored score is {log.compositeScore} - it was calculated when the interval was recorded.</p>
+                        )}
+                        {withCurrentRules.score !== recorded.score && (
+                            <p className="text-[10px] text-yellow-300 mt-2">
+                                With the current rules this interval would score {withCurrentRules.score} (app {withCurrentRules.breakdown.app}, URL {withCurrentRules.breakdown.url}).
+                                Recorded intervals keep their score.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
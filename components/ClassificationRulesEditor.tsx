@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { ActivityCategory, ClassificationRule, ProductivityCategory } from '../types';
+import { classificationRules, parseClassificationRules, validateClassificationRule } from '../services/classificationRules';
+
+interface ClassificationRulesEditorProps {
+    rules: ClassificationRule[];
+    onChange: (rules: ClassificationRule[]) => void;
+}
+
+type ScopeKind = 'everyone' | 'departments' | 'workspaceIds' | 'projectIds';
+
+type NewRule = {
+    kind: ClassificationRule['kind'];
+    pattern: string;
+    detail: string;
+    category: ProductivityCategory;
+    activity: ActivityCategory | ''; // '' = based on category
+    weight: string;
+    scopeKind: ScopeKind;
+    scopeValues: string; // Comma-separated
+};
+
+const EMPTY_RULE: NewRule = { kind: 'app', pattern: '', detail: '', category: 'productive', activity: '', weight: '', scopeKind: 'everyone', scopeValues: '' };
+
+const ACTIVITIES: ActivityCategory[] = ['Work', 'Communication', 'Productivity', 'Entertainment', 'Other'];
+
+const CATEGORY_STYLES: Record<ProductivityCategory, string> = {
+    productive: 'text-green-300 bg-green-900/30',
+    neutral: 'text-gray-300 bg-gray-700',
+    unproductive: 'text-red-300 bg-red-900/30'
+};
+
+const describeRule = (rule: ClassificationRule) => rule.kind === 'app'
+    ? `${rule.processName}${rule.titlePattern ? ` · title ${rule.titlePattern}` : ''}`
+    : `${rule.domainPattern}${rule.pathPattern ? ` · path ${rule.pathPattern}` : ''}`;
+
+const describeScope = (rule: ClassificationRule) => [
+    rule.scope?.departments?.length ? `dept ${rule.scope.departments.join(', ')}` : null,
+    rule.scope?.workspaceIds?.length ? `workspace ${rule.scope.workspaceIds.join(', ')}` : null,
+    rule.scope?.projectIds?.length ? `project ${rule.scope.projectIds.join(', ')}` : null
+].filter(Boolean).join(' · ');
+
+export const ClassificationRulesEditor: React.FC<ClassificationRulesEditorProps> = ({ rules, onChange }) => {
+    const [newRule, setNewRule] = useState<NewRule>(EMPTY_RULE);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const policy = classificationRules.getPolicy();
+    const context = classificationRules.getContext();
+    const scopePlaceholder: Record<ScopeKind, string> = {
+        everyone: '',
+        departments: context.department || 'Design, Marketing',
+        workspaceIds: context.workspaceId || 'Workspace ids',
+        projectIds: 'Project ids'
+    };
+
+    const handleAdd = () => {
+        const pattern = newRule.pattern.trim();
+        const detail = newRule.detail.trim();
+        const scopeValues = newRule.scopeValues.split(',').map(value => value.trim()).filter(Boolean);
+        if (newRule.scopeKind !== 'everyone' && scopeValues.length === 0) {
+            setError('Enter who the rule is for, or choose Everyone');
+            return;
+        }
+        const rule: ClassificationRule = {
+            id: `classify_${Date.now()}`,
+            kind: newRule.kind,
+            ...(newRule.kind === 'app'
+                ? { processName: pattern, titlePattern: detail || undefined }
+                : { domainPattern: pattern, pathPattern: detail || undefined }),
+            category: newRule.category,
+            weight: newRule.weight.trim() === '' ? undefined : Number(newRule.weight),
+            activity: newRule.activity || undefined,
+            scope: newRule.scopeKind === 'everyone' ? undefined : { [newRule.scopeKind]: scopeValues },
+            enabled: true
+        };
+        const problem = validateClassificationRule(rule);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setError(null);
+        setNotice(null);
+        onChange([...rules, rule]);
+        setNewRule({ ...newRule, pattern: '', detail: '', weight: '', activity: '', scopeValues: '' });
+    };
+
+    const handleUpdate = (id: string, changes: Partial<ClassificationRule>) => {
+        onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(rules.filter(rule => rule.id !== id));
+    };
+
+    const handleExport = async () => {
+        if (!window.electronAPI?.exportClassificationRules) return;
+        setError(null);
+        const result = await window.electronAPI.exportClassificationRules(rules);
+        if (result.success) {
+            setNotice(`Exported ${rules.length} rule${rules.length === 1 ? '' : 's'} to ${result.path}`);
+        } else if (!result.canceled) {
+            setError(result.error || 'Export failed');
+        }
+    };
+
+    // Imported rules replace rules with the same id and are added after the rest
+    const handleImport = async () => {
+        if (!window.electronAPI?.importClassificationRules) return;
+        setError(null);
+        setNotice(null);
+        const result = await window.electronAPI.importClassificationRules();
+        if (!result.success) {
+            if (!result.canceled) setError(result.error || 'Import failed');
+            return;
+        }
+        const { rules: imported, skipped } = parseClassificationRules(result.data);
+        const importedIds = new Set(imported.map(rule => rule.id));
+        onChange([...rules.filter(rule => !importedIds.has(rule.id)), ...imported]);
+        setNotice(`Imported ${imported.length} rule${imported.length === 1 ? '' : 's'}${skipped > 0 ? ` (${skipped} invalid skipped)` : ''}`);
+    };
+
+    return (
+        <div className="space-y-3">
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {notice && <p className="text-xs text-green-400 truncate">{notice}</p>}
+
+            <div className="space-y-2">
+                {rules.length === 0 && (
+                    <p className="text-xs text-gray-500">No custom rules yet</p>
+                )}
+                {rules.map(rule => (
+                    <div key={rule.id} className="flex items-center gap-2 bg-gray-700/50 rounded-lg px-3 py-2">
+                        <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={(e) => handleUpdate(rule.id, { enabled: e.target.checked })}
+                            className="accent-blue-600"
+                        />
+                        <span className="text-[10px] uppercase text-gray-400 w-10">{rule.kind === 'app' ? 'App' : 'Site'}</span>
+                        <span className="flex-1 text-xs text-white truncate" title={describeRule(rule)}>{describeRule(rule)}</span>
+                        {rule.scope && (
+                            <span className="text-[10px] text-blue-300 bg-blue-900/30 px-1.5 py-0.5 rounded truncate max-w-[40%]" title={describeScope(rule)}>{describeScope(rule)}</span>
+                        )}
+                        <select
+                            value={rule.category}
+                            onChange={(e) => handleUpdate(rule.id, { category: e.target.value as ProductivityCategory })}
+                            className="bg-gray-700 text-white text-xs px-2 py-1 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                        >
+                            <option value="productive">Productive</option>
+                            <option value="neutral">Neutral</option>
+                            <option value="unproductive">Unproductive</option>
+                        </select>
+                        <select
+                            value={rule.activity || ''}
+                            onChange={(e) => handleUpdate(rule.id, { activity: (e.target.value as ActivityCategory) || undefined })}
+                            className="bg-gray-700 text-white text-xs px-2 py-1 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            title="Activity category"
+                        >
+                            <option value="">Auto</option>
+                            {ACTIVITIES.map(activity => <option key={activity} value={activity}>{activity}</option>)}
+                        </select>
+                        {rule.weight !== undefined && (
+                            <span className="text-[10px] text-gray-400 font-mono" title="Weight">×{rule.weight}</span>
+                        )}
+                        <button
+                            onClick={() => handleRemove(rule.id)}
+                            className="text-gray-400 hover:text-red-400 text-xs px-1"
+                            title="Remove rule"
+                        >
+                            <i className="fas fa-times"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+                <select
+                    value={newRule.kind}
+                    onChange={(e) => setNewRule({ ...newRule, kind: e.target.value as ClassificationRule['kind'] })}
+                    className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                >
+                    <option value="app">App</option>
+                    <option value="url">Website</option>
+                </select>
+                <input
+                    type="text"
+                    value={newRule.pattern}
+                    onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                    placeholder={newRule.kind === 'app' ? 'figma or /^figma/' : 'youtube.com'}
+                    className="sm:col-span-2 min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                />
+                <input
+                    type="text"
+                    value={newRule.detail}
+                    onChange={(e) => setNewRule({ ...newRule, detail: e.target.value })}
+                    placeholder={newRule.kind === 'app' ? 'Title (optional)' : 'Path (optional)'}
+                    className="sm:col-span-2 min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                />
+                <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    value={newRule.weight}
+                    onChange={(e) => setNewRule({ ...newRule, weight: e.target.value })}
+                    placeholder="Weight"
+                    className="min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                />
+                <select
+                    value={newRule.category}
+                    onChange={(e) => setNewRule({ ...newRule, category: e.target.value as ProductivityCategory })}
+                    className="sm:col-span-2 bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                >
+                    <option value="productive">Productive</option>
+                    <option value="neutral">Neutral</option>
+                    <option value="unproductive">Unproductive</option>
+                </select>
+                <select
+                    value={newRule.activity}
+                    onChange={(e) => setNewRule({ ...newRule, activity: e.target.value as NewRule['activity'] })}
+                    className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                    title="Activity category"
+                >
+                    <option value="">Activity: auto</option>
+                    {ACTIVITIES.map(activity => <option key={activity} value={activity}>{activity}</option>)}
+                </select>
+                <select
+                    value={newRule.scopeKind}
+                    onChange={(e) => setNewRule({ ...newRule, scopeKind: e.target.value as ScopeKind })}
+                    className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                >
+                    <option value="everyone">Everyone</option>
+                    <option value="departments">Departments</option>
+                    <option value="workspaceIds">Workspaces</option>
+                    <option value="projectIds">Projects</option>
+                </select>
+                <input
+                    type="text"
+                    value={newRule.scopeValues}
+                    onChange={(e) => setNewRule({ ...newRule, scopeValues: e.target.value })}
+                    disabled={newRule.scopeKind === 'everyone'}
+                    placeholder={scopePlaceholder[newRule.scopeKind]}
+                    className="sm:col-span-2 min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!newRule.pattern.trim()}
+                    className="sm:col-span-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                >
+                    Add Rule
+                </button>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleImport}
+                    className="bg-gray-700 hover:bg-gray-600 text-white text-xs px-3 py-2 rounded-lg"
+                >
+                    <i className="fas fa-file-import mr-1"></i>
+                    Import
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={rules.length === 0}
+                    className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                >
+                    <i className="fas fa-file-export mr-1"></i>
+                    Export
+                </button>
+            </div>
+
+            {policy && policy.rules.length > 0 && (
+                <div className="pt-3 border-t border-gray-700">
+                    <p className="text-xs text-gray-300 mb-1">
+                        <i className="fas fa-building mr-1 text-gray-400"></i>
+                        Organization policy
+                    </p>
+                    <p className="text-xs text-gray-500 mb-2">
+                        Set by your organization for this workspace; your rules above take precedence. Updated {new Date(policy.fetchedAt).toLocaleString()}
+                    </p>
+                    <div className="space-y-1">
+                        {policy.rules.map(rule => (
+                            <div key={rule.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-700 opacity-80">
+                                <span className="text-[10px] uppercase text-gray-500 w-10">{rule.kind === 'app' ? 'App' : 'Site'}</span>
+                                <span className="flex-1 text-xs text-gray-300 truncate" title={describeRule(rule)}>{describeRule(rule)}</span>
+                                {rule.scope && (
+                                    <span className="text-[10px] text-blue-300 bg-blue-900/30 px-1.5 py-0.5 rounded truncate max-w-[40%]" title={describeScope(rule)}>{describeScope(rule)}</span>
+                                )}
+                                <span className={`text-[10px] px-1.5 py-0.5 rounded ${CATEGORY_STYLES[rule.category]}`}>{rule.category}</span>
+                                {rule.activity && (
+                                    <span className="text-[10px] text-gray-400">{rule.activity}</span>
+                                )}
+                                {rule.weight !== undefined && (
+                                    <span className="text-[10px] text-gray-500 font-mono">×{rule.weight}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { DeviceConflict, DeviceConflictResolution } from '../types/electron';
+
+interface DeviceConflictDialogProps {
+    taskName: string;
+    conflicts: DeviceConflict[];
+    onResolve: (conflictId: string, resolution: DeviceConflictResolution) => void;
+    onDismiss: () => void;
+}
+
+export const DeviceConflictDialog: React.FC<DeviceConflictDialogProps> = ({ taskName, conflicts, onResolve, onDismiss }) => {
+    const formatTime = (timestamp: number) => {
+        return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    };
+
+    const formatDuration = (seconds: number) => {
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        if (hours > 0) {
+            return `${hours}h ${minutes}m`;
+        }
+        return `${Math.max(1, minutes)}m`;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-3 sm:p-4">
+            <div className="bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 max-w-md w-full p-4 sm:p-6 space-y-3 sm:space-y-4">
+                <div className="text-center">
+                    <div className="w-16 h-16 bg-orange-600 rounded-xl mx-auto flex items-center justify-center mb-4 shadow-lg shadow-orange-500/30">
+                        <i className="fas fa-laptop-code text-2xl text-white"></i>
+                    </div>
+                    <h3 className="text-xl font-bold text-white mb-2">Tracked on Two Devices</h3>
+                    <p className="text-gray-400 text-sm">
+                        The timer for <strong className="text-white">{taskName}</strong> was running on another device at the same time
+                    </p>
+                </div>
+
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {conflicts.map(conflict => (
+                        <div key={conflict.id} className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+                            <p className="text-xs text-gray-300">
+                                <strong className="text-white">{formatTime(conflict.start)} – {formatTime(conflict.end)}</strong>
+                                {' '}({formatDuration(conflict.overlapSeconds)}) also tracked on <strong className="text-white">{conflict.deviceName}</strong>
+                            </p>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => onResolve(conflict.id, 'keep-local')}
+                                    className="flex-1 py-1.5 px-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs font-semibold transition-colors"
+                                >
+                                    Keep This Device
+                                </button>
+                                <button
+                                    onClick={() => onResolve(conflict.id, 'keep-remote')}
+                                    className="flex-1 py-1.5 px-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs font-semibold transition-colors"
+                                >
+                                    Keep {conflict.deviceName}
+                                </button>
+                                <button
+                                    onClick={() => onResolve(conflict.id, 'keep-both')}
+                                    className="flex-1 py-1.5 px-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs font-semibold transition-colors"
+                                >
+                                    Keep Both
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="pt-2">
+                    <button
+                        onClick={onDismiss}
+                        className="w-full py-3 px-4 bg-gray-800 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+                    >
+                        Decide Later
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
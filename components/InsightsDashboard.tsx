@@ -1,5 +1,8 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { ActivityLog, Project, AppUsage, Task } from '../types';
+import { ActivityLog, Project, AppUsage, Task, ClassificationRule } from '../types';
+import type { ManualTimeEntry } from '../types/electron';
+import { ClassificationExplainer } from './ClassificationExplainer';
+import { classifyActivity } from '../services/activityCategorizer';
 
 interface InsightsDashboardProps {
     logs: ActivityLog[];
@@ -9,16 +12,32 @@ interface InsightsDashboardProps {
     filterProjectId?: string; // Optional: filter logs by projectId (for task filtering)
     filterTimeEntries?: Array<{ startTime: Date; endTime?: Date }>; // Optional: filter logs by time range
     tasks?: Task[]; // Optional: tasks list to get task name
+    manualEntries?: ManualTimeEntry[]; // Optional: time added by hand (no activity behind it), shown apart from tracked time
+    onOverrideClassification?: (rule: ClassificationRule) => Promise<void>; // Optional: save a rule chosen in the classification explainer
 }
 
 // Electron API types are defined in types/electron.d.ts
 
-export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, projects, onClose, filterTaskId, filterProjectId, filterTimeEntries, tasks }) => {
+// Seconds covered by one activity log - 10 minutes, or 1 minute when logs come from dev mode
+const getLogIntervalSeconds = (sortedLogs: ActivityLog[]): number => {
+    if (sortedLogs.length > 1) {
+        const timeDiff = (sortedLogs[1].timestamp.getTime() - sortedLogs[0].timestamp.getTime()) / 1000;
+        // If logs are less than 2 minutes apart, it's dev mode (1-minute intervals)
+        if (timeDiff < 120 && timeDiff > 0) {
+            return 60;
+        }
+    }
+    return 600;
+};
+
+export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, projects, onClose, filterTaskId, filterProjectId, filterTimeEntries, tasks, manualEntries, onOverrideClassification }) => {
     // State for JSON tracking data
     const [jsonTrackingData, setJsonTrackingData] = useState<any | null>(null);
     const [isLoadingJsonData, setIsLoadingJsonData] = useState(false);
     const [isTaskActive, setIsTaskActive] = useState(false);
     const [isCombinedView, setIsCombinedView] = useState(false);
+    // Activity log opened in the "why was this classified" explainer
+    const [explainLog, setExplainLog] = useState<ActivityLog | null>(null);
     
     // Fetch JSON tracking data - either single task or combined from all tasks
     useEffect(() => {
@@ -504,6 +523,45 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
         jsonTrackingData?.trackingData?.summary?.totalMouseClicks
     ]);
 
+    // Time per repository and branch from the editor / terminal context on each log (idle intervals excluded)
+    const repoUsage = useMemo(() => {
+        const sortedLogs = filteredLogs.filter(log => log != null).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const intervalDuration = getLogIntervalSeconds(sortedLogs);
+        const repos: Record<string, { repo: string; timeSpent: number; branches: Record<string, number>; languages: Record<string, number> }> = {};
+        sortedLogs.forEach(log => {
+            const context = log.codeContext;
+            if (!context?.repo || log.isIdle) return;
+            const entry = repos[context.repo] || (repos[context.repo] = { repo: context.repo, timeSpent: 0, branches: {}, languages: {} });
+            entry.timeSpent += intervalDuration;
+            const branch = context.branch || 'unknown branch';
+            entry.branches[branch] = (entry.branches[branch] || 0) + intervalDuration;
+            if (context.language) {
+                entry.languages[context.language] = (entry.languages[context.language] || 0) + intervalDuration;
+            }
+        });
+        return Object.values(repos)
+            .sort((a, b) => b.timeSpent - a.timeSpent)
+            .map(entry => ({
+                ...entry,
+                branches: Object.entries(entry.branches).sort((a, b) => b[1] - a[1]),
+                topLanguage: Object.entries(entry.languages).sort((a, b) => b[1] - a[1])[0]?.[0] || null
+            }));
+    }, [filteredLogs]);
+
+    // Today's manual time (for the filtered task, if any) - kept out of every activity-based number
+    const todayManualEntries = useMemo(() => {
+        const todayStart = new Date();
+        todayStart.setHours(0, 0, 0, 0);
+        const todayEnd = todayStart.getTime() + (24 * 60 * 60 * 1000);
+        return (manualEntries || [])
+            .filter(entry => {
+                const start = new Date(entry.startTime).getTime();
+                return start >= todayStart.getTime() && start < todayEnd;
+            })
+            .filter(entry => !filterTaskId || (entry.taskId === filterTaskId && (!filterProjectId || entry.projectId === filterProjectId)))
+            .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    }, [manualEntries, filterTaskId, filterProjectId]);
+
     // Calculate App Usage with detailed stats (including all windows data)
     const appUsage = useMemo(() => {
         const appStats: Record<string, {
@@ -680,15 +738,7 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
         const sortedLogs = [...filteredLogs].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
         
         // Detect interval duration (1 min in dev, 10 min in prod)
-        let intervalDuration = 600; // Default 10 minutes in seconds
-        if (sortedLogs.length > 1) {
-            const timeDiff = (sortedLogs[1].timestamp.getTime() - sortedLogs[0].timestamp.getTime()) / 1000;
-            // If logs are less than 2 minutes apart, it's dev mode (1-minute intervals)
-            if (timeDiff < 120 && timeDiff > 0) {
-                intervalDuration = 60; // 1 minute in dev mode
-                // Removed console.log to prevent excessive logging
-            }
-        }
+        const intervalDuration = getLogIntervalSeconds(sortedLogs);
         
         sortedLogs.forEach((log, index) => {
             const appName = log.activeWindow;
@@ -979,29 +1029,17 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                         // Use active windows if available
                         jsonWindows.forEach((win: any) => {
                             const appName = win.appName || win.windowKey || '';
-                            // Simple categorization
-                            if (appName.toLowerCase().includes('code') || appName.toLowerCase().includes('studio')) {
-                                appScores.push(100); // VS Code, etc.
-                            } else if (appName.toLowerCase().includes('chrome') || appName.toLowerCase().includes('edge') || appName.toLowerCase().includes('firefox')) {
-                                appScores.push(50); // Browsers
-                            } else {
-                                appScores.push(30); // Other
-                            }
+                            // Same rules (and weights) as the composite score
+                            appScores.push(Math.round(classifyActivity({ app: appName, title: win.title }).app.weight * 100));
                         });
                     } else if (activityLogs.length > 0) {
                         // Extract from activity logs for combined data
                         const uniqueApps = new Set<string>();
                         activityLogs.forEach((log: any) => {
-                            const appName = (log.activeWindow || '').toLowerCase();
-                            if (appName && !uniqueApps.has(appName)) {
-                                uniqueApps.add(appName);
-                                if (appName.includes('code') || appName.includes('studio')) {
-                                    appScores.push(100);
-                                } else if (appName.includes('chrome') || appName.includes('edge') || appName.includes('firefox')) {
-                                    appScores.push(50);
-                                } else {
-                                    appScores.push(30);
-                                }
+                            const appName = log.activeWindow || '';
+                            if (appName && !uniqueApps.has(appName.toLowerCase())) {
+                                uniqueApps.add(appName.toLowerCase());
+                                appScores.push(Math.round(classifyActivity({ app: appName, title: log.windowTitle }).app.weight * 100));
                             }
                         });
                     }
@@ -1012,14 +1050,8 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                     if (jsonUrls.length > 0) {
                         jsonUrls.forEach((urlEntry: any) => {
                             const url = urlEntry.url || '';
-                            if (url.includes('github.com') || url.includes('stackoverflow.com')) {
-                                urlScores.push(100);
-                            } else if (url.includes('google.com') || url.includes('youtube.com')) {
-                                urlScores.push(50);
-                            } else if (url.includes('facebook.com') || url.includes('twitter.com')) {
-                                urlScores.push(0);
-                            } else {
-                                urlScores.push(50);
+                            if (url) {
+                                urlScores.push(Math.round(classifyActivity({ app: '', url }).weight * 100));
                             }
                         });
                     } else if (activityLogs.length > 0) {
@@ -1029,15 +1061,7 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                             const url = log.url || '';
                             if (url && !uniqueUrls.has(url)) {
                                 uniqueUrls.add(url);
-                                if (url.includes('github.com') || url.includes('stackoverflow.com')) {
-                                    urlScores.push(100);
-                                } else if (url.includes('google.com') || url.includes('youtube.com')) {
-                                    urlScores.push(50);
-                                } else if (url.includes('facebook.com') || url.includes('twitter.com')) {
-                                    urlScores.push(0);
-                                } else {
-                                    urlScores.push(50);
-                                }
+                                urlScores.push(Math.round(classifyActivity({ app: '', url }).weight * 100));
                             }
                         });
                     }
@@ -1068,29 +1092,17 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                     const categoryBreakdown: Record<string, number> = { productive: 0, neutral: 0, unproductive: 0 };
                     if (jsonWindows.length > 0) {
                         jsonWindows.forEach((win: any) => {
-                            const appName = (win.appName || win.windowKey || '').toLowerCase();
-                            if (appName.includes('code') || appName.includes('studio')) {
-                                categoryBreakdown.productive++;
-                            } else if (appName.includes('chrome') || appName.includes('edge')) {
-                                categoryBreakdown.neutral++;
-                            } else {
-                                categoryBreakdown.neutral++;
-                            }
+                            const appName = win.appName || win.windowKey || '';
+                            categoryBreakdown[classifyActivity({ app: appName, title: win.title }).category]++;
                         });
                     } else if (activityLogs.length > 0) {
                         // Extract from activity logs
                         const uniqueApps = new Set<string>();
                         activityLogs.forEach((log: any) => {
-                            const appName = (log.activeWindow || '').toLowerCase();
-                            if (appName && !uniqueApps.has(appName)) {
-                                uniqueApps.add(appName);
-                                if (appName.includes('code') || appName.includes('studio')) {
-                                    categoryBreakdown.productive++;
-                                } else if (appName.includes('chrome') || appName.includes('edge')) {
-                                    categoryBreakdown.neutral++;
-                                } else {
-                                    categoryBreakdown.neutral++;
-                                }
+                            const appName = log.activeWindow || '';
+                            if (appName && !uniqueApps.has(appName.toLowerCase())) {
+                                uniqueApps.add(appName.toLowerCase());
+                                categoryBreakdown[classifyActivity({ app: appName, title: log.windowTitle, url: log.activeUrl }).category]++;
                             }
                         });
                     }
@@ -1742,6 +1754,84 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                     </div>
                 )}
 
+                {/* Repositories & Branches - from editor / terminal context on each log */}
+                {repoUsage.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-400 uppercase mb-3">Repositories & Branches</h3>
+                        <div className="space-y-2">
+                            {repoUsage.map(entry => {
+                                const totalRepoTime = repoUsage.reduce((sum, r) => sum + r.timeSpent, 0);
+                                const percentage = totalRepoTime > 0 ? Math.round(entry.timeSpent / totalRepoTime * 100) : 0;
+                                return (
+                                    <div key={entry.repo} className="bg-gray-800/50 rounded border border-gray-800 p-3">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <i className="fas fa-code-branch text-blue-400 text-xs"></i>
+                                                <span className="text-sm text-white font-medium truncate">{entry.repo}</span>
+                                                {entry.topLanguage && (
+                                                    <span className="text-[10px] text-gray-400 bg-gray-900 px-1.5 py-0.5 rounded">{entry.topLanguage}</span>
+                                                )}
+                                            </div>
+                                            <span className="text-xs text-gray-300 font-mono">{formatTime(entry.timeSpent)} · {percentage}%</span>
+                                        </div>
+                                        <div className="space-y-1">
+                                            {entry.branches.map(([branch, seconds]) => (
+                                                <div key={branch} className="flex items-center justify-between text-[11px]">
+                                                    <span className="text-gray-400 truncate">{branch}</span>
+                                                    <span className="text-gray-500 font-mono">{formatTime(seconds)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {/* Manual Time - added by hand for work away from the computer, awaiting or past review */}
+                {todayManualEntries.length > 0 && (
+                    <div className="bg-gray-900 rounded-lg p-3 sm:p-4 border border-dashed border-purple-800/60">
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-[10px] sm:text-xs font-bold text-gray-400 uppercase">
+                                <i className="fas fa-user-clock text-purple-400 mr-1"></i>Manual Time
+                            </h3>
+                            <span className="text-[10px] sm:text-xs text-gray-400">
+                                {formatTime(todayManualEntries.filter(entry => entry.status === 'approved').reduce((sum, entry) => sum + entry.duration, 0))} approved
+                                {' · '}
+                                {formatTime(todayManualEntries.filter(entry => entry.status === 'pending').reduce((sum, entry) => sum + entry.duration, 0))} pending
+                            </span>
+                        </div>
+                        <div className="space-y-2">
+                            {todayManualEntries.map(entry => (
+                                <div key={entry.id} className="flex items-center gap-3 bg-purple-900/10 rounded border border-purple-900/40 px-3 py-2 text-xs">
+                                    <span className="font-mono text-gray-300 flex-shrink-0">
+                                        {new Date(entry.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}–{new Date(entry.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                    </span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-white truncate">{entry.reason}</p>
+                                        {!filterTaskId && (
+                                            <p className="text-[10px] text-gray-500 truncate">{entry.taskName || entry.taskId} · {entry.projectName || entry.projectId}</p>
+                                        )}
+                                        {entry.reviewerNote && (
+                                            <p className="text-[10px] text-gray-400 italic truncate">Reviewer: {entry.reviewerNote}</p>
+                                        )}
+                                    </div>
+                                    <span className="text-gray-300 font-mono flex-shrink-0">{formatTime(entry.duration)}</span>
+                                    <span className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${
+                                        entry.status === 'approved' ? 'text-green-300 bg-green-900/30' :
+                                        entry.status === 'rejected' ? 'text-red-300 bg-red-900/30' :
+                                        'text-yellow-300 bg-yellow-900/30'
+                                    }`}>
+                                        {entry.status}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-2">No activity or screenshots are recorded for manual time, so it is not part of the scores above</p>
+                    </div>
+                )}
+
                 {/* Activity Timeline Bar Chart */}
                 <div className="bg-gray-900 rounded-lg p-3 sm:p-4 border border-gray-800">
                     <h3 className="text-[10px] sm:text-xs font-bold text-gray-400 uppercase mb-3 sm:mb-4">Activity Timeline</h3>
@@ -1758,6 +1848,7 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                                 appCategory?: string;
                                 focusScore?: number;
                                 projectId?: string;
+                                log: ActivityLog; // Full log for the classification explainer
                             }> = [];
                             
                             // Add logs from filteredLogs (filter out null/undefined)
@@ -1771,7 +1862,8 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                                     scoreClassification: log.scoreClassification,
                                     appCategory: log.appCategory,
                                     focusScore: log.focusScore,
-                                    projectId: log.projectId
+                                    projectId: log.projectId,
+                                    log
                                 });
                             });
                             
@@ -1795,7 +1887,15 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                                         scoreClassification: log.scoreClassification,
                                         appCategory: log.appCategory,
                                         focusScore: log.focusScore,
-                                        projectId: log.projectId || jsonTrackingData.metadata?.projectId
+                                        projectId: log.projectId || jsonTrackingData.metadata?.projectId,
+                                        log: {
+                                            ...log,
+                                            timestamp,
+                                            projectId: log.projectId || jsonTrackingData.metadata?.projectId,
+                                            keyboardEvents: log.keyboardEvents || 0,
+                                            mouseEvents: log.mouseEvents || 0,
+                                            activeWindow: log.activeWindow || 'Unknown'
+                                        }
                                     });
                                 });
                             }
@@ -1828,7 +1928,7 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                             return allLogs.map((log) => {
                                 const project = projects.find(p => p.id === log.projectId);
                                 return (
-                                    <div key={log.id} className="group relative flex-shrink-0 w-3 bg-gray-800 rounded-sm hover:bg-gray-700 transition-all cursor-pointer" style={{ height: '100%' }}>
+                                    <div key={log.id} onClick={() => setExplainLog(log.log)} className="group relative flex-shrink-0 w-3 bg-gray-800 rounded-sm hover:bg-gray-700 transition-all cursor-pointer" style={{ height: '100%' }}>
                                         {/* Activity Bar */}
                                         <div 
                                             className="absolute bottom-0 w-full rounded-sm transition-all"
@@ -1862,6 +1962,7 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                                             ) : (
                                                 <div>Prod: {log.productivityScore}%</div>
                                             )}
+                                            <div className="text-[10px] text-gray-500 mt-1">Click to see why</div>
                                         </div>
                                     </div>
                                 );
@@ -2295,6 +2396,17 @@ export const InsightsDashboard: React.FC<InsightsDashboardProps> = ({ logs, proj
                 </div>
                 )}
             </div>
+
+            {explainLog && (
+                <ClassificationExplainer
+                    log={explainLog}
+                    onClose={() => setExplainLog(null)}
+                    onOverride={async (rule) => {
+                        if (!onOverrideClassification) throw new Error('Classification rules can only be changed from the main window');
+                        await onOverrideClassification(rule);
+                    }}
+                />
+            )}
         </div>
     );
 };
\ No newline at end of file
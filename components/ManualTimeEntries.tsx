@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Project, Task } from '../types';
+import type { ManualTimeEntry, ManualTimeEntryStatus } from '../types/electron';
+import { authState } from '../services/authState';
+
+interface ManualTimeEntriesProps {
+    projects: Project[];
+    tasks: Task[];
+    entries: ManualTimeEntry[];
+    workspaceId?: string;
+    onClose: () => void;
+    onAdded: (entry: ManualTimeEntry) => void;
+    onWithdrawn: (entry: ManualTimeEntry) => void;
+}
+
+const STATUS_STYLES: Record<ManualTimeEntryStatus, { label: string; className: string; icon: string }> = {
+    pending: { label: 'Pending approval', className: 'text-yellow-300 bg-yellow-900/30', icon: 'fa-hourglass-half' },
+    approved: { label: 'Approved', className: 'text-green-300 bg-green-900/30', icon: 'fa-check' },
+    rejected: { label: 'Rejected', className: 'text-red-300 bg-red-900/30', icon: 'fa-times' }
+};
+
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// yyyy-mm-dd in local time, for <input type="date">
+const toDateInputValue = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const ManualTimeEntries: React.FC<ManualTimeEntriesProps> = ({ projects, tasks, entries, workspaceId, onClose, onAdded, onWithdrawn }) => {
+    const [date, setDate] = useState(() => toDateInputValue(new Date()));
+    const [startClock, setStartClock] = useState('');
+    const [endClock, setEndClock] = useState('');
+    const [projectId, setProjectId] = useState('');
+    const [taskId, setTaskId] = useState('');
+    const [reason, setReason] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const projectTasks = tasks.filter(t => t.projectId === projectId && !t.completed);
+    const task = projectTasks.find(t => t.id === taskId);
+    const start = date && startClock ? new Date(`${date}T${startClock}`) : null;
+    const end = date && endClock ? new Date(`${date}T${endClock}`) : null;
+    const durationSeconds = start && end ? Math.round((end.getTime() - start.getTime()) / 1000) : 0;
+
+    const handleAdd = async () => {
+        if (!start || !end || !task || !window.electronAPI?.addManualTimeEntry) return;
+        setSaving(true);
+        setError(null);
+        setNotice(null);
+        const user = authState.getUser();
+        const result = await window.electronAPI.addManualTimeEntry({
+            workspaceId,
+            projectId: task.projectId,
+            taskId: task.id,
+            projectName: projects.find(p => p.id === task.projectId)?.name,
+            taskName: task.name,
+            startTime: start.toISOString(),
+            endTime: end.toISOString(),
+            reason: reason.trim(),
+            createdBy: user ? { id: user.id, name: user.name, email: user.email } : null
+        });
+        if (result.success && result.entry) {
+            setNotice(`Added ${formatDuration(result.entry.duration)} to ${task.name} - it counts once it is approved`);
+            setStartClock('');
+            setEndClock('');
+            setReason('');
+            onAdded(result.entry);
+        } else {
+            setError(result.error || 'Failed to add manual time');
+        }
+        setSaving(false);
+    };
+
+    const handleWithdraw = async (entry: ManualTimeEntry) => {
+        if (!window.electronAPI?.deleteManualTimeEntry) return;
+        setWithdrawingId(entry.id);
+        setError(null);
+        const result = await window.electronAPI.deleteManualTimeEntry(entry.id);
+        if (result.success) {
+            onWithdrawn(entry);
+        } else {
+            setError(result.error || 'Failed to withdraw manual time');
+        }
+        setWithdrawingId(null);
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-gray-900 text-white">
+            <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+                <div>
+                    <h2 className="font-semibold text-lg flex items-center">
+                        <i className="fas fa-user-clock text-blue-400 mr-2"></i>
+                        Manual Time
+                    </h2>
+                    <p className="text-xs text-gray-400 mt-1">
+                        Add time spent away from the computer, like meetings. It has no screenshots or activity, so a reviewer approves it first.
+                    </p>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-white">
+                    <i className="fas fa-times"></i>
+                </button>
+            </div>
+
+            {error && (
+                <div className="mx-4 mt-3 bg-red-900/30 border border-red-800 text-red-300 text-xs rounded-lg px-3 py-2">{error}</div>
+            )}
+            {notice && (
+                <div className="mx-4 mt-3 bg-green-900/30 border border-green-800 text-green-300 text-xs rounded-lg px-3 py-2">{notice}</div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <input
+                            type="date"
+                            value={date}
+                            max={toDateInputValue(new Date())}
+                            onChange={(e) => setDate(e.target.value)}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                        <input
+                            type="time"
+                            value={startClock}
+                            onChange={(e) => setStartClock(e.target.value)}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                        <input
+                            type="time"
+                            value={endClock}
+                            onChange={(e) => setEndClock(e.target.value)}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <select
+                            value={projectId}
+                            onChange={(e) => { setProjectId(e.target.value); setTaskId(''); }}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        >
+                            <option value="">Project...</option>
+                            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <select
+                            value={taskId}
+                            onChange={(e) => setTaskId(e.target.value)}
+                            disabled={!projectId}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                        >
+                            <option value="">Task...</option>
+                            {projectTasks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                    </div>
+                    <input
+                        type="text"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Reason (e.g. sprint planning in the meeting room)"
+                        className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                    />
+                    {start && end && durationSeconds <= 0 && (
+                        <p className="text-xs text-yellow-300">The end time must be after the start time.</p>
+                    )}
+                    <button
+                        onClick={handleAdd}
+                        disabled={saving || !task || durationSeconds <= 0 || !reason.trim()}
+                        className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-xs font-semibold transition-colors"
+                    >
+                        {saving ? 'Adding...' : durationSeconds > 0 ? `Add ${formatDuration(durationSeconds)} for approval` : 'Add for approval'}
+                    </button>
+                </div>
+
+                {entries.length === 0 ? (
+                    <div className="text-center text-gray-500 mt-10">
+                        <i className="fas fa-user-clock text-4xl mb-2"></i>
+                        <p className="text-sm">No manual time yet</p>
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        {entries.map(entry => {
+                            const status = STATUS_STYLES[entry.status];
+                            return (
+                                <div key={entry.id} className="bg-gray-800 rounded-lg border border-gray-700 p-3 text-xs">
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-white font-medium truncate">{entry.taskName || entry.taskId} · <span className="text-gray-400">{entry.projectName || entry.projectId}</span></p>
+                                            <p className="text-gray-400 font-mono mt-0.5">
+                                                {new Date(entry.startTime).toLocaleDateString()} {formatClock(entry.startTime)}–{formatClock(entry.endTime)} ({formatDuration(entry.duration)})
+                                            </p>
+                                        </div>
+                                        <span className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${status.className}`}>
+                                            <i className={`fas ${status.icon} mr-1`}></i>{status.label}
+                                        </span>
+                                        {entry.status === 'pending' && (
+                                            <button
+                                                onClick={() => handleWithdraw(entry)}
+                                                disabled={withdrawingId === entry.id}
+                                                className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                                                title="Withdraw"
+                                            >
+                                                <i className="fas fa-trash-alt"></i>
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className="text-gray-300 mt-2">{entry.reason}</p>
+                                    {entry.reviewerNote && (
+                                        <p className="text-gray-400 mt-1 italic">Reviewer: {entry.reviewerNote}</p>
+                                    )}
+                                    {entry.status === 'pending' && !entry.submittedAt && (
+                                        <p className="text-gray-500 mt-1">Not sent yet - it will be sent when the server is reachable</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
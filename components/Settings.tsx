@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Settings as SettingsType, ActivityLog, TimeEntry } from '../types';
+import { Settings as SettingsType, ActivityLog, TimeEntry, CaptureProfile, RedactionRule, ScreenshotExclusionRule, ClassificationRule } from '../types';
 import { apiService } from '../services/apiService';
+import { classificationRules } from '../services/classificationRules';
+import { ClassificationRulesEditor } from './ClassificationRulesEditor';
+import { UnclassifiedInbox } from './UnclassifiedInbox';
 import packageJson from '../package.json';
+import type { OutboxStatus, DiskUsage, EncryptionStatus, BrowserBridgeStatus } from '../types/electron';
 
 interface SettingsProps {
     activityLogs: ActivityLog[];
@@ -13,6 +17,20 @@ interface SettingsProps {
 
 // Electron API types are defined in types/electron.d.ts
 
+// Mirrors DEFAULT_CAPTURE_PROFILES in electron/main.cjs
+const DEFAULT_CAPTURE_PROFILES: Record<'screenshotProfile' | 'webcamProfile', CaptureProfile> = {
+    screenshotProfile: { maxWidth: 1920, maxHeight: 1080, format: 'png', quality: 80, grayscale: false },
+    webcamProfile: { maxWidth: 0, maxHeight: 0, format: 'jpeg', quality: 80, grayscale: false }
+};
+
+const RESOLUTION_CAPS = [
+    { value: '1280x720', label: '1280 × 720' },
+    { value: '1600x900', label: '1600 × 900' },
+    { value: '1920x1080', label: '1920 × 1080' },
+    { value: '2560x1440', label: '2560 × 1440' },
+    { value: '0x0', label: 'Original size' }
+];
+
 export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, onClose, onDataDeleted, onNavigateToCalculationDetails }) => {
     const [settings, setSettings] = useState<SettingsType>({
         enableScreenshots: true,
@@ -21,7 +39,21 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
         idleTimeThreshold: 5,
         screenshotCaptureInterval: 2, // Default 2 minutes
         cameraPhotoInterval: 2, // Default 2 minutes
-        autoSyncInterval: 2 // Default 2 minutes
+        autoSyncInterval: 2, // Default 2 minutes
+        multiMonitorMode: 'stitched',
+        screenshotChangeThreshold: 5,
+        skipUnchangedScreenshots: true,
+        screenshotProfile: DEFAULT_CAPTURE_PROFILES.screenshotProfile,
+        webcamProfile: DEFAULT_CAPTURE_PROFILES.webcamProfile,
+        redactionRules: [],
+        screenshotExclusions: [],
+        classificationRules: [],
+        reviewBeforeUpload: false,
+        reviewGraceMinutes: 10,
+        reviewDeletionPolicy: 'deduct-interval',
+        browserBridgeEnabled: false,
+        imageRetentionDays: 0,
+        activityLogRetentionDays: 0
     });
     const [loading, setLoading] = useState(true);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -31,6 +63,16 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
     const [oauthStatus, setOauthStatus] = useState<{ authenticated: boolean; user?: any } | null>(null);
     const [authenticating, setAuthenticating] = useState(false);
     const [deviceCode, setDeviceCode] = useState<{ user_code: string; verification_url: string; browser_opened: boolean } | null>(null);
+    const [outboxStatus, setOutboxStatus] = useState<OutboxStatus | null>(null);
+    const [diskUsage, setDiskUsage] = useState<DiskUsage | null>(null);
+    const [pruning, setPruning] = useState(false);
+    const [encryptionStatus, setEncryptionStatus] = useState<EncryptionStatus | null>(null);
+    const [rotatingKey, setRotatingKey] = useState(false);
+    const [rotationMessage, setRotationMessage] = useState('');
+    const [bridgeStatus, setBridgeStatus] = useState<BrowserBridgeStatus | null>(null);
+    const [tokenCopied, setTokenCopied] = useState(false);
+    const [newExclusion, setNewExclusion] = useState<{ kind: 'app' | 'url'; pattern: string; detail: string }>({ kind: 'app', pattern: '', detail: '' });
+    const [newRedactionRule, setNewRedactionRule] = useState<Pick<RedactionRule, 'match' | 'pattern' | 'action'>>({ match: 'app', pattern: '', action: 'blur' });
 
     useEffect(() => {
         const loadSettings = async () => {
@@ -52,6 +94,20 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
                         screenshotCaptureInterval: savedSettings?.screenshotCaptureInterval ?? 2,
                         cameraPhotoInterval: savedSettings?.cameraPhotoInterval ?? 2,
                         autoSyncInterval: savedSettings?.autoSyncInterval ?? 2,
+                        multiMonitorMode: savedSettings?.multiMonitorMode ?? 'stitched',
+                        screenshotChangeThreshold: savedSettings?.screenshotChangeThreshold ?? 5,
+                        skipUnchangedScreenshots: savedSettings?.skipUnchangedScreenshots ?? true,
+                        screenshotProfile: { ...DEFAULT_CAPTURE_PROFILES.screenshotProfile, ...savedSettings?.screenshotProfile },
+                        webcamProfile: { ...DEFAULT_CAPTURE_PROFILES.webcamProfile, ...savedSettings?.webcamProfile },
+                        redactionRules: savedSettings?.redactionRules ?? [],
+                        screenshotExclusions: savedSettings?.screenshotExclusions ?? [],
+                        classificationRules: savedSettings?.classificationRules ?? [],
+                        reviewBeforeUpload: savedSettings?.reviewBeforeUpload ?? false,
+                        reviewGraceMinutes: savedSettings?.reviewGraceMinutes ?? 10,
+                        reviewDeletionPolicy: savedSettings?.reviewDeletionPolicy ?? 'deduct-interval',
+                        browserBridgeEnabled: savedSettings?.browserBridgeEnabled ?? false,
+                        imageRetentionDays: savedSettings?.imageRetentionDays ?? 0,
+                        activityLogRetentionDays: savedSettings?.activityLogRetentionDays ?? 0,
                         // Use env vars if available, otherwise use saved settings
                         apiBaseUrl: envApiBaseUrl || savedSettings?.apiBaseUrl || '',
                         apiKey: envApiKey || savedSettings?.apiKey || '',
@@ -84,7 +140,109 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
         };
     }, []);
 
-    const handleSettingChange = async (key: keyof SettingsType, value: boolean | number | string) => {
+    // Keep the pending upload count live while Settings is open
+    useEffect(() => {
+        if (!window.electronAPI?.getOutboxStatus) return;
+        window.electronAPI.getOutboxStatus().then(setOutboxStatus).catch((error) => {
+            console.error('Error loading upload queue status:', error);
+        });
+        window.electronAPI.onOutboxStatusUpdate(setOutboxStatus);
+        return () => {
+            window.electronAPI?.removeOutboxStatusListener();
+        };
+    }, []);
+
+    const loadDiskUsage = async () => {
+        if (!window.electronAPI?.getDiskUsage) return;
+        try {
+            setDiskUsage(await window.electronAPI.getDiskUsage());
+        } catch (error) {
+            console.error('Error loading disk usage:', error);
+        }
+    };
+
+    useEffect(() => {
+        loadDiskUsage();
+        window.electronAPI?.getEncryptionStatus?.().then(setEncryptionStatus).catch((error) => {
+            console.error('Error loading encryption status:', error);
+        });
+    }, []);
+
+    // Refresh the bridge status while it's on so newly paired browsers show up
+    useEffect(() => {
+        if (!window.electronAPI?.getBrowserBridgeStatus) return;
+        const loadBridgeStatus = () => {
+            window.electronAPI?.getBrowserBridgeStatus().then(status => {
+                if (status.success) setBridgeStatus(status);
+            }).catch((error) => {
+                console.error('Error loading browser bridge status:', error);
+            });
+        };
+        loadBridgeStatus();
+        if (!settings.browserBridgeEnabled) return;
+        const interval = setInterval(loadBridgeStatus, 5000);
+        return () => clearInterval(interval);
+    }, [settings.browserBridgeEnabled]);
+
+    const handleCopyBridgeToken = async () => {
+        if (!bridgeStatus?.token) return;
+        await navigator.clipboard.writeText(bridgeStatus.token);
+        setTokenCopied(true);
+        setTimeout(() => setTokenCopied(false), 2000);
+    };
+
+    const handleRegenerateBridgeToken = async () => {
+        if (!window.electronAPI?.regenerateBrowserBridgeToken) return;
+        const confirmed = window.confirm('Create a new pairing token? Paired browsers will need the new token.');
+        if (!confirmed) return;
+        const status = await window.electronAPI.regenerateBrowserBridgeToken();
+        if (status.success) setBridgeStatus(status);
+    };
+
+    const handleRotateKey = async () => {
+        if (!window.electronAPI?.rotateEncryptionKey) return;
+        const confirmed = window.confirm('Re-encrypt all local tracking data with a new key? This may take a moment.');
+        if (!confirmed) return;
+
+        setRotatingKey(true);
+        setRotationMessage('');
+        try {
+            const result = await window.electronAPI.rotateEncryptionKey();
+            setRotationMessage(result.success
+                ? `✓ Now using key ${result.keyId}`
+                : `✗ Rotation incomplete: ${result.error || `${result.failed} item(s) failed`}`);
+            setEncryptionStatus(await window.electronAPI.getEncryptionStatus());
+        } finally {
+            setRotatingKey(false);
+            setTimeout(() => setRotationMessage(''), 5000);
+        }
+    };
+
+    const handlePruneNow = async () => {
+        if (!window.electronAPI?.pruneTrackingData) return;
+        setPruning(true);
+        try {
+            await window.electronAPI.pruneTrackingData();
+            await loadDiskUsage();
+        } finally {
+            setPruning(false);
+        }
+    };
+
+    const formatBytes = (bytes: number) => {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+        if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+        return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+    };
+
+    const handleRetryUploads = async () => {
+        if (window.electronAPI?.flushOutbox) {
+            await window.electronAPI.flushOutbox();
+        }
+    };
+
+    const handleSettingChange = async (key: keyof SettingsType, value: boolean | number | string | CaptureProfile | RedactionRule[] | ScreenshotExclusionRule[] | ClassificationRule[]) => {
         const newSettings = { ...settings, [key]: value };
         setSettings(newSettings);
         
@@ -106,6 +264,113 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
         }
     };
 
+    const handleCaptureProfileChange = (key: 'screenshotProfile' | 'webcamProfile', changes: Partial<CaptureProfile>) => {
+        handleSettingChange(key, { ...DEFAULT_CAPTURE_PROFILES[key], ...settings[key], ...changes });
+    };
+
+    const handleAddExclusion = () => {
+        const pattern = newExclusion.pattern.trim();
+        const detail = newExclusion.detail.trim();
+        if (!pattern) return;
+        const rule: ScreenshotExclusionRule = newExclusion.kind === 'app'
+            ? { id: `exclude_${Date.now()}`, processName: pattern, titlePattern: detail || undefined, enabled: true }
+            : { id: `exclude_${Date.now()}`, domainPattern: pattern, pathPattern: detail || undefined, enabled: true };
+        handleSettingChange('screenshotExclusions', [...(settings.screenshotExclusions || []), rule]);
+        setNewExclusion({ ...newExclusion, pattern: '', detail: '' });
+    };
+
+    const handleToggleExclusion = (id: string, enabled: boolean) => {
+        handleSettingChange('screenshotExclusions', (settings.screenshotExclusions || []).map(rule => rule.id === id ? { ...rule, enabled } : rule));
+    };
+
+    const handleRemoveExclusion = (id: string) => {
+        handleSettingChange('screenshotExclusions', (settings.screenshotExclusions || []).filter(rule => rule.id !== id));
+    };
+
+    const handleAddRedactionRule = () => {
+        const pattern = newRedactionRule.pattern.trim();
+        if (!pattern) return;
+        const rule: RedactionRule = { id: `redact_${Date.now()}`, ...newRedactionRule, pattern, enabled: true };
+        handleSettingChange('redactionRules', [...(settings.redactionRules || []), rule]);
+        setNewRedactionRule({ ...newRedactionRule, pattern: '' });
+    };
+
+    const handleUpdateRedactionRule = (id: string, changes: Partial<RedactionRule>) => {
+        handleSettingChange('redactionRules', (settings.redactionRules || []).map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    };
+
+    const handleRemoveRedactionRule = (id: string) => {
+        handleSettingChange('redactionRules', (settings.redactionRules || []).filter(rule => rule.id !== id));
+    };
+
+    const handleClassificationRulesChange = (rules: ClassificationRule[]) => {
+        handleSettingChange('classificationRules', rules);
+        classificationRules.setUserRules(rules);
+    };
+
+    const renderCaptureProfile = (key: 'screenshotProfile' | 'webcamProfile', title: string) => {
+        const profile = { ...DEFAULT_CAPTURE_PROFILES[key], ...settings[key] };
+        const resolution = `${profile.maxWidth}x${profile.maxHeight}`;
+        return (
+            <div className="space-y-3">
+                <p className="text-xs text-gray-300 font-medium">{title}</p>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">Max Resolution</label>
+                        <select
+                            value={resolution}
+                            onChange={(e) => {
+                                const [maxWidth, maxHeight] = e.target.value.split('x').map(Number);
+                                handleCaptureProfileChange(key, { maxWidth, maxHeight });
+                            }}
+                            className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                        >
+                            {!RESOLUTION_CAPS.some(cap => cap.value === resolution) && (
+                                <option value={resolution}>{profile.maxWidth} × {profile.maxHeight}</option>
+                            )}
+                            {RESOLUTION_CAPS.map(cap => (
+                                <option key={cap.value} value={cap.value}>{cap.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">Format</label>
+                        <select
+                            value={profile.format}
+                            onChange={(e) => handleCaptureProfileChange(key, { format: e.target.value as CaptureProfile['format'] })}
+                            className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                        >
+                            <option value="png">PNG (lossless)</option>
+                            <option value="jpeg">JPEG</option>
+                            <option value="webp">WebP</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">Quality (1-100)</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={profile.quality}
+                            disabled={profile.format === 'png'}
+                            onChange={(e) => handleCaptureProfileChange(key, { quality: Math.min(100, Math.max(1, parseInt(e.target.value) || 80)) })}
+                            className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-300 mt-5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={profile.grayscale}
+                            onChange={(e) => handleCaptureProfileChange(key, { grayscale: e.target.checked })}
+                            className="accent-blue-600"
+                        />
+                        Grayscale
+                    </label>
+                </div>
+            </div>
+        );
+    };
+
     const handleTestConnection = async () => {
         if (!settings.apiBaseUrl) {
             setApiStatus('Please enter API base URL');
@@ -412,6 +677,62 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
                                 </label>
                             </div>
 
+                            {/* Multi-Monitor Screenshots */}
+                            <div>
+                                <label className="block text-xs text-gray-300 mb-2 font-medium">
+                                    Multiple Monitors
+                                </label>
+                                <select
+                                    value={settings.multiMonitorMode || 'stitched'}
+                                    onChange={(e) => handleSettingChange('multiMonitorMode', e.target.value as 'stitched' | 'separate')}
+                                    className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                >
+                                    <option value="stitched">One combined screenshot</option>
+                                    <option value="separate">Separate screenshot per display</option>
+                                </select>
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Every display is captured; choose whether they are combined by screen layout or kept as separate images
+                                </p>
+                            </div>
+
+                            {/* Unchanged Screen Detection */}
+                            <div>
+                                <label className="block text-xs text-gray-300 mb-2 font-medium">
+                                    Minimum Screen Change (%)
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="50"
+                                    value={settings.screenshotChangeThreshold ?? 5}
+                                    onChange={(e) => handleSettingChange('screenshotChangeThreshold', Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Screenshots that differ from the previous one by less than this are treated as an unchanged screen (0 = off, default: 5%)
+                                </p>
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <label className="text-xs text-gray-300 font-medium">
+                                        Skip Unchanged Screenshots
+                                    </label>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Don't upload screenshots of an unchanged screen; when off they are uploaded and marked
+                                    </p>
+                                </div>
+                                <label className="relative inline-flex items-center cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.skipUnchangedScreenshots ?? true}
+                                        onChange={(e) => handleSettingChange('skipUnchangedScreenshots', e.target.checked)}
+                                        className="sr-only peer"
+                                    />
+                                    <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                </label>
+                            </div>
+
                             {/* Idle Time Threshold */}
                             <div>
                                 <label className="block text-xs text-gray-300 mb-2 font-medium">
@@ -432,6 +753,91 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
                         </div>
                     </section>
 
+                    {/* Browser Extension */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-2">Browser Extension</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            The Tyrodesk browser extension reports the exact address of the active tab instead of guessing it from the window title
+                        </p>
+                        <div className="space-y-4">
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <label className="text-xs text-gray-300 font-medium">
+                                        Accept Tabs From the Browser Extension
+                                    </label>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Listens on this computer only (port {bridgeStatus?.port ?? 17345}); incognito tabs are never reported
+                                    </p>
+                                </div>
+                                <label className="relative inline-flex items-center cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.browserBridgeEnabled ?? false}
+                                        onChange={(e) => handleSettingChange('browserBridgeEnabled', e.target.checked)}
+                                        className="sr-only peer"
+                                    />
+                                    <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                </label>
+                            </div>
+
+                            {settings.browserBridgeEnabled && bridgeStatus && (
+                                <>
+                                    <div>
+                                        <label className="block text-xs text-gray-300 mb-2 font-medium">
+                                            Pairing Token
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="text"
+                                                readOnly
+                                                value={bridgeStatus.token}
+                                                className="flex-1 bg-gray-700 text-white font-mono text-xs px-3 py-2 rounded-lg border border-gray-600 focus:outline-none"
+                                            />
+                                            <button
+                                                onClick={handleCopyBridgeToken}
+                                                className="bg-gray-700 hover:bg-gray-600 text-white text-xs px-3 py-2 rounded-lg"
+                                            >
+                                                <i className={`fas ${tokenCopied ? 'fa-check' : 'fa-copy'} mr-1`}></i>
+                                                {tokenCopied ? 'Copied' : 'Copy'}
+                                            </button>
+                                            <button
+                                                onClick={handleRegenerateBridgeToken}
+                                                className="bg-gray-700 hover:bg-gray-600 text-white text-xs px-3 py-2 rounded-lg"
+                                                title="Create a new token"
+                                            >
+                                                <i className="fas fa-sync-alt"></i>
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            Paste this into the extension's options page to pair it
+                                        </p>
+                                    </div>
+
+                                    <div className="text-xs">
+                                        {!bridgeStatus.listening ? (
+                                            <p className="text-yellow-400">
+                                                <i className="fas fa-exclamation-triangle mr-1"></i>
+                                                Not listening - port {bridgeStatus.port} may be in use by another program
+                                            </p>
+                                        ) : bridgeStatus.clients.length === 0 ? (
+                                            <p className="text-gray-400">No browser paired yet</p>
+                                        ) : (
+                                            bridgeStatus.clients.map(client => (
+                                                <p key={client.connectedAt} className="text-gray-300">
+                                                    <i className="fas fa-circle text-green-400 text-[8px] mr-2"></i>
+                                                    {client.browser}
+                                                    <span className="text-gray-500 ml-2">
+                                                        {client.lastTabAt ? `last tab ${new Date(client.lastTabAt).toLocaleTimeString()}` : 'waiting for a tab'}
+                                                    </span>
+                                                </p>
+                                            ))
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </section>
+
                     {/* What We Collect */}
                     <section className="bg-gray-800 rounded-lg p-4">
                         <h3 className="text-white font-semibold text-sm mb-3">What We Collect</h3>
@@ -520,9 +926,390 @@ export const Settings: React.FC<SettingsProps> = ({ activityLogs, timeEntries, o
                                     How often data is automatically synced to server (default: 2 minutes)
                                 </p>
                             </div>
+
+                            {/* Pending Uploads (offline outbox) */}
+                            {outboxStatus && (
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <p className="text-xs text-gray-300">Pending Uploads</p>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            {outboxStatus.depth === 0
+                                                ? 'Everything is uploaded'
+                                                : `${outboxStatus.depth} waiting${outboxStatus.isOnline ? '' : ' (offline)'}`}
+                                            {outboxStatus.failed > 0 && ` · ${outboxStatus.failed} failed`}
+                                        </p>
+                                        {outboxStatus.depth > 0 && outboxStatus.lastError && (
+                                            <p className="text-xs text-yellow-400 mt-1 truncate">{outboxStatus.lastError}</p>
+                                        )}
+                                    </div>
+                                    {outboxStatus.depth > 0 && (
+                                        <button
+                                            onClick={handleRetryUploads}
+                                            disabled={outboxStatus.isReplaying}
+                                            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                                        >
+                                            <i className={`fas fa-sync-alt mr-1 ${outboxStatus.isReplaying ? 'fa-spin' : ''}`}></i>
+                                            Retry Now
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </section>
+
+                    {/* Capture Profiles */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-4">Capture Quality</h3>
+                        <div className="space-y-4">
+                            {renderCaptureProfile('screenshotProfile', 'Screenshots')}
+                            {renderCaptureProfile('webcamProfile', 'Camera Photos')}
+                            <p className="text-xs text-gray-400">
+                                Smaller resolutions and JPEG/WebP keep uploads and local files light; quality applies to JPEG and WebP only
+                            </p>
+                        </div>
+                    </section>
+
+                    {/* Review Before Upload */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-2">Review Before Upload</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            Screenshots stay on this computer for a grace window so you can delete them before anyone else sees them
+                        </p>
+                        <div className="space-y-4">
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <label className="text-xs text-gray-300 font-medium">
+                                        Review Screenshots Before Upload
+                                    </label>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Pending screenshots are listed under the review button in the header
+                                    </p>
+                                </div>
+                                <label className="relative inline-flex items-center cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.reviewBeforeUpload ?? false}
+                                        onChange={(e) => handleSettingChange('reviewBeforeUpload', e.target.checked)}
+                                        className="sr-only peer"
+                                    />
+                                    <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                </label>
+                            </div>
+
+                            {settings.reviewBeforeUpload && (
+                                <>
+                                    <div>
+                                        <label className="block text-xs text-gray-300 mb-2 font-medium">
+                                            Grace Window (minutes)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            max="1440"
+                                            value={settings.reviewGraceMinutes ?? 10}
+                                            onChange={(e) => handleSettingChange('reviewGraceMinutes', Math.max(1, parseInt(e.target.value) || 10))}
+                                            className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            Screenshots you haven't reviewed upload on their own after this long (default: 10 minutes)
+                                        </p>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-xs text-gray-300 mb-2 font-medium">
+                                            Deleted Screenshots
+                                        </label>
+                                        <select
+                                            value={settings.reviewDeletionPolicy || 'deduct-interval'}
+                                            onChange={(e) => handleSettingChange('reviewDeletionPolicy', e.target.value)}
+                                            className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                        >
+                                            <option value="deduct-interval">Deduct the screenshot interval from tracked time</option>
+                                            <option value="keep-time">Keep tracked time, only log the removal</option>
+                                        </select>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            Follow your company's policy - either way the activity log shows the screenshot as removed by user
+                                        </p>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </section>
+
+                    {/* Screenshot Exclusions */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-2">Never Capture</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            No screenshot is taken while a matching app or website is focused; the activity log records it as suppressed for privacy
+                        </p>
+                        <div className="space-y-2">
+                            {(settings.screenshotExclusions || []).length === 0 && (
+                                <p className="text-xs text-gray-500">No exclusions yet</p>
+                            )}
+                            {(settings.screenshotExclusions || []).map(rule => (
+                                <div key={rule.id} className="flex items-center gap-2 bg-gray-700/50 rounded-lg px-3 py-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={(e) => handleToggleExclusion(rule.id, e.target.checked)}
+                                        className="accent-blue-600"
+                                    />
+                                    <span className="text-[10px] uppercase text-gray-400 w-10">{rule.domainPattern ? 'url' : 'app'}</span>
+                                    <span className="flex-1 text-xs text-white truncate">
+                                        {rule.processName || rule.domainPattern}
+                                        {(rule.titlePattern || rule.pathPattern) && (
+                                            <span className="text-gray-400"> · {rule.titlePattern || rule.pathPattern}</span>
+                                        )}
+                                    </span>
+                                    <button
+                                        onClick={() => handleRemoveExclusion(rule.id)}
+                                        className="text-gray-400 hover:text-red-400 text-xs px-1"
+                                        title="Remove exclusion"
+                                    >
+                                        <i className="fas fa-times"></i>
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex gap-2 mt-3">
+                            <select
+                                value={newExclusion.kind}
+                                onChange={(e) => setNewExclusion({ ...newExclusion, kind: e.target.value as 'app' | 'url' })}
+                                className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            >
+                                <option value="app">App</option>
+                                <option value="url">Website</option>
+                            </select>
+                            <input
+                                type="text"
+                                value={newExclusion.pattern}
+                                onChange={(e) => setNewExclusion({ ...newExclusion, pattern: e.target.value })}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAddExclusion()}
+                                placeholder={newExclusion.kind === 'app' ? 'Process, e.g. 1Password' : 'Domain, e.g. mybank.com'}
+                                className="flex-1 min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            />
+                            <input
+                                type="text"
+                                value={newExclusion.detail}
+                                onChange={(e) => setNewExclusion({ ...newExclusion, detail: e.target.value })}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAddExclusion()}
+                                placeholder={newExclusion.kind === 'app' ? 'Title (optional)' : 'Path (optional)'}
+                                className="w-28 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            />
+                            <button
+                                onClick={handleAddExclusion}
+                                disabled={!newExclusion.pattern.trim()}
+                                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                            >
+                                Add
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">Wrap a pattern in slashes to use a regular expression, e.g. /^keepass/</p>
+                    </section>
+
+                    {/* Privacy Redaction */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-2">Privacy Redaction</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            Windows matching these rules are blurred or blacked out in screenshots; the rest of the screen stays visible
+                        </p>
+                        <div className="space-y-2">
+                            {(settings.redactionRules || []).length === 0 && (
+                                <p className="text-xs text-gray-500">No redaction rules yet</p>
+                            )}
+                            {(settings.redactionRules || []).map(rule => (
+                                <div key={rule.id} className="flex items-center gap-2 bg-gray-700/50 rounded-lg px-3 py-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={(e) => handleUpdateRedactionRule(rule.id, { enabled: e.target.checked })}
+                                        className="accent-blue-600"
+                                    />
+                                    <span className="text-[10px] uppercase text-gray-400 w-10">{rule.match}</span>
+                                    <span className="flex-1 text-xs text-white truncate">{rule.pattern}</span>
+                                    <select
+                                        value={rule.action}
+                                        onChange={(e) => handleUpdateRedactionRule(rule.id, { action: e.target.value as RedactionRule['action'] })}
+                                        className="bg-gray-700 text-white text-xs px-2 py-1 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                    >
+                                        <option value="blur">Blur</option>
+                                        <option value="blackout">Black out</option>
+                                    </select>
+                                    <button
+                                        onClick={() => handleRemoveRedactionRule(rule.id)}
+                                        className="text-gray-400 hover:text-red-400 text-xs px-1"
+                                        title="Remove rule"
+                                    >
+                                        <i className="fas fa-times"></i>
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex gap-2 mt-3">
+                            <select
+                                value={newRedactionRule.match}
+                                onChange={(e) => setNewRedactionRule({ ...newRedactionRule, match: e.target.value as RedactionRule['match'] })}
+                                className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            >
+                                <option value="app">App</option>
+                                <option value="url">Website</option>
+                                <option value="title">Title</option>
+                            </select>
+                            <input
+                                type="text"
+                                value={newRedactionRule.pattern}
+                                onChange={(e) => setNewRedactionRule({ ...newRedactionRule, pattern: e.target.value })}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAddRedactionRule()}
+                                placeholder={newRedactionRule.match === 'url' ? 'bank.example.com' : newRedactionRule.match === 'app' ? '1Password' : 'Payroll'}
+                                className="flex-1 min-w-0 bg-gray-700 text-white text-xs px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            />
+                            <select
+                                value={newRedactionRule.action}
+                                onChange={(e) => setNewRedactionRule({ ...newRedactionRule, action: e.target.value as RedactionRule['action'] })}
+                                className="bg-gray-700 text-white text-xs px-2 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                            >
+                                <option value="blur">Blur</option>
+                                <option value="blackout">Black out</option>
+                            </select>
+                            <button
+                                onClick={handleAddRedactionRule}
+                                disabled={!newRedactionRule.pattern.trim()}
+                                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                            >
+                                Add
+                            </button>
+                        </div>
+                    </section>
+
+                    {/* Classification Rules */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-2">Classification Rules</h3>
+                        <p className="text-xs text-gray-400 mb-4">
+                            Decide how apps and websites count toward productivity. Process names and domains match exactly, titles and paths anywhere; write /.../ for a regular expression
+                        </p>
+                        <UnclassifiedInbox
+                            activityLogs={activityLogs}
+                            rules={settings.classificationRules || []}
+                            onClassify={(rule) => handleClassificationRulesChange([...(settings.classificationRules || []), rule])}
+                        />
+                        <ClassificationRulesEditor
+                            rules={settings.classificationRules || []}
+                            onChange={handleClassificationRulesChange}
+                        />
+                    </section>
+
+                    {/* Data Retention */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h3 className="text-white font-semibold text-sm mb-4">Local Data Retention</h3>
+                        <div className="space-y-4">
+                            {/* Image Retention */}
+                            <div>
+                                <label className="block text-xs text-gray-300 mb-2">
+                                    Keep Screenshots & Photos (days)
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="3650"
+                                    value={settings.imageRetentionDays ?? 0}
+                                    onChange={(e) => handleSettingChange('imageRetentionDays', Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Raw images older than this are removed from this computer once synced; the server keeps its copy (0 = keep forever, the default)
+                                </p>
+                            </div>
+
+                            {/* Activity Log Retention */}
+                            <div>
+                                <label className="block text-xs text-gray-300 mb-2">
+                                    Keep Activity Logs (days)
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="3650"
+                                    value={settings.activityLogRetentionDays ?? 0}
+                                    onChange={(e) => handleSettingChange('activityLogRetentionDays', Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full bg-gray-700 text-white px-3 py-2 rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Activity logs and URL history are removed after this; daily summaries are always kept (0 = keep forever, the default)
+                                </p>
+                            </div>
+
+                            {/* Disk Usage */}
+                            {diskUsage?.success && (
+                                <div>
+                                    <div className="flex items-center justify-between mb-2">
+                                        <p className="text-xs text-gray-300">
+                                            Disk Usage: <span className="text-white font-semibold">{formatBytes(diskUsage.totalBytes || 0)}</span>
+                                        </p>
+                                        <button
+                                            onClick={handlePruneNow}
+                                            disabled={pruning}
+                                            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                                        >
+                                            <i className={`fas fa-broom mr-1 ${pruning ? 'fa-spin' : ''}`}></i>
+                                            Clean Up Now
+                                        </button>
+                                    </div>
+                                    <div className="space-y-1">
+                                        {(diskUsage.workspaces || []).map(workspace => (
+                                            <div key={workspace.workspaceId} className="flex items-center justify-between text-xs text-gray-400">
+                                                <span>Workspace {workspace.workspaceId} · {workspace.days} day{workspace.days === 1 ? '' : 's'}, {workspace.taskFiles} task file{workspace.taskFiles === 1 ? '' : 's'}</span>
+                                                <span className="text-gray-300 font-mono">{formatBytes(workspace.bytes)}</span>
+                                            </div>
+                                        ))}
+                                        {(diskUsage.outboxBytes || 0) > 0 && (
+                                            <div className="flex items-center justify-between text-xs text-gray-400">
+                                                <span>Pending uploads</span>
+                                                <span className="text-gray-300 font-mono">{formatBytes(diskUsage.outboxBytes || 0)}</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                    {diskUsage.lastPrune?.ranAt && (
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            Last clean-up {new Date(diskUsage.lastPrune.ranAt).toLocaleString()}
+                                            {(diskUsage.lastPrune.skippedUnsynced || 0) > 0 && ` · ${diskUsage.lastPrune.skippedUnsynced} file(s) waiting for sync`}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </section>
 
+                    {/* Data Security */}
+                    {encryptionStatus && (
+                        <section className="bg-gray-800 rounded-lg p-4">
+                            <h3 className="text-white font-semibold text-sm mb-4">Data Security</h3>
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <p className="text-xs text-gray-300">
+                                        <i className={`fas ${encryptionStatus.enabled ? 'fa-lock text-green-400' : encryptionStatus.error ? 'fa-lock text-red-400' : 'fa-lock-open text-yellow-400'} mr-1`}></i>
+                                        {encryptionStatus.enabled ? 'Local data is encrypted' : encryptionStatus.error ? 'Encrypted data is locked' : 'Local data is not encrypted'}
+                                    </p>
+                                    <p className={`text-xs mt-1 ${encryptionStatus.error ? 'text-red-400' : 'text-gray-400'}`}>
+                                        {encryptionStatus.enabled
+                                            ? `Key ${encryptionStatus.keyId} stored in ${encryptionStatus.keySource === 'keychain' ? 'the OS keychain' : 'protected app storage'}`
+                                            : encryptionStatus.error || 'No secure key storage is available on this system'}
+                                    </p>
+                                    {rotationMessage && <p className="text-xs text-gray-300 mt-1">{rotationMessage}</p>}
+                                </div>
+                                {encryptionStatus.enabled && (
+                                    <button
+                                        onClick={handleRotateKey}
+                                        disabled={rotatingKey}
+                                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs px-3 py-2 rounded-lg"
+                                    >
+                                        <i className={`fas fa-key mr-1 ${rotatingKey ? 'fa-spin' : ''}`}></i>
+                                        Rotate Key
+                                    </button>
+                                )}
+                            </div>
+                        </section>
+                    )}
+
                     {/* App Version */}
                     <section className="mt-6 pt-6 border-t border-gray-700">
                         <div className="text-center">
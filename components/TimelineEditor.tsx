@@ -0,0 +1,265 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Project, Task } from '../types';
+import type { ReattributionAudit, TimelineEntry } from '../types/electron';
+import { authState } from '../services/authState';
+
+type TodayTask = { projectId: string; taskId: string; taskName: string; projectName: string; totalTime: number; activityLogCount: number };
+
+export interface ReattributionResult {
+    audit: ReattributionAudit;
+    source: { projectId: string; taskId: string; totalTime: number };
+    target: { projectId: string; taskId: string; totalTime: number };
+}
+
+interface TimelineEditorProps {
+    projects: Project[];
+    tasks: Task[];
+    runningTask: { projectId: string; taskId: string } | null; // Can't be edited until the timer stops
+    onClose: () => void;
+    onMoved: (result: ReattributionResult) => void;
+}
+
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const taskKey = (projectId: string, taskId: string) => `${projectId}/${taskId}`;
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ projects, tasks, runningTask, onClose, onMoved }) => {
+    const [todayTasks, setTodayTasks] = useState<TodayTask[]>([]);
+    const [sourceKey, setSourceKey] = useState<string>('');
+    const [entries, setEntries] = useState<TimelineEntry[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [anchor, setAnchor] = useState<number | null>(null);
+    const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+    const [targetProjectId, setTargetProjectId] = useState('');
+    const [targetTaskId, setTargetTaskId] = useState('');
+    const [reason, setReason] = useState('');
+    const [moving, setMoving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const source = todayTasks.find(t => taskKey(t.projectId, t.taskId) === sourceKey) || null;
+    const sourceIsRunning = !!source && !!runningTask && taskKey(runningTask.projectId, runningTask.taskId) === sourceKey;
+
+    const loadTodayTasks = useCallback(async () => {
+        if (!window.electronAPI?.getTodayTasks) return;
+        const result = await window.electronAPI.getTodayTasks();
+        const withLogs = result.filter(t => t.activityLogCount > 0);
+        setTodayTasks(withLogs);
+        setSourceKey(prev => prev && withLogs.some(t => taskKey(t.projectId, t.taskId) === prev)
+            ? prev
+            : (withLogs[0] ? taskKey(withLogs[0].projectId, withLogs[0].taskId) : ''));
+    }, []);
+
+    const loadTimeline = useCallback(async () => {
+        setAnchor(null);
+        setRange(null);
+        if (!source || !window.electronAPI?.getTaskTimeline) {
+            setEntries([]);
+            return;
+        }
+        setLoading(true);
+        const result = await window.electronAPI.getTaskTimeline(source.projectId, source.taskId);
+        if (result.success) {
+            setEntries(result.entries);
+        } else {
+            setError(result.error || 'Failed to load the timeline');
+        }
+        setLoading(false);
+    }, [source?.projectId, source?.taskId]);
+
+    useEffect(() => {
+        loadTodayTasks();
+    }, [loadTodayTasks]);
+
+    useEffect(() => {
+        loadTimeline();
+    }, [loadTimeline]);
+
+    // Click picks one interval, shift-click extends the selection from it
+    const handleEntryClick = (index: number, extend: boolean) => {
+        if (extend && anchor !== null) {
+            setRange({ from: Math.min(anchor, index), to: Math.max(anchor, index) });
+        } else {
+            setAnchor(index);
+            setRange({ from: index, to: index });
+        }
+        setNotice(null);
+    };
+
+    const selected = range ? entries.slice(range.from, range.to + 1) : [];
+    const selectedSeconds = selected.reduce((sum, entry) => sum + (new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 1000, 0);
+    const targetTasks = tasks.filter(t => t.projectId === targetProjectId && !t.completed && (!source || taskKey(t.projectId, t.id) !== sourceKey));
+    const targetTask = targetTasks.find(t => t.id === targetTaskId);
+    const targetIsRunning = !!runningTask && !!targetTask && taskKey(runningTask.projectId, runningTask.taskId) === taskKey(targetTask.projectId, targetTask.id);
+
+    const handleMove = async () => {
+        if (!source || !targetTask || selected.length === 0 || !window.electronAPI?.reattributeActivityLogs) return;
+        setMoving(true);
+        setError(null);
+        const user = authState.getUser();
+        const result = await window.electronAPI.reattributeActivityLogs({
+            projectId: source.projectId,
+            taskId: source.taskId,
+            activityLogIds: selected.map(entry => entry.id),
+            targetProjectId: targetTask.projectId,
+            targetTaskId: targetTask.id,
+            targetTaskName: targetTask.name,
+            targetProjectName: projects.find(p => p.id === targetTask.projectId)?.name,
+            movedBy: user ? { id: user.id, name: user.name, email: user.email } : null,
+            reason: reason.trim() || undefined
+        });
+        if (result.success && result.audit && result.source && result.target) {
+            setNotice(`Moved ${selected.length} interval${selected.length === 1 ? '' : 's'} (${formatDuration(result.audit.movedSeconds)}) to ${targetTask.name}`);
+            setReason('');
+            onMoved({ audit: result.audit, source: result.source, target: result.target });
+            await loadTodayTasks();
+            await loadTimeline();
+        } else {
+            setError(result.error || 'Failed to move the selected intervals');
+        }
+        setMoving(false);
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-gray-900 text-white">
+            <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+                <div>
+                    <h2 className="font-semibold text-lg flex items-center">
+                        <i className="fas fa-exchange-alt text-blue-400 mr-2"></i>
+                        Edit Timeline
+                    </h2>
+                    <p className="text-xs text-gray-400 mt-1">
+                        Move intervals tracked on the wrong task. Their time, screenshots and activity go with them, and the move is recorded for your team.
+                    </p>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-white">
+                    <i className="fas fa-times"></i>
+                </button>
+            </div>
+
+            {error && (
+                <div className="mx-4 mt-3 bg-red-900/30 border border-red-800 text-red-300 text-xs rounded-lg px-3 py-2">{error}</div>
+            )}
+            {notice && (
+                <div className="mx-4 mt-3 bg-green-900/30 border border-green-800 text-green-300 text-xs rounded-lg px-3 py-2">{notice}</div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {todayTasks.length === 0 ? (
+                    <div className="text-center text-gray-500 mt-10">
+                        <i className="fas fa-stream text-4xl mb-2"></i>
+                        <p className="text-sm">No tracked intervals today</p>
+                    </div>
+                ) : (
+                    <>
+                        <div>
+                            <label className="block text-xs text-gray-400 mb-1">From task</label>
+                            <select
+                                value={sourceKey}
+                                onChange={(e) => { setSourceKey(e.target.value); setNotice(null); setError(null); }}
+                                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                            >
+                                {todayTasks.map(t => (
+                                    <option key={taskKey(t.projectId, t.taskId)} value={taskKey(t.projectId, t.taskId)}>
+                                        {t.taskName} · {t.projectName} ({formatDuration(t.totalTime)})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {sourceIsRunning && (
+                            <div className="bg-yellow-900/20 border border-yellow-800/50 text-yellow-300 text-xs rounded-lg px-3 py-2">
+                                <i className="fas fa-exclamation-triangle mr-1"></i>
+                                Stop the timer to move time off the task it is running on.
+                            </div>
+                        )}
+
+                        <div>
+                            <p className="text-xs text-gray-400 mb-1">Intervals (click one, shift-click to select a range)</p>
+                            {loading ? (
+                                <p className="text-xs text-gray-500 text-center py-6">Loading timeline...</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {entries.map((entry, index) => {
+                                        const isSelected = !!range && index >= range.from && index <= range.to;
+                                        return (
+                                            <button
+                                                key={entry.id}
+                                                onClick={(e) => handleEntryClick(index, e.shiftKey)}
+                                                disabled={sourceIsRunning}
+                                                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg border text-left text-xs transition-colors disabled:opacity-50 ${isSelected ? 'bg-blue-900/30 border-blue-600' : 'bg-gray-800 border-gray-700 hover:border-gray-600'}`}
+                                            >
+                                                <span className="font-mono text-gray-300 w-24 flex-shrink-0">{formatClock(entry.start)}–{formatClock(entry.end)}</span>
+                                                <span className="flex-1 min-w-0 truncate">
+                                                    {entry.isIdle ? <span className="text-gray-500">Idle</span> : entry.activeWindow}
+                                                    {entry.activeUrl && <span className="text-gray-500"> · {entry.activeUrl}</span>}
+                                                </span>
+                                                {entry.reattributedFrom && (
+                                                    <span className="text-[10px] text-purple-300 bg-purple-900/30 px-1.5 py-0.5 rounded" title={`Moved here ${new Date(entry.reattributedFrom.at).toLocaleString()}`}>moved</span>
+                                                )}
+                                                {entry.screenshotCount > 0 && (
+                                                    <span className="text-gray-400 flex-shrink-0"><i className="fas fa-image mr-1"></i>{entry.screenshotCount}</span>
+                                                )}
+                                                <span className="text-gray-400 w-10 text-right flex-shrink-0">{Math.round(entry.productivityScore)}%</span>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-3">
+                            <p className="text-xs text-gray-300">
+                                {selected.length > 0
+                                    ? `${selected.length} interval${selected.length === 1 ? '' : 's'} selected (${formatDuration(selectedSeconds)}, ${selected.reduce((sum, entry) => sum + entry.screenshotCount, 0)} screenshots)`
+                                    : 'Select the intervals to move'}
+                            </p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                <select
+                                    value={targetProjectId}
+                                    onChange={(e) => { setTargetProjectId(e.target.value); setTargetTaskId(''); }}
+                                    className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                                >
+                                    <option value="">To project...</option>
+                                    {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                                <select
+                                    value={targetTaskId}
+                                    onChange={(e) => setTargetTaskId(e.target.value)}
+                                    disabled={!targetProjectId}
+                                    className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                                >
+                                    <option value="">To task...</option>
+                                    {targetTasks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </select>
+                            </div>
+                            <input
+                                type="text"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="Reason (optional)"
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                            />
+                            {targetIsRunning && (
+                                <p className="text-xs text-yellow-300">Stop the timer to move time onto the task it is running on.</p>
+                            )}
+                            <button
+                                onClick={handleMove}
+                                disabled={moving || selected.length === 0 || !targetTask || sourceIsRunning || targetIsRunning}
+                                className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-xs font-semibold transition-colors"
+                            >
+                                {moving ? 'Moving...' : 'Move to task'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
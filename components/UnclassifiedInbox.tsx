@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityLog, ClassificationRule, ProductivityCategory } from '../types';
+import type { UnclassifiedItem } from '../types/electron';
+import { classificationRules } from '../services/classificationRules';
+import { unclassifiedInbox } from '../services/unclassifiedInbox';
+
+interface UnclassifiedInboxProps {
+    activityLogs: ActivityLog[];
+    rules: ClassificationRule[];
+    onClassify: (rule: ClassificationRule) => void;
+}
+
+const MAX_VISIBLE_ITEMS = 10;
+
+const CATEGORY_BUTTONS: { category: ProductivityCategory; label: string; icon: string; className: string }[] = [
+    { category: 'productive', label: 'Productive', icon: 'fa-check', className: 'text-green-300 border-green-700 bg-green-900/40' },
+    { category: 'neutral', label: 'Neutral', icon: 'fa-minus', className: 'text-gray-200 border-gray-500 bg-gray-700' },
+    { category: 'unproductive', label: 'Unproductive', icon: 'fa-times', className: 'text-red-300 border-red-700 bg-red-900/40' }
+];
+
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return h > 0 ? `${h}h ${m}m` : `${Math.max(1, m)}m`;
+};
+
+export const UnclassifiedInbox: React.FC<UnclassifiedInboxProps> = ({ activityLogs, rules, onClassify }) => {
+    const [items, setItems] = useState<UnclassifiedItem[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    // Reload whenever the rules change - a new rule may cover other items too
+    useEffect(() => {
+        let cancelled = false;
+        unclassifiedInbox.getItems(classificationRules.getContext())
+            .then(loaded => { if (!cancelled) setItems(loaded); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [rules]);
+
+    const examples = useMemo(
+        () => unclassifiedInbox.buildExamples(activityLogs, rules, classificationRules.getContext()),
+        [activityLogs, rules]
+    );
+    const visible = useMemo(() => items.slice(0, MAX_VISIBLE_ITEMS), [items]);
+    const suggestions = useMemo(
+        () => new Map(visible.map(item => [item.key, unclassifiedInbox.suggest(item, examples)])),
+        [visible, examples]
+    );
+
+    const handleClassify = (item: UnclassifiedItem, category: ProductivityCategory) => {
+        onClassify({
+            id: `classify_${Date.now()}`,
+            kind: item.kind,
+            processName: item.kind === 'app' ? item.name : undefined,
+            domainPattern: item.kind === 'url' ? item.name : undefined,
+            category,
+            enabled: true
+        });
+        handleDismiss(item);
+    };
+
+    const handleDismiss = (item: UnclassifiedItem) => {
+        setItems(prev => prev.filter(i => i.key !== item.key));
+        unclassifiedInbox.remove([item.key]);
+    };
+
+    if (loading) return null;
+
+    return (
+        <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-gray-300 font-medium">
+                    <i className="fas fa-inbox text-blue-400 mr-1.5"></i>
+                    Unclassified apps and websites
+                </p>
+                {items.length > MAX_VISIBLE_ITEMS && (
+                    <span className="text-[10px] text-gray-500">Top {MAX_VISIBLE_ITEMS} of {items.length} by time</span>
+                )}
+            </div>
+            {visible.length === 0 ? (
+                <p className="text-xs text-gray-500 bg-gray-900 rounded-lg px-3 py-2">
+                    Everything you have used so far matches a rule.
+                </p>
+            ) : (
+                <div className="space-y-1.5">
+                    {visible.map(item => {
+                        const suggestion = suggestions.get(item.key);
+                        return (
+                            <div key={item.key} className="bg-gray-900 rounded-lg px-3 py-2 text-xs">
+                                <div className="flex items-center gap-2">
+                                    <i className={`fas ${item.kind === 'app' ? 'fa-window-maximize' : 'fa-globe'} text-gray-500 w-3`}></i>
+                                    <span className="text-white font-medium truncate">{item.name}</span>
+                                    <span className="text-gray-500 font-mono flex-shrink-0">{formatDuration(item.seconds)}</span>
+                                    <div className="flex-1"></div>
+                                    {CATEGORY_BUTTONS.map(button => (
+                                        <button
+                                            key={button.category}
+                                            onClick={() => handleClassify(item, button.category)}
+                                            className={`px-2 py-0.5 rounded border text-[10px] transition-colors ${
+                                                suggestion?.category === button.category
+                                                    ? button.className
+                                                    : 'text-gray-400 border-gray-700 hover:text-white hover:border-gray-500'
+                                            }`}
+                                            title={`Classify as ${button.label.toLowerCase()}`}
+                                        >
+                                            <i className={`fas ${button.icon} mr-1`}></i>{button.label}
+                                        </button>
+                                    ))}
+                                    <button
+                                        onClick={() => handleDismiss(item)}
+                                        className="text-gray-500 hover:text-gray-300 ml-1"
+                                        title="Dismiss"
+                                    >
+                                        <i className="fas fa-times"></i>
+                                    </button>
+                                </div>
+                                {item.samples[0] && (
+                                    <p className="text-gray-500 truncate mt-1 ml-5">{item.samples[0]}</p>
+                                )}
+                                {suggestion && (
+                                    <p className="text-gray-400 mt-1 ml-5">
+                                        Suggested: <span className="text-blue-300">{suggestion.category}</span> ({Math.round(suggestion.confidence * 100)}%)
+                                        {suggestion.similarTo.length > 0 && <> · similar to {suggestion.similarTo.join(', ')}</>}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
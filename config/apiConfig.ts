@@ -99,6 +99,16 @@ export const API_ENDPOINTS = {
         LIST: '/vue/backend/v1/tracking-data',
         GET_BY_ID: (id: number) => `/vue/backend/v1/tracking-data/${id}`,
     },
+    // Manual Time Entries API (v1) - entries are addressed by the desktop's client_id
+    MANUAL_TIME: {
+        LIST: '/vue/backend/v1/manual-time-entries',
+        CREATE: '/vue/backend/v1/manual-time-entries',
+        DELETE: (clientId: string) => `/vue/backend/v1/manual-time-entries/${clientId}`,
+    },
+    // Classification Policy API (v1) - organization rules per workspace
+    CLASSIFICATION: {
+        POLICY: '/vue/backend/v1/classification-policy',
+    },
     // Status Management API (v1)
     STATUS: {
         UPDATE: '/vue/backend/v1/status/update',
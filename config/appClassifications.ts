@@ -6,16 +6,57 @@
  * - 'neutral': Context-dependent (browsers, communication - depends on usage)
  * - 'unproductive': Entertainment, social media, games
  * 
+ * Each rule also carries an activity category (Work, Communication, ...) for the
+ * activity summaries, so one rule decides both.
+ * 
  * Users can customize these rules in settings.
  */
 
 export type ProductivityCategory = 'productive' | 'neutral' | 'unproductive';
 
+export type ActivityCategory = 'Work' | 'Entertainment' | 'Communication' | 'Productivity' | 'Other';
+
+/**
+ * Who a rule applies to. Every list that is set must contain the context's value;
+ * a rule without a scope applies to everyone
+ */
+export interface ClassificationScope {
+  departments?: string[];              // AuthenticatedUser.department_name (case-insensitive)
+  workspaceIds?: string[];
+  projectIds?: string[];
+}
+
+/**
+ * What is being classified for - the user's department, the workspace and the tracked project
+ */
+export interface ClassificationContext {
+  department?: string | null;
+  workspaceId?: string | null;
+  projectId?: string | null;
+}
+
+/**
+ * Where a rule came from, in priority order: the user's own rules, the organization policy, the defaults
+ */
+export type ClassificationLayer = 'user' | 'policy' | 'default';
+
+/**
+ * What happened to a rule whose process name / domain applied when explaining a classification
+ */
+export type RuleOutcome =
+  | 'matched'                            // This rule decided the classification
+  | 'pattern_mismatch'                   // Its title / path pattern did not match
+  | 'out_of_scope'                       // Scoped to other departments / workspaces / projects
+  | 'outranked';                         // Would apply, but a more specific rule or higher layer won
+
 export interface AppClassificationRule {
   processName: string | RegExp;        // Process name to match (case-insensitive)
   titlePattern?: RegExp;               // Optional: Match window title pattern
   category: ProductivityCategory;
   weight?: number;                      // Optional: Custom weight (0.0-1.0, default based on category)
+  activity?: ActivityCategory;          // Optional: Activity category (default based on category)
+  scope?: ClassificationScope;          // Optional: Only for these departments / workspaces / projects
+  sourceId?: string;                    // ClassificationRule id for user and policy rules
 }
 
 /**
@@ -66,6 +107,19 @@ export const DEFAULT_APP_CLASSIFICATIONS: AppClassificationRule[] = [
   { processName: /^remnote/i, category: 'productive' },                   // RemNote
   { processName: /^evernote/i, category: 'productive' },                 // Evernote
   { processName: /^onenote/i, category: 'productive' },                   // OneNote
+  { processName: /^thunderbird/i, category: 'productive' },              // Thunderbird
+
+  // ============================================
+  // PRODUCTIVE - Personal Productivity
+  // ============================================
+  { processName: /^calendar$/i, category: 'productive', activity: 'Productivity' },        // Calendar (macOS)
+  { processName: /^reminders$/i, category: 'productive', activity: 'Productivity' },       // Reminders (macOS)
+  { processName: /^microsoft to ?do/i, category: 'productive', activity: 'Productivity' }, // Microsoft To Do
+  { processName: /^todoist/i, category: 'productive', activity: 'Productivity' },          // Todoist
+  { processName: /^habitica/i, category: 'productive', activity: 'Productivity' },         // Habitica
+  { processName: /^toggl/i, category: 'productive', activity: 'Productivity' },            // Toggl Track
+  { processName: /^clockify/i, category: 'productive', activity: 'Productivity' },         // Clockify
+  { processName: /^rescuetime/i, category: 'productive', activity: 'Productivity' },       // RescueTime
 
   // ============================================
   // PRODUCTIVE - Design Tools
@@ -100,6 +154,11 @@ export const DEFAULT_APP_CLASSIFICATIONS: AppClassificationRule[] = [
   { processName: /^dbeaver/i, category: 'productive' },                  // DBeaver
   { processName: /^tableplus/i, category: 'productive' },                // TablePlus
   { processName: /^datagrip/i, category: 'productive' },                 // DataGrip
+  { processName: /^mysql ?workbench/i, category: 'productive' },          // MySQL Workbench
+  { processName: /^mongodb ?compass/i, category: 'productive' },          // MongoDB Compass
+  { processName: /^pgadmin/i, category: 'productive' },                   // pgAdmin
+  { processName: /^github ?desktop/i, category: 'productive' },           // GitHub Desktop
+  { processName: /^sourcetree/i, category: 'productive' },                // Sourcetree
 
   // ============================================
   // PRODUCTIVE - Project Management & Collaboration
@@ -129,18 +188,18 @@ export const DEFAULT_APP_CLASSIFICATIONS: AppClassificationRule[] = [
   // ============================================
   // NEUTRAL - Communication (context-dependent)
   // ============================================
-  { processName: /^slack/i, category: 'neutral' },                        // Slack
-  { processName: /^teams/i, category: 'neutral' },                        // Microsoft Teams
-  { processName: /^zoom/i, category: 'neutral' },                       // Zoom
-  { processName: /^discord/i, category: 'neutral' },                    // Discord
-  { processName: /^whatsapp/i, category: 'neutral' },                   // WhatsApp
-  { processName: /^telegram/i, category: 'neutral' },                   // Telegram
-  { processName: /^signal/i, category: 'neutral' },                     // Signal
-  { processName: /^skype/i, category: 'neutral' },                      // Skype
-  { processName: /^webex/i, category: 'neutral' },                      // WebEx
-  { processName: /^gotomeeting/i, category: 'neutral' },                // GoToMeeting
-  { processName: /^google meet/i, category: 'neutral' },                 // Google Meet
-  { processName: /^microsoft teams/i, category: 'neutral' },              // Microsoft Teams
+  { processName: /^slack/i, category: 'neutral', activity: 'Communication' },                        // Slack
+  { processName: /^teams/i, category: 'neutral', activity: 'Communication' },                        // Microsoft Teams
+  { processName: /^zoom/i, category: 'neutral', activity: 'Communication' },                       // Zoom
+  { processName: /^discord/i, category: 'neutral', activity: 'Communication' },                    // Discord
+  { processName: /^whatsapp/i, category: 'neutral', activity: 'Communication' },                   // WhatsApp
+  { processName: /^telegram/i, category: 'neutral', activity: 'Communication' },                   // Telegram
+  { processName: /^signal/i, category: 'neutral', activity: 'Communication' },                     // Signal
+  { processName: /^skype/i, category: 'neutral', activity: 'Communication' },                      // Skype
+  { processName: /^webex/i, category: 'neutral', activity: 'Communication' },                      // WebEx
+  { processName: /^gotomeeting/i, category: 'neutral', activity: 'Communication' },                // GoToMeeting
+  { processName: /^google meet/i, category: 'neutral', activity: 'Communication' },                 // Google Meet
+  { processName: /^microsoft teams/i, category: 'neutral', activity: 'Communication' },              // Microsoft Teams
 
   // ============================================
   // UNPRODUCTIVE - Entertainment & Social Media
@@ -189,6 +248,46 @@ export const DEFAULT_APP_CLASSIFICATIONS: AppClassificationRule[] = [
   },
 ];
 
+/**
+ * Whether a scoped rule applies in this context
+ */
+export function isRuleInScope(scope: ClassificationScope | undefined, context?: ClassificationContext): boolean {
+  if (!scope) return true;
+  const inList = (list: string[] | undefined, value: string | null | undefined) =>
+    !list || list.length === 0 || (!!value && list.some(item => item.trim().toLowerCase() === value.trim().toLowerCase()));
+  return inList(scope.departments, context?.department)
+    && inList(scope.workspaceIds, context?.workspaceId)
+    && inList(scope.projectIds, context?.projectId);
+}
+
+/**
+ * Whether a scope narrows the rule at all
+ */
+export function hasScope(scope: ClassificationScope | undefined): boolean {
+  return !!scope && [scope.departments, scope.workspaceIds, scope.projectIds].some(list => !!list && list.length > 0);
+}
+
+/**
+ * Cache key part for a context
+ */
+export function getContextKey(context?: ClassificationContext): string {
+  return `${(context?.department || '').toLowerCase()}|${context?.workspaceId || ''}|${context?.projectId || ''}`;
+}
+
+/**
+ * Get default activity category for a productivity category
+ */
+export function getDefaultActivity(category: ProductivityCategory): ActivityCategory {
+  switch (category) {
+    case 'productive':
+      return 'Work';
+    case 'unproductive':
+      return 'Entertainment';
+    default:
+      return 'Other';
+  }
+}
+
 /**
  * Get default weight for a category
  */
@@ -6,16 +6,21 @@
  * - 'neutral': Context-dependent (search engines, email, communication)
  * - 'unproductive': Entertainment, social media, distractions
  * 
+ * Like the app rules, each rule also carries an activity category.
+ * 
  * Users can customize these rules in settings.
  */
 
-import { ProductivityCategory } from './appClassifications';
+import { ProductivityCategory, ActivityCategory, ClassificationScope } from './appClassifications';
 
 export interface UrlClassificationRule {
   domainPattern: string | RegExp;      // Domain to match (e.g., "github.com" or /github\.com/i)
   pathPattern?: RegExp;                 // Optional: Match URL path pattern
   category: ProductivityCategory;
   weight?: number;                      // Optional: Custom weight (0.0-1.0)
+  activity?: ActivityCategory;          // Optional: Activity category (default based on category)
+  scope?: ClassificationScope;          // Optional: Only for these departments / workspaces / projects
+  sourceId?: string;                    // ClassificationRule id for user and policy rules
 }
 
 /**
@@ -63,6 +68,7 @@ export const DEFAULT_URL_CLASSIFICATIONS: UrlClassificationRule[] = [
   { domainPattern: 'asana.com', category: 'productive' },
   { domainPattern: 'linear.app', category: 'productive' },
   { domainPattern: 'jira.atlassian.com', category: 'productive' },
+  { domainPattern: /.*\.atlassian\.net$/, category: 'productive' },   // Jira / Confluence cloud sites
   { domainPattern: 'confluence.atlassian.com', category: 'productive' },
   { domainPattern: 'monday.com', category: 'productive' },
   { domainPattern: 'clickup.com', category: 'productive' },
@@ -103,25 +109,29 @@ export const DEFAULT_URL_CLASSIFICATIONS: UrlClassificationRule[] = [
   { domainPattern: 'google.com', category: 'neutral' },
   { domainPattern: 'duckduckgo.com', category: 'neutral' },
   { domainPattern: 'bing.com', category: 'neutral' },
-  { domainPattern: 'mail.google.com', category: 'neutral' },
-  { domainPattern: 'gmail.com', category: 'neutral' },
-  { domainPattern: 'outlook.office.com', category: 'neutral' },
-  { domainPattern: 'outlook.live.com', category: 'neutral' },
-  { domainPattern: 'slack.com', category: 'neutral' },
-  { domainPattern: 'teams.microsoft.com', category: 'neutral' },
-  { domainPattern: 'zoom.us', category: 'neutral' },
-  { domainPattern: 'webex.com', category: 'neutral' },
-  { domainPattern: 'gotomeeting.com', category: 'neutral' },
-  { domainPattern: 'meet.google.com', category: 'neutral' },
+  { domainPattern: 'mail.google.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'gmail.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'outlook.office.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'outlook.live.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'slack.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'teams.microsoft.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'zoom.us', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'webex.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'gotomeeting.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'meet.google.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'web.whatsapp.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'web.telegram.org', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'messenger.com', category: 'neutral', activity: 'Communication' },
+  { domainPattern: 'discord.com', category: 'neutral', activity: 'Communication' },
 
   // ============================================
   // NEUTRAL - Reference (context-dependent)
   // ============================================
   { domainPattern: 'wikipedia.org', category: 'neutral' },
   { domainPattern: 'medium.com', category: 'neutral' },                  // Default neutral, path pattern can override
-  { domainPattern: 'reddit.com', pathPattern: /\/r\/(programming|webdev|javascript|python|learnprogramming|MachineLearning|web_design)/i, category: 'neutral', weight: 0.6 },
+  { domainPattern: 'reddit.com', pathPattern: /\/r\/(programming|webdev|javascript|python|learnprogramming|MachineLearning|web_design)/i, category: 'neutral', weight: 0.6, activity: 'Work' },
   { domainPattern: 'youtube.com', pathPattern: /\/playlist.*list=.*(learn|tutorial|course|training)/i, category: 'productive', weight: 0.8 },
-  { domainPattern: 'youtube.com', pathPattern: /\/watch\?v=.*(tutorial|course|learn|how to|guide)/i, category: 'neutral', weight: 0.6 },
+  { domainPattern: 'youtube.com', pathPattern: /\/watch\?v=.*(tutorial|course|learn|how to|guide)/i, category: 'neutral', weight: 0.6, activity: 'Work' },
 
   // ============================================
   // UNPRODUCTIVE - Social Media
@@ -150,6 +160,14 @@ export const DEFAULT_URL_CLASSIFICATIONS: UrlClassificationRule[] = [
   { domainPattern: 'hbonow.com', category: 'unproductive' },
   { domainPattern: 'crunchyroll.com', category: 'unproductive' },
   { domainPattern: 'funimation.com', category: 'unproductive' },
+  { domainPattern: 'youtu.be', category: 'unproductive', weight: 0.2 },
+  { domainPattern: 'vimeo.com', category: 'unproductive' },
+  { domainPattern: 'dailymotion.com', category: 'unproductive' },
+  { domainPattern: 'spotify.com', category: 'unproductive', weight: 0.8 },  // Music while working is OK (as the app)
+  { domainPattern: 'soundcloud.com', category: 'unproductive', weight: 0.8 },
+  { domainPattern: 'pandora.com', category: 'unproductive', weight: 0.8 },
+  { domainPattern: 'imgur.com', category: 'unproductive' },
+  { domainPattern: '9gag.com', category: 'unproductive' },
 
   // ============================================
   // UNPRODUCTIVE - Gaming
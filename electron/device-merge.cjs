@@ -0,0 +1,259 @@
+// Multi-device merge rules that don't need Electron: timer runs, conflict detection, folding
+// other devices' records into trackingData.deviceMerge and the combined view with conflict
+// resolutions applied. main.cjs owns the documents, the device identity and the IPC.
+
+const RUN_JOIN_GAP_MS = 60 * 1000; // Window capsules closer than this belong to the same timer run
+const CONFLICT_MIN_OVERLAP_MS = 60 * 1000; // Shorter overlaps are clock skew, not double tracking
+
+// Sort and join overlapping/adjacent [start, end] intervals
+const mergeIntervals = (intervals, joinGapMs = 0) => {
+  const sorted = intervals
+    .filter(i => i && Number.isFinite(i.start) && Number.isFinite(i.end) && i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+  const merged = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end + joinGapMs) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+};
+
+// What is left of intervals once every span in removed is cut out
+const subtractIntervals = (intervals, removed) => {
+  const cuts = mergeIntervals(removed);
+  const result = [];
+  mergeIntervals(intervals).forEach(interval => {
+    let start = interval.start;
+    cuts.forEach(cut => {
+      if (cut.end <= start || cut.start >= interval.end) return;
+      if (cut.start > start) result.push({ start, end: cut.start });
+      start = Math.max(start, cut.end);
+    });
+    if (start < interval.end) result.push({ start, end: interval.end });
+  });
+  return result;
+};
+
+const intersectIntervals = (intervals, spans) => {
+  const all = mergeIntervals(intervals);
+  return subtractIntervals(all, subtractIntervals(all, spans));
+};
+
+const getCapsuleIntervals = (activeWindows) => {
+  const capsules = [];
+  (activeWindows || []).forEach(win => {
+    (win.timeCapsules || []).forEach(capsule => {
+      capsules.push({ start: capsule.startTime, end: capsule.endTime });
+    });
+  });
+  return capsules;
+};
+
+// Timer runs for one device = its window time capsules joined into continuous stretches
+const getTimerRuns = (activeWindows) => mergeIntervals(getCapsuleIntervals(activeWindows), RUN_JOIN_GAP_MS);
+
+const sumIntervalSeconds = (intervals) => {
+  return Math.round(intervals.reduce((sum, i) => sum + (i.end - i.start), 0) / 1000);
+};
+
+// The list API has returned the document in a few shapes over time
+const normalizeRemoteTrackingRecord = (record) => {
+  let doc = record?.trackingData ? record : (record?.data ?? record?.tracking_data ?? record?.file_data ?? record?.content);
+  if (typeof doc === 'string') {
+    try {
+      doc = JSON.parse(doc);
+    } catch (e) {
+      return null;
+    }
+  }
+  if (!doc?.trackingData) return null;
+
+  return {
+    deviceId: doc.metadata?.deviceId || doc.trackingData.summary?.deviceId || record.device_id || null,
+    deviceName: doc.metadata?.deviceName || record.device_name || 'Other device',
+    doc
+  };
+};
+
+// Overlapping timer runs between this device and another one; resolutions survive re-merges
+const detectDeviceConflicts = (localRuns, devices, previousConflicts) => {
+  const previous = new Map((previousConflicts || []).map(c => [c.id, c]));
+  const conflicts = [];
+
+  Object.entries(devices).forEach(([deviceId, device]) => {
+    device.runs.forEach(remoteRun => {
+      localRuns.forEach(localRun => {
+        const start = Math.max(localRun.start, remoteRun.start);
+        const end = Math.min(localRun.end, remoteRun.end);
+        if (end - start < CONFLICT_MIN_OVERLAP_MS) return;
+
+        // Run starts don't move while a run is still growing, so they make a stable id
+        const id = `${deviceId}:${localRun.start}:${remoteRun.start}`;
+        const existing = previous.get(id);
+        conflicts.push({
+          id,
+          deviceId,
+          deviceName: device.deviceName,
+          start,
+          end,
+          overlapSeconds: Math.round((end - start) / 1000),
+          status: existing?.status || 'open',
+          resolution: existing?.resolution || null,
+          resolvedAt: existing?.resolvedAt || null
+        });
+      });
+    });
+  });
+  return conflicts;
+};
+
+// Fold tracking records from other devices into trackingData.deviceMerge
+const mergeRemoteTrackingData = (trackingData, records, localDeviceId, mergedAt = new Date().toISOString()) => {
+  const deviceMerge = trackingData.deviceMerge || { devices: {}, conflicts: [] };
+  let mergedRecords = 0;
+  let skippedRecords = 0;
+
+  (records || []).forEach(record => {
+    const remote = normalizeRemoteTrackingRecord(record);
+    // Records without a device id predate device stamping and may well be our own uploads
+    if (!remote || !remote.deviceId || remote.deviceId === localDeviceId) {
+      skippedRecords++;
+      return;
+    }
+
+    const device = deviceMerge.devices[remote.deviceId] || { deviceName: remote.deviceName, activityLogs: [], runs: [], summary: null };
+    const remoteData = remote.doc.trackingData;
+
+    // Same log uploaded in several snapshots - keep one copy per id
+    const logsById = new Map(device.activityLogs.map(log => [log.id, log]));
+    (remoteData.activityLogs || []).forEach(log => {
+      if (log?.id) logsById.set(log.id, { ...log, deviceId: remote.deviceId });
+    });
+    device.activityLogs = Array.from(logsById.values());
+    device.runs = mergeIntervals([...device.runs, ...getTimerRuns(remoteData.activeWindows || remoteData.windowTracking)], RUN_JOIN_GAP_MS);
+    device.deviceName = remote.deviceName;
+    if (remoteData.summary && (!device.summary || String(remoteData.summary.lastActivity) > String(device.summary.lastActivity))) {
+      device.summary = remoteData.summary;
+    }
+    device.lastMergedAt = mergedAt;
+    deviceMerge.devices[remote.deviceId] = device;
+    mergedRecords++;
+  });
+
+  deviceMerge.conflicts = detectDeviceConflicts(getTimerRuns(trackingData.activeWindows), deviceMerge.devices, deviceMerge.conflicts);
+  trackingData.deviceMerge = deviceMerge;
+  return { mergedRecords, skippedRecords };
+};
+
+const getResolvedSpans = (conflicts, resolution, deviceId) => (conflicts || [])
+  .filter(c => c.resolution === resolution && (!deviceId || c.deviceId === deviceId))
+  .map(c => ({ start: c.start, end: c.end }));
+
+const isLogInside = (log, conflict) => {
+  const ts = new Date(log.timestamp).getTime();
+  return ts >= conflict.start && ts <= conflict.end;
+};
+
+// Seconds of this device's own window time handed to another device ('keep-remote'),
+// optionally only within range. Taken off the local summary like removed captures are.
+const getConflictDeductedSeconds = (trackingData, range) => {
+  const spans = getResolvedSpans(trackingData?.deviceMerge?.conflicts, 'keep-remote');
+  if (spans.length === 0) return 0;
+  const given = intersectIntervals(getCapsuleIntervals(trackingData.activeWindows), spans);
+  return sumIntervalSeconds(range ? intersectIntervals(given, [range]) : given);
+};
+
+// Record a resolution and flag this device's logs inside it, so the synced logs say which
+// ones no longer count. Returns the logs whose flag changed.
+const applyConflictResolution = (trackingData, conflict, resolution, resolvedAt = new Date().toISOString()) => {
+  conflict.status = 'resolved';
+  conflict.resolution = resolution;
+  conflict.resolvedAt = resolvedAt;
+
+  const changed = [];
+  (trackingData.activityLogs || []).forEach(log => {
+    if (!isLogInside(log, conflict)) return;
+    if (resolution === 'keep-remote' && log.excludedByConflict !== conflict.id) {
+      log.excludedByConflict = conflict.id;
+      changed.push(log);
+    } else if (resolution !== 'keep-remote' && log.excludedByConflict === conflict.id) {
+      delete log.excludedByConflict;
+      changed.push(log);
+    }
+  });
+  return changed;
+};
+
+// Combined view across devices with conflict resolutions applied. localDevice: { deviceId, deviceName }
+const buildMergedTaskView = (doc, localDevice) => {
+  const localDeviceId = localDevice?.deviceId || null;
+  const trackingData = doc.trackingData || {};
+  const deviceMerge = trackingData.deviceMerge || { devices: {}, conflicts: [] };
+  const conflicts = deviceMerge.conflicts || [];
+
+  const keepLocalLog = (log) => !conflicts.some(c => c.resolution === 'keep-remote' && isLogInside(log, c));
+  const keepRemoteLog = (deviceId) => (log) => !conflicts.some(c => c.deviceId === deviceId && c.resolution === 'keep-local' && isLogInside(log, c));
+
+  // Each side loses the overlaps resolved in the other's favour
+  const localRuns = subtractIntervals(getTimerRuns(trackingData.activeWindows), getResolvedSpans(conflicts, 'keep-remote'));
+  const activityLogs = (trackingData.activityLogs || [])
+    .filter(keepLocalLog)
+    .map(log => ({ ...log, deviceId: log.deviceId || localDeviceId }));
+  const devices = [{
+    deviceId: localDeviceId,
+    deviceName: localDevice?.deviceName || 'This device',
+    isLocal: true,
+    activityLogs: activityLogs.length,
+    trackedSeconds: sumIntervalSeconds(localRuns)
+  }];
+  let allRuns = [...localRuns];
+
+  Object.entries(deviceMerge.devices || {}).forEach(([deviceId, device]) => {
+    const remoteLogs = (device.activityLogs || []).filter(keepRemoteLog(deviceId));
+    const remoteRuns = subtractIntervals(device.runs || [], getResolvedSpans(conflicts, 'keep-local', deviceId));
+    activityLogs.push(...remoteLogs);
+    allRuns = allRuns.concat(remoteRuns);
+    devices.push({
+      deviceId,
+      deviceName: device.deviceName,
+      isLocal: false,
+      activityLogs: remoteLogs.length,
+      trackedSeconds: sumIntervalSeconds(remoteRuns),
+      lastMergedAt: device.lastMergedAt || null
+    });
+  });
+
+  activityLogs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  // Overlaps are counted once (open, or one side kept) unless both sides were kept
+  const keptBothSeconds = conflicts
+    .filter(c => c.resolution === 'keep-both')
+    .reduce((sum, c) => sum + c.overlapSeconds, 0);
+
+  return {
+    projectId: doc.metadata?.projectId,
+    taskId: doc.metadata?.taskId,
+    devices,
+    conflicts,
+    openConflicts: conflicts.filter(c => c.status === 'open').length,
+    activityLogs,
+    mergedTotalTime: sumIntervalSeconds(mergeIntervals(allRuns)) + keptBothSeconds
+  };
+};
+
+module.exports = {
+  mergeIntervals,
+  subtractIntervals,
+  getTimerRuns,
+  sumIntervalSeconds,
+  normalizeRemoteTrackingRecord,
+  detectDeviceConflicts,
+  mergeRemoteTrackingData,
+  getConflictDeductedSeconds,
+  applyConflictResolution,
+  buildMergedTaskView
+};
@@ -0,0 +1,121 @@
+// Sealing format and data key selection, kept free of Electron so they can be checked on
+// their own. main.cjs holds the loaded keys, talks to keytar / safeStorage and the files.
+// Sealed buffers: 'TYE1' | keyId length (1 byte) | keyId | iv (12) | auth tag (16) | ciphertext.
+// Anything without the magic prefix is read as plaintext, so existing data keeps working.
+const crypto = require('crypto');
+
+const ENCRYPTION_MAGIC = Buffer.from('TYE1');
+const ENCRYPTED_TEXT_PREFIX = 'TYE1:'; // Sealed buffer as base64 text (database columns)
+
+const createEncryptionKey = () => ({
+  keyId: crypto.randomBytes(4).toString('hex'),
+  key: crypto.randomBytes(32).toString('base64')
+});
+
+// Key record: { keyId, key, previous?: [{ keyId, key }] } -> keyId -> Buffer, active key first
+const getKeyRing = (record) => {
+  const keys = new Map();
+  [record, ...(record.previous || [])].forEach(entry => {
+    if (!keys.has(entry.keyId)) keys.set(entry.keyId, Buffer.from(entry.key, 'base64'));
+  });
+  return keys;
+};
+
+// A new active key that still reads everything sealed with the current keys (getKeyRing)
+const rotateKeyRecord = (keys) => ({
+  ...createEncryptionKey(),
+  previous: Array.from(keys.entries()).map(([keyId, key]) => ({ keyId, key: key.toString('base64') }))
+});
+
+// record plus any key of other it doesn't have, kept as previous keys
+const withPreviousKeys = (record, other) => {
+  const known = getKeyRing(record);
+  const missing = [other, ...(other.previous || [])].filter(entry => !known.has(entry.keyId));
+  if (missing.length === 0) return record;
+  return { ...record, previous: [...(record.previous || []), ...missing.map(({ keyId, key }) => ({ keyId, key }))] };
+};
+
+const isSealedBuffer = (buffer) => {
+  return buffer.length > ENCRYPTION_MAGIC.length && buffer.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC);
+};
+
+const getSealedKeyId = (buffer) => {
+  if (!isSealedBuffer(buffer)) return null;
+  const keyIdLength = buffer[ENCRYPTION_MAGIC.length];
+  const start = ENCRYPTION_MAGIC.length + 1;
+  return buffer.subarray(start, start + keyIdLength).toString('utf8');
+};
+
+const sealWithKey = (plain, keyId, key) => {
+  const keyIdBuffer = Buffer.from(keyId, 'utf8');
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([ENCRYPTION_MAGIC, Buffer.from([keyIdBuffer.length]), keyIdBuffer, iv, cipher.getAuthTag(), ciphertext]);
+};
+
+// keys: keyId -> Buffer (getKeyRing)
+const openWithKeys = (buffer, keys) => {
+  if (!isSealedBuffer(buffer)) return buffer;
+  const keyId = getSealedKeyId(buffer);
+  const key = keys.get(keyId);
+  if (!key) {
+    throw new Error(`Data is encrypted with unknown key ${keyId}`);
+  }
+  const offset = ENCRYPTION_MAGIC.length + 1 + Buffer.byteLength(keyId, 'utf8');
+  const iv = buffer.subarray(offset, offset + 12);
+  const tag = buffer.subarray(offset + 12, offset + 28);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(buffer.subarray(offset + 28)), decipher.final()]);
+};
+
+const sealTextWithKey = (text, keyId, key) => {
+  return ENCRYPTED_TEXT_PREFIX + sealWithKey(Buffer.from(text, 'utf8'), keyId, key).toString('base64');
+};
+
+const openTextWithKeys = (text, keys) => {
+  if (typeof text !== 'string' || !text.startsWith(ENCRYPTED_TEXT_PREFIX)) return text;
+  return openWithKeys(Buffer.from(text.slice(ENCRYPTED_TEXT_PREFIX.length), 'base64'), keys).toString('utf8');
+};
+
+// Pick the data key at startup. readKeychain / readFallback report
+// { status: 'found', record } | { status: 'missing' } | { status: 'error', error }.
+// A store that failed to read may still hold the key, so a new one is only generated when
+// that can't strand anything: the result is { locked: true, error } instead when a read
+// failed and hasSealedData() says sealed data is on disk.
+const resolveEncryptionKeyRecord = async ({ readKeychain, readFallback, hasSealedData, saveRecord }) => {
+  const keychain = await readKeychain();
+  const fallback = await readFallback();
+
+  if (keychain.status === 'found') {
+    // A fallback copy written while the keychain was unavailable may hold keys it doesn't
+    const record = fallback.status === 'found' ? withPreviousKeys(keychain.record, fallback.record) : keychain.record;
+    return { record, source: 'keychain', created: false };
+  }
+  if (fallback.status === 'found') {
+    return { record: fallback.record, source: 'safeStorage', created: false };
+  }
+
+  const failed = [keychain, fallback].find(result => result.status === 'error');
+  if (failed && await hasSealedData()) {
+    return { locked: true, error: failed.error };
+  }
+  const record = createEncryptionKey();
+  return { record, source: await saveRecord(record), created: true };
+};
+
+module.exports = {
+  ENCRYPTED_TEXT_PREFIX,
+  createEncryptionKey,
+  getKeyRing,
+  rotateKeyRecord,
+  withPreviousKeys,
+  isSealedBuffer,
+  getSealedKeyId,
+  sealWithKey,
+  openWithKeys,
+  sealTextWithKey,
+  openTextWithKeys,
+  resolveEncryptionKeyRecord
+};
@@ -1,13 +1,32 @@
-const { app, BrowserWindow, ipcMain, desktopCapturer, nativeImage, globalShortcut, Tray, Menu, dialog } = require('electron');
+const { app, BrowserWindow, ipcMain, nativeImage, screen, globalShortcut, Tray, Menu, dialog, net, powerMonitor, safeStorage } = require('electron');
 const { autoUpdater } = require('electron-updater');
 const log = require('electron-log');
 const path = require('path');
 const fs = require('fs');
 const os = require('os');
 const crypto = require('crypto');
-const { exec } = require('child_process');
-const { promisify } = require('util');
-const execAsync = promisify(exec);
+const { createTrackingBackend } = require('./tracking-backends/index.cjs');
+const { isAllowedOutboxUrl, replayOutboxQueue } = require('./outbox.cjs');
+const {
+  ENCRYPTED_TEXT_PREFIX,
+  getKeyRing,
+  rotateKeyRecord,
+  isSealedBuffer,
+  getSealedKeyId,
+  sealWithKey,
+  openWithKeys,
+  sealTextWithKey,
+  openTextWithKeys,
+  resolveEncryptionKeyRecord
+} = require('./encryption.cjs');
+const { splitTaskDocument, joinTaskDocument, computeTaskDocumentChecksum, verifyTaskDocumentChecksum, salvageActivityLogs } = require('./task-documents.cjs');
+const { mergeRemoteTrackingData, getConflictDeductedSeconds, applyConflictResolution, buildMergedTaskView } = require('./device-merge.cjs');
+const { SCREEN_HASH_WIDTH, SCREEN_HASH_HEIGHT, computeScreenHashFromBitmap, compareScreenHashes } = require('./screen-hash.cjs');
+const { getActivityLogSpans, moveTrackedWork } = require('./reattribution.cjs');
+const { createManualTimeEntry, normalizeManualTimeEntry, assertManualTimeEntryWithdrawable, applyManualTimeUpdates } = require('./manual-time.cjs');
+const { recordUnclassifiedEntries, trimUnclassifiedInbox } = require('./unclassified-inbox.cjs');
+const { getRetentionPolicy, getTaskDocumentAgeDays, isTaskRevisionSynced, pruneTaskDocument } = require('./retention.cjs');
+const { touchSyncItems, recordSyncRemovals, collectSyncDelta, getSyncBatchPayload, isSyncUpToDate, acknowledgeSyncDelta } = require('./sync-delta.cjs');
 // Detect development mode from environment variables (set in package.json scripts)
 // Priority: APP_ENV > NODE_ENV > app.isPackaged
 // APP_ENV=development or NODE_ENV=development = dev mode
@@ -113,6 +132,10 @@ const initStore = async () => {
           enableUrlTracking: true,
           enableScreenshotBlur: false,
           idleTimeThreshold: 5, // minutes
+          multiMonitorMode: 'stitched',
+          screenshotChangeThreshold: 5, // % of the screen hash that must differ
+          skipUnchangedScreenshots: true,
+          // screenshotProfile / webcamProfile fall back to DEFAULT_CAPTURE_PROFILES
         }
       }
     });
@@ -120,119 +143,22 @@ const initStore = async () => {
   return store;
 };
 
-// System-wide tracking libraries
-let uIOhook = null;
-let UiohookKey = null;
-let isUiohookInitialized = false;
-
-// Helper function to get active-win (ES module, needs dynamic import)
-let activeWinModule = null;
-let useActiveWin = true; // Try active-win first, fallback to PowerShell if it fails
-
-const getActiveWindow = async () => {
-  if (useActiveWin) {
-    try {
-      if (!activeWinModule) {
-        // active-win v9.0.0 uses named exports, not default export
-        const module = await import('active-win');
-        activeWinModule = module.activeWindow; // Named export: activeWindow
-      }
-      if (typeof activeWinModule !== 'function') {
-        throw new Error('activeWindow is not a function');
-      }
-      const win = await activeWinModule();
-      return win;
-    } catch (error) {
-      console.error('Failed to use active-win, falling back to PowerShell:', error.message);
-      useActiveWin = false;
-      activeWinModule = null;
-      return null;
-    }
+// Active window, idle time, input hooks and screen capture come from the tracking backend
+// (electron/tracking-backends) - native per platform, or a replayed session for headless runs
+let trackingBackend = null;
+const getTrackingBackend = () => {
+  if (!trackingBackend) {
+    trackingBackend = createTrackingBackend({ isDev });
   }
-  return null;
+  return trackingBackend;
 };
 
-// Windows-native PowerShell fallback to get active window
-const getActiveWindowWindows = async () => {
+const getActiveWindow = async () => {
   try {
-    const tmpDir = os.tmpdir();
-    const scriptPath = path.join(tmpDir, `get-active-window-${Date.now()}.ps1`);
-    
-    // Create a simpler PowerShell script that avoids here-string issues
-    const psScript = `Add-Type -TypeDefinition @'
-using System;
-using System.Runtime.InteropServices;
-using System.Text;
-public class Win32 {
-  [DllImport("user32.dll")]
-  public static extern IntPtr GetForegroundWindow();
-  [DllImport("user32.dll", CharSet = CharSet.Auto, SetLastError = true)]
-  public static extern int GetWindowText(IntPtr hWnd, StringBuilder lpString, int nMaxCount);
-  [DllImport("user32.dll", SetLastError = true)]
-  public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
-}
-'@
-$hwnd = [Win32]::GetForegroundWindow()
-if ($hwnd -eq [IntPtr]::Zero) { exit 1 }
-$title = New-Object System.Text.StringBuilder 256
-[Win32]::GetWindowText($hwnd, $title, $title.Capacity) | Out-Null
-$processId = 0
-[Win32]::GetWindowThreadProcessId($hwnd, [ref]$processId) | Out-Null
-$process = Get-Process -Id $processId -ErrorAction SilentlyContinue
-$processName = if ($process) { $process.ProcessName } else { "Unknown" }
-$result = @{
-  Title = $title.ToString()
-  ProcessName = $processName
-} | ConvertTo-Json -Compress
-Write-Output $result`;
-
-    // Write script to temporary file
-    fs.writeFileSync(scriptPath, psScript, 'utf8');
-
-    try {
-      // Execute the script file instead of encoded command
-      const { stdout, stderr } = await execAsync(
-        `powershell -NoProfile -ExecutionPolicy Bypass -File "${scriptPath}"`,
-        { timeout: 3000, maxBuffer: 1024 * 1024, encoding: 'utf8' }
-      );
-      
-      // Clean up script file
-      try {
-        fs.unlinkSync(scriptPath);
-      } catch (cleanupError) {
-        // Ignore cleanup errors
-      }
-
-      if (stderr && stderr.trim() && !stderr.includes('Warning')) {
-        console.warn('PowerShell stderr:', stderr);
-      }
-
-      const output = stdout.trim();
-      if (!output) {
-        return null;
-      }
-
-      const result = JSON.parse(output);
-      return {
-        title: result.Title || 'Unknown',
-        owner: result.ProcessName || 'Unknown',
-        url: null, // PowerShell can't get URL, only window title
-        app: result.ProcessName || 'Unknown'
-      };
-    } catch (execError) {
-      // Clean up script file on error
-      try {
-        fs.unlinkSync(scriptPath);
-      } catch (cleanupError) {
-        // Ignore cleanup errors
-      }
-      throw execError;
-    }
+    // Browser tabs reported by the companion extension carry the exact URL
+    return withBridgeUrl(await getTrackingBackend().getActiveWindow());
   } catch (error) {
-    // Only log if it's not a silent failure
-    if (error.code !== 'ENOENT' && !error.message.includes('Command failed')) {
-      console.error('Error getting active window via PowerShell:', error.message);
-    }
+    console.error('[TRACKING] Active window lookup failed:', error.message);
     return null;
   }
 };
@@ -412,20 +338,6 @@ const getTaskTrackingData = (projectId, taskId, loadExisting = true) => {
   return perTaskTracking.get(taskKey);
 };
 
-// Legacy function for backward compatibility
-const getTaskStats = (projectId, taskId) => {
-  const taskData = getTaskTrackingData(projectId, taskId);
-  if (!taskData) return null;
-  
-  return {
-    keystrokes: taskData.keystrokes,
-    clicks: taskData.mouseClicks,
-    startTime: taskData.startTime,
-    projectId: taskData.projectId,
-    taskId: taskData.taskId
-  };
-};
-
 // Helper to normalize URLs to prevent duplicates
 // Normalizes: www, https/http, case, trailing slashes
 const normalizeUrl = (url) => {
@@ -640,8 +552,8 @@ const getTaskDataPath = (projectId, taskId, workspaceId = null) => {
   // New structure: workspace_id/YYYY-MM-DD/project_id/taskid.json
   const dataDir = path.join(baseDir, 'tracking-data', finalWorkspaceId, dateStr, projectId);
   
-  // Create directory if it doesn't exist
-  if (!fs.existsSync(dataDir)) {
+  // Create directory if it doesn't exist (not needed when the tracking database is in use)
+  if (!trackingDb && !fs.existsSync(dataDir)) {
     fs.mkdirSync(dataDir, { recursive: true });
     if (isDev) {
       console.log(`[TASK-PATH] Created tracking-data directory: ${dataDir}`);
@@ -662,10 +574,19 @@ const getTaskDataPath = (projectId, taskId, workspaceId = null) => {
   return filePath;
 };
 
+// Find all task documents - from the tracking database when it's available,
+// otherwise by scanning the JSON tree on disk
+const findAllTaskFiles = (trackingDataPath) => {
+  if (trackingDb) {
+    return listTaskDocumentsFromDb();
+  }
+  return scanTaskFilesOnDisk(trackingDataPath);
+};
+
 // Helper function to recursively find all task JSON files in new structure
 // Supports: workspace_id/date/project_id/taskid.json
 // Also supports backward compatibility with old structure: project_id/taskid.json
-const findAllTaskFiles = (trackingDataPath) => {
+const scanTaskFilesOnDisk = (trackingDataPath) => {
   const taskFiles = [];
   
   if (!fs.existsSync(trackingDataPath)) {
@@ -735,241 +656,954 @@ const findAllTaskFiles = (trackingDataPath) => {
   return taskFiles;
 };
 
-// Migration function to move files from old structure to new structure
-// Old: tracking-data/project_id/taskid.json
-// New: tracking-data/workspace_id/YYYY-MM-DD/project_id/taskid.json
-const migrateTrackingDataStructure = async (workspaceId = null) => {
-  // Get workspace ID if not provided
-  if (!workspaceId) {
-    workspaceId = await getCurrentWorkspaceId();
+// ==================== Encryption at Rest ====================
+// Task documents (JSON files or database columns) and outbox image payloads are sealed
+// with AES-256-GCM using a per-install key (format in encryption.cjs). The key lives in the
+// OS keychain via keytar (service 'tyro-app'), or in a safeStorage-encrypted file when no
+// keychain is available.
+const ENCRYPTION_KEY_ACCOUNT = 'tracking-data-key';
+
+let encryptionKeys = new Map(); // keyId -> Buffer; older keys are only kept while a rotation is in progress
+let activeEncryptionKeyId = null; // null = encryption unavailable, data is written in plaintext
+let encryptionKeySource = null; // 'keychain' | 'safeStorage'
+let encryptionKeyError = null; // Set when the key couldn't be read and sealed data is left untouched
+
+const getSafeStorageKeyPath = () => path.join(getBaseDataDirectory(), 'tracking-data.key');
+
+const readKeychainKeyRecord = async () => {
+  try {
+    const keytar = require('keytar');
+    const stored = await keytar.getPassword('tyro-app', ENCRYPTION_KEY_ACCOUNT);
+    return stored ? { status: 'found', record: JSON.parse(stored) } : { status: 'missing' };
+  } catch (error) {
+    console.warn('[ENCRYPTION] Keychain unavailable:', error.message);
+    return { status: 'error', error };
   }
+};
+
+const readSafeStorageKeyRecord = () => {
+  const keyPath = getSafeStorageKeyPath();
+  if (!fs.existsSync(keyPath)) return { status: 'missing' };
   try {
-    const baseDir = getBaseDataDirectory();
-    const trackingDataPath = path.join(baseDir, 'tracking-data');
-    
-    if (!fs.existsSync(trackingDataPath)) {
-      console.log('[MIGRATION] No tracking-data directory found, nothing to migrate');
-      return { success: true, migrated: 0, errors: 0 };
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error('safeStorage is not available');
     }
-    
-    let migrated = 0;
-    let errors = 0;
-    
-    // Get all items in tracking-data directory
-    const items = fs.readdirSync(trackingDataPath);
-    
-    for (const item of items) {
-      const itemPath = path.join(trackingDataPath, item);
-      const stat = fs.statSync(itemPath);
-      
-      // Check if this is old structure (direct project_id directory with JSON files)
-      if (stat.isDirectory()) {
-        const subItems = fs.readdirSync(itemPath);
-        const jsonFiles = subItems.filter(f => f.endsWith('.json') && fs.statSync(path.join(itemPath, f)).isFile());
-        
-        // If we find JSON files directly, this is old structure
-        if (jsonFiles.length > 0) {
-          const projectId = item;
-          
-          for (const jsonFile of jsonFiles) {
-            const oldFilePath = path.join(itemPath, jsonFile);
-            const taskId = jsonFile.replace('.json', '');
-            
-            try {
-              // Read file to get metadata and extract date
-              const fileContent = fs.readFileSync(oldFilePath, 'utf8');
-              const data = JSON.parse(fileContent);
-              
-              // Extract date from metadata.createdAt or use today's date
-              let dateStr;
-              if (data.metadata && data.metadata.createdAt) {
-                const createdDate = new Date(data.metadata.createdAt);
-                dateStr = createdDate.toISOString().split('T')[0]; // YYYY-MM-DD
-              } else {
-                // Fallback to today's date
-                dateStr = new Date().toISOString().split('T')[0];
-              }
-              
-              // Create new path: workspace_id/YYYY-MM-DD/project_id/taskid.json
-              const newDir = path.join(trackingDataPath, workspaceId, dateStr, projectId);
-              const newFilePath = path.join(newDir, jsonFile);
-              
-              // Create directory if it doesn't exist
-              if (!fs.existsSync(newDir)) {
-                fs.mkdirSync(newDir, { recursive: true });
-              }
-              
-              // Only move if new file doesn't exist (avoid overwriting)
-              if (!fs.existsSync(newFilePath)) {
-                fs.copyFileSync(oldFilePath, newFilePath);
-                migrated++;
-                console.log(`[MIGRATION] Migrated ${jsonFile} from ${projectId}/ to ${workspaceId}/${dateStr}/${projectId}/`);
-              } else {
-                console.log(`[MIGRATION] Skipped ${jsonFile} - already exists in new location`);
-              }
-            } catch (error) {
-              console.error(`[MIGRATION] Error migrating ${jsonFile}:`, error.message);
-              errors++;
-            }
-          }
-        }
-      }
+    return { status: 'found', record: JSON.parse(safeStorage.decryptString(fs.readFileSync(keyPath))) };
+  } catch (error) {
+    console.warn('[ENCRYPTION] Could not read the safeStorage key file:', error.message);
+    return { status: 'error', error };
+  }
+};
+
+const saveEncryptionKeyRecord = async (record) => {
+  const serialized = JSON.stringify(record);
+  try {
+    const keytar = require('keytar');
+    await keytar.setPassword('tyro-app', ENCRYPTION_KEY_ACCOUNT, serialized);
+    // The keychain copy wins on load - drop any fallback copy
+    if (fs.existsSync(getSafeStorageKeyPath())) {
+      fs.unlinkSync(getSafeStorageKeyPath());
     }
-    
-    console.log(`[MIGRATION] Migration complete: ${migrated} files migrated, ${errors} errors`);
-    return { success: true, migrated, errors };
+    return 'keychain';
   } catch (error) {
-    console.error('[MIGRATION] Migration error:', error);
-    return { success: false, error: error.message, migrated: 0, errors: 0 };
+    console.warn('[ENCRYPTION] Could not store key in keychain, using safeStorage:', error.message);
+  }
+  
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Neither the OS keychain nor safeStorage is available');
   }
+  fs.writeFileSync(getSafeStorageKeyPath(), safeStorage.encryptString(serialized));
+  return 'safeStorage';
 };
 
-// Save task tracking data to JSON file (immediate save)
-// ONE FILE PER TASK - updates the same file, merging session data with totals
-const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectName = null, immediate = false) => {
+const fileStartsSealed = (filePath) => {
+  const header = Buffer.alloc(5);
+  const fd = fs.openSync(filePath, 'r');
   try {
-    const taskKey = getTaskKey(projectId, taskId);
-    if (!taskKey) return false;
-    
-    const taskData = perTaskTracking.get(taskKey);
-    if (!taskData) return false;
-    
-    // ONE FILE PER TASK - use taskId as filename
-    const filePath = getTaskDataPath(projectId, taskId);
-    taskFilePaths.set(taskKey, filePath);
-    
-    // Get metadata
-    const metadata = taskMetadata.get(taskKey) || {};
-    const finalTaskName = taskName || metadata.taskName || 'Unknown Task';
-    const finalProjectName = projectName || metadata.projectName || 'Unknown Project';
-    
-    // Convert Map to Array for JSON serialization
-    // Update timeSpent for all windows before saving and merge with saved data
-    const now = Date.now();
-    
-    // Load saved window data and summary from file to merge with current session
-    const savedWindowsMap = new Map();
-    let baseTotalKeystrokes = 0;
-    let baseTotalMouseClicks = 0;
-    let savedCurrentSessionKeys = 0;
-    let savedCurrentSessionClicks = 0;
-    
+    return isSealedBuffer(header.subarray(0, fs.readSync(fd, header, 0, header.length, 0)));
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Sealed image payloads waiting on disk: outbox uploads and captures held for review
+const getSealedPayloadFiles = () => {
+  return [path.join(getOutboxDir(), 'payloads'), path.join(getReviewDir(), 'images')]
+    .filter(dir => fs.existsSync(dir))
+    .flatMap(dir => fs.readdirSync(dir).filter(name => name.endsWith('.bin')).map(name => path.join(dir, name)));
+};
+
+// Whether anything on disk was sealed with a data key: database columns, task files, outbox and review payloads.
+// Runs before the database is opened; a database that can't be checked counts as sealed.
+const hasSealedTrackingData = () => {
+  if (fs.existsSync(getTrackingDbPath())) {
     try {
-      if (fs.existsSync(filePath)) {
-        const existingFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-        
-        // Load saved windows
-        if (existingFile.trackingData?.activeWindows) {
-          existingFile.trackingData.activeWindows.forEach(item => {
-            const { windowKey, ...stats } = item;
-            savedWindowsMap.set(windowKey, stats);
-          });
-        }
-        
-        // Load saved summary
-        const savedSummary = existingFile.trackingData?.summary;
-        if (savedSummary) {
-          baseTotalKeystrokes = savedSummary.totalKeystrokes || 0;
-          baseTotalMouseClicks = savedSummary.totalMouseClicks || 0;
-          savedCurrentSessionKeys = savedSummary.currentSessionKeystrokes || 0;
-          savedCurrentSessionClicks = savedSummary.currentSessionMouseClicks || 0;
-        }
+      const { DatabaseSync } = require('node:sqlite');
+      const db = new DatabaseSync(getTrackingDbPath(), { readOnly: true });
+      try {
+        if (db.prepare('SELECT 1 FROM tasks WHERE metadata LIKE ? LIMIT 1').get(`${ENCRYPTED_TEXT_PREFIX}%`)) return true;
+      } finally {
+        db.close();
       }
-    } catch (e) {
-      // File doesn't exist or is invalid, start fresh
+    } catch (error) {
+      return true;
+    }
+  }
+  
+  const files = [
+    ...scanTaskFilesOnDisk(path.join(getBaseDataDirectory(), 'tracking-data')).map(taskFile => taskFile.filePath),
+    ...getSealedPayloadFiles()
+  ];
+  return files.some(filePath => {
+    try {
+      return fileStartsSealed(filePath);
+    } catch (error) {
+      return false;
     }
+  });
+};
+
+const applyEncryptionKeyRecord = (record, source) => {
+  encryptionKeys = getKeyRing(record);
+  activeEncryptionKeyId = record.keyId;
+  encryptionKeySource = source;
+};
+
+const initEncryption = async () => {
+  encryptionKeyError = null;
+  try {
+    const loaded = await resolveEncryptionKeyRecord({
+      readKeychain: readKeychainKeyRecord,
+      readFallback: readSafeStorageKeyRecord,
+      hasSealedData: hasSealedTrackingData,
+      saveRecord: saveEncryptionKeyRecord
+    });
     
-    // Debug: Log active windows count
-    if (isDev) {
-      console.log(`[TASK-SAVE] Processing ${taskData.activeWindows.size} active windows for task ${taskId}`);
+    // Never replace a key that is only unreadable right now - sealed data would be lost for good
+    if (loaded.locked) {
+      activeEncryptionKeyId = null;
+      encryptionKeySource = null;
+      encryptionKeyError = `The data key could not be read (${loaded.error.message}). Encrypted tracking data is left untouched until it can be read again.`;
+      console.error(`[ENCRYPTION] ❌ ${encryptionKeyError}`);
+      dialog.showMessageBox({
+        type: 'error',
+        title: 'Tracking data is locked',
+        message: 'Your encrypted tracking data could not be unlocked.',
+        detail: `${encryptionKeyError} Unlock the OS keychain and restart the app.`
+      });
+      return;
     }
     
-    taskData.activeWindows.forEach((windowData, windowKey) => {
-      const savedWindow = savedWindowsMap.get(windowKey);
-      
-      if (isDev) {
-        console.log(`[TASK-SAVE] Processing window ${windowKey}, has startTime: ${!!windowData.startTime}, timeCapsules: ${windowData.timeCapsules?.length || 0}`);
-      }
-      
-      // CRITICAL FIX: Calculate time from time capsules (exact start/end pairs)
-      // Initialize timeCapsules if it doesn't exist
-      if (!windowData.timeCapsules) {
-        windowData.timeCapsules = [];
+    if (loaded.created) {
+      console.log(`[ENCRYPTION] 🔑 Generated new data key ${loaded.record.keyId}`);
+    }
+    applyEncryptionKeyRecord(loaded.record, loaded.source);
+    console.log(`[ENCRYPTION] ✅ Tracking data encrypted with key ${activeEncryptionKeyId} (${encryptionKeySource})`);
+  } catch (error) {
+    activeEncryptionKeyId = null;
+    console.error('[ENCRYPTION] ❌ No data key available, tracking data will be stored unencrypted:', error.message);
+  }
+};
+
+const sealBuffer = (plain) => {
+  if (!activeEncryptionKeyId) return plain;
+  return sealWithKey(plain, activeEncryptionKeyId, encryptionKeys.get(activeEncryptionKeyId));
+};
+
+const openBuffer = (buffer) => openWithKeys(buffer, encryptionKeys);
+
+const sealText = (text) => {
+  if (!activeEncryptionKeyId) return text;
+  return sealTextWithKey(text, activeEncryptionKeyId, encryptionKeys.get(activeEncryptionKeyId));
+};
+
+const openText = (text) => openTextWithKeys(text, encryptionKeys);
+
+// Sealed with a key that isn't loaded (the key store couldn't be read) - not damaged, just locked
+const isLockedTaskFile = (filePath) => {
+  try {
+    const keyId = getSealedKeyId(fs.readFileSync(filePath));
+    return !!keyId && !encryptionKeys.has(keyId);
+  } catch (error) {
+    return false;
+  }
+};
+
+// Plain columns that would leak names/titles are left empty while encryption is on
+const plainDbColumn = (value) => (activeEncryptionKeyId ? null : toDbValue(value));
+
+const readJsonFile = (filePath) => {
+  return JSON.parse(openBuffer(fs.readFileSync(filePath)).toString('utf8'));
+};
+
+// Re-seal a file with the active key (plaintext files get encrypted); temp + rename
+const resealFile = (filePath) => {
+  const plain = openBuffer(fs.readFileSync(filePath));
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, sealBuffer(plain));
+  fs.renameSync(tempPath, filePath);
+};
+
+// Rewrite every task document, backup copy, outbox payload and pending review image with the active key
+const resealTrackingData = () => {
+  const result = { documents: 0, files: 0, failed: 0 };
+  const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+  
+  if (trackingDb) {
+    for (const taskFile of listTaskDocumentsFromDb()) {
+      try {
+        const key = parseTaskDocumentPath(taskFile.filePath);
+        writeTaskDocumentToDb(key, readTaskDocumentFromDb(key));
+        result.documents++;
+      } catch (error) {
+        result.failed++;
+        console.error(`[ENCRYPTION] Error re-encrypting ${taskFile.filePath}:`, error.message);
       }
-      
-      // Load saved time capsules from file
-      const savedCapsules = savedWindow?.timeCapsules || [];
-      
-      // Get new capsules from current session (closed during this session, not yet saved)
-      // IMPORTANT: windowData.timeCapsules contains ONLY NEW capsules that haven't been saved yet
-      // We need to separate new capsules from already-saved ones
-      const newSessionCapsules = windowData.timeCapsules || [];
-      
-      // Create a Set of saved capsule keys for fast lookup
-      const savedCapsuleKeys = new Set(savedCapsules.map(c => `${c.startTime}-${c.endTime}`));
-      
-      // Filter out new capsules that are already in saved (prevent duplicates)
-      const trulyNewCapsules = newSessionCapsules.filter(capsule => {
-        const key = `${capsule.startTime}-${capsule.endTime}`;
-        return !savedCapsuleKeys.has(key);
+    }
+  }
+  
+  // JSON files (the live store, or the backup left behind by the database import) plus .bak/.corrupt copies
+  for (const taskFile of scanTaskFilesOnDisk(trackingDataPath)) {
+    const dir = path.dirname(taskFile.filePath);
+    const base = path.basename(taskFile.filePath);
+    fs.readdirSync(dir)
+      .filter(name => (name === base || name.startsWith(`${base}.`)) && !name.endsWith('.tmp'))
+      .forEach(name => {
+        try {
+          resealFile(path.join(dir, name));
+          result.files++;
+        } catch (error) {
+          result.failed++;
+          console.error(`[ENCRYPTION] Error re-encrypting ${name}:`, error.message);
+        }
       });
+  }
+  
+  getSealedPayloadFiles().forEach(payloadFile => {
+    try {
+      resealFile(payloadFile);
+      result.files++;
+    } catch (error) {
+      result.failed++;
+      console.error(`[ENCRYPTION] Error re-encrypting payload ${path.basename(payloadFile)}:`, error.message);
+    }
+  });
+  
+  // Old pages may still hold the previous ciphertext (or plaintext)
+  if (trackingDb && result.documents > 0) {
+    try {
+      trackingDb.exec('VACUUM');
+    } catch (error) {
+      console.warn('[ENCRYPTION] VACUUM failed:', error.message);
+    }
+  }
+  return result;
+};
+
+// One-time pass over data written before encryption was enabled
+const encryptExistingTrackingData = async () => {
+  if (!activeEncryptionKeyId) return;
+  const store = await initStore();
+  if (store.get('trackingDataEncryptedAt')) return;
+  
+  const result = resealTrackingData();
+  if (result.failed === 0) {
+    store.set('trackingDataEncryptedAt', new Date().toISOString());
+  }
+  console.log(`[ENCRYPTION] Encrypted existing data: ${result.documents} database documents, ${result.files} files, ${result.failed} failed`);
+};
+
+// New key first saved alongside the old one, so an interrupted rotation can still read both
+const rotateEncryptionKey = async () => {
+  if (!activeEncryptionKeyId) {
+    throw new Error('Encryption is not available on this device');
+  }
+  
+  const previousId = activeEncryptionKeyId;
+  const rotated = rotateKeyRecord(encryptionKeys);
+  const next = { keyId: rotated.keyId, key: rotated.key };
+  
+  const source = await saveEncryptionKeyRecord(rotated);
+  applyEncryptionKeyRecord(rotated, source);
+  
+  const result = resealTrackingData();
+  if (result.failed > 0) {
+    // Keep the old keys around so nothing that failed becomes unreadable
+    console.warn(`[ENCRYPTION] ⚠️ Rotation left ${result.failed} item(s) on the previous key`);
+  } else {
+    await saveEncryptionKeyRecord(next);
+    applyEncryptionKeyRecord(next, source);
+  }
+  
+  console.log(`[ENCRYPTION] 🔄 Rotated data key ${previousId} -> ${next.keyId}: ${result.documents} documents, ${result.files} files`);
+  return { keyId: next.keyId, previousKeyId: previousId, ...result };
+};
+
+ipcMain.handle('rotate-encryption-key', async () => {
+  try {
+    const result = await rotateEncryptionKey();
+    return { success: result.failed === 0, ...result };
+  } catch (error) {
+    console.error('[ENCRYPTION] Key rotation failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-encryption-status', async () => {
+  return {
+    enabled: !!activeEncryptionKeyId,
+    keyId: activeEncryptionKeyId,
+    keySource: encryptionKeySource,
+    pendingKeys: Math.max(0, encryptionKeys.size - 1),
+    error: encryptionKeyError
+  };
+});
+
+// ==================== Tracking Store (SQLite) ====================
+// All task tracking data lives in one embedded SQLite database:
+//   {baseDir}/tracking-data.db
+// Uses Electron's bundled node:sqlite (no native rebuild needed). If it can't be
+// loaded we fall back to the legacy one-JSON-file-per-task layout.
+//
+// Task documents keep the same JSON shape everywhere in the app; the path from
+// getTaskDataPath() is used as the document key ({workspaceId}/{date}/{projectId}/{taskId}.json).
+let trackingDb = null; // DatabaseSync instance, null = JSON file fallback
+const trackingDbStatements = {};
+
+const TRACKING_DB_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    task_name TEXT,
+    project_name TEXT,
+    version TEXT,
+    created_at TEXT,
+    last_updated TEXT,
+    metadata TEXT NOT NULL,
+    url_history TEXT NOT NULL DEFAULT '[]',
+    extra TEXT NOT NULL DEFAULT '{}',
+    UNIQUE (workspace_id, date, project_id, task_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_last_updated ON tasks(last_updated);
+
+  CREATE TABLE IF NOT EXISTS activity_logs (
+    task_row_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    log_id TEXT,
+    timestamp INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (task_row_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS idx_activity_logs_timestamp ON activity_logs(timestamp);
+
+  CREATE TABLE IF NOT EXISTS windows (
+    task_row_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    window_key TEXT,
+    app_name TEXT,
+    title TEXT,
+    time_spent INTEGER,
+    last_seen INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (task_row_id, position)
+  );
+
+  CREATE TABLE IF NOT EXISTS screenshots (
+    task_row_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- 'screenshot' | 'webcam'
+    position INTEGER NOT NULL,
+    image_id TEXT,
+    timestamp INTEGER,
+    file_url TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (task_row_id, kind, position)
+  );
+
+  CREATE TABLE IF NOT EXISTS summaries (
+    task_row_id INTEGER PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+    total_time INTEGER,
+    total_keystrokes INTEGER,
+    total_mouse_clicks INTEGER,
+    total_activity_logs INTEGER,
+    first_activity TEXT,
+    last_activity TEXT,
+    data TEXT NOT NULL
+  );
+`;
+
+const getTrackingDbPath = () => path.join(getBaseDataDirectory(), 'tracking-data.db');
+
+const initTrackingDb = () => {
+  if (trackingDb) return trackingDb;
+  try {
+    const { DatabaseSync } = require('node:sqlite');
+    const db = new DatabaseSync(getTrackingDbPath());
+    db.exec('PRAGMA journal_mode = WAL;');
+    db.exec('PRAGMA synchronous = NORMAL;');
+    db.exec('PRAGMA foreign_keys = ON;');
+    db.exec(TRACKING_DB_SCHEMA);
+    
+    trackingDbStatements.upsertTask = db.prepare(`
+      INSERT INTO tasks (workspace_id, date, project_id, task_id, task_name, project_name, version, created_at, last_updated, metadata, url_history, extra)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (workspace_id, date, project_id, task_id) DO UPDATE SET
+        task_name = excluded.task_name,
+        project_name = excluded.project_name,
+        version = excluded.version,
+        created_at = excluded.created_at,
+        last_updated = excluded.last_updated,
+        metadata = excluded.metadata,
+        url_history = excluded.url_history,
+        extra = excluded.extra
+    `);
+    trackingDbStatements.getTaskRow = db.prepare('SELECT * FROM tasks WHERE workspace_id = ? AND date = ? AND project_id = ? AND task_id = ?');
+    trackingDbStatements.listTasks = db.prepare('SELECT id, workspace_id, date, project_id, task_id FROM tasks ORDER BY date, workspace_id, project_id, task_id');
+    trackingDbStatements.deleteLogs = db.prepare('DELETE FROM activity_logs WHERE task_row_id = ?');
+    trackingDbStatements.deleteWindows = db.prepare('DELETE FROM windows WHERE task_row_id = ?');
+    trackingDbStatements.deleteImages = db.prepare('DELETE FROM screenshots WHERE task_row_id = ?');
+    trackingDbStatements.deleteSummary = db.prepare('DELETE FROM summaries WHERE task_row_id = ?');
+    trackingDbStatements.insertLog = db.prepare('INSERT INTO activity_logs (task_row_id, position, log_id, timestamp, data) VALUES (?, ?, ?, ?, ?)');
+    trackingDbStatements.insertWindow = db.prepare('INSERT INTO windows (task_row_id, position, window_key, app_name, title, time_spent, last_seen, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+    trackingDbStatements.insertImage = db.prepare('INSERT INTO screenshots (task_row_id, kind, position, image_id, timestamp, file_url, data) VALUES (?, ?, ?, ?, ?, ?, ?)');
+    trackingDbStatements.insertSummary = db.prepare('INSERT INTO summaries (task_row_id, total_time, total_keystrokes, total_mouse_clicks, total_activity_logs, first_activity, last_activity, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+    trackingDbStatements.selectLogs = db.prepare('SELECT data FROM activity_logs WHERE task_row_id = ? ORDER BY position');
+    trackingDbStatements.selectWindows = db.prepare('SELECT data FROM windows WHERE task_row_id = ? ORDER BY position');
+    trackingDbStatements.selectImages = db.prepare('SELECT data FROM screenshots WHERE task_row_id = ? AND kind = ? ORDER BY position');
+    trackingDbStatements.selectSummary = db.prepare('SELECT data FROM summaries WHERE task_row_id = ?');
+    
+    trackingDb = db;
+    console.log('[TRACKING-DB] ✅ Opened tracking database:', getTrackingDbPath());
+  } catch (error) {
+    console.warn('[TRACKING-DB] ⚠️ SQLite unavailable, using JSON task files instead:', error.message);
+    trackingDb = null;
+  }
+  return trackingDb;
+};
+
+// With the database there may be no tracking-data folder at all
+const trackingDataExists = (trackingDataPath) => !!trackingDb || fs.existsSync(trackingDataPath);
+
+// node:sqlite rejects undefined - bind null instead
+const toDbValue = (value) => (value === undefined ? null : value);
+
+const parseTimestampValue = (value) => {
+  if (typeof value === 'number') return Math.floor(value);
+  if (!value) return null;
+  const parsed = new Date(value).getTime();
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// Map a task document path (see getTaskDataPath) back to its database key
+const parseTaskDocumentPath = (filePath) => {
+  const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+  const parts = path.relative(trackingDataPath, filePath).split(path.sep);
+  if (parts.length !== 4 || !parts[3].endsWith('.json')) {
+    return null;
+  }
+  return {
+    workspaceId: parts[0],
+    date: parts[1],
+    projectId: parts[2],
+    taskId: parts[3].replace(/\.json$/, '')
+  };
+};
+
+const getTaskDocumentPathForKey = (key) => {
+  return path.join(getBaseDataDirectory(), 'tracking-data', key.workspaceId, key.date, key.projectId, `${key.taskId}.json`);
+};
+
+const writeTaskDocumentToDb = (key, data) => {
+  const parts = splitTaskDocument(data);
+  const metadata = parts.metadata;
+  
+  trackingDb.exec('BEGIN');
+  try {
+    trackingDbStatements.upsertTask.run(
+      key.workspaceId, key.date, key.projectId, key.taskId,
+      plainDbColumn(metadata.taskName), plainDbColumn(metadata.projectName), toDbValue(parts.version),
+      toDbValue(metadata.createdAt), toDbValue(metadata.lastUpdated),
+      sealText(JSON.stringify(metadata)),
+      sealText(JSON.stringify(parts.urlHistory)),
+      sealText(JSON.stringify(parts.extra))
+    );
+    const taskRow = trackingDbStatements.getTaskRow.get(key.workspaceId, key.date, key.projectId, key.taskId);
+    const rowId = taskRow.id;
+    
+    // Child rows are rewritten wholesale - same semantics as rewriting the JSON file
+    trackingDbStatements.deleteLogs.run(rowId);
+    trackingDbStatements.deleteWindows.run(rowId);
+    trackingDbStatements.deleteImages.run(rowId);
+    trackingDbStatements.deleteSummary.run(rowId);
+    
+    parts.activityLogs.forEach((log, index) => {
+      trackingDbStatements.insertLog.run(rowId, index, toDbValue(log?.id), parseTimestampValue(log?.timestamp), sealText(JSON.stringify(log)));
+    });
+    parts.activeWindows.forEach((win, index) => {
+      trackingDbStatements.insertWindow.run(
+        rowId, index, plainDbColumn(win?.windowKey), plainDbColumn(win?.appName), plainDbColumn(win?.title),
+        toDbValue(win?.timeSpent), parseTimestampValue(win?.lastSeen), sealText(JSON.stringify(win))
+      );
+    });
+    parts.screenshots.forEach((shot, index) => {
+      trackingDbStatements.insertImage.run(rowId, 'screenshot', index, toDbValue(shot?.id), parseTimestampValue(shot?.timestamp), plainDbColumn(shot?.fileUrl), sealText(JSON.stringify(shot)));
+    });
+    parts.webcamPhotos.forEach((photo, index) => {
+      trackingDbStatements.insertImage.run(rowId, 'webcam', index, toDbValue(photo?.id), parseTimestampValue(photo?.timestamp), plainDbColumn(photo?.fileUrl), sealText(JSON.stringify(photo)));
+    });
+    if (parts.summary) {
+      const summary = parts.summary;
+      trackingDbStatements.insertSummary.run(
+        rowId, toDbValue(summary.totalTime), toDbValue(summary.totalKeystrokes), toDbValue(summary.totalMouseClicks),
+        toDbValue(summary.totalActivityLogs), toDbValue(summary.firstActivity), toDbValue(summary.lastActivity),
+        sealText(JSON.stringify(summary))
+      );
+    }
+    trackingDb.exec('COMMIT');
+  } catch (error) {
+    trackingDb.exec('ROLLBACK');
+    throw error;
+  }
+};
+
+const readTaskDocumentFromDb = (key) => {
+  const taskRow = trackingDbStatements.getTaskRow.get(key.workspaceId, key.date, key.projectId, key.taskId);
+  if (!taskRow) return null;
+  
+  const summaryRow = trackingDbStatements.selectSummary.get(taskRow.id);
+  return joinTaskDocument({
+    version: taskRow.version,
+    metadata: JSON.parse(openText(taskRow.metadata)),
+    activityLogs: trackingDbStatements.selectLogs.all(taskRow.id).map(row => JSON.parse(openText(row.data))),
+    screenshots: trackingDbStatements.selectImages.all(taskRow.id, 'screenshot').map(row => JSON.parse(openText(row.data))),
+    webcamPhotos: trackingDbStatements.selectImages.all(taskRow.id, 'webcam').map(row => JSON.parse(openText(row.data))),
+    urlHistory: JSON.parse(openText(taskRow.url_history) || '[]'),
+    activeWindows: trackingDbStatements.selectWindows.all(taskRow.id).map(row => JSON.parse(openText(row.data))),
+    summary: summaryRow ? JSON.parse(openText(summaryRow.data)) : null,
+    extra: JSON.parse(openText(taskRow.extra) || '{}')
+  });
+};
+
+// Same shape as the on-disk scan so callers don't care which backend is active
+const listTaskDocumentsFromDb = () => {
+  return trackingDbStatements.listTasks.all().map(row => {
+    const key = { workspaceId: row.workspace_id, date: row.date, projectId: row.project_id, taskId: row.task_id };
+    return {
+      filePath: getTaskDocumentPathForKey(key),
+      projectId: key.projectId,
+      taskId: key.taskId,
+      workspaceId: key.workspaceId,
+      date: key.date
+    };
+  });
+};
+
+// ---- Crash-safe JSON task files ----
+// Writes go to {file}.tmp (fsync'd) and are renamed into place; the previous
+// version is kept as {file}.bak. metadata.checksum covers trackingData so torn or
+// hand-edited files can be detected.
+const MAX_TRACKING_REPAIRS = 50; // Repair history kept for verify-tracking-data
+
+// null = nothing to check (see verifyTaskDocumentChecksum). JSON files keep their key
+// order; database rows only do once they have been rewritten since key order was recorded
+const isTaskDocumentChecksumValid = (data) => verifyTaskDocumentChecksum(data, { legacyOrderTrusted: !trackingDb });
+
+const writeJsonFileAtomic = (filePath, data) => {
+  const tempPath = `${filePath}.tmp`;
+  const backupPath = `${filePath}.bak`;
+  
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeFileSync(fd, sealBuffer(Buffer.from(JSON.stringify(data, null, 2), 'utf8')));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  
+  // Keep the last good version around in case the new one is ever lost
+  if (fs.existsSync(filePath)) {
+    fs.copyFileSync(filePath, backupPath);
+  }
+  fs.renameSync(tempPath, filePath);
+};
+
+const tryParseJsonFile = (filePath) => {
+  try {
+    if (!fs.existsSync(filePath)) return null;
+    return readJsonFile(filePath);
+  } catch (error) {
+    return null;
+  }
+};
+
+const recordTrackingRepair = async (repair) => {
+  const store = await initStore();
+  const repairs = store.get('trackingDataRepairs', []);
+  repairs.push(repair);
+  store.set('trackingDataRepairs', repairs.slice(-MAX_TRACKING_REPAIRS));
+};
+
+// Rebuild one unparseable task file from its .bak plus whatever activity logs survive in the torn file
+const recoverTaskFile = (taskFile) => {
+  const { filePath, projectId, taskId } = taskFile;
+  let rawText = '';
+  try {
+    rawText = openBuffer(fs.readFileSync(filePath)).toString('utf8');
+  } catch (error) {
+    // Torn ciphertext fails authentication - nothing can be salvaged from it
+  }
+  const backup = tryParseJsonFile(`${filePath}.bak`);
+  const salvagedLogs = salvageActivityLogs(rawText);
+  
+  const recovered = backup || {
+    version: '1.0.0',
+    metadata: {
+      createdAt: new Date().toISOString(),
+      taskId,
+      projectId,
+      taskName: 'Unknown Task',
+      projectName: 'Unknown Project'
+    },
+    trackingData: {
+      activityLogs: [],
+      screenshots: [],
+      webcamPhotos: [],
+      urlHistory: [],
+      activeWindows: []
+    }
+  };
+  recovered.trackingData = recovered.trackingData || {};
+  const logs = recovered.trackingData.activityLogs || [];
+  
+  // Logs written after the backup was taken only exist in the torn file
+  const knownLogIds = new Set(logs.map(log => log.id));
+  const addedLogs = salvagedLogs.filter(log => !log.id || !knownLogIds.has(log.id));
+  logs.push(...addedLogs);
+  logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  recovered.trackingData.activityLogs = logs;
+  
+  if (recovered.trackingData.summary) {
+    recovered.trackingData.summary.totalActivityLogs = logs.length;
+  }
+  recovered.metadata.lastUpdated = new Date().toISOString();
+  recovered.metadata.recoveredAt = recovered.metadata.lastUpdated;
+  recovered.metadata.checksum = computeTaskDocumentChecksum(recovered);
+  
+  // Keep the damaged original for inspection, then put the recovered file in place
+  const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+  fs.copyFileSync(filePath, corruptPath);
+  writeJsonFileAtomic(filePath, recovered);
+  
+  return {
+    filePath,
+    projectId,
+    taskId,
+    repairedAt: recovered.metadata.recoveredAt,
+    restoredFromBackup: !!backup,
+    salvagedActivityLogs: addedLogs.length,
+    totalActivityLogs: logs.length,
+    corruptCopy: corruptPath
+  };
+};
+
+// Startup pass over the JSON task files: repair anything that no longer parses
+const recoverTrackingDataFiles = async () => {
+  const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+  if (!fs.existsSync(trackingDataPath)) {
+    return { success: true, checked: 0, repaired: 0, failed: 0 };
+  }
+  
+  // Always scan the files on disk - findAllTaskFiles lists database rows when SQLite is active
+  const taskFiles = trackingDb ? scanTaskFilesOnDisk(trackingDataPath) : findAllTaskFiles(trackingDataPath);
+  let repaired = 0;
+  let failed = 0;
+  
+  for (const taskFile of taskFiles) {
+    if (tryParseJsonFile(taskFile.filePath)) continue;
+    if (isLockedTaskFile(taskFile.filePath)) continue;
+    
+    try {
+      const repair = recoverTaskFile(taskFile);
+      await recordTrackingRepair(repair);
+      repaired++;
+      console.warn(`[TASK-RECOVERY] 🩹 Repaired ${taskFile.filePath}: ${repair.restoredFromBackup ? 'restored from .bak' : 'rebuilt'}, salvaged ${repair.salvagedActivityLogs} activity log(s)`);
+    } catch (error) {
+      failed++;
+      await recordTrackingRepair({
+        filePath: taskFile.filePath,
+        projectId: taskFile.projectId,
+        taskId: taskFile.taskId,
+        repairedAt: new Date().toISOString(),
+        error: error.message
+      });
+      console.error(`[TASK-RECOVERY] ❌ Could not repair ${taskFile.filePath}:`, error.message);
+    }
+  }
+  
+  if (repaired > 0 || failed > 0) {
+    console.log(`[TASK-RECOVERY] Checked ${taskFiles.length} task files: ${repaired} repaired, ${failed} failed`);
+  }
+  return { success: true, checked: taskFiles.length, repaired, failed };
+};
+
+// ---- Backend-agnostic task document I/O (used by every reader/writer below) ----
+
+const taskDocumentExists = (filePath) => {
+  if (trackingDb) {
+    const key = parseTaskDocumentPath(filePath);
+    return !!(key && trackingDbStatements.getTaskRow.get(key.workspaceId, key.date, key.projectId, key.taskId));
+  }
+  return fs.existsSync(filePath);
+};
+
+// Returns the parsed task document, or null if it doesn't exist. Throws on corrupt data.
+const readTaskDocument = (filePath) => {
+  if (trackingDb) {
+    const key = parseTaskDocumentPath(filePath);
+    return key ? readTaskDocumentFromDb(key) : null;
+  }
+  if (!fs.existsSync(filePath)) return null;
+  return readJsonFile(filePath);
+};
+
+const writeTaskDocument = (filePath, data) => {
+  // Without the data key an existing document can't be read - don't replace it with a partial one
+  if (encryptionKeyError) {
+    try {
+      readTaskDocument(filePath);
+    } catch (error) {
+      throw new Error(`Task document is locked: ${encryptionKeyError}`);
+    }
+  }
+  if (data.metadata) {
+    data.metadata.checksum = computeTaskDocumentChecksum(data);
+  }
+  if (trackingDb) {
+    const key = parseTaskDocumentPath(filePath);
+    if (!key) {
+      throw new Error(`Invalid task document path: ${filePath}`);
+    }
+    writeTaskDocumentToDb(key, data);
+    scheduleCombinedInsightsUpdate();
+    return;
+  }
+  writeJsonFileAtomic(filePath, data);
+};
+
+// One-time import of the legacy JSON tree (both the flat project_id/taskid.json layout
+// and workspace_id/date/project_id/taskid.json). Files are left on disk as a backup.
+// Only marked done once every file made it in.
+const importJsonTrackingData = async () => {
+  if (!trackingDb) return { success: true, imported: 0, errors: 0, skipped: true };
+  
+  const store = await initStore();
+  if (store.get('trackingDbImportedAt')) {
+    return { success: true, imported: 0, errors: 0, skipped: true };
+  }
+  // Sealed files can't be read yet - import once the key is back
+  if (encryptionKeyError) {
+    return { success: false, imported: 0, errors: 0, skipped: true, error: encryptionKeyError };
+  }
+  
+  const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+  const workspaceId = currentWorkspaceId || 'default';
+  let imported = 0;
+  let errors = 0;
+  
+  for (const taskFile of scanTaskFilesOnDisk(trackingDataPath)) {
+    try {
+      const data = readJsonFile(taskFile.filePath);
       
-      // Merge: saved capsules + only truly new capsules (deduplicated)
-      const allClosedCapsules = [...savedCapsules, ...trulyNewCapsules];
-      
-      // Calculate total time from all closed capsules
-      let totalTime = allClosedCapsules.reduce((sum, capsule) => {
-        return sum + (capsule.duration || 0);
-      }, 0);
-      
-      // If window is currently active, add time from active capsule (not yet closed)
-      // This time is included in calculation but capsule is not saved until window closes
-      if (windowData.startTime) {
-        const activeDuration = Math.floor((now - windowData.startTime) / 1000);
-        totalTime += activeDuration;
-      }
-      
-      windowData.timeSpent = totalTime;
-      
-      // IMPORTANT: Store ALL capsules (saved + new) so they persist in memory
-      // This ensures that when we check windowData.timeCapsules, we see all capsules
-      // The deduplication logic above ensures we don't add duplicates
-      windowData.timeCapsules = allClosedCapsules;
-      windowData.lastSeen = now;
-      
-      // CRITICAL FIX: Only add NEW data since last save to prevent double-counting
-      const savedKeystrokes = savedWindow?.keystrokes || 0;
-      const savedClicks = savedWindow?.mouseClicks || 0;
-      
-      // Get what was last saved for this window (to calculate difference)
-      const lastSavedWindow = taskData.lastSavedWindowData?.get(windowKey);
-      const lastSavedWindowKeystrokes = lastSavedWindow?.keystrokes !== undefined ? lastSavedWindow.keystrokes : savedKeystrokes;
-      const lastSavedWindowClicks = lastSavedWindow?.mouseClicks !== undefined ? lastSavedWindow.mouseClicks : savedClicks;
-      
-      // Current session data (cumulative since task start)
-      const currentKeystrokes = windowData.keystrokes || 0;
-      const currentClicks = windowData.mouseClicks || 0;
+      // Flat legacy files have no workspace/date - same rules the old folder migration used
+      let dateStr = taskFile.date;
+      if (!dateStr) {
+        dateStr = data.metadata?.createdAt
+          ? new Date(data.metadata.createdAt).toISOString().split('T')[0]
+          : new Date().toISOString().split('T')[0];
+      }
+      const key = {
+        workspaceId: taskFile.workspaceId || workspaceId,
+        date: dateStr,
+        projectId: taskFile.projectId,
+        taskId: taskFile.taskId
+      };
       
-      // Calculate NEW data since last save (difference)
-      const newKeystrokes = Math.max(0, currentKeystrokes - lastSavedWindowKeystrokes);
-      const newClicks = Math.max(0, currentClicks - lastSavedWindowClicks);
+      // Never overwrite a document that already exists in the database
+      if (trackingDbStatements.getTaskRow.get(key.workspaceId, key.date, key.projectId, key.taskId)) {
+        continue;
+      }
+      writeTaskDocumentToDb(key, data);
+      imported++;
+    } catch (error) {
+      console.error(`[TRACKING-DB] Error importing ${taskFile.filePath}:`, error.message);
+      errors++;
+    }
+  }
+  
+  // Files that failed stay JSON-only - leave the import open so the next start retries them
+  // (documents already in the database are skipped)
+  if (errors === 0) {
+    store.set('trackingDbImportedAt', new Date().toISOString());
+    console.log(`[TRACKING-DB] Import complete: ${imported} task files imported (JSON files kept as backup)`);
+  } else {
+    console.warn(`[TRACKING-DB] ⚠️ Import incomplete: ${imported} task files imported, ${errors} errors - retrying on next start`);
+  }
+  return { success: true, imported, errors };
+};
+
+// ==================== End Tracking Store ====================
+
+// Save task tracking data to JSON file (immediate save)
+// ONE FILE PER TASK - updates the same file, merging session data with totals
+const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectName = null, immediate = false) => {
+  try {
+    const taskKey = getTaskKey(projectId, taskId);
+    if (!taskKey) return false;
+    
+    const taskData = perTaskTracking.get(taskKey);
+    if (!taskData) return false;
+    
+    // ONE FILE PER TASK - use taskId as filename
+    const filePath = getTaskDataPath(projectId, taskId);
+    taskFilePaths.set(taskKey, filePath);
+    
+    // Get metadata
+    const metadata = taskMetadata.get(taskKey) || {};
+    const finalTaskName = taskName || metadata.taskName || 'Unknown Task';
+    const finalProjectName = projectName || metadata.projectName || 'Unknown Project';
+    
+    // Convert Map to Array for JSON serialization
+    // Update timeSpent for all windows before saving and merge with saved data
+    const now = Date.now();
+    
+    // Load saved window data and summary from file to merge with current session
+    const savedWindowsMap = new Map();
+    let baseTotalKeystrokes = 0;
+    let baseTotalMouseClicks = 0;
+    let savedCurrentSessionKeys = 0;
+    let savedCurrentSessionClicks = 0;
+    let savedDeviceMerge = null;
+    
+    try {
+      const existingFile = readTaskDocument(filePath);
+      if (existingFile) {
+        // Data merged from other devices is not held in memory - carry it over
+        savedDeviceMerge = existingFile.trackingData?.deviceMerge || null;
+        
+        // Load saved windows
+        if (existingFile.trackingData?.activeWindows) {
+          existingFile.trackingData.activeWindows.forEach(item => {
+            const { windowKey, ...stats } = item;
+            savedWindowsMap.set(windowKey, stats);
+          });
+        }
+        
+        // Load saved summary
+        const savedSummary = existingFile.trackingData?.summary;
+        if (savedSummary) {
+          baseTotalKeystrokes = savedSummary.totalKeystrokes || 0;
+          baseTotalMouseClicks = savedSummary.totalMouseClicks || 0;
+          savedCurrentSessionKeys = savedSummary.currentSessionKeystrokes || 0;
+          savedCurrentSessionClicks = savedSummary.currentSessionMouseClicks || 0;
+        }
+      }
+    } catch (e) {
+      // File doesn't exist or is invalid, start fresh
+    }
+    
+    // Debug: Log active windows count
+    if (isDev) {
+      console.log(`[TASK-SAVE] Processing ${taskData.activeWindows.size} active windows for task ${taskId}`);
+    }
+    
+    taskData.activeWindows.forEach((windowData, windowKey) => {
+      const savedWindow = savedWindowsMap.get(windowKey);
       
-      // Total = saved + NEW data only (not entire current session)
-      windowData.keystrokes = savedKeystrokes + newKeystrokes;
-      windowData.mouseClicks = savedClicks + newClicks;
+      if (isDev) {
+        console.log(`[TASK-SAVE] Processing window ${windowKey}, has startTime: ${!!windowData.startTime}, timeCapsules: ${windowData.timeCapsules?.length || 0}`);
+      }
       
-      // Update last saved data for this window
-      if (!taskData.lastSavedWindowData) {
-        taskData.lastSavedWindowData = new Map();
+      // CRITICAL FIX: Calculate time from time capsules (exact start/end pairs)
+      // Initialize timeCapsules if it doesn't exist
+      if (!windowData.timeCapsules) {
+        windowData.timeCapsules = [];
       }
-      const lastSavedData = {
-        keystrokes: currentKeystrokes, // Save current session total
-        mouseClicks: currentClicks,
-        timeSpent: windowData.timeSpent // Save total time (calculated from capsules)
-      };
-      taskData.lastSavedWindowData.set(windowKey, lastSavedData);
       
-      // Merge URLs from both windowData.urls and perWindowStats.urlHistory
+      // Load saved time capsules from file
+      const savedCapsules = savedWindow?.timeCapsules || [];
+      
+      // Get new capsules from current session (closed during this session, not yet saved)
+      // IMPORTANT: windowData.timeCapsules contains ONLY NEW capsules that haven't been saved yet
+      // We need to separate new capsules from already-saved ones
+      const newSessionCapsules = windowData.timeCapsules || [];
+      
+      // Create a Set of saved capsule keys for fast lookup
+      const savedCapsuleKeys = new Set(savedCapsules.map(c => `${c.startTime}-${c.endTime}`));
+      
+      // Filter out new capsules that are already in saved (prevent duplicates)
+      const trulyNewCapsules = newSessionCapsules.filter(capsule => {
+        const key = `${capsule.startTime}-${capsule.endTime}`;
+        return !savedCapsuleKeys.has(key);
+      });
+      
+      // Merge: saved capsules + only truly new capsules (deduplicated)
+      const allClosedCapsules = [...savedCapsules, ...trulyNewCapsules];
+      
+      // Calculate total time from all closed capsules
+      let totalTime = allClosedCapsules.reduce((sum, capsule) => {
+        return sum + (capsule.duration || 0);
+      }, 0);
+      
+      // If window is currently active, add time from active capsule (not yet closed)
+      // This time is included in calculation but capsule is not saved until window closes
+      if (windowData.startTime) {
+        const activeDuration = Math.floor((now - windowData.startTime) / 1000);
+        totalTime += activeDuration;
+      }
+      
+      windowData.timeSpent = totalTime;
+      
+      // IMPORTANT: Store ALL capsules (saved + new) so they persist in memory
+      // This ensures that when we check windowData.timeCapsules, we see all capsules
+      // The deduplication logic above ensures we don't add duplicates
+      windowData.timeCapsules = allClosedCapsules;
+      windowData.lastSeen = now;
+      
+      // CRITICAL FIX: Only add NEW data since last save to prevent double-counting
+      const savedKeystrokes = savedWindow?.keystrokes || 0;
+      const savedClicks = savedWindow?.mouseClicks || 0;
+      
+      // Get what was last saved for this window (to calculate difference)
+      const lastSavedWindow = taskData.lastSavedWindowData?.get(windowKey);
+      const lastSavedWindowKeystrokes = lastSavedWindow?.keystrokes !== undefined ? lastSavedWindow.keystrokes : savedKeystrokes;
+      const lastSavedWindowClicks = lastSavedWindow?.mouseClicks !== undefined ? lastSavedWindow.mouseClicks : savedClicks;
+      
+      // Current session data (cumulative since task start)
+      const currentKeystrokes = windowData.keystrokes || 0;
+      const currentClicks = windowData.mouseClicks || 0;
+      
+      // Calculate NEW data since last save (difference)
+      const newKeystrokes = Math.max(0, currentKeystrokes - lastSavedWindowKeystrokes);
+      const newClicks = Math.max(0, currentClicks - lastSavedWindowClicks);
+      
+      // Total = saved + NEW data only (not entire current session)
+      windowData.keystrokes = savedKeystrokes + newKeystrokes;
+      windowData.mouseClicks = savedClicks + newClicks;
+      
+      // Update last saved data for this window
+      if (!taskData.lastSavedWindowData) {
+        taskData.lastSavedWindowData = new Map();
+      }
+      const lastSavedData = {
+        keystrokes: currentKeystrokes, // Save current session total
+        mouseClicks: currentClicks,
+        timeSpent: windowData.timeSpent // Save total time (calculated from capsules)
+      };
+      taskData.lastSavedWindowData.set(windowKey, lastSavedData);
+      
+      // Merge URLs from both windowData.urls and perWindowStats.urlHistory
       const savedUrls = savedWindow?.urls || [];
       const currentUrls = windowData.urls || [];
       const mergedUrls = [...savedUrls];
@@ -1201,6 +1835,9 @@ const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectN
     const totalTimeSpent = activeWindowsWithTime.reduce((sum, win) => {
       return sum + (win.timeSpent || 0);
     }, 0);
+    const deductedTime = getDeductedSeconds(taskData.activityLogs); // Screenshots the user deleted during review
+    // Overlaps with another device resolved in that device's favour
+    const conflictDeductedTime = getConflictDeductedSeconds({ activeWindows: activeWindowsWithTime, deviceMerge: savedDeviceMerge });
 
     const dataToSave = {
       version: '1.0.0',
@@ -1211,7 +1848,9 @@ const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectN
         projectId: taskData.projectId,
         taskName: finalTaskName,
         projectName: finalProjectName,
-        currentSessionStart: taskData.startTime ? new Date(taskData.startTime).toISOString() : null
+        currentSessionStart: taskData.startTime ? new Date(taskData.startTime).toISOString() : null,
+        deviceId: getDeviceId(),
+        deviceName: deviceIdentity?.deviceName || null
       },
       trackingData: {
         activityLogs: taskData.activityLogs || [],
@@ -1221,19 +1860,38 @@ const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectN
           fileUrl: s.fileUrl,
           isBlurred: s.isBlurred !== undefined ? s.isBlurred : false,
           taskId: s.taskId,
-          projectId: s.projectId
+          projectId: s.projectId,
+          uploadPending: s.uploadPending || undefined,
+          outboxId: s.outboxId || undefined,
+          reviewPending: s.reviewPending || undefined,
+          reviewReleaseAt: s.reviewPending ? s.reviewReleaseAt : undefined,
+          activityLogId: s.activityLogId || undefined,
+          captureId: s.captureId || undefined,
+          batchId: s.batchId || undefined,
+          display: s.display || undefined,
+          displays: s.displays || undefined,
+          profile: s.profile || undefined,
+          redactions: s.redactions && s.redactions.length > 0 ? s.redactions : undefined,
+          screenHash: s.screenHash || undefined,
+          unchanged: s.unchanged || undefined,
+          changePercent: s.unchanged ? s.changePercent : undefined
         })), // Ensure all screenshots have fileUrl
         webcamPhotos: (taskData.webcamPhotos || []).map(p => ({
           id: p.id,
           timestamp: p.timestamp,
           fileUrl: p.fileUrl,
           taskId: p.taskId,
-          projectId: p.projectId
+          projectId: p.projectId,
+          uploadPending: p.uploadPending || undefined,
+          outboxId: p.outboxId || undefined,
+          profile: p.profile || undefined
         })), // Ensure all webcam photos have fileUrl
         urlHistory: taskData.urlHistory || [],
         activeWindows: activeWindowsWithTime,
         summary: {
-          totalTime: totalTimeSpent, // Total time spent (sum of all windows' timeSpent from time capsules)
+          totalTime: Math.max(0, totalTimeSpent - deductedTime - conflictDeductedTime), // Sum of all windows' timeSpent from time capsules, less removed captures and time given to another device
+          deductedTime,
+          conflictDeductedTime,
           totalKeystrokes: totalKeystrokes, // Cumulative total across all sessions
           totalMouseClicks: totalMouseClicks, // Cumulative total across all sessions
           currentSessionKeystrokes: taskData.keystrokes, // Current session only
@@ -1243,21 +1901,23 @@ const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectN
           totalUrls: (taskData.urlHistory || []).length,
           totalActivityLogs: (taskData.activityLogs || []).length,
           firstActivity: taskData.createdAt || (taskData.startTime ? new Date(taskData.startTime).toISOString() : null),
-          lastActivity: new Date().toISOString()
-        }
+          lastActivity: new Date().toISOString(),
+          deviceId: getDeviceId()
+        },
+        ...(savedDeviceMerge ? { deviceMerge: savedDeviceMerge } : {})
       }
     };
     
-    // CRITICAL: Write file synchronously to ensure data is saved before continuing
-    fs.writeFileSync(filePath, JSON.stringify(dataToSave, null, 2), 'utf8');
+    // CRITICAL: Write synchronously to ensure data is saved before continuing
+    writeTaskDocument(filePath, dataToSave);
     
     // CRITICAL: Verify file was actually created and has content
-    if (!fs.existsSync(filePath)) {
+    if (!taskDocumentExists(filePath)) {
       console.error(`[TASK-SAVE] ❌ CRITICAL ERROR: File was not created at ${filePath}`);
       return false;
     }
     
-    const stats = fs.statSync(filePath);
+    const stats = trackingDb ? { size: Buffer.byteLength(JSON.stringify(dataToSave)) } : fs.statSync(filePath);
     if (stats.size === 0) {
       console.error(`[TASK-SAVE] ❌ CRITICAL ERROR: File is empty at ${filePath}`);
       return false;
@@ -1265,7 +1925,7 @@ const saveTaskTrackingDataToFile = (projectId, taskId, taskName = null, projectN
     
     // Verify JSON is valid by reading it back
     try {
-      const verifyData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const verifyData = readTaskDocument(filePath);
       if (!verifyData.metadata || !verifyData.trackingData) {
         console.error(`[TASK-SAVE] ❌ CRITICAL ERROR: Saved file has invalid structure`);
         return false;
@@ -1361,11 +2021,9 @@ const loadTaskTrackingDataFromFile = (projectId, taskId) => {
   try {
     // Try new structure first
     const filePath = getTaskDataPath(projectId, taskId);
+    const savedData = readTaskDocument(filePath);
     
-    if (fs.existsSync(filePath)) {
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      const savedData = JSON.parse(fileContent);
-      
+    if (savedData) {
       console.log(`[TASK-LOAD] ✅ Loaded existing file for task ${taskId}: ${filePath}`);
       console.log(`[TASK-LOAD] 📊 Existing data: ${savedData.trackingData?.activityLogs?.length || 0} logs, ${savedData.trackingData?.screenshots?.length || 0} screenshots`);
       console.log(`[TASK-LOAD] 📊 Existing totals: ${savedData.trackingData?.summary?.totalKeystrokes || 0} keystrokes, ${savedData.trackingData?.summary?.totalMouseClicks || 0} clicks`);
@@ -1373,13 +2031,12 @@ const loadTaskTrackingDataFromFile = (projectId, taskId) => {
       return savedData;
     }
     
-    // Try old structure for backward compatibility
+    // Try old structure for backward compatibility (already imported when using the database)
     const baseDir = getBaseDataDirectory();
     const oldFilePath = path.join(baseDir, 'tracking-data', projectId || 'unknown', `${taskId}.json`);
     
-    if (fs.existsSync(oldFilePath)) {
-      const fileContent = fs.readFileSync(oldFilePath, 'utf8');
-      const savedData = JSON.parse(fileContent);
+    if (!trackingDb && fs.existsSync(oldFilePath)) {
+      const savedData = readJsonFile(oldFilePath);
       
       console.log(`[TASK-LOAD] ✅ Loaded existing file from old structure for task ${taskId}: ${oldFilePath}`);
       console.log(`[TASK-LOAD] 📊 Existing data: ${savedData.trackingData?.activityLogs?.length || 0} logs, ${savedData.trackingData?.screenshots?.length || 0} screenshots`);
@@ -1808,6 +2465,7 @@ ipcMain.handle('get-settings', async () => {
 ipcMain.handle('set-settings', async (event, settings) => {
   const s = await initStore();
   s.set('settings', settings);
+  await applyBrowserBridgeSetting(settings);
   return true;
 });
 
@@ -1835,11 +2493,106 @@ ipcMain.handle('export-data', async (event, data) => {
   }
 });
 
+// Classification rules export / import (settings.classificationRules, validated by the renderer)
+ipcMain.handle('export-classification-rules', async (event, rules) => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Export Classification Rules',
+      defaultPath: `tyrodesk-classification-rules-${new Date().toISOString().split('T')[0]}.json`,
+      filters: [{ name: 'JSON Files', extensions: ['json'] }]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+    fs.writeFileSync(result.filePath, JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), rules: rules || [] }, null, 2), 'utf8');
+    return { success: true, path: result.filePath };
+  } catch (error) {
+    console.error('[CLASSIFICATION] Export error:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('import-classification-rules', async () => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Import Classification Rules',
+      properties: ['openFile'],
+      filters: [{ name: 'JSON Files', extensions: ['json'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+    const data = JSON.parse(fs.readFileSync(result.filePaths[0], 'utf8'));
+    return { success: true, data };
+  } catch (error) {
+    console.error('[CLASSIFICATION] Import error:', error);
+    return { success: false, error: error instanceof SyntaxError ? 'The file is not valid JSON' : error.message };
+  }
+});
+
+// Organization classification policy, cached per workspace for offline starts
+ipcMain.handle('get-classification-policy', async (event, workspaceId) => {
+  const s = await initStore();
+  const policies = s.get('classificationPolicies', {});
+  return { success: true, policy: policies[String(workspaceId)] || null };
+});
+
+ipcMain.handle('set-classification-policy', async (event, policy) => {
+  if (!policy?.workspaceId) {
+    return { success: false, error: 'workspaceId is required' };
+  }
+  const s = await initStore();
+  const policies = s.get('classificationPolicies', {});
+  policies[String(policy.workspaceId)] = policy;
+  s.set('classificationPolicies', policies);
+  return { success: true };
+});
+
+// Unclassified inbox - apps and domains no classification rule matched, with the time spent on them
+// (bookkeeping in unclassified-inbox.cjs). Window titles and paths are kept as samples only when the
+// window is not covered by a redaction rule or a screenshot exclusion.
+ipcMain.handle('record-unclassified-activity', async (event, entries) => {
+  try {
+    const s = await initStore();
+    const settings = s.get('settings', {});
+    const isPrivate = (win) => (settings.redactionRules || []).some(rule => rule && rule.enabled !== false && rule.pattern && matchesRedactionRule(rule, win)) ||
+      (settings.screenshotExclusions || []).some(rule => rule && rule.enabled !== false && matchesExclusionRule(rule, win));
+    const inbox = recordUnclassifiedEntries(s.get('unclassifiedInbox', {}), entries, isPrivate);
+    s.set('unclassifiedInbox', trimUnclassifiedInbox(inbox));
+    return { success: true };
+  } catch (error) {
+    console.error('[CLASSIFICATION] Failed to record unclassified activity:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-unclassified-inbox', async () => {
+  const s = await initStore();
+  const items = Object.values(s.get('unclassifiedInbox', {})).sort((a, b) => b.seconds - a.seconds);
+  return { success: true, items };
+});
+
+// Classified or dismissed items leave the inbox (they come back if they are seen unclassified again)
+ipcMain.handle('remove-unclassified-items', async (event, keys) => {
+  const s = await initStore();
+  const inbox = s.get('unclassifiedInbox', {});
+  let removed = 0;
+  for (const key of Array.isArray(keys) ? keys : []) {
+    if (inbox[key]) {
+      delete inbox[key];
+      removed++;
+    }
+  }
+  s.set('unclassifiedInbox', inbox);
+  return { success: true, removed };
+});
+
 // Data deletion handler
 ipcMain.handle('delete-all-data', async () => {
   // Clear all stored data except consent (user must explicitly revoke)
   const s = await initStore();
   s.delete('settings');
+  s.delete('unclassifiedInbox'); // Holds window titles
   // Note: Activity logs and time entries are stored in renderer memory,
   // so they'll be cleared when app restarts. This is handled in the renderer.
   return true;
@@ -2442,1114 +3195,3059 @@ ipcMain.handle('oauth-authenticate', async (event) => {
         }
       }
     }
-      
-      // Clean up cancellation handler
-      ongoingOAuthAttempts.delete(requestId);
-      
-      // Timeout
-      if (!cancelled) {
-        return {
-          success: false,
-          error: 'Authentication timeout. Please try again.',
-        };
-      } else {
-        return {
-          success: false,
-          error: 'Authentication cancelled. Please try again.',
-        };
-      }
-    } catch (error) {
-      // Clean up cancellation handler on error
-      ongoingOAuthAttempts.delete(requestId);
-      throw error;
-    }
+      
+      // Clean up cancellation handler
+      ongoingOAuthAttempts.delete(requestId);
+      
+      // Timeout
+      if (!cancelled) {
+        return {
+          success: false,
+          error: 'Authentication timeout. Please try again.',
+        };
+      } else {
+        return {
+          success: false,
+          error: 'Authentication cancelled. Please try again.',
+        };
+      }
+    } catch (error) {
+      // Clean up cancellation handler on error
+      ongoingOAuthAttempts.delete(requestId);
+      throw error;
+    }
+  } catch (error) {
+    // Clean up cancellation handler
+    ongoingOAuthAttempts.delete(requestId);
+    return {
+      success: false,
+      error: error.message || 'Authentication failed',
+    };
+  }
+});
+
+// Helper function to check OAuth status (extracted from oauth-check-status handler)
+async function checkOAuthStatus() {
+  try {
+    const keytar = require('keytar');
+    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    if (!accessToken) {
+      return { authenticated: false };
+    }
+    
+    let user = null;
+    let workspaces = [];
+    let currentWorkspace = null;
+    let expires_at = null;
+    
+    if (userDataStr) {
+      try {
+        const metadata = JSON.parse(userDataStr);
+        user = metadata.user;
+        workspaces = metadata.workspaces || [];
+        expires_at = metadata.expires_at;
+        
+        console.log('[OAUTH] Loaded', workspaces.length, 'workspaces from storage');
+        if (workspaces.length > 0) {
+          console.log('[OAUTH] Workspace names:', workspaces.map(w => w.workspace_name || w.name || 'Unknown').join(', '));
+        }
+        
+        // Get current workspace
+        if (metadata.current_workspace_id) {
+          currentWorkspace = workspaces.find(w => w.workspace_id === metadata.current_workspace_id) || null;
+          if (currentWorkspace) {
+            console.log('[OAUTH] Found current workspace by ID:', currentWorkspace.workspace_name);
+          }
+        }
+        
+        // Fallback to general workspace or first one
+        if (!currentWorkspace) {
+          currentWorkspace = workspaces.find(w => w.workspace_is_general) || null;
+          if (currentWorkspace) {
+            console.log('[OAUTH] Using general workspace:', currentWorkspace.workspace_name);
+          }
+        }
+        if (!currentWorkspace && workspaces.length > 0) {
+          currentWorkspace = workspaces[0];
+          console.log('[OAUTH] Using first workspace:', currentWorkspace.workspace_name);
+        }
+        
+        // Update cached workspace ID for file paths
+        if (currentWorkspace && currentWorkspace.workspace_id) {
+          const newWorkspaceId = String(currentWorkspace.workspace_id);
+          if (currentWorkspaceId !== newWorkspaceId) {
+            currentWorkspaceId = newWorkspaceId;
+            console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
+          }
+        }
+      } catch (e) {
+        console.error('[OAUTH] Error parsing user data:', e);
+        console.error('[OAUTH] User data string:', userDataStr.substring(0, 200));
+      }
+    }
+    
+    // Check if token is expired
+    const isExpired = expires_at && Date.now() >= expires_at;
+    
+    return {
+      authenticated: !isExpired,
+      user,
+      workspaces,
+      currentWorkspace,
+      expires_at,
+    };
+  } catch (error) {
+    return { authenticated: false, error: error.message };
+  }
+}
+
+// Initialize workspace ID on app startup
+const initializeWorkspaceId = async () => {
+  try {
+    const keytar = require('keytar');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    if (userDataStr) {
+      const metadata = JSON.parse(userDataStr);
+      const workspaces = metadata.workspaces || [];
+      let workspace = null;
+      
+      // Get current workspace
+      if (metadata.current_workspace_id) {
+        workspace = workspaces.find(w => 
+          String(w.workspace_id) === String(metadata.current_workspace_id)
+        ) || null;
+      }
+      
+      // Fallback to general workspace or first one
+      if (!workspace) {
+        workspace = workspaces.find(w => w.workspace_is_general) || null;
+      }
+      if (!workspace && workspaces.length > 0) {
+        workspace = workspaces[0];
+      }
+      
+      if (workspace && workspace.workspace_id) {
+        currentWorkspaceId = String(workspace.workspace_id);
+        console.log(`[INIT] Initialized workspace ID: ${currentWorkspaceId}`);
+      }
+    }
+  } catch (error) {
+    console.error('[INIT] Error initializing workspace ID:', error);
+  }
+};
+
+// Check OAuth authentication status
+ipcMain.handle('oauth-check-status', async () => {
+  try {
+    const keytar = require('keytar');
+    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    if (!accessToken) {
+      return { authenticated: false };
+    }
+    
+    let user = null;
+    let workspaces = [];
+    let currentWorkspace = null;
+    let expires_at = null;
+    
+    if (userDataStr) {
+      try {
+        const metadata = JSON.parse(userDataStr);
+        user = metadata.user;
+        workspaces = metadata.workspaces || [];
+        expires_at = metadata.expires_at;
+        
+        // Get current workspace
+        if (metadata.current_workspace_id) {
+          currentWorkspace = workspaces.find(w => w.workspace_id === metadata.current_workspace_id) || null;
+        }
+        
+        // Fallback to general workspace or first one
+        if (!currentWorkspace) {
+          currentWorkspace = workspaces.find(w => w.workspace_is_general) || null;
+        }
+        if (!currentWorkspace && workspaces.length > 0) {
+          currentWorkspace = workspaces[0];
+        }
+        
+        // Update cached workspace ID for file paths
+        if (currentWorkspace && currentWorkspace.workspace_id) {
+          const newWorkspaceId = String(currentWorkspace.workspace_id);
+          if (currentWorkspaceId !== newWorkspaceId) {
+            currentWorkspaceId = newWorkspaceId;
+            console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
+          }
+        }
+      } catch (e) {
+        console.error('[OAUTH] Error parsing user data:', e);
+        // Ignore parse errors
+      }
+    }
+    
+    // Check if token is expired
+    const isExpired = expires_at && Date.now() >= expires_at;
+    
+    return {
+      authenticated: !isExpired,
+      user,
+      workspaces,
+      currentWorkspace,
+      expires_at,
+    };
+  } catch (error) {
+    return { authenticated: false, error: error.message };
+  }
+});
+
+// OAuth Logout
+ipcMain.handle('oauth-logout', async () => {
+  try {
+    const keytar = require('keytar');
+    await keytar.deletePassword('tyro-app', 'access_token');
+    await keytar.deletePassword('tyro-app', 'refresh_token');
+    await keytar.deletePassword('tyro-app', 'user_data');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// Force Logout - Clears all authentication data without requiring API call
+ipcMain.handle('oauth-force-logout', async () => {
+  try {
+    console.log('[OAUTH] 🔥 Force logout - clearing all authentication data...');
+    const keytar = require('keytar');
+    
+    // Clear all possible keytar entries
+    const keysToDelete = ['access_token', 'refresh_token', 'user_data', 'login_token', 'device_token'];
+    for (const key of keysToDelete) {
+      try {
+        await keytar.deletePassword('tyro-app', key);
+        console.log(`[OAUTH] ✅ Deleted ${key} from keytar`);
+      } catch (e) {
+        // Ignore errors if key doesn't exist
+        console.log(`[OAUTH] ⚠️ Could not delete ${key} (may not exist):`, e.message);
+      }
+    }
+    
+    console.log('[OAUTH] ✅ Force logout complete - all tokens cleared');
+    return { success: true, message: 'All authentication data cleared successfully' };
+  } catch (error) {
+    console.error('[OAUTH] ❌ Error during force logout:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Set current workspace
+ipcMain.handle('oauth-set-workspace', async (event, workspaceId) => {
+  try {
+    const keytar = require('keytar');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    if (!userDataStr) {
+      return { success: false, error: 'No user data found' };
+    }
+    
+    try {
+      const metadata = JSON.parse(userDataStr);
+      const workspaces = metadata.workspaces || [];
+      
+      // Verify workspace exists (handle both string and number IDs)
+      const workspace = workspaces.find(w => 
+        String(w.workspace_id) === String(workspaceId)
+      );
+      if (!workspace) {
+        return { success: false, error: `Workspace ${workspaceId} not found` };
+      }
+      
+      // Update current workspace
+      metadata.current_workspace_id = workspaceId;
+      await keytar.setPassword('tyro-app', 'user_data', JSON.stringify(metadata));
+      
+      // Update cached workspace ID for file paths
+      currentWorkspaceId = String(workspaceId);
+      console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
+      
+      return { success: true };
+    } catch (e) {
+      return { success: false, error: 'Failed to parse user data' };
+    }
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// Device logout API call
+// Uses main domain (tyrodesk.com) and Bearer token (login_token from localStorage)
+ipcMain.handle('oauth-device-logout', async (event, bearerTokenFromRenderer = null) => {
+  try {
+    const keytar = require('keytar');
+    const store = await initStore();
+    const settings = store.get('settings', {});
+    
+    // Get Bearer token (login_token) - use the one passed from renderer first
+    // According to user: login_token stored in localStorage is the Bearer token to use
+    let bearerToken = bearerTokenFromRenderer; // First try token passed from renderer
+    if (bearerToken) {
+      console.log('[OAUTH] ✅ Using Bearer token (login_token) from renderer (localStorage)');
+    }
+    
+    // If not passed from renderer, try to get from localStorage via executeJavaScript
+    if (!bearerToken && mainWindow && mainWindow.webContents) {
+      try {
+        bearerToken = await mainWindow.webContents.executeJavaScript(`
+          (() => {
+            try {
+              // First try login_token directly from localStorage
+              let token = localStorage.getItem('login_token');
+              if (token) return token;
+              
+              // Fallback: try from auth_full_response
+              const authFullResponse = localStorage.getItem('auth_full_response');
+              if (authFullResponse) {
+                const parsed = JSON.parse(authFullResponse);
+                // Try multiple paths: login_token, data.login_token
+                return parsed.login_token || parsed.data?.login_token || null;
+              }
+              return null;
+            } catch (e) {
+              console.error('Error getting login_token from localStorage:', e);
+              return null;
+            }
+          })()
+        `);
+        
+        if (bearerToken) {
+          console.log('[OAUTH] ✅ Found Bearer token (login_token) in localStorage via executeJavaScript');
+        }
+      } catch (e) {
+        console.error('[OAUTH] Error getting login_token from renderer:', e);
+      }
+    }
+    
+    // If still not found, try keytar as last resort
+    if (!bearerToken) {
+      try {
+        // Try to get from keytar (might be stored as refresh_token which is JWT login_token)
+        bearerToken = await keytar.getPassword('tyro-app', 'refresh_token');
+        if (bearerToken) {
+          console.log('[OAUTH] Found Bearer token in keytar (refresh_token)');
+        }
+      } catch (e) {
+        console.error('[OAUTH] Error getting token from keytar:', e);
+      }
+    }
+    
+    if (!bearerToken) {
+      console.error('[OAUTH] ❌ No Bearer token (login_token) found');
+      return { 
+        success: false, 
+        error: 'No authentication token found. Please log in again.' 
+      };
+    }
+    
+    // Validate token format (Bearer tokens can be JWT or other formats)
+    if (bearerToken.length < 10) {
+      console.error('[OAUTH] Invalid Bearer token format');
+      return { 
+        success: false, 
+        error: 'Invalid authentication token format. Please log in again.' 
+      };
+    }
+    
+    // Use BASE_URL for logout
+    // Extract domain from settings or use BASE_URL
+    let logoutBaseUrl = BASE_URL;
+    if (settings.apiBaseUrl) {
+      try {
+        const url = new URL(settings.apiBaseUrl);
+        const protocol = BASE_URL.split('://')[0];
+        logoutBaseUrl = `${protocol}://${url.hostname}`;
+      } catch (e) {
+        // Use BASE_URL as fallback
+        logoutBaseUrl = BASE_URL;
+      }
+    }
+    
+    // Construct logout URL
+    const logoutUrl = `${logoutBaseUrl}/api/V11/auth/device/logout`;
+    console.log('[OAUTH] Calling device logout API:', logoutUrl);
+    console.log('[OAUTH] Using Bearer token (login_token) (first 20 chars):', bearerToken.substring(0, 20) + '...');
+    
+    const axiosModule = await import('axios');
+    const axios = axiosModule.default;
+    
+    const response = await axios.post(
+      logoutUrl,
+      {}, // Empty body as per documentation
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${bearerToken}`, // Bearer token (login_token from localStorage)
+        },
+        timeout: 30000,
+      }
+    );
+    
+    if (response.status === 200 && response.data?.result === true) {
+      console.log('[OAUTH] ✅ Device logout successful:', response.data.message);
+      return {
+        success: true,
+        message: response.data.message || 'Logged out and device unlinked successfully',
+      };
+    } else {
+      console.warn('[OAUTH] ⚠️ Logout API returned unexpected response:', response.data);
+      return {
+        success: false,
+        error: response.data?.message || 'Logout failed',
+      };
+    }
+  } catch (error) {
+    console.error('[OAUTH] Error calling device logout API:', error);
+    
+    if (error.response) {
+      const status = error.response.status;
+      const data = error.response.data;
+      
+      // Handle error responses according to documentation
+      if (status === 401) {
+        return {
+          success: false,
+          error: data?.message || 'Unauthorized - JWT token may be invalid or expired',
+        };
+      }
+      
+      if (status === 500) {
+        return {
+          success: false,
+          error: data?.message || data?.error || 'Failed to logout - server error',
+        };
+      }
+      
+      return {
+        success: false,
+        error: data?.message || `Logout failed (${status})`,
+      };
+    }
+    
+    return {
+      success: false,
+      error: error.message || 'Failed to call logout API',
+    };
+  }
+});
+
+// Get OAuth access token (for API service in renderer)
+ipcMain.handle('oauth-get-access-token', async () => {
+  try {
+    const keytar = require('keytar');
+    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    if (!accessToken) {
+      return { token: null };
+    }
+    
+    // Check if expired
+    let isExpired = false;
+    if (userDataStr) {
+      try {
+        const metadata = JSON.parse(userDataStr);
+        if (metadata.expires_at && Date.now() >= metadata.expires_at) {
+          isExpired = true;
+        }
+      } catch (e) {
+        // Ignore parse errors
+      }
+    }
+    
+    return {
+      token: isExpired ? null : accessToken,
+      expired: isExpired,
+    };
+  } catch (error) {
+    return { token: null, error: error.message };
+  }
+});
+
+// Get OAuth login token (JWT token with workspace info, for workspace-specific APIs)
+ipcMain.handle('oauth-get-login-token', async () => {
+  try {
+    const keytar = require('keytar');
+    // login_token (JWT) is stored as refresh_token
+    const loginToken = await keytar.getPassword('tyro-app', 'refresh_token');
+    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    
+    // Validate that we have a JWT token (starts with 'eyJ' and has 3 segments)
+    let validJWT = false;
+    if (loginToken) {
+      const parts = loginToken.split('.');
+      validJWT = loginToken.startsWith('eyJ') && parts.length === 3;
+      if (!validJWT) {
+        console.warn('[OAUTH] refresh_token is not a valid JWT, checking access_token');
+      }
+    }
+    
+    // If refresh_token is not a valid JWT, try access_token
+    let tokenToUse = loginToken;
+    if (!validJWT) {
+      const accessToken = await keytar.getPassword('tyro-app', 'access_token');
+      if (accessToken) {
+        const parts = accessToken.split('.');
+        const isJWT = accessToken.startsWith('eyJ') && parts.length === 3;
+        if (isJWT) {
+          tokenToUse = accessToken;
+          console.log('[OAUTH] Using access_token as JWT login_token');
+        } else {
+          console.warn('[OAUTH] Neither token is a valid JWT. access_token:', accessToken?.substring(0, 20) + '...');
+        }
+      }
+    } else {
+      console.log('[OAUTH] Using refresh_token as JWT login_token');
+    }
+    
+    if (!tokenToUse) {
+      return { token: null, error: 'No token found' };
+    }
+    
+    // Check if expired
+    let isExpired = false;
+    if (userDataStr) {
+      try {
+        const metadata = JSON.parse(userDataStr);
+        if (metadata.expires_at && Date.now() >= metadata.expires_at) {
+          isExpired = true;
+        }
+      } catch (e) {
+        // Ignore parse errors
+      }
+    }
+    
+    return {
+      token: isExpired ? null : tokenToUse,
+      expired: isExpired,
+    };
+  } catch (error) {
+    return { token: null, error: error.message };
+  }
+});
+
+// ---- Delta sync ----
+// Each task document keeps a per-collection cursor (position + id of the last item the
+// server acknowledged) in the store under 'syncCursors'. Syncs only send items past the
+// cursor, in batches, and advance it by what the server says it accepted. Edited and
+// moved items and removals come past the cursor again (see sync-delta.cjs).
+
+// Cursors are keyed by path relative to tracking-data so they survive dev/prod base changes
+const getSyncCursorKey = (filePath) => {
+  return path.relative(path.join(getBaseDataDirectory(), 'tracking-data'), filePath).split(path.sep).join('/');
+};
+
+// Auth header for the sync endpoints: OAuth access token, falling back to the configured API key
+const getSyncAuthHeader = async (settings) => {
+  try {
+    const keytar = require('keytar');
+    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
+    if (accessToken) {
+      // Check if expired
+      const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+      let isExpired = false;
+      if (userDataStr) {
+        try {
+          const metadata = JSON.parse(userDataStr);
+          if (metadata.expires_at && Date.now() >= metadata.expires_at) {
+            isExpired = true;
+          }
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+      if (!isExpired) {
+        return { Authorization: `Bearer ${accessToken}` };
+      }
+    }
+  } catch (e) {
+    // Fallback to API key if keytar fails
+  }
+  return settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+};
+
+// Push everything past the task's cursor, batch by batch, until caught up or the server
+// only takes part of a batch (the rest is resent from the new cursor next time)
+const syncTaskDocumentDelta = async (axios, settings, filePath, taskData) => {
+  const store = await initStore();
+  const cursorKey = getSyncCursorKey(filePath);
+  const { projectId, taskId } = taskData.metadata;
+  const authHeader = await getSyncAuthHeader(settings);
+  
+  let sent = 0;
+  let requests = 0;
+  let partial = false;
+  
+  while (true) {
+    const cursor = store.get('syncCursors', {})[cursorKey] || { collections: {} };
+    const delta = collectSyncDelta(taskData.trackingData, cursor);
+    if (isSyncUpToDate(delta, cursor, taskData.metadata.lastUpdated)) {
+      break;
+    }
+    
+    const response = await axios.post(
+      `${settings.apiBaseUrl}/tracking/tasks/${projectId}/${taskId}`,
+      {
+        taskId,
+        projectId,
+        taskName: taskData.metadata.taskName,
+        projectName: taskData.metadata.projectName,
+        metadata: taskData.metadata,
+        sync: { mode: 'delta', since: cursor.collections },
+        trackingData: getSyncBatchPayload(taskData.trackingData, delta),
+      },
+      {
+        timeout: 30000,
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeader,
+        },
+      }
+    );
+    requests++;
+    
+    // Advance each collection by what the server acknowledged
+    const result = acknowledgeSyncDelta(cursor, delta, response.data, taskData.metadata.lastUpdated);
+    store.set('syncCursors', { ...store.get('syncCursors', {}), [cursorKey]: result.cursor });
+    sent += result.sent;
+    
+    if (result.partial) {
+      partial = true;
+      console.warn(`[API-SYNC] ⚠️ Server accepted part of the batch for task ${taskId} - will resume from cursor`);
+      break;
+    }
+    if (!result.more) {
+      break;
+    }
+  }
+  
+  return { sent, requests, partial, upToDate: requests === 0 };
+};
+
+// Sync single task tracking data to API
+ipcMain.handle('sync-task-tracking', async (event, projectId, taskId) => {
+  try {
+    const store = await initStore();
+    const settings = store.get('settings', {});
+    
+    if (!settings.apiEnabled || !settings.apiBaseUrl) {
+      return { success: false, error: 'API not enabled' };
+    }
+
+    // Load task tracking data
+    const taskData = loadTaskTrackingDataFromFile(projectId, taskId);
+    if (!taskData) {
+      return { success: false, error: 'Task data not found' };
+    }
+
+    // Dynamic import of axios
+    const axiosModule = await import('axios');
+    const axios = axiosModule.default;
+    
+    const result = await syncTaskDocumentDelta(axios, settings, getTaskDataPath(projectId, taskId), taskData);
+    console.log(`[API-SYNC] Task ${taskId}: ${result.upToDate ? 'already up to date' : `${result.sent} item(s) in ${result.requests} request(s)`}`);
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('[API-SYNC] Error syncing task:', error);
+    return { 
+      success: false, 
+      error: error.response?.data?.message || error.message || 'Sync failed' 
+    };
+  }
+});
+
+// Sync all tasks to API
+ipcMain.handle('sync-all-tasks', async () => {
+  try {
+    const store = await initStore();
+    const settings = store.get('settings', {});
+    
+    if (!settings.apiEnabled || !settings.apiBaseUrl) {
+      return { success: false, error: 'API not enabled', synced: 0, errors: 0 };
+    }
+
+    // Get all today's tasks - need to call the function directly
+    const baseDir = getBaseDataDirectory();
+    const trackingDataPath = path.join(baseDir, 'tracking-data');
+    
+    if (!trackingDataExists(trackingDataPath)) {
+      return { success: true, synced: 0, errors: 0 };
+    }
+
+    // Find all task files
+    const taskFiles = findAllTaskFiles(trackingDataPath);
+    
+    if (taskFiles.length === 0) {
+      return { success: true, synced: 0, errors: 0 };
+    }
+
+    // Dynamic import of axios
+    const axiosModule = await import('axios');
+    const axios = axiosModule.default;
+
+    let synced = 0;
+    let errors = 0;
+    let skipped = 0;
+
+    // Sync each task document (every day, not just today) from its own cursor
+    for (const taskFile of taskFiles) {
+      try {
+        const taskData = readTaskDocument(taskFile.filePath);
+        if (!taskData?.metadata) {
+          errors++;
+          continue;
+        }
+
+        const result = await syncTaskDocumentDelta(axios, settings, taskFile.filePath, taskData);
+        if (result.upToDate) {
+          skipped++;
+        } else {
+          synced++;
+        }
+      } catch (error) {
+        console.error(`[API-SYNC] Error syncing task ${taskFile.taskId}:`, error);
+        errors++;
+      }
+    }
+
+    console.log(`[API-SYNC] Synced ${synced} task(s), ${skipped} already up to date, ${errors} error(s)`);
+    return { success: true, synced, skipped, errors };
   } catch (error) {
-    // Clean up cancellation handler
-    ongoingOAuthAttempts.delete(requestId);
-    return {
+    console.error('[API-SYNC] Error syncing all tasks:', error);
+    return { 
       success: false,
-      error: error.message || 'Authentication failed',
+      error: error.message || 'Sync failed',
+      synced: 0,
+      errors: 0
     };
   }
 });
 
-// Helper function to check OAuth status (extracted from oauth-check-status handler)
-async function checkOAuthStatus() {
+// ==================== Multi-Device Merge ====================
+// The same task can be tracked on several machines (desktop + laptop). Every document,
+// summary and activity log is stamped with this machine's deviceId; data from other
+// devices pulled via the tracking-data list API is kept under trackingData.deviceMerge
+// so local saves and delta sync never mix it into this device's own logs.
+
+let deviceIdentity = null; // { deviceId, deviceName }
+
+const initDeviceIdentity = async () => {
+  const store = await initStore();
+  let deviceId = store.get('deviceId');
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    store.set('deviceId', deviceId);
+    console.log(`[DEVICE] 🆔 Generated device ID ${deviceId}`);
+  }
+  deviceIdentity = { deviceId, deviceName: os.hostname() };
+  return deviceIdentity;
+};
+
+const getDeviceId = () => deviceIdentity?.deviceId || null;
+
+// Fold tracking records from other devices into the local document's deviceMerge block
+const mergeRemoteTrackingIntoTask = (filePath, records) => {
+  const doc = readTaskDocument(filePath);
+  if (!doc) {
+    throw new Error('Task data not found');
+  }
+  
+  doc.trackingData = doc.trackingData || {};
+  const { mergedRecords, skippedRecords } = mergeRemoteTrackingData(doc.trackingData, records, getDeviceId());
+  writeTaskDocument(filePath, doc);
+  
+  const view = buildMergedTaskView(doc, deviceIdentity);
+  console.log(`[DEVICE-MERGE] Task ${doc.metadata?.taskId}: merged ${mergedRecords} record(s), skipped ${skippedRecords}, ${view.openConflicts} open conflict(s)`);
+  return { ...view, mergedRecords, skippedRecords };
+};
+
+// Merge records returned by apiService.listTrackingData for a task
+ipcMain.handle('merge-remote-tracking-data', async (event, projectId, taskId, records) => {
   try {
-    const keytar = require('keytar');
-    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    const result = mergeRemoteTrackingIntoTask(getTaskDataPath(projectId, taskId), records);
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('[DEVICE-MERGE] Error merging remote tracking data:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-merged-task-tracking', async (event, projectId, taskId) => {
+  try {
+    const doc = readTaskDocument(getTaskDataPath(projectId, taskId));
+    if (!doc) {
+      return { success: false, error: 'Task data not found' };
+    }
+    return { success: true, ...buildMergedTaskView(doc, deviceIdentity) };
+  } catch (error) {
+    console.error('[DEVICE-MERGE] Error building merged view:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// resolution: 'keep-local' | 'keep-remote' | 'keep-both'
+ipcMain.handle('resolve-device-conflict', async (event, projectId, taskId, conflictId, resolution) => {
+  try {
+    if (!['keep-local', 'keep-remote', 'keep-both'].includes(resolution)) {
+      return { success: false, error: `Unknown resolution: ${resolution}` };
+    }
     
-    if (!accessToken) {
-      return { authenticated: false };
+    // The summary and log flags are rewritten below - a copy held in memory would overwrite them
+    releaseTaskFromMemory(projectId, taskId);
+    const filePath = getTaskDataPath(projectId, taskId);
+    const doc = readTaskDocument(filePath);
+    const conflict = doc?.trackingData?.deviceMerge?.conflicts?.find(c => c.id === conflictId);
+    if (!conflict) {
+      return { success: false, error: 'Conflict not found' };
     }
     
-    let user = null;
-    let workspaces = [];
-    let currentWorkspace = null;
-    let expires_at = null;
+    // Flagged logs and the new totals go out with the next sync
+    touchSyncItems(applyConflictResolution(doc.trackingData, conflict, resolution));
+    recalculateTaskSummary(doc, 0, 0);
+    writeTaskDocument(filePath, doc);
     
-    if (userDataStr) {
+    console.log(`[DEVICE-MERGE] Resolved conflict ${conflictId} on task ${taskId}: ${resolution}`);
+    return { success: true, ...buildMergedTaskView(doc, deviceIdentity) };
+  } catch (error) {
+    console.error('[DEVICE-MERGE] Error resolving conflict:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Data Retention ====================
+// Old task documents are slimmed down in the background: raw images after
+// imageRetentionDays, activity logs / URL history after activityLogRetentionDays.
+// Summaries and metadata are kept forever. A document is only touched once the
+// server has confirmed its current revision (its delta sync cursor).
+
+const PRUNE_STARTUP_DELAY_MS = 2 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let pruneTimer = null;
+let pruneRunning = false;
+
+const isTaskDocumentSynced = (store, filePath, doc) => {
+  return isTaskRevisionSynced(doc, store.get('syncCursors', {})[getSyncCursorKey(filePath)]);
+};
+
+const pruneTrackingData = async () => {
+  if (pruneRunning) {
+    return { success: false, error: 'Pruning already in progress' };
+  }
+  pruneRunning = true;
+  
+  try {
+    const store = await initStore();
+    const policy = getRetentionPolicy(store.get('settings', {}));
+    const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+    const result = {
+      success: true,
+      ranAt: new Date().toISOString(),
+      policy,
+      checked: 0,
+      pruned: 0,
+      skippedUnsynced: 0,
+      removedImages: 0,
+      removedActivityLogs: 0
+    };
+    
+    const retentionDays = [policy.imageDays, policy.activityLogDays].filter(days => days > 0);
+    if (retentionDays.length === 0 || !trackingDataExists(trackingDataPath)) {
+      store.set('lastPruneResult', result);
+      return result;
+    }
+    const minRetentionDays = Math.min(...retentionDays);
+    
+    for (const taskFile of findAllTaskFiles(trackingDataPath)) {
+      // Dated documents that are too young can be skipped without reading them
+      if (taskFile.date && getTaskDocumentAgeDays(taskFile, null) < minRetentionDays) continue;
+      
       try {
-        const metadata = JSON.parse(userDataStr);
-        user = metadata.user;
-        workspaces = metadata.workspaces || [];
-        expires_at = metadata.expires_at;
+        const doc = readTaskDocument(taskFile.filePath);
+        if (!doc?.metadata) continue;
+        result.checked++;
         
-        console.log('[OAUTH] Loaded', workspaces.length, 'workspaces from storage');
-        if (workspaces.length > 0) {
-          console.log('[OAUTH] Workspace names:', workspaces.map(w => w.workspace_name || w.name || 'Unknown').join(', '));
+        const ageDays = getTaskDocumentAgeDays(taskFile, doc);
+        if (ageDays < minRetentionDays) continue;
+        if (!isTaskDocumentSynced(store, taskFile.filePath, doc)) {
+          result.skippedUnsynced++;
+          continue;
         }
         
-        // Get current workspace
-        if (metadata.current_workspace_id) {
-          currentWorkspace = workspaces.find(w => w.workspace_id === metadata.current_workspace_id) || null;
-          if (currentWorkspace) {
-            console.log('[OAUTH] Found current workspace by ID:', currentWorkspace.workspace_name);
-          }
-        }
+        const removed = pruneTaskDocument(doc, ageDays, policy);
+        if (removed.images === 0 && removed.activityLogs === 0) continue;
         
-        // Fallback to general workspace or first one
-        if (!currentWorkspace) {
-          currentWorkspace = workspaces.find(w => w.workspace_is_general) || null;
-          if (currentWorkspace) {
-            console.log('[OAUTH] Using general workspace:', currentWorkspace.workspace_name);
-          }
-        }
-        if (!currentWorkspace && workspaces.length > 0) {
-          currentWorkspace = workspaces[0];
-          console.log('[OAUTH] Using first workspace:', currentWorkspace.workspace_name);
+        writeTaskDocument(taskFile.filePath, doc);
+        // Backups and corrupt copies still hold the expired data
+        if (!trackingDb) {
+          const dir = path.dirname(taskFile.filePath);
+          const base = path.basename(taskFile.filePath);
+          fs.readdirSync(dir)
+            .filter(name => name === `${base}.bak` || name.startsWith(`${base}.corrupt-`))
+            .forEach(name => fs.unlinkSync(path.join(dir, name)));
         }
         
-        // Update cached workspace ID for file paths
-        if (currentWorkspace && currentWorkspace.workspace_id) {
-          const newWorkspaceId = String(currentWorkspace.workspace_id);
-          if (currentWorkspaceId !== newWorkspaceId) {
-            currentWorkspaceId = newWorkspaceId;
-            console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
-          }
-        }
-      } catch (e) {
-        console.error('[OAUTH] Error parsing user data:', e);
-        console.error('[OAUTH] User data string:', userDataStr.substring(0, 200));
+        result.pruned++;
+        result.removedImages += removed.images;
+        result.removedActivityLogs += removed.activityLogs;
+      } catch (error) {
+        console.error(`[PRUNE] Error pruning ${taskFile.filePath}:`, error.message);
       }
     }
     
-    // Check if token is expired
-    const isExpired = expires_at && Date.now() >= expires_at;
+    // Give the freed pages back to the filesystem
+    if (trackingDb && result.pruned > 0) {
+      try {
+        trackingDb.exec('VACUUM');
+      } catch (error) {
+        console.warn('[PRUNE] VACUUM failed:', error.message);
+      }
+    }
     
-    return {
-      authenticated: !isExpired,
-      user,
-      workspaces,
-      currentWorkspace,
-      expires_at,
-    };
-  } catch (error) {
-    return { authenticated: false, error: error.message };
+    store.set('lastPruneResult', result);
+    console.log(`[PRUNE] 🧹 Pruned ${result.pruned}/${result.checked} old task document(s): ${result.removedImages} images, ${result.removedActivityLogs} activity logs removed, ${result.skippedUnsynced} waiting for sync`);
+    return result;
+  } finally {
+    pruneRunning = false;
   }
-}
+};
 
-// Initialize workspace ID on app startup
-const initializeWorkspaceId = async () => {
+const startDataPruner = () => {
+  const run = () => {
+    pruneTrackingData().catch(error => {
+      console.error('[PRUNE] Error pruning tracking data:', error);
+    });
+  };
+  pruneTimer = setTimeout(() => {
+    run();
+    pruneTimer = setInterval(run, PRUNE_INTERVAL_MS);
+  }, PRUNE_STARTUP_DELAY_MS);
+};
+
+const getDirectorySize = (dirPath) => {
+  if (!fs.existsSync(dirPath)) return 0;
+  return fs.readdirSync(dirPath, { withFileTypes: true }).reduce((sum, entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    return sum + (entry.isDirectory() ? getDirectorySize(entryPath) : fs.statSync(entryPath).size);
+  }, 0);
+};
+
+// Local disk usage grouped by workspace (legacy flat files are reported as 'legacy')
+ipcMain.handle('get-disk-usage', async () => {
   try {
-    const keytar = require('keytar');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
+    const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+    const workspaces = {};
     
-    if (userDataStr) {
-      const metadata = JSON.parse(userDataStr);
-      const workspaces = metadata.workspaces || [];
-      let workspace = null;
-      
-      // Get current workspace
-      if (metadata.current_workspace_id) {
-        workspace = workspaces.find(w => 
-          String(w.workspace_id) === String(metadata.current_workspace_id)
-        ) || null;
-      }
-      
-      // Fallback to general workspace or first one
-      if (!workspace) {
-        workspace = workspaces.find(w => w.workspace_is_general) || null;
-      }
-      if (!workspace && workspaces.length > 0) {
-        workspace = workspaces[0];
-      }
+    for (const taskFile of findAllTaskFiles(trackingDataPath)) {
+      const workspaceId = taskFile.workspaceId || 'legacy';
+      const usage = workspaces[workspaceId] || { workspaceId, bytes: 0, taskFiles: 0, days: new Set() };
       
-      if (workspace && workspace.workspace_id) {
-        currentWorkspaceId = String(workspace.workspace_id);
-        console.log(`[INIT] Initialized workspace ID: ${currentWorkspaceId}`);
+      if (trackingDb) {
+        const doc = readTaskDocument(taskFile.filePath);
+        usage.bytes += doc ? Buffer.byteLength(JSON.stringify(doc)) : 0;
+      } else {
+        const dir = path.dirname(taskFile.filePath);
+        const base = path.basename(taskFile.filePath);
+        // Count the file plus its .bak / corrupt copies
+        fs.readdirSync(dir)
+          .filter(name => name === base || name.startsWith(`${base}.`))
+          .forEach(name => {
+            usage.bytes += fs.statSync(path.join(dir, name)).size;
+          });
       }
+      usage.taskFiles++;
+      if (taskFile.date) usage.days.add(taskFile.date);
+      workspaces[workspaceId] = usage;
     }
+    
+    const databasePath = getTrackingDbPath();
+    const databaseBytes = ['', '-wal', '-shm'].reduce((sum, suffix) => {
+      return sum + (fs.existsSync(databasePath + suffix) ? fs.statSync(databasePath + suffix).size : 0);
+    }, 0);
+    const outboxBytes = getDirectorySize(getOutboxDir());
+    const store = await initStore();
+    
+    return {
+      success: true,
+      storage: trackingDb ? 'sqlite' : 'json',
+      workspaces: Object.values(workspaces).map(usage => ({ ...usage, days: usage.days.size })),
+      databaseBytes,
+      outboxBytes,
+      totalBytes: (trackingDb ? databaseBytes : Object.values(workspaces).reduce((sum, u) => sum + u.bytes, 0)) + outboxBytes,
+      lastPrune: store.get('lastPruneResult', null)
+    };
   } catch (error) {
-    console.error('[INIT] Error initializing workspace ID:', error);
+    console.error('[DISK-USAGE] Error computing disk usage:', error);
+    return { success: false, error: error.message };
   }
-};
+});
 
-// Check OAuth authentication status
-ipcMain.handle('oauth-check-status', async () => {
+// The renderer syncs through the tracking file upload (apiService.uploadTrackingFile): it asks
+// for the next delta here, uploads it and reports the server's answer back, which moves the
+// cursor. The delta handed out last is kept per task, so only that one can be acknowledged.
+const pendingSyncDeltas = new Map(); // cursorKey -> { syncId, cursor, delta, revision }
+
+ipcMain.handle('get-task-sync-delta', async (event, projectId, taskId) => {
   try {
-    const keytar = require('keytar');
-    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-    
-    if (!accessToken) {
-      return { authenticated: false };
+    const taskData = loadTaskTrackingDataFromFile(projectId, taskId);
+    if (!taskData?.metadata) {
+      return { success: false, error: 'Task data not found' };
     }
     
-    let user = null;
-    let workspaces = [];
-    let currentWorkspace = null;
-    let expires_at = null;
-    
-    if (userDataStr) {
-      try {
-        const metadata = JSON.parse(userDataStr);
-        user = metadata.user;
-        workspaces = metadata.workspaces || [];
-        expires_at = metadata.expires_at;
-        
-        // Get current workspace
-        if (metadata.current_workspace_id) {
-          currentWorkspace = workspaces.find(w => w.workspace_id === metadata.current_workspace_id) || null;
-        }
-        
-        // Fallback to general workspace or first one
-        if (!currentWorkspace) {
-          currentWorkspace = workspaces.find(w => w.workspace_is_general) || null;
-        }
-        if (!currentWorkspace && workspaces.length > 0) {
-          currentWorkspace = workspaces[0];
-        }
-        
-        // Update cached workspace ID for file paths
-        if (currentWorkspace && currentWorkspace.workspace_id) {
-          const newWorkspaceId = String(currentWorkspace.workspace_id);
-          if (currentWorkspaceId !== newWorkspaceId) {
-            currentWorkspaceId = newWorkspaceId;
-            console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
-          }
-        }
-      } catch (e) {
-        console.error('[OAUTH] Error parsing user data:', e);
-        // Ignore parse errors
-      }
+    const store = await initStore();
+    const cursorKey = getSyncCursorKey(getTaskDataPath(projectId, taskId));
+    const cursor = store.get('syncCursors', {})[cursorKey] || { collections: {} };
+    const delta = collectSyncDelta(taskData.trackingData, cursor);
+    if (isSyncUpToDate(delta, cursor, taskData.metadata.lastUpdated)) {
+      pendingSyncDeltas.delete(cursorKey);
+      return { success: true, upToDate: true };
     }
     
-    // Check if token is expired
-    const isExpired = expires_at && Date.now() >= expires_at;
-    
+    const syncId = crypto.randomUUID();
+    pendingSyncDeltas.set(cursorKey, { syncId, cursor, delta, revision: taskData.metadata.lastUpdated });
     return {
-      authenticated: !isExpired,
-      user,
-      workspaces,
-      currentWorkspace,
-      expires_at,
+      success: true,
+      upToDate: false,
+      syncId,
+      since: cursor.collections,
+      version: taskData.version,
+      metadata: taskData.metadata,
+      trackingData: getSyncBatchPayload(taskData.trackingData, delta)
     };
   } catch (error) {
-    return { authenticated: false, error: error.message };
+    console.error('[API-SYNC] Error building sync delta:', error);
+    return { success: false, error: error.message };
   }
 });
 
-// OAuth Logout
-ipcMain.handle('oauth-logout', async () => {
+// ack: the upload response body; queued: the upload went to the offline outbox instead
+ipcMain.handle('acknowledge-task-sync', async (event, projectId, taskId, syncId, ack, queued = false) => {
   try {
-    const keytar = require('keytar');
-    await keytar.deletePassword('tyro-app', 'access_token');
-    await keytar.deletePassword('tyro-app', 'refresh_token');
-    await keytar.deletePassword('tyro-app', 'user_data');
-    return { success: true };
+    const store = await initStore();
+    const cursorKey = getSyncCursorKey(getTaskDataPath(projectId, taskId));
+    const pending = pendingSyncDeltas.get(cursorKey);
+    if (!pending || pending.syncId !== syncId) {
+      // A newer delta was handed out meanwhile - its items are sent again from the cursor
+      return { success: false, error: 'Sync delta is out of date' };
+    }
+    pendingSyncDeltas.delete(cursorKey);
+    
+    const result = acknowledgeSyncDelta(pending.cursor, pending.delta, ack, pending.revision, { confirmRevision: !queued });
+    store.set('syncCursors', { ...store.get('syncCursors', {}), [cursorKey]: result.cursor });
+    if (result.partial) {
+      console.warn(`[API-SYNC] ⚠️ Server accepted part of the batch for task ${taskId} - will resume from cursor`);
+    }
+    return { success: true, sent: result.sent, partial: result.partial, more: result.more };
   } catch (error) {
+    console.error('[API-SYNC] Error acknowledging sync delta:', error);
     return { success: false, error: error.message };
   }
 });
 
-// Force Logout - Clears all authentication data without requiring API call
-ipcMain.handle('oauth-force-logout', async () => {
+ipcMain.handle('prune-tracking-data', async () => {
   try {
-    console.log('[OAUTH] 🔥 Force logout - clearing all authentication data...');
-    const keytar = require('keytar');
-    
-    // Clear all possible keytar entries
-    const keysToDelete = ['access_token', 'refresh_token', 'user_data', 'login_token', 'device_token'];
-    for (const key of keysToDelete) {
-      try {
-        await keytar.deletePassword('tyro-app', key);
-        console.log(`[OAUTH] ✅ Deleted ${key} from keytar`);
-      } catch (e) {
-        // Ignore errors if key doesn't exist
-        console.log(`[OAUTH] ⚠️ Could not delete ${key} (may not exist):`, e.message);
-      }
-    }
-    
-    console.log('[OAUTH] ✅ Force logout complete - all tokens cleared');
-    return { success: true, message: 'All authentication data cleared successfully' };
+    return await pruneTrackingData();
   } catch (error) {
-    console.error('[OAUTH] ❌ Error during force logout:', error);
+    console.error('[PRUNE] Error pruning tracking data:', error);
     return { success: false, error: error.message };
   }
 });
 
-// Set current workspace
-ipcMain.handle('oauth-set-workspace', async (event, workspaceId) => {
-  try {
-    const keytar = require('keytar');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-    
-    if (!userDataStr) {
-      return { success: false, error: 'No user data found' };
-    }
-    
+// Retry helper function with exponential backoff
+const retryWithBackoff = async (fn, maxRetries = 3, initialDelay = 1000) => {
+  let lastError;
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const metadata = JSON.parse(userDataStr);
-      const workspaces = metadata.workspaces || [];
-      
-      // Verify workspace exists (handle both string and number IDs)
-      const workspace = workspaces.find(w => 
-        String(w.workspace_id) === String(workspaceId)
-      );
-      if (!workspace) {
-        return { success: false, error: `Workspace ${workspaceId} not found` };
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (attempt < maxRetries) {
+        const delay = initialDelay * Math.pow(2, attempt - 1); // Exponential backoff: 1s, 2s, 4s
+        console.log(`[RETRY] Attempt ${attempt}/${maxRetries} failed, retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
-      
-      // Update current workspace
-      metadata.current_workspace_id = workspaceId;
-      await keytar.setPassword('tyro-app', 'user_data', JSON.stringify(metadata));
-      
-      // Update cached workspace ID for file paths
-      currentWorkspaceId = String(workspaceId);
-      console.log(`[OAUTH] Updated cached workspace ID to: ${currentWorkspaceId}`);
-      
-      return { success: true };
-    } catch (e) {
-      return { success: false, error: 'Failed to parse user data' };
     }
-  } catch (error) {
-    return { success: false, error: error.message };
   }
-});
+  throw lastError;
+};
 
-// Device logout API call
-// Uses main domain (tyrodesk.com) and Bearer token (login_token from localStorage)
-ipcMain.handle('oauth-device-logout', async (event, bearerTokenFromRenderer = null) => {
+// Read the Bearer token (login_token) from renderer localStorage - same pattern as logout handler
+const getRendererLoginToken = async (logTag = '[AUTH]') => {
+  if (!mainWindow || !mainWindow.webContents) {
+    return null;
+  }
+  try {
+    const token = await mainWindow.webContents.executeJavaScript(`
+      (() => {
+        try {
+          // First try login_token directly from localStorage
+          let token = localStorage.getItem('login_token');
+          if (token) return token;
+          
+          // Fallback: try from auth_full_response
+          const authFullResponse = localStorage.getItem('auth_full_response');
+          if (authFullResponse) {
+            const parsed = JSON.parse(authFullResponse);
+            // Try multiple paths: login_token, data.login_token
+            return parsed.login_token || parsed.data?.login_token || null;
+          }
+          return null;
+        } catch (e) {
+          console.error('Error getting login_token from localStorage:', e);
+          return null;
+        }
+      })()
+    `);
+    
+    if (token) {
+      console.log(`${logTag} ✅ Found Bearer token (login_token) in localStorage`);
+    }
+    return token || null;
+  } catch (e) {
+    console.error(`${logTag} Error getting login_token from renderer:`, e);
+    return null;
+  }
+};
+
+// Uploads one image and resolves its file URL. Passing an array of buffers sends them as one
+// batch and resolves { batchId, fileUrls } instead (URLs in the same order as the buffers).
+const uploadTrackingImage = async (imageBuffer, imageType, projectId, taskId, workspaceId, metadata = null) => {
+  const isBatchUpload = Array.isArray(imageBuffer);
+  const imageBuffers = isBatchUpload ? imageBuffer : [imageBuffer];
+  const totalImageBytes = imageBuffers.reduce((sum, buffer) => sum + buffer.length, 0);
   try {
-    const keytar = require('keytar');
     const store = await initStore();
     const settings = store.get('settings', {});
     
-    // Get Bearer token (login_token) - use the one passed from renderer first
-    // According to user: login_token stored in localStorage is the Bearer token to use
-    let bearerToken = bearerTokenFromRenderer; // First try token passed from renderer
-    if (bearerToken) {
-      console.log('[OAUTH] ✅ Using Bearer token (login_token) from renderer (localStorage)');
+    // Validate API configuration
+    if (!settings.apiEnabled) {
+      const errorMsg = '[IMAGE UPLOAD] ❌ API not enabled in settings!';
+      console.error(errorMsg);
+      console.error('[IMAGE UPLOAD] 📋 Current settings:', {
+        apiEnabled: settings.apiEnabled,
+        apiBaseUrl: settings.apiBaseUrl || 'NOT SET',
+        hasApiKey: !!settings.apiKey
+      });
+      console.error('[IMAGE UPLOAD] 💡 Solution: Enable API in application settings');
+      throw new Error('API not enabled - cannot upload image. Please enable API in settings.');
     }
     
-    // If not passed from renderer, try to get from localStorage via executeJavaScript
-    if (!bearerToken && mainWindow && mainWindow.webContents) {
-      try {
-        bearerToken = await mainWindow.webContents.executeJavaScript(`
-          (() => {
-            try {
-              // First try login_token directly from localStorage
-              let token = localStorage.getItem('login_token');
-              if (token) return token;
-              
-              // Fallback: try from auth_full_response
-              const authFullResponse = localStorage.getItem('auth_full_response');
-              if (authFullResponse) {
-                const parsed = JSON.parse(authFullResponse);
-                // Try multiple paths: login_token, data.login_token
-                return parsed.login_token || parsed.data?.login_token || null;
-              }
-              return null;
-            } catch (e) {
-              console.error('Error getting login_token from localStorage:', e);
-              return null;
-            }
-          })()
-        `);
-        
-        if (bearerToken) {
-          console.log('[OAUTH] ✅ Found Bearer token (login_token) in localStorage via executeJavaScript');
-        }
-      } catch (e) {
-        console.error('[OAUTH] Error getting login_token from renderer:', e);
-      }
+    if (!settings.apiBaseUrl) {
+      const errorMsg = '[IMAGE UPLOAD] ❌ API base URL not configured!';
+      console.error(errorMsg);
+      console.error('[IMAGE UPLOAD] 📋 Current settings:', {
+        apiEnabled: settings.apiEnabled,
+        apiBaseUrl: settings.apiBaseUrl || 'NOT SET',
+        hasApiKey: !!settings.apiKey
+      });
+      console.error('[IMAGE UPLOAD] 💡 Solution: Configure API base URL in application settings');
+      throw new Error('API base URL not configured - cannot upload image. Please set API base URL in settings.');
     }
     
-    // If still not found, try keytar as last resort
-    if (!bearerToken) {
-      try {
-        // Try to get from keytar (might be stored as refresh_token which is JWT login_token)
-        bearerToken = await keytar.getPassword('tyro-app', 'refresh_token');
-        if (bearerToken) {
-          console.log('[OAUTH] Found Bearer token in keytar (refresh_token)');
-        }
-      } catch (e) {
-        console.error('[OAUTH] Error getting token from keytar:', e);
-      }
+    console.log('[IMAGE UPLOAD] 📤 Starting upload...');
+    console.log('[IMAGE UPLOAD] 📋 Configuration:', {
+      apiEnabled: settings.apiEnabled,
+      apiBaseUrl: settings.apiBaseUrl,
+      imageType,
+      projectId,
+      taskId,
+      workspaceId: workspaceId || 'not provided',
+      imageCount: imageBuffers.length,
+      imageSize: `${(totalImageBytes / 1024).toFixed(2)} KB`
+    });
+
+    // Get Bearer token (login_token) from localStorage - same pattern as logout handler
+    const authToken = await getRendererLoginToken('[IMAGE UPLOAD]');
+
+    if (!authToken) {
+      throw new Error('No login_token found in localStorage');
+    }
+    
+    console.log('[IMAGE UPLOAD] ✅ Using Bearer token (login_token) from localStorage');
+
+    // Determine API base URL
+    let apiBaseUrl = settings.apiBaseUrl;
+    const originalApiBaseUrl = apiBaseUrl; // Keep for logging
+    
+    // If in production mode and stored URL is a dev URL, use BASE_URL instead
+    if (!isDev && apiBaseUrl && isDevUrl(apiBaseUrl)) {
+      console.log('[IMAGE UPLOAD] ⚠️ Production mode detected but stored URL is dev URL, using BASE_URL instead');
+      console.log('[IMAGE UPLOAD] Stored URL:', apiBaseUrl);
+      console.log('[IMAGE UPLOAD] Using BASE_URL:', BASE_URL);
+      apiBaseUrl = `${BASE_URL}/api`;
+    }
+    
+    // If no URL set, use BASE_URL as fallback
+    if (!apiBaseUrl) {
+      apiBaseUrl = `${BASE_URL}/api`;
+      console.log('[IMAGE UPLOAD] No API base URL in settings, using BASE_URL:', apiBaseUrl);
+    }
+    
+    // Normalize API base URL using centralized BASE_URL
+    apiBaseUrl = normalizeApiUrl(apiBaseUrl);
+    
+    // Remove version prefix (e.g., /v11, /v12) if present
+    // Documentation says: /api/vue/backend/v1 (NOT /api/v11/vue/backend/v1)
+    // Similar to OAuth endpoint handling - remove version prefix for image upload routes
+    if (apiBaseUrl.match(/\/v\d+$/)) {
+      // Remove version suffix (e.g., /v11) for image upload endpoints
+      const beforeVersion = apiBaseUrl;
+      apiBaseUrl = apiBaseUrl.replace(/\/v\d+$/, '');
+      console.log('[IMAGE UPLOAD] ⚠️  Removed version prefix from apiBaseUrl');
+      console.log('[IMAGE UPLOAD] Before:', beforeVersion);
+      console.log('[IMAGE UPLOAD] After:', apiBaseUrl);
+    }
+    
+    // Also handle case where version is in the middle (e.g., /api/v11/something)
+    // This shouldn't happen, but handle it just in case
+    apiBaseUrl = apiBaseUrl.replace(/\/v\d+\//g, '/');
+    
+    // Ensure baseUrl doesn't have trailing slash
+    if (apiBaseUrl.endsWith('/')) {
+      apiBaseUrl = apiBaseUrl.slice(0, -1);
+    }
+    
+    console.log('[IMAGE UPLOAD] 📋 API Base URL (final):', apiBaseUrl);
+    console.log('[IMAGE UPLOAD] 📋 Environment check:', {
+      isDev: isDev,
+      BASE_URL: BASE_URL,
+      originalApiBaseUrl: originalApiBaseUrl,
+      finalApiBaseUrl: apiBaseUrl
+    });
+
+    // Create FormData equivalent for Node.js
+    const FormData = (await import('form-data')).default;
+    const formData = new FormData();
+    
+    // Determine filename and content type from the encoded bytes (capture profiles pick the format)
+    const imageFormat = detectImageFormat(imageBuffers[0]) || (imageType === 'webcam_photo' ? 'jpeg' : 'png');
+    const extension = imageFormat === 'jpeg' ? 'jpg' : imageFormat;
+    const contentType = IMAGE_MIME_TYPES[imageFormat];
+    const filenameBase = `${imageType}_${Date.now()}`;
+    
+    // Convert buffer to Blob-like object for form-data
+    imageBuffers.forEach((buffer, index) => {
+      formData.append('images[]', buffer, {
+        filename: isBatchUpload ? `${filenameBase}_${index + 1}.${extension}` : `${filenameBase}.${extension}`,
+        contentType: contentType
+      });
+    });
+    
+    if (projectId) {
+      formData.append('project_id', projectId);
+    }
+    if (taskId) {
+      formData.append('task_id', taskId);
+    }
+    if (workspaceId) {
+      formData.append('workspace_id', workspaceId);
+    }
+    if (imageType) {
+      formData.append('type', imageType);
     }
-    
-    if (!bearerToken) {
-      console.error('[OAUTH] ❌ No Bearer token (login_token) found');
-      return { 
-        success: false, 
-        error: 'No authentication token found. Please log in again.' 
-      };
+    if (metadata) {
+      formData.append('metadata', JSON.stringify(metadata));
     }
+
+    // Make API request
+    const axiosModule = await import('axios');
+    const axios = axiosModule.default;
     
-    // Validate token format (Bearer tokens can be JWT or other formats)
-    if (bearerToken.length < 10) {
-      console.error('[OAUTH] Invalid Bearer token format');
-      return { 
-        success: false, 
-        error: 'Invalid authentication token format. Please log in again.' 
-      };
+    // Construct full upload URL - VERIFIED CORRECT ROUTE
+    // Verified route: /api/vue/backend/v1/tracking-images/upload
+    // Handle both cases: baseUrl with/without /api prefix
+    let uploadUrl;
+    if (apiBaseUrl.includes('/api')) {
+      // If baseUrl already has /api, append the endpoint path
+      uploadUrl = `${apiBaseUrl}/vue/backend/v1/tracking-images/upload`;
+    } else {
+      // If baseUrl doesn't have /api, add it before the endpoint path
+      uploadUrl = `${apiBaseUrl}/api/vue/backend/v1/tracking-images/upload`;
     }
     
-    // Use BASE_URL for logout
-    // Extract domain from settings or use BASE_URL
-    let logoutBaseUrl = BASE_URL;
-    if (settings.apiBaseUrl) {
-      try {
-        const url = new URL(settings.apiBaseUrl);
-        const protocol = BASE_URL.split('://')[0];
-        logoutBaseUrl = `${protocol}://${url.hostname}`;
-      } catch (e) {
-        // Use BASE_URL as fallback
-        logoutBaseUrl = BASE_URL;
-      }
-    }
+    // Verify the route matches documentation
+    const expectedRoute = '/api/vue/backend/v1/tracking-images/upload';
+    const actualRoute = uploadUrl.replace(/^https?:\/\/[^\/]+/, ''); // Extract path from full URL
     
-    // Construct logout URL
-    const logoutUrl = `${logoutBaseUrl}/api/V11/auth/device/logout`;
-    console.log('[OAUTH] Calling device logout API:', logoutUrl);
-    console.log('[OAUTH] Using Bearer token (login_token) (first 20 chars):', bearerToken.substring(0, 20) + '...');
+    if (actualRoute !== expectedRoute) {
+      console.error('[IMAGE UPLOAD] ⚠️  ROUTE MISMATCH!');
+      console.error('[IMAGE UPLOAD] Expected:', expectedRoute);
+      console.error('[IMAGE UPLOAD] Actual:', actualRoute);
+      console.error('[IMAGE UPLOAD] Full URL:', uploadUrl);
+      throw new Error(`Route mismatch! Expected ${expectedRoute}, got ${actualRoute}`);
+    }
     
-    const axiosModule = await import('axios');
-    const axios = axiosModule.default;
+    console.log('[IMAGE UPLOAD] ✅ Route verified:', actualRoute);
+    console.log('[IMAGE UPLOAD] 📤 Uploading to:', uploadUrl);
+    console.log('[IMAGE UPLOAD] 📋 Details:', {
+      imageType,
+      images: imageBuffers.length,
+      size: `${(totalImageBytes / 1024).toFixed(2)} KB`,
+      projectId,
+      taskId,
+      workspaceId: workspaceId || 'not provided',
+      hasAuthToken: !!authToken
+    });
     
-    const response = await axios.post(
-      logoutUrl,
-      {}, // Empty body as per documentation
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${bearerToken}`, // Bearer token (login_token from localStorage)
-        },
-        timeout: 30000,
-      }
-    );
+    // Validate token format before making request
+    if (!authToken || typeof authToken !== 'string' || authToken.trim().length === 0) {
+      throw new Error('Invalid authentication token - token is empty or invalid');
+    }
     
-    if (response.status === 200 && response.data?.result === true) {
-      console.log('[OAUTH] ✅ Device logout successful:', response.data.message);
-      return {
-        success: true,
-        message: response.data.message || 'Logged out and device unlinked successfully',
-      };
-    } else {
-      console.warn('[OAUTH] ⚠️ Logout API returned unexpected response:', response.data);
-      return {
-        success: false,
-        error: response.data?.message || 'Logout failed',
-      };
+    // Check if token looks like a JWT (starts with 'eyJ')
+    if (!authToken.startsWith('eyJ')) {
+      console.warn('[IMAGE UPLOAD] ⚠️ Token does not appear to be a valid JWT (should start with "eyJ")');
+      console.warn('[IMAGE UPLOAD] Token preview:', authToken.substring(0, 20) + '...');
     }
-  } catch (error) {
-    console.error('[OAUTH] Error calling device logout API:', error);
     
-    if (error.response) {
-      const status = error.response.status;
-      const data = error.response.data;
+    console.log('[IMAGE UPLOAD] 🔐 Token validation:', {
+      hasToken: !!authToken,
+      tokenLength: authToken.length,
+      tokenPreview: authToken.substring(0, 30) + '...',
+      isJWT: authToken.startsWith('eyJ'),
+      uploadUrl: uploadUrl,
+      isProduction: !isDev
+    });
+    
+    const response = await axios.post(uploadUrl, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        'Authorization': `Bearer ${authToken}`,
+      },
+      timeout: 60000, // 60 seconds for image upload
+    });
+
+    // Handle API response
+    console.log('[IMAGE UPLOAD] 📋 Full API response:', JSON.stringify(response.data, null, 2));
+    console.log('[IMAGE UPLOAD] 📋 Response status:', response.status);
+    console.log('[IMAGE UPLOAD] 📋 Response structure check:', {
+      hasResult: !!response.data?.result,
+      resultValue: response.data?.result,
+      hasImages: !!response.data?.images,
+      imagesLength: response.data?.images?.length || 0,
+    });
+    
+    if (isBatchUpload && response.data?.result === true && response.data.images && response.data.images.length > 0) {
+      const batchId = response.data.batch_id || response.data.images[0].batch_id || null;
+      const getFileUrls = (images) => images.map(img => img.file_url || img.fileUrl || img.url || img.path || null);
+      const isBatchComplete = (fileUrls) => fileUrls.length >= imageBuffers.length && fileUrls.every(Boolean);
       
-      // Handle error responses according to documentation
-      if (status === 401) {
-        return {
-          success: false,
-          error: data?.message || 'Unauthorized - JWT token may be invalid or expired',
-        };
+      let fileUrls = getFileUrls(response.data.images);
+      if (isBatchComplete(fileUrls)) {
+        console.log(`[IMAGE UPLOAD] ✅ Batch of ${fileUrls.length} image(s) uploaded successfully! Batch ID:`, batchId);
+        return { batchId, fileUrls };
+      }
+      if (!batchId) {
+        throw new Error('Batch upload returned no batch ID and not all file URLs');
       }
       
-      if (status === 500) {
-        return {
-          success: false,
-          error: data?.message || data?.error || 'Failed to logout - server error',
-        };
+      console.log('[IMAGE UPLOAD] ⏳ Batch queued for processing, polling batch endpoint...');
+      const maxPollAttempts = 10;
+      const pollDelay = 2000;
+      const batchUrl = apiBaseUrl.includes('/api')
+        ? `${apiBaseUrl}/vue/backend/v1/tracking-images/batch/${batchId}`
+        : `${apiBaseUrl}/api/vue/backend/v1/tracking-images/batch/${batchId}`;
+      
+      for (let attempt = 1; attempt <= maxPollAttempts; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, pollDelay));
+        try {
+          const batchResponse = await axios.get(batchUrl, {
+            headers: {
+              'Authorization': `Bearer ${authToken}`,
+            },
+            timeout: 10000,
+          });
+          if (batchResponse.data?.result === true && Array.isArray(batchResponse.data.images)) {
+            fileUrls = getFileUrls(batchResponse.data.images);
+            if (isBatchComplete(fileUrls)) {
+              console.log(`[IMAGE UPLOAD] ✅ Batch processing completed (${fileUrls.length} image(s))`);
+              return { batchId, fileUrls };
+            }
+          }
+          console.log(`[IMAGE UPLOAD] ⏳ Batch still processing (attempt ${attempt}/${maxPollAttempts}), waiting...`);
+        } catch (pollError) {
+          console.warn(`[IMAGE UPLOAD] ⚠️ Poll attempt ${attempt} failed:`, pollError.message);
+        }
       }
       
-      return {
-        success: false,
-        error: data?.message || `Logout failed (${status})`,
-      };
-    }
-    
-    return {
-      success: false,
-      error: error.message || 'Failed to call logout API',
-    };
-  }
-});
-
-// Get OAuth access token (for API service in renderer)
-ipcMain.handle('oauth-get-access-token', async () => {
-  try {
-    const keytar = require('keytar');
-    const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-    
-    if (!accessToken) {
-      return { token: null };
-    }
-    
-    // Check if expired
-    let isExpired = false;
-    if (userDataStr) {
-      try {
-        const metadata = JSON.parse(userDataStr);
-        if (metadata.expires_at && Date.now() >= metadata.expires_at) {
-          isExpired = true;
+      throw new Error(`Batch processing timeout - batch ID: ${batchId}. Images were queued but processing did not complete within ${maxPollAttempts * pollDelay / 1000} seconds.`);
+    } else if (response.data?.result === true && response.data.images && response.data.images.length > 0) {
+      const uploadedImage = response.data.images[0];
+      console.log('[IMAGE UPLOAD] 📋 Uploaded image object:', JSON.stringify(uploadedImage, null, 2));
+      
+      // Check if image is queued (status: "queued") or completed (status: "completed")
+      const imageStatus = uploadedImage.status || 'unknown';
+      const batchId = response.data.batch_id || uploadedImage.batch_id;
+      
+      // Try to get file URL directly first
+      let fileUrl = uploadedImage.file_url || uploadedImage.fileUrl || uploadedImage.url || uploadedImage.path;
+      
+      if (fileUrl) {
+        // File URL is available immediately
+        console.log('[IMAGE UPLOAD] ✅ Image uploaded successfully!');
+        console.log('[IMAGE UPLOAD] File URL:', fileUrl);
+        console.log('[IMAGE UPLOAD] Image ID:', uploadedImage.id);
+        return fileUrl;
+      } else if (imageStatus === 'queued' && batchId) {
+        // Image is queued - need to poll batch endpoint to get final URL
+        console.log('[IMAGE UPLOAD] ⏳ Image queued for processing, polling batch endpoint...');
+        console.log('[IMAGE UPLOAD] 📋 Batch ID:', batchId);
+        
+        // Poll batch endpoint with retries (max 10 attempts, 2 seconds apart = 20 seconds total)
+        const maxPollAttempts = 10;
+        const pollDelay = 2000; // 2 seconds
+        
+        for (let attempt = 1; attempt <= maxPollAttempts; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, pollDelay));
+          
+          try {
+            console.log(`[IMAGE UPLOAD] 🔄 Polling batch endpoint (attempt ${attempt}/${maxPollAttempts})...`);
+            
+            // Construct batch endpoint URL
+            let batchUrl;
+            if (apiBaseUrl.includes('/api')) {
+              batchUrl = `${apiBaseUrl}/vue/backend/v1/tracking-images/batch/${batchId}`;
+            } else {
+              batchUrl = `${apiBaseUrl}/api/vue/backend/v1/tracking-images/batch/${batchId}`;
+            }
+            
+            const batchResponse = await axios.get(batchUrl, {
+              headers: {
+                'Authorization': `Bearer ${authToken}`,
+              },
+              timeout: 10000,
+            });
+            
+            if (batchResponse.data?.result === true && batchResponse.data.images && batchResponse.data.images.length > 0) {
+              const processedImage = batchResponse.data.images[0];
+              fileUrl = processedImage.file_url || processedImage.fileUrl;
+              
+              if (fileUrl) {
+                console.log('[IMAGE UPLOAD] ✅ Image processing completed!');
+                console.log('[IMAGE UPLOAD] File URL:', fileUrl);
+                return fileUrl;
+              } else {
+                console.log(`[IMAGE UPLOAD] ⏳ Image still processing (no file_url yet), waiting...`);
+              }
+            } else {
+              console.log(`[IMAGE UPLOAD] ⏳ Batch not ready yet, waiting...`);
+            }
+          } catch (pollError) {
+            console.warn(`[IMAGE UPLOAD] ⚠️ Poll attempt ${attempt} failed:`, pollError.message);
+            // Continue to next attempt
+          }
         }
-      } catch (e) {
-        // Ignore parse errors
+        
+        // If we get here, polling failed - throw error
+        throw new Error(`Image processing timeout - batch ID: ${batchId}. Image was queued but processing did not complete within ${maxPollAttempts * pollDelay / 1000} seconds.`);
+      } else {
+        // No file URL and not queued - error
+        console.error('[IMAGE UPLOAD] ❌ File URL is missing in response!');
+        console.error('[IMAGE UPLOAD] 📋 Available fields:', Object.keys(uploadedImage));
+        console.error('[IMAGE UPLOAD] 📋 Image status:', imageStatus);
+        console.error('[IMAGE UPLOAD] 📋 Batch ID:', batchId);
+        throw new Error('File URL not found in API response. Available fields: ' + Object.keys(uploadedImage).join(', ') + ', status: ' + imageStatus);
       }
+    } else {
+      const errorMsg = '[IMAGE UPLOAD] ❌ Unexpected API response format';
+      console.error(errorMsg);
+      console.error('[IMAGE UPLOAD] 📋 Response data:', JSON.stringify(response.data, null, 2));
+      console.error('[IMAGE UPLOAD] 📋 Expected: result=true, images array with at least 1 item');
+      console.error('[IMAGE UPLOAD] 📋 Actual:', {
+        result: response.data?.result,
+        hasImages: !!response.data?.images,
+        imagesLength: response.data?.images?.length || 0,
+      });
+      throw new Error('Unexpected API response format - upload may have failed');
     }
-    
-    return {
-      token: isExpired ? null : accessToken,
-      expired: isExpired,
-    };
   } catch (error) {
-    return { token: null, error: error.message };
+    console.error('[IMAGE UPLOAD] ❌ FAILED to upload image!');
+    console.error('[IMAGE UPLOAD] Error message:', error.message);
+    if (error.response) {
+      console.error('[IMAGE UPLOAD] Response status:', error.response.status);
+      console.error('[IMAGE UPLOAD] Response data:', error.response.data);
+      console.error('[IMAGE UPLOAD] Response headers:', error.response.headers);
+    }
+    if (error.request) {
+      console.error('[IMAGE UPLOAD] Request made but no response received');
+      console.error('[IMAGE UPLOAD] Request config:', error.config);
+    }
+    // Re-throw error to prevent saving base64
+    throw error;
   }
-});
+};
 
-// Get OAuth login token (JWT token with workspace info, for workspace-specific APIs)
-ipcMain.handle('oauth-get-login-token', async () => {
+// ==================== Upload Outbox (offline queue) ====================
+// Every upload that could not reach the server is persisted here and replayed
+// in FIFO order once connectivity returns. The queue survives restarts.
+// Layout: {baseDir}/upload-outbox/queue.json + payloads/{entryId}.bin (binary bodies)
+//
+// Entry shape:
+// {
+//   id, kind: 'tracking-image' | 'tracking-file' | 'status-update' | 'check-in' | 'check-out' | 'manual-time-entry',
+//   createdAt, attempts, nextAttemptAt, lastError,
+//   image?: { imageType, projectId, taskId, workspaceId, metadata? }, // kind === 'tracking-image'
+//   request?: { method, url, body?, fields?, file? },            // everything else
+//   payloadFile?: string,                                        // binary body on disk
+//   target?: { filePath, projectId, taskId, collection, recordId } // record to patch with fileUrl
+// }
+const OUTBOX_OFFLINE_RECHECK_MS = 30000; // Re-check connectivity every 30s while offline
+const OUTBOX_MAX_ATTEMPTS = 50; // Give up on an entry after this many failures
+const OUTBOX_MAX_FAILED_ENTRIES = 100; // Keep only the most recent permanent failures
+
+let outboxQueue = null; // Array<OutboxEntry> (lazy-loaded from disk)
+let outboxFailed = []; // Entries rejected permanently (kept for diagnostics)
+let outboxProcessing = false;
+let outboxTimer = null;
+let outboxLastError = null;
+
+const getOutboxDir = () => path.join(getBaseDataDirectory(), 'upload-outbox');
+const getOutboxQueuePath = () => path.join(getOutboxDir(), 'queue.json');
+const getOutboxPayloadPath = (entryId) => path.join(getOutboxDir(), 'payloads', `${entryId}.bin`);
+
+const loadOutbox = () => {
+  if (outboxQueue) return outboxQueue;
+  outboxQueue = [];
   try {
-    const keytar = require('keytar');
-    // login_token (JWT) is stored as refresh_token
-    const loginToken = await keytar.getPassword('tyro-app', 'refresh_token');
-    const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-    
-    // Validate that we have a JWT token (starts with 'eyJ' and has 3 segments)
-    let validJWT = false;
-    if (loginToken) {
-      const parts = loginToken.split('.');
-      validJWT = loginToken.startsWith('eyJ') && parts.length === 3;
-      if (!validJWT) {
-        console.warn('[OAUTH] refresh_token is not a valid JWT, checking access_token');
-      }
-    }
-    
-    // If refresh_token is not a valid JWT, try access_token
-    let tokenToUse = loginToken;
-    if (!validJWT) {
-      const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-      if (accessToken) {
-        const parts = accessToken.split('.');
-        const isJWT = accessToken.startsWith('eyJ') && parts.length === 3;
-        if (isJWT) {
-          tokenToUse = accessToken;
-          console.log('[OAUTH] Using access_token as JWT login_token');
-        } else {
-          console.warn('[OAUTH] Neither token is a valid JWT. access_token:', accessToken?.substring(0, 20) + '...');
-        }
-      }
-    } else {
-      console.log('[OAUTH] Using refresh_token as JWT login_token');
-    }
-    
-    if (!tokenToUse) {
-      return { token: null, error: 'No token found' };
-    }
-    
-    // Check if expired
-    let isExpired = false;
-    if (userDataStr) {
-      try {
-        const metadata = JSON.parse(userDataStr);
-        if (metadata.expires_at && Date.now() >= metadata.expires_at) {
-          isExpired = true;
-        }
-      } catch (e) {
-        // Ignore parse errors
-      }
+    const queuePath = getOutboxQueuePath();
+    if (fs.existsSync(queuePath)) {
+      const saved = JSON.parse(fs.readFileSync(queuePath, 'utf8'));
+      outboxQueue = Array.isArray(saved.queue) ? saved.queue : [];
+      outboxFailed = Array.isArray(saved.failed) ? saved.failed : [];
+      console.log(`[OUTBOX] 📂 Loaded ${outboxQueue.length} pending upload(s) from disk`);
     }
-    
-    return {
-      token: isExpired ? null : tokenToUse,
-      expired: isExpired,
-    };
   } catch (error) {
-    return { token: null, error: error.message };
+    console.error('[OUTBOX] ❌ Failed to load outbox, starting empty:', error.message);
+    outboxQueue = [];
+    outboxFailed = [];
   }
-});
+  return outboxQueue;
+};
 
-// Sync single task tracking data to API
-ipcMain.handle('sync-task-tracking', async (event, projectId, taskId) => {
+// Write to a temp file then rename so a crash mid-write never truncates the queue
+const persistOutbox = () => {
   try {
-    const store = await initStore();
-    const settings = store.get('settings', {});
-    
-    if (!settings.apiEnabled || !settings.apiBaseUrl) {
-      return { success: false, error: 'API not enabled' };
-    }
+    const dir = getOutboxDir();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const queuePath = getOutboxQueuePath();
+    const tempPath = `${queuePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: '1.0.0', queue: outboxQueue || [], failed: outboxFailed }, null, 2));
+    fs.renameSync(tempPath, queuePath);
+  } catch (error) {
+    console.error('[OUTBOX] ❌ Failed to persist outbox:', error.message);
+  }
+};
 
-    // Load task tracking data
-    const taskData = loadTaskTrackingDataFromFile(projectId, taskId);
-    if (!taskData) {
-      return { success: false, error: 'Task data not found' };
+const removeOutboxPayload = (entry) => {
+  if (!entry.payloadFile) return;
+  try {
+    if (fs.existsSync(entry.payloadFile)) {
+      fs.unlinkSync(entry.payloadFile);
     }
+  } catch (error) {
+    console.warn('[OUTBOX] ⚠️ Could not remove payload file:', error.message);
+  }
+};
 
-    // Dynamic import of axios
-    const axiosModule = await import('axios');
-    const axios = axiosModule.default;
-    
-    // Prepare data for API
-    const apiData = {
-      taskId: taskData.metadata.taskId,
-      projectId: taskData.metadata.projectId,
-      taskName: taskData.metadata.taskName,
-      projectName: taskData.metadata.projectName,
-      metadata: taskData.metadata,
-      trackingData: taskData.trackingData,
-    };
-
-    // Get OAuth token or fallback to API key
-    let authHeader = {};
-    try {
-      const keytar = require('keytar');
-      const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-      if (accessToken) {
-        // Check if expired
-        const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-        let isExpired = false;
-        if (userDataStr) {
-          try {
-            const metadata = JSON.parse(userDataStr);
-            if (metadata.expires_at && Date.now() >= metadata.expires_at) {
-              isExpired = true;
-            }
-          } catch (e) {
-            // Ignore parse errors
-          }
-        }
-        if (!isExpired) {
-          authHeader = { Authorization: `Bearer ${accessToken}` };
-        } else if (settings.apiKey) {
-          authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-        }
-      } else if (settings.apiKey) {
-        authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-      }
-    } catch (e) {
-      // Fallback to API key if keytar fails
-      if (settings.apiKey) {
-        authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-      }
-    }
-    
-    // Send to API
-    const response = await axios.post(
-      `${settings.apiBaseUrl}/tracking/tasks/${projectId}/${taskId}`,
-      apiData,
-      {
-        timeout: 30000,
-        headers: {
-          'Content-Type': 'application/json',
-          ...authHeader,
-        },
-      }
-    );
+const getOutboxStatus = () => {
+  const queue = loadOutbox();
+  const byKind = {};
+  queue.forEach(entry => {
+    byKind[entry.kind] = (byKind[entry.kind] || 0) + 1;
+  });
+  return {
+    depth: queue.length,
+    failed: outboxFailed.length,
+    byKind,
+    oldestCreatedAt: queue.length > 0 ? queue[0].createdAt : null,
+    nextAttemptAt: queue.length > 0 ? queue[0].nextAttemptAt : null,
+    lastError: outboxLastError,
+    isOnline: net.isOnline(),
+    isReplaying: outboxProcessing
+  };
+};
 
-    return { success: true };
-  } catch (error) {
-    console.error('[API-SYNC] Error syncing task:', error);
-    return { 
-      success: false, 
-      error: error.response?.data?.message || error.message || 'Sync failed' 
-    };
+const notifyOutboxStatus = () => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('outbox-status-update', getOutboxStatus());
   }
-});
+};
 
-// Sync all tasks to API
-ipcMain.handle('sync-all-tasks', async () => {
-  try {
-    const store = await initStore();
-    const settings = store.get('settings', {});
-    
-    if (!settings.apiEnabled || !settings.apiBaseUrl) {
-      return { success: false, error: 'API not enabled', synced: 0, errors: 0 };
-    }
+// True when new uploads should go straight to the outbox to preserve ordering
+const isOutboxBacklogged = () => loadOutbox().length > 0 || !net.isOnline();
 
-    // Get all today's tasks - need to call the function directly
-    const baseDir = getBaseDataDirectory();
-    const trackingDataPath = path.join(baseDir, 'tracking-data');
-    
-    if (!fs.existsSync(trackingDataPath)) {
-      return { success: true, synced: 0, errors: 0 };
-    }
+// Where queued requests may go: the built-in server and the API URL from settings
+const getOutboxAllowedBases = async () => {
+  const s = await initStore();
+  const apiBaseUrl = s.get('settings', {})?.apiBaseUrl;
+  return apiBaseUrl ? [BASE_URL, normalizeApiUrl(apiBaseUrl)] : [BASE_URL];
+};
 
-    // Find all task files
-    const taskFiles = findAllTaskFiles(trackingDataPath);
-    
-    if (taskFiles.length === 0) {
-      return { success: true, synced: 0, errors: 0 };
-    }
+const scheduleOutboxProcessing = (delayMs) => {
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+  }
+  outboxTimer = setTimeout(() => {
+    outboxTimer = null;
+    processOutbox();
+  }, Math.max(0, delayMs));
+};
 
-    // Dynamic import of axios
-    const axiosModule = await import('axios');
-    const axios = axiosModule.default;
+const enqueueOutboxEntry = (entry, payloadBuffer = null) => {
+  const queue = loadOutbox();
+  const id = entry.id || generateUUID();
+  const outboxEntry = {
+    ...entry,
+    id,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null
+  };
+  
+  if (payloadBuffer) {
+    const payloadPath = getOutboxPayloadPath(id);
+    fs.mkdirSync(path.dirname(payloadPath), { recursive: true });
+    fs.writeFileSync(payloadPath, sealBuffer(payloadBuffer));
+    outboxEntry.payloadFile = payloadPath;
+  }
+  
+  queue.push(outboxEntry);
+  persistOutbox();
+  console.log(`[OUTBOX] 📥 Queued ${outboxEntry.kind} upload (${id}), queue depth: ${queue.length}`);
+  notifyOutboxStatus();
+  
+  // Only kick the queue if nothing is waiting on a backoff timer
+  if (!outboxTimer && !outboxProcessing) {
+    scheduleOutboxProcessing(0);
+  }
+  return outboxEntry;
+};
 
-    let synced = 0;
-    let errors = 0;
+// Run mutate(trackingData) on the task held in memory, falling back to the task file the
+// record was saved to. mutate returns true when it found (and changed) what it was after.
+const updateTaskTrackingData = (target, mutate) => {
+  const { filePath, projectId, taskId } = target || {};
+  const taskKey = getTaskKey(projectId, taskId);
+  const taskData = taskKey ? perTaskTracking.get(taskKey) : null;
+  if (taskData && mutate(taskData)) {
+    scheduleTaskSave(projectId, taskId, null, null, true);
+    return true;
+  }
+  
+  const fileData = filePath ? readTaskDocument(filePath) : null;
+  if (fileData?.trackingData && mutate(fileData.trackingData)) {
+    fileData.metadata.lastUpdated = new Date().toISOString();
+    writeTaskDocument(filePath, fileData);
+    return true;
+  }
+  return false;
+};
 
-    // Sync each task
-    for (const taskFile of taskFiles) {
-      try {
-        const taskData = loadTaskTrackingDataFromFile(taskFile.projectId, taskFile.taskId);
-        if (!taskData) {
-          errors++;
-          continue;
-        }
+// Patch the saved screenshot/webcam record once its queued upload finally succeeds
+const applyOutboxImageResult = (entry, fileUrl) => {
+  const { collection, recordId } = entry.target || {};
+  if (!collection || !recordId) return;
+  
+  try {
+    updateTaskTrackingData(entry.target, (trackingData) => {
+      const record = trackingData[collection]?.find(r => r.id === recordId);
+      if (!record) return false;
+      record.fileUrl = fileUrl;
+      delete record.uploadPending;
+      delete record.outboxId;
+      // Resend it even if the delta sync cursor already passed it
+      touchSyncItems([record]);
+      return true;
+    });
+  } catch (error) {
+    console.error('[OUTBOX] ❌ Failed to patch task file with uploaded fileUrl:', error.message);
+  }
+};
 
-        const apiData = {
-          taskId: taskData.metadata.taskId,
-          projectId: taskData.metadata.projectId,
-          taskName: taskData.metadata.taskName,
-          projectName: taskData.metadata.projectName,
-          metadata: taskData.metadata,
-          trackingData: taskData.trackingData,
-        };
+const sendOutboxRequest = async (entry) => {
+  const { method = 'POST', url, body, fields, file } = entry.request || {};
+  if (!url) {
+    throw new Error('Outbox entry has no request URL');
+  }
+  // Entries queued before the URL check existed are checked again here
+  if (!isAllowedOutboxUrl(url, await getOutboxAllowedBases())) {
+    const error = new Error(`Refusing to send the login token to ${url}`);
+    error.permanent = true;
+    throw error;
+  }
+  
+  const authToken = await getRendererLoginToken('[OUTBOX]');
+  if (!authToken) {
+    throw new Error('No login_token found in localStorage');
+  }
+  
+  const axios = (await import('axios')).default;
+  const headers = {
+    'Accept': 'application/json',
+    'Authorization': `Bearer ${authToken}`,
+  };
+  
+  let data = body;
+  if (file) {
+    const FormData = (await import('form-data')).default;
+    const formData = new FormData();
+    Object.entries(fields || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        formData.append(key, String(value));
+      }
+    });
+    formData.append(file.field || 'file', openBuffer(fs.readFileSync(entry.payloadFile)), {
+      filename: file.filename,
+      contentType: file.contentType
+    });
+    data = formData;
+    Object.assign(headers, formData.getHeaders());
+  } else {
+    headers['Content-Type'] = 'application/json';
+  }
+  
+  const response = await axios.request({ method, url, data, headers, timeout: 60000 });
+  if (response.data?.result === false) {
+    const error = new Error(response.data?.message || 'Request rejected by server');
+    error.permanent = true;
+    throw error;
+  }
+  return response.data;
+};
 
-        // Get OAuth token or fallback to API key
-        let authHeader = {};
-        try {
-          const keytar = require('keytar');
-          const accessToken = await keytar.getPassword('tyro-app', 'access_token');
-          if (accessToken) {
-            // Check if expired
-            const userDataStr = await keytar.getPassword('tyro-app', 'user_data');
-            let isExpired = false;
-            if (userDataStr) {
-              try {
-                const metadata = JSON.parse(userDataStr);
-                if (metadata.expires_at && Date.now() >= metadata.expires_at) {
-                  isExpired = true;
-                }
-              } catch (e) {
-                // Ignore parse errors
-              }
-            }
-            if (!isExpired) {
-              authHeader = { Authorization: `Bearer ${accessToken}` };
-            } else if (settings.apiKey) {
-              authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-            }
-          } else if (settings.apiKey) {
-            authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-          }
-        } catch (e) {
-          // Fallback to API key if keytar fails
-          if (settings.apiKey) {
-            authHeader = { Authorization: `Bearer ${settings.apiKey}` };
-          }
-        }
-        
-        await axios.post(
-          `${settings.apiBaseUrl}/tracking/tasks/${taskFile.projectId}/${taskFile.taskId}`,
-          apiData,
-          {
-            timeout: 30000,
-            headers: {
-              'Content-Type': 'application/json',
-              ...authHeader,
-            },
-          }
-        );
+const processOutboxEntry = async (entry) => {
+  if (entry.payloadFile && !fs.existsSync(entry.payloadFile)) {
+    const error = new Error(`Payload file missing: ${entry.payloadFile}`);
+    error.permanent = true;
+    throw error;
+  }
+  
+  if (entry.kind === 'tracking-image') {
+    const { imageType, projectId, taskId, workspaceId, metadata } = entry.image || {};
+    const fileUrl = await uploadTrackingImage(openBuffer(fs.readFileSync(entry.payloadFile)), imageType, projectId, taskId, workspaceId, metadata || null);
+    if (!fileUrl) {
+      throw new Error('Upload returned null - no file URL received');
+    }
+    applyOutboxImageResult(entry, fileUrl);
+    return;
+  }
+  await sendOutboxRequest(entry);
+};
 
-        synced++;
-      } catch (error) {
-        console.error(`[API-SYNC] Error syncing task ${taskFile.taskId}:`, error);
-        errors++;
+// Replay queued uploads strictly in order; stop at the first retryable failure
+const processOutbox = async () => {
+  if (outboxProcessing) return;
+  const queue = loadOutbox();
+  if (queue.length === 0) return;
+  
+  if (!net.isOnline()) {
+    console.log(`[OUTBOX] 📴 Offline, ${queue.length} upload(s) waiting`);
+    scheduleOutboxProcessing(OUTBOX_OFFLINE_RECHECK_MS);
+    return;
+  }
+  
+  outboxProcessing = true;
+  notifyOutboxStatus();
+  try {
+    await replayOutboxQueue(queue, {
+      deliver: processOutboxEntry,
+      maxAttempts: OUTBOX_MAX_ATTEMPTS,
+      onWait: (entry, waitMs) => scheduleOutboxProcessing(waitMs),
+      onDelivered: (entry) => {
+        removeOutboxPayload(entry);
+        outboxLastError = null;
+        persistOutbox();
+        console.log(`[OUTBOX] ✅ Replayed ${entry.kind} upload (${entry.id}), ${queue.length} remaining`);
+      },
+      onDropped: (entry, error) => {
+        outboxLastError = error.message;
+        console.error(`[OUTBOX] ❌ Dropping ${entry.kind} upload (${entry.id}) after ${entry.attempts} attempt(s):`, error.message);
+        removeOutboxPayload(entry);
+        outboxFailed.push({ ...entry, payloadFile: undefined, failedAt: Date.now() });
+        outboxFailed = outboxFailed.slice(-OUTBOX_MAX_FAILED_ENTRIES);
+        persistOutbox();
+      },
+      onRetry: (entry, error, delay) => {
+        outboxLastError = error.message;
+        persistOutbox();
+        console.warn(`[OUTBOX] ⚠️ ${entry.kind} upload failed (attempt ${entry.attempts}), retrying in ${Math.round(delay / 1000)}s:`, error.message);
+        scheduleOutboxProcessing(delay);
       }
+    });
+  } finally {
+    outboxProcessing = false;
+    notifyOutboxStatus();
+  }
+};
+
+// Queue an image whose immediate upload failed; the task record is patched on success
+const enqueueTrackingImageUpload = (imageBuffer, imageType, projectId, taskId, workspaceId, target, metadata = null) => {
+  const taskKey = getTaskKey(projectId, taskId);
+  return enqueueOutboxEntry({
+    kind: 'tracking-image',
+    image: { imageType, projectId, taskId, workspaceId, ...(metadata ? { metadata } : {}) },
+    target: {
+      ...target,
+      projectId,
+      taskId,
+      filePath: target.filePath || taskFilePaths.get(taskKey) || getTaskDataPath(projectId, taskId)
     }
+  }, imageBuffer);
+};
+
+const startUploadOutbox = () => {
+  const queue = loadOutbox();
+  // Entries waiting on a backoff from the previous run can go right away
+  queue.forEach(entry => {
+    entry.nextAttemptAt = Math.min(entry.nextAttemptAt || 0, Date.now());
+  });
+  powerMonitor.on('resume', () => {
+    console.log('[OUTBOX] 💤 System resumed, retrying queued uploads');
+    scheduleOutboxProcessing(0);
+  });
+  if (queue.length > 0) {
+    scheduleOutboxProcessing(0);
+  }
+};
 
-    return { success: true, synced, errors };
+// Renderer-originated uploads (tracking files, status updates, check-in/out)
+ipcMain.handle('enqueue-outbox-request', async (event, request) => {
+  try {
+    if (!request || !request.kind || !request.url) {
+      return { success: false, error: 'kind and url are required' };
+    }
+    const { kind, method, url, body, fields, file } = request;
+    if (!isAllowedOutboxUrl(url, await getOutboxAllowedBases())) {
+      console.warn(`[OUTBOX] 🚫 Rejected ${kind} request to ${url} - not the API server`);
+      return { success: false, error: 'URL is not on the configured API server' };
+    }
+    const entry = enqueueOutboxEntry({
+      kind,
+      request: {
+        method: method || 'POST',
+        url,
+        body,
+        fields,
+        file: file ? { field: file.field, filename: file.filename, contentType: file.contentType } : undefined
+      }
+    }, file?.data ? Buffer.from(file.data) : null);
+    return { success: true, id: entry.id, depth: loadOutbox().length };
   } catch (error) {
-    console.error('[API-SYNC] Error syncing all tasks:', error);
-    return { 
-      success: false, 
-      error: error.message || 'Sync failed',
-      synced: 0,
-      errors: 0
-    };
+    console.error('[OUTBOX] ❌ Failed to queue request:', error);
+    return { success: false, error: error.message };
   }
 });
 
-// Retry helper function with exponential backoff
-const retryWithBackoff = async (fn, maxRetries = 3, initialDelay = 1000) => {
-  let lastError;
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-      if (attempt < maxRetries) {
-        const delay = initialDelay * Math.pow(2, attempt - 1); // Exponential backoff: 1s, 2s, 4s
-        console.log(`[RETRY] Attempt ${attempt}/${maxRetries} failed, retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+ipcMain.handle('get-outbox-status', async () => {
+  return { success: true, ...getOutboxStatus() };
+});
+
+ipcMain.handle('flush-outbox', async () => {
+  const queue = loadOutbox();
+  queue.forEach(entry => {
+    entry.nextAttemptAt = Date.now();
+  });
+  persistOutbox();
+  scheduleOutboxProcessing(0);
+  return { success: true, depth: queue.length };
+});
+
+// ==================== Review Before Upload ====================
+// With settings.reviewBeforeUpload on, screenshots wait in a local pending area for
+// reviewGraceMinutes before they are handed to the upload outbox. From the review screen
+// the user can keep a capture (upload it now) or delete it. A deleted capture never leaves
+// the machine: its records are dropped and its activity log is marked screenshotRemovedByUser,
+// with time deducted according to settings.reviewDeletionPolicy:
+//   'deduct-interval' - the screenshot interval the capture stood for is deducted (the default)
+//   'keep-time'       - the removal is recorded, tracked time is left alone
+// Layout: {baseDir}/pending-review/queue.json + images/{recordId}.bin (sealed like outbox payloads)
+//
+// Entry shape:
+// {
+//   id (captureId), projectId, taskId, workspaceId, filePath, activityLogId,
+//   capturedAt, releaseAt,
+//   images: [{ recordId, payloadFile, metadata, display? }]
+// }
+const DEFAULT_REVIEW_GRACE_MINUTES = 10;
+const DEFAULT_REVIEW_DELETION_POLICY = 'deduct-interval';
+const DEFAULT_SCREENSHOT_INTERVAL_MINUTES = 2; // Same default the settings screen shows
+const REVIEW_PREVIEW_WIDTH = 480;
+const REVIEW_RETRY_MS = 5 * 60 * 1000; // Images that couldn't be read (data key locked) are tried again after this
+
+let reviewQueue = null; // Array<PendingCapture> (lazy-loaded from disk)
+let reviewTimer = null;
+
+const getReviewDir = () => path.join(getBaseDataDirectory(), 'pending-review');
+const getReviewQueuePath = () => path.join(getReviewDir(), 'queue.json');
+const getReviewPayloadPath = (recordId) => path.join(getReviewDir(), 'images', `${recordId}.bin`);
+
+const getReviewPolicy = (settings) => ({
+  enabled: !!settings.reviewBeforeUpload,
+  graceMs: Math.max(0, settings.reviewGraceMinutes ?? DEFAULT_REVIEW_GRACE_MINUTES) * 60 * 1000,
+  deletionPolicy: settings.reviewDeletionPolicy || DEFAULT_REVIEW_DELETION_POLICY
+});
+
+// Seconds taken off tracked time by captures the user removed
+const getDeductedSeconds = (activityLogs) => (activityLogs || []).reduce(
+  (sum, log) => sum + (log.screenshotRemovedByUser ? (log.deductedSeconds || 0) : 0),
+  0
+);
+
+const loadReviewQueue = () => {
+  if (reviewQueue) return reviewQueue;
+  reviewQueue = [];
+  try {
+    const queuePath = getReviewQueuePath();
+    if (fs.existsSync(queuePath)) {
+      const saved = JSON.parse(fs.readFileSync(queuePath, 'utf8'));
+      reviewQueue = Array.isArray(saved.queue) ? saved.queue : [];
+      console.log(`[REVIEW] 📂 Loaded ${reviewQueue.length} capture(s) awaiting review`);
     }
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to load pending captures, starting empty:', error.message);
+    reviewQueue = [];
   }
-  throw lastError;
+  return reviewQueue;
 };
 
-const uploadTrackingImage = async (imageBuffer, imageType, projectId, taskId, workspaceId) => {
+// Same temp file + rename as the outbox so a crash never truncates the queue
+const persistReviewQueue = () => {
   try {
-    const store = await initStore();
-    const settings = store.get('settings', {});
-    
-    // Validate API configuration
-    if (!settings.apiEnabled) {
-      const errorMsg = '[IMAGE UPLOAD] ❌ API not enabled in settings!';
-      console.error(errorMsg);
-      console.error('[IMAGE UPLOAD] 📋 Current settings:', {
-        apiEnabled: settings.apiEnabled,
-        apiBaseUrl: settings.apiBaseUrl || 'NOT SET',
-        hasApiKey: !!settings.apiKey
-      });
-      console.error('[IMAGE UPLOAD] 💡 Solution: Enable API in application settings');
-      throw new Error('API not enabled - cannot upload image. Please enable API in settings.');
-    }
-    
-    if (!settings.apiBaseUrl) {
-      const errorMsg = '[IMAGE UPLOAD] ❌ API base URL not configured!';
-      console.error(errorMsg);
-      console.error('[IMAGE UPLOAD] 📋 Current settings:', {
-        apiEnabled: settings.apiEnabled,
-        apiBaseUrl: settings.apiBaseUrl || 'NOT SET',
-        hasApiKey: !!settings.apiKey
-      });
-      console.error('[IMAGE UPLOAD] 💡 Solution: Configure API base URL in application settings');
-      throw new Error('API base URL not configured - cannot upload image. Please set API base URL in settings.');
-    }
-    
-    console.log('[IMAGE UPLOAD] 📤 Starting upload...');
-    console.log('[IMAGE UPLOAD] 📋 Configuration:', {
-      apiEnabled: settings.apiEnabled,
-      apiBaseUrl: settings.apiBaseUrl,
-      imageType,
-      projectId,
-      taskId,
-      workspaceId: workspaceId || 'not provided',
-      imageSize: `${(imageBuffer.length / 1024).toFixed(2)} KB`
-    });
+    const dir = getReviewDir();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const queuePath = getReviewQueuePath();
+    const tempPath = `${queuePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: '1.0.0', queue: reviewQueue || [] }, null, 2));
+    fs.renameSync(tempPath, queuePath);
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to persist pending captures:', error.message);
+  }
+};
 
-    // Get Bearer token (login_token) from localStorage - same pattern as logout handler
-    let authToken = null;
-    if (mainWindow && mainWindow.webContents) {
-      try {
-        authToken = await mainWindow.webContents.executeJavaScript(`
-          (() => {
-            try {
-              // First try login_token directly from localStorage
-              let token = localStorage.getItem('login_token');
-              if (token) return token;
-              
-              // Fallback: try from auth_full_response
-              const authFullResponse = localStorage.getItem('auth_full_response');
-              if (authFullResponse) {
-                const parsed = JSON.parse(authFullResponse);
-                // Try multiple paths: login_token, data.login_token
-                return parsed.login_token || parsed.data?.login_token || null;
-              }
-              return null;
-            } catch (e) {
-              console.error('Error getting login_token from localStorage:', e);
-              return null;
-            }
-          })()
-        `);
-        
-        if (authToken) {
-          console.log('[IMAGE UPLOAD] ✅ Found Bearer token (login_token) in localStorage');
-        }
-      } catch (e) {
-        console.error('[IMAGE UPLOAD] Error getting login_token from renderer:', e);
+const removeReviewPayloads = (entry) => {
+  entry.images.forEach(image => {
+    try {
+      if (fs.existsSync(image.payloadFile)) {
+        fs.unlinkSync(image.payloadFile);
       }
+    } catch (error) {
+      console.warn('[REVIEW] ⚠️ Could not remove pending image:', error.message);
     }
+  });
+};
 
-    if (!authToken) {
-      throw new Error('No login_token found in localStorage');
-    }
-    
-    console.log('[IMAGE UPLOAD] ✅ Using Bearer token (login_token) from localStorage');
+const summarizePendingCapture = (entry) => ({
+  id: entry.id,
+  projectId: entry.projectId,
+  taskId: entry.taskId,
+  activityLogId: entry.activityLogId || null,
+  capturedAt: entry.capturedAt,
+  releaseAt: entry.releaseAt,
+  imageCount: entry.images.length
+});
 
-    // Determine API base URL
-    let apiBaseUrl = settings.apiBaseUrl;
-    const originalApiBaseUrl = apiBaseUrl; // Keep for logging
-    
-    // If in production mode and stored URL is a dev URL, use BASE_URL instead
-    if (!isDev && apiBaseUrl && isDevUrl(apiBaseUrl)) {
-      console.log('[IMAGE UPLOAD] ⚠️ Production mode detected but stored URL is dev URL, using BASE_URL instead');
-      console.log('[IMAGE UPLOAD] Stored URL:', apiBaseUrl);
-      console.log('[IMAGE UPLOAD] Using BASE_URL:', BASE_URL);
-      apiBaseUrl = `${BASE_URL}/api`;
-    }
-    
-    // If no URL set, use BASE_URL as fallback
-    if (!apiBaseUrl) {
-      apiBaseUrl = `${BASE_URL}/api`;
-      console.log('[IMAGE UPLOAD] No API base URL in settings, using BASE_URL:', apiBaseUrl);
-    }
-    
-    // Normalize API base URL using centralized BASE_URL
-    apiBaseUrl = normalizeApiUrl(apiBaseUrl);
-    
-    // Remove version prefix (e.g., /v11, /v12) if present
-    // Documentation says: /api/vue/backend/v1 (NOT /api/v11/vue/backend/v1)
-    // Similar to OAuth endpoint handling - remove version prefix for image upload routes
-    if (apiBaseUrl.match(/\/v\d+$/)) {
-      // Remove version suffix (e.g., /v11) for image upload endpoints
-      const beforeVersion = apiBaseUrl;
-      apiBaseUrl = apiBaseUrl.replace(/\/v\d+$/, '');
-      console.log('[IMAGE UPLOAD] ⚠️  Removed version prefix from apiBaseUrl');
-      console.log('[IMAGE UPLOAD] Before:', beforeVersion);
-      console.log('[IMAGE UPLOAD] After:', apiBaseUrl);
-    }
-    
-    // Also handle case where version is in the middle (e.g., /api/v11/something)
-    // This shouldn't happen, but handle it just in case
-    apiBaseUrl = apiBaseUrl.replace(/\/v\d+\//g, '/');
-    
-    // Ensure baseUrl doesn't have trailing slash
-    if (apiBaseUrl.endsWith('/')) {
-      apiBaseUrl = apiBaseUrl.slice(0, -1);
-    }
-    
-    console.log('[IMAGE UPLOAD] 📋 API Base URL (final):', apiBaseUrl);
-    console.log('[IMAGE UPLOAD] 📋 Environment check:', {
-      isDev: isDev,
-      BASE_URL: BASE_URL,
-      originalApiBaseUrl: originalApiBaseUrl,
-      finalApiBaseUrl: apiBaseUrl
-    });
+const notifyPendingCaptures = () => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('pending-captures-update', loadReviewQueue().map(summarizePendingCapture));
+  }
+};
 
-    // Create FormData equivalent for Node.js
-    const FormData = (await import('form-data')).default;
-    const formData = new FormData();
-    
-    // Determine filename and content type based on image type
-    const isWebcam = imageType === 'webcam_photo';
-    const extension = isWebcam ? 'jpg' : 'png';
-    const contentType = isWebcam ? 'image/jpeg' : 'image/png';
-    const filename = `${imageType}_${Date.now()}.${extension}`;
-    
-    // Convert buffer to Blob-like object for form-data
-    formData.append('images[]', imageBuffer, {
-      filename: filename,
-      contentType: contentType
-    });
-    
-    if (projectId) {
-      formData.append('project_id', projectId);
-    }
-    if (taskId) {
-      formData.append('task_id', taskId);
-    }
-    if (workspaceId) {
-      formData.append('workspace_id', workspaceId);
-    }
-    if (imageType) {
-      formData.append('type', imageType);
-    }
+// Small JPEG for the review grid; WebP can't be decoded by nativeImage so it is shown as stored
+const getPendingImagePreview = (payloadFile) => {
+  const buffer = openBuffer(fs.readFileSync(payloadFile));
+  const image = nativeImage.createFromBuffer(buffer);
+  if (!image.isEmpty()) {
+    const preview = image.getSize().width > REVIEW_PREVIEW_WIDTH ? image.resize({ width: REVIEW_PREVIEW_WIDTH }) : image;
+    return `data:image/jpeg;base64,${preview.toJPEG(70).toString('base64')}`;
+  }
+  return `data:${IMAGE_MIME_TYPES[detectImageFormat(buffer)] || 'image/png'};base64,${buffer.toString('base64')}`;
+};
 
-    // Make API request
-    const axiosModule = await import('axios');
-    const axios = axiosModule.default;
-    
-    // Construct full upload URL - VERIFIED CORRECT ROUTE
-    // Verified route: /api/vue/backend/v1/tracking-images/upload
-    // Handle both cases: baseUrl with/without /api prefix
-    let uploadUrl;
-    if (apiBaseUrl.includes('/api')) {
-      // If baseUrl already has /api, append the endpoint path
-      uploadUrl = `${apiBaseUrl}/vue/backend/v1/tracking-images/upload`;
-    } else {
-      // If baseUrl doesn't have /api, add it before the endpoint path
-      uploadUrl = `${apiBaseUrl}/api/vue/backend/v1/tracking-images/upload`;
-    }
-    
-    // Verify the route matches documentation
-    const expectedRoute = '/api/vue/backend/v1/tracking-images/upload';
-    const actualRoute = uploadUrl.replace(/^https?:\/\/[^\/]+/, ''); // Extract path from full URL
-    
-    if (actualRoute !== expectedRoute) {
-      console.error('[IMAGE UPLOAD] ⚠️  ROUTE MISMATCH!');
-      console.error('[IMAGE UPLOAD] Expected:', expectedRoute);
-      console.error('[IMAGE UPLOAD] Actual:', actualRoute);
-      console.error('[IMAGE UPLOAD] Full URL:', uploadUrl);
-      throw new Error(`Route mismatch! Expected ${expectedRoute}, got ${actualRoute}`);
-    }
-    
-    console.log('[IMAGE UPLOAD] ✅ Route verified:', actualRoute);
-    console.log('[IMAGE UPLOAD] 📤 Uploading to:', uploadUrl);
-    console.log('[IMAGE UPLOAD] 📋 Details:', {
-      imageType,
-      size: `${(imageBuffer.length / 1024).toFixed(2)} KB`,
-      projectId,
-      taskId,
-      workspaceId: workspaceId || 'not provided',
-      hasAuthToken: !!authToken
-    });
-    
-    // Validate token format before making request
-    if (!authToken || typeof authToken !== 'string' || authToken.trim().length === 0) {
-      throw new Error('Invalid authentication token - token is empty or invalid');
+// Hold encoded screenshots locally instead of uploading them. records are the screenshot records
+// the caller is about to save (one per image); they are flagged reviewPending until released.
+const holdCapturesForReview = (records, imageBuffers, metadataList, context) => {
+  const { projectId, taskId, workspaceId, activityLogId, captureId, graceMs } = context;
+  const queue = loadReviewQueue();
+  const capturedAt = Date.now();
+  const entry = {
+    id: captureId,
+    projectId,
+    taskId,
+    workspaceId: workspaceId || null,
+    filePath: taskFilePaths.get(getTaskKey(projectId, taskId)) || getTaskDataPath(projectId, taskId),
+    activityLogId: activityLogId || null,
+    capturedAt,
+    releaseAt: capturedAt + graceMs,
+    images: records.map((record, index) => {
+      const payloadFile = getReviewPayloadPath(record.id);
+      fs.mkdirSync(path.dirname(payloadFile), { recursive: true });
+      fs.writeFileSync(payloadFile, sealBuffer(imageBuffers[index]));
+      return { recordId: record.id, payloadFile, metadata: metadataList[index] || null, display: record.display || undefined };
+    })
+  };
+  
+  records.forEach(record => {
+    record.reviewPending = true;
+    record.reviewReleaseAt = entry.releaseAt;
+    if (activityLogId) {
+      record.activityLogId = activityLogId;
     }
-    
-    // Check if token looks like a JWT (starts with 'eyJ')
-    if (!authToken.startsWith('eyJ')) {
-      console.warn('[IMAGE UPLOAD] ⚠️ Token does not appear to be a valid JWT (should start with "eyJ")');
-      console.warn('[IMAGE UPLOAD] Token preview:', authToken.substring(0, 20) + '...');
+  });
+  
+  queue.push(entry);
+  persistReviewQueue();
+  console.log(`[REVIEW] 🕒 Holding capture ${entry.id} (${entry.images.length} image(s)) until ${new Date(entry.releaseAt).toLocaleTimeString()}`);
+  notifyPendingCaptures();
+  scheduleReviewRelease();
+  return entry;
+};
+
+const takePendingCapture = (captureId) => {
+  const queue = loadReviewQueue();
+  const index = queue.findIndex(entry => entry.id === captureId);
+  return index === -1 ? null : queue.splice(index, 1)[0];
+};
+
+// Kept (or grace window over): hand every image to the outbox, which patches fileUrl on upload.
+// An image that can't be read stays in the queue (still reviewPending) and is tried again later;
+// returns how many images stayed behind.
+const releasePendingCapture = (entry) => {
+  const target = { filePath: entry.filePath, projectId: entry.projectId, taskId: entry.taskId };
+  const queued = new Map();
+  const failed = [];
+  entry.images.forEach(image => {
+    try {
+      const buffer = openBuffer(fs.readFileSync(image.payloadFile));
+      const outboxEntry = enqueueTrackingImageUpload(buffer, 'screenshot', entry.projectId, entry.taskId, entry.workspaceId, {
+        collection: 'screenshots',
+        recordId: image.recordId,
+        filePath: entry.filePath
+      }, image.metadata);
+      queued.set(image.recordId, outboxEntry.id);
+    } catch (error) {
+      failed.push(image);
+      console.error(`[REVIEW] ❌ Failed to queue reviewed screenshot ${image.recordId}:`, error.message);
     }
-    
-    console.log('[IMAGE UPLOAD] 🔐 Token validation:', {
-      hasToken: !!authToken,
-      tokenLength: authToken.length,
-      tokenPreview: authToken.substring(0, 30) + '...',
-      isJWT: authToken.startsWith('eyJ'),
-      uploadUrl: uploadUrl,
-      isProduction: !isDev
+  });
+  
+  try {
+    updateTaskTrackingData(target, (trackingData) => {
+      let changed = false;
+      (trackingData.screenshots || []).forEach(record => {
+        if (!queued.has(record.id)) return;
+        delete record.reviewPending;
+        delete record.reviewReleaseAt;
+        record.uploadPending = true;
+        record.outboxId = queued.get(record.id);
+        changed = true;
+      });
+      return changed;
     });
-    
-    const response = await axios.post(uploadUrl, formData, {
-      headers: {
-        ...formData.getHeaders(),
-        'Authorization': `Bearer ${authToken}`,
-      },
-      timeout: 60000, // 60 seconds for image upload
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to mark released screenshots:', error.message);
+  }
+  removeReviewPayloads({ images: entry.images.filter(image => queued.has(image.recordId)) });
+  if (failed.length > 0) {
+    loadReviewQueue().push({ ...entry, images: failed, releaseAt: Date.now() + REVIEW_RETRY_MS });
+  }
+  console.log(`[REVIEW] 📤 Released capture ${entry.id} to the upload outbox (${queued.size}/${entry.images.length} image(s))`);
+  return failed.length;
+};
+
+// Deleted by the user: drop the records and note the removal on the activity log
+const discardPendingCapture = (entry, settings) => {
+  const { deletionPolicy } = getReviewPolicy(settings);
+  const intervalSeconds = (settings.screenshotCaptureInterval || DEFAULT_SCREENSHOT_INTERVAL_MINUTES) * 60;
+  const deductedSeconds = deletionPolicy === 'deduct-interval' ? intervalSeconds : 0;
+  const recordIds = new Set(entry.images.map(image => image.recordId));
+  let loggedRemoval = false;
+  
+  removeReviewPayloads(entry);
+  try {
+    updateTaskTrackingData({ filePath: entry.filePath, projectId: entry.projectId, taskId: entry.taskId }, (trackingData) => {
+      const screenshots = trackingData.screenshots || [];
+      const remaining = screenshots.filter(record => !recordIds.has(record.id));
+      const log = entry.activityLogId ? (trackingData.activityLogs || []).find(l => l.id === entry.activityLogId) : null;
+      if (remaining.length === screenshots.length && !log) return false;
+      
+      trackingData.screenshots = remaining;
+      recordSyncRemovals(trackingData, 'screenshots', screenshots.filter(record => recordIds.has(record.id)));
+      if (log) {
+        log.screenshotRemovedByUser = true;
+        // Several captures in one interval still only give the interval back once
+        log.deductedSeconds = Math.max(log.deductedSeconds || 0, deductedSeconds);
+        log.screenshotRemovedAt = new Date().toISOString();
+        touchSyncItems([log]);
+        loggedRemoval = true;
+      }
+      return true;
     });
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to record screenshot removal:', error.message);
+  }
+  console.log(`[REVIEW] 🗑️ Capture ${entry.id} removed by user${loggedRemoval ? `, ${deductedSeconds}s deducted` : ''}`);
+  return { activityLogId: loggedRemoval ? entry.activityLogId : null, deductedSeconds: loggedRemoval ? deductedSeconds : 0 };
+};
 
-    // Handle API response
-    console.log('[IMAGE UPLOAD] 📋 Full API response:', JSON.stringify(response.data, null, 2));
-    console.log('[IMAGE UPLOAD] 📋 Response status:', response.status);
-    console.log('[IMAGE UPLOAD] 📋 Response structure check:', {
-      hasResult: !!response.data?.result,
-      resultValue: response.data?.result,
-      hasImages: !!response.data?.images,
-      imagesLength: response.data?.images?.length || 0,
+// Release everything whose grace window is over, then sleep until the next one is due
+const processReviewQueue = () => {
+  const queue = loadReviewQueue();
+  const now = Date.now();
+  const due = queue.filter(entry => entry.releaseAt <= now);
+  if (due.length > 0) {
+    due.forEach(entry => {
+      takePendingCapture(entry.id);
+      releasePendingCapture(entry);
     });
-    
-    if (response.data?.result === true && response.data.images && response.data.images.length > 0) {
-      const uploadedImage = response.data.images[0];
-      console.log('[IMAGE UPLOAD] 📋 Uploaded image object:', JSON.stringify(uploadedImage, null, 2));
-      
-      // Check if image is queued (status: "queued") or completed (status: "completed")
-      const imageStatus = uploadedImage.status || 'unknown';
-      const batchId = response.data.batch_id || uploadedImage.batch_id;
-      
-      // Try to get file URL directly first
-      let fileUrl = uploadedImage.file_url || uploadedImage.fileUrl || uploadedImage.url || uploadedImage.path;
-      
-      if (fileUrl) {
-        // File URL is available immediately
-        console.log('[IMAGE UPLOAD] ✅ Image uploaded successfully!');
-        console.log('[IMAGE UPLOAD] File URL:', fileUrl);
-        console.log('[IMAGE UPLOAD] Image ID:', uploadedImage.id);
-        return fileUrl;
-      } else if (imageStatus === 'queued' && batchId) {
-        // Image is queued - need to poll batch endpoint to get final URL
-        console.log('[IMAGE UPLOAD] ⏳ Image queued for processing, polling batch endpoint...');
-        console.log('[IMAGE UPLOAD] 📋 Batch ID:', batchId);
-        
-        // Poll batch endpoint with retries (max 10 attempts, 2 seconds apart = 20 seconds total)
-        const maxPollAttempts = 10;
-        const pollDelay = 2000; // 2 seconds
-        
-        for (let attempt = 1; attempt <= maxPollAttempts; attempt++) {
-          await new Promise(resolve => setTimeout(resolve, pollDelay));
-          
-          try {
-            console.log(`[IMAGE UPLOAD] 🔄 Polling batch endpoint (attempt ${attempt}/${maxPollAttempts})...`);
-            
-            // Construct batch endpoint URL
-            let batchUrl;
-            if (apiBaseUrl.includes('/api')) {
-              batchUrl = `${apiBaseUrl}/vue/backend/v1/tracking-images/batch/${batchId}`;
-            } else {
-              batchUrl = `${apiBaseUrl}/api/vue/backend/v1/tracking-images/batch/${batchId}`;
-            }
-            
-            const batchResponse = await axios.get(batchUrl, {
-              headers: {
-                'Authorization': `Bearer ${authToken}`,
-              },
-              timeout: 10000,
-            });
-            
-            if (batchResponse.data?.result === true && batchResponse.data.images && batchResponse.data.images.length > 0) {
-              const processedImage = batchResponse.data.images[0];
-              fileUrl = processedImage.file_url || processedImage.fileUrl;
-              
-              if (fileUrl) {
-                console.log('[IMAGE UPLOAD] ✅ Image processing completed!');
-                console.log('[IMAGE UPLOAD] File URL:', fileUrl);
-                return fileUrl;
-              } else {
-                console.log(`[IMAGE UPLOAD] ⏳ Image still processing (no file_url yet), waiting...`);
-              }
-            } else {
-              console.log(`[IMAGE UPLOAD] ⏳ Batch not ready yet, waiting...`);
-            }
-          } catch (pollError) {
-            console.warn(`[IMAGE UPLOAD] ⚠️ Poll attempt ${attempt} failed:`, pollError.message);
-            // Continue to next attempt
-          }
+    persistReviewQueue();
+    notifyPendingCaptures();
+  }
+  scheduleReviewRelease();
+};
+
+const scheduleReviewRelease = () => {
+  if (reviewTimer) {
+    clearTimeout(reviewTimer);
+    reviewTimer = null;
+  }
+  const queue = loadReviewQueue();
+  if (queue.length === 0) return;
+  const nextReleaseAt = Math.min(...queue.map(entry => entry.releaseAt));
+  reviewTimer = setTimeout(() => {
+    reviewTimer = null;
+    processReviewQueue();
+  }, Math.max(0, nextReleaseAt - Date.now()));
+};
+
+// Captures held from a previous run are released once their window has passed
+const startReviewQueue = () => {
+  processReviewQueue();
+};
+
+ipcMain.handle('get-pending-captures', async () => {
+  try {
+    const captures = loadReviewQueue().map(entry => ({
+      ...summarizePendingCapture(entry),
+      images: entry.images.map(image => {
+        let dataUrl = null;
+        try {
+          dataUrl = fs.existsSync(image.payloadFile) ? getPendingImagePreview(image.payloadFile) : null;
+        } catch (error) {
+          console.warn(`[REVIEW] ⚠️ Could not read pending image ${image.recordId}:`, error.message);
         }
-        
-        // If we get here, polling failed - throw error
-        throw new Error(`Image processing timeout - batch ID: ${batchId}. Image was queued but processing did not complete within ${maxPollAttempts * pollDelay / 1000} seconds.`);
-      } else {
-        // No file URL and not queued - error
-        console.error('[IMAGE UPLOAD] ❌ File URL is missing in response!');
-        console.error('[IMAGE UPLOAD] 📋 Available fields:', Object.keys(uploadedImage));
-        console.error('[IMAGE UPLOAD] 📋 Image status:', imageStatus);
-        console.error('[IMAGE UPLOAD] 📋 Batch ID:', batchId);
-        throw new Error('File URL not found in API response. Available fields: ' + Object.keys(uploadedImage).join(', ') + ', status: ' + imageStatus);
+        return { recordId: image.recordId, display: image.display || null, dataUrl };
+      })
+    }));
+    return { success: true, captures };
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to load pending captures:', error);
+    return { success: false, error: error.message, captures: [] };
+  }
+});
+
+ipcMain.handle('keep-pending-capture', async (event, captureId) => {
+  try {
+    const entry = takePendingCapture(captureId);
+    if (!entry) {
+      return { success: false, error: 'Capture is no longer pending' };
+    }
+    const failed = releasePendingCapture(entry);
+    persistReviewQueue();
+    notifyPendingCaptures();
+    scheduleReviewRelease();
+    if (failed > 0) {
+      return { success: false, error: `${failed} image(s) could not be read and stay in review` };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to keep capture:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-pending-capture', async (event, captureId) => {
+  try {
+    const entry = takePendingCapture(captureId);
+    if (!entry) {
+      return { success: false, error: 'Capture is no longer pending' };
+    }
+    const settings = (await initStore()).get('settings', {});
+    const removal = discardPendingCapture(entry, settings);
+    persistReviewQueue();
+    notifyPendingCaptures();
+    scheduleReviewRelease();
+    return { success: true, ...removal };
+  } catch (error) {
+    console.error('[REVIEW] ❌ Failed to delete capture:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Time Re-attribution ====================
+// Moves activity logs tracked against the wrong task to another project/task. What the logs
+// stood for moves with them: window time capsules inside their intervals (split at the edges),
+// a matching share of each window's keystrokes/clicks, their screenshots and webcam photos, and
+// any of those still waiting in the review queue or the upload outbox. Both task documents get
+// their summaries recalculated, so the next sync uploads both.
+// Only today's documents can be edited - they are the ones sync uploads - and never the task the
+// timer is running on, whose current window capsule is still open in memory.
+//
+// Audit record (store key reattributionAudit, kept on this device). The server learns about the
+// move from the two task documents: 'moved' tombstones in one, the moved items in the other, each
+// moved log carrying reattributedFrom { projectId, taskId, at, auditId, movedBy, reason }:
+// {
+//   id, movedAt, movedBy: { id, name, email }, reason,
+//   from: { projectId, taskId }, to: { projectId, taskId },
+//   activityLogIds, screenshotIds, webcamPhotoIds, movedSeconds
+// }
+const MAX_REATTRIBUTION_AUDIT = 200;
+
+// Same totals saveTaskTrackingDataToFile writes, from what is in the document now.
+// keystrokeDelta / clickDelta carry the moved logs' input counts
+const recalculateTaskSummary = (doc, keystrokeDelta, clickDelta) => {
+  const trackingData = doc.trackingData;
+  const windows = trackingData.activeWindows || [];
+  windows.forEach(win => {
+    win.timeSpent = (win.timeCapsules || []).reduce((sum, capsule) => sum + (capsule.duration || 0), 0);
+  });
+  const deductedTime = getDeductedSeconds(trackingData.activityLogs);
+  const conflictDeductedTime = getConflictDeductedSeconds(trackingData);
+  const summary = trackingData.summary || {};
+  trackingData.summary = {
+    ...summary,
+    totalTime: Math.max(0, windows.reduce((sum, win) => sum + win.timeSpent, 0) - deductedTime - conflictDeductedTime),
+    deductedTime,
+    conflictDeductedTime,
+    totalKeystrokes: Math.max(0, (summary.totalKeystrokes || 0) + keystrokeDelta),
+    totalMouseClicks: Math.max(0, (summary.totalMouseClicks || 0) + clickDelta),
+    totalScreenshots: (trackingData.screenshots || []).length,
+    totalWebcamPhotos: (trackingData.webcamPhotos || []).length,
+    totalActivityLogs: (trackingData.activityLogs || []).length,
+    lastActivity: new Date().toISOString()
+  };
+  doc.metadata.lastUpdated = new Date().toISOString();
+};
+
+const createEmptyTaskDocument = (projectId, taskId, taskName, projectName, firstActivity) => ({
+  version: '1.0.0',
+  metadata: {
+    createdAt: new Date().toISOString(),
+    lastUpdated: new Date().toISOString(),
+    taskId,
+    projectId,
+    taskName: taskName || 'Unknown Task',
+    projectName: projectName || 'Unknown Project',
+    currentSessionStart: null,
+    deviceId: getDeviceId(),
+    deviceName: deviceIdentity?.deviceName || null
+  },
+  trackingData: {
+    activityLogs: [],
+    screenshots: [],
+    webcamPhotos: [],
+    urlHistory: [],
+    activeWindows: [],
+    summary: { totalTime: 0, deductedTime: 0, totalKeystrokes: 0, totalMouseClicks: 0, firstActivity, deviceId: getDeviceId() }
+  }
+});
+
+// Save a task held in memory and drop it, so its document is the only copy while it is edited.
+// It is loaded again from the document the next time it is tracked
+const releaseTaskFromMemory = (projectId, taskId) => {
+  const taskKey = getTaskKey(projectId, taskId);
+  if (!taskKey || !perTaskTracking.has(taskKey)) return;
+  scheduleTaskSave(projectId, taskId, null, null, true);
+  perTaskTracking.delete(taskKey);
+  taskFilePaths.delete(taskKey);
+};
+
+// Screenshots still waiting for review or upload follow their records to the other task
+const retargetQueuedImages = (movedRecordIds, target) => {
+  let reviewChanged = false;
+  loadReviewQueue().forEach(entry => {
+    if (!entry.images.some(image => movedRecordIds.has(image.recordId))) return;
+    Object.assign(entry, target);
+    reviewChanged = true;
+  });
+  if (reviewChanged) {
+    persistReviewQueue();
+    notifyPendingCaptures();
+  }
+
+  let outboxChanged = false;
+  loadOutbox().forEach(entry => {
+    if (entry.kind !== 'tracking-image' || !movedRecordIds.has(entry.target?.recordId)) return;
+    entry.image = { ...entry.image, projectId: target.projectId, taskId: target.taskId };
+    entry.target = { ...entry.target, ...target };
+    outboxChanged = true;
+  });
+  if (outboxChanged) {
+    persistOutbox();
+  }
+};
+
+const recordReattributionAudit = async (audit) => {
+  const s = await initStore();
+  const audits = s.get('reattributionAudit', []);
+  audits.push(audit);
+  s.set('reattributionAudit', audits.slice(-MAX_REATTRIBUTION_AUDIT));
+};
+
+const isRunningTask = (projectId, taskId) => isTrackingActive &&
+  getTaskKey(projectId, taskId) === getTaskKey(currentProjectId, currentTaskId);
+
+// request: { projectId, taskId, activityLogIds, targetProjectId, targetTaskId, targetTaskName?, targetProjectName?, movedBy?, reason? }
+const reattributeActivityLogs = async (request) => {
+  const { projectId, taskId, targetProjectId, targetTaskId } = request;
+  const activityLogIds = new Set(request.activityLogIds || []);
+  if (!projectId || !taskId || !targetProjectId || !targetTaskId || activityLogIds.size === 0) {
+    throw new Error('A source task, a target task and at least one activity log are required');
+  }
+  if (getTaskKey(projectId, taskId) === getTaskKey(targetProjectId, targetTaskId)) {
+    throw new Error('The activity logs are already on that task');
+  }
+  if (isRunningTask(projectId, taskId) || isRunningTask(targetProjectId, targetTaskId)) {
+    throw new Error('Stop the timer before moving time to or from the running task');
+  }
+
+  releaseTaskFromMemory(projectId, taskId);
+  releaseTaskFromMemory(targetProjectId, targetTaskId);
+
+  const sourcePath = getTaskDataPath(projectId, taskId);
+  const targetPath = getTaskDataPath(targetProjectId, targetTaskId);
+  const source = readTaskDocument(sourcePath);
+  if (!source?.trackingData) {
+    throw new Error('No tracking data for this task today');
+  }
+  const spans = getActivityLogSpans(source.trackingData.activityLogs).filter(span => activityLogIds.has(span.log.id));
+  if (spans.length === 0) {
+    throw new Error('None of the selected activity logs are in this task');
+  }
+  const target = readTaskDocument(targetPath) || createEmptyTaskDocument(
+    String(targetProjectId), String(targetTaskId), request.targetTaskName, request.targetProjectName, new Date(spans[0].start).toISOString()
+  );
+
+  const audit = {
+    id: generateUUID(),
+    movedAt: new Date().toISOString(),
+    movedBy: request.movedBy || null,
+    reason: request.reason || null,
+    from: { projectId: String(projectId), taskId: String(taskId) },
+    to: { projectId: String(targetProjectId), taskId: String(targetTaskId) },
+    activityLogIds: [],
+    screenshotIds: [],
+    webcamPhotoIds: [],
+    movedSeconds: 0
+  };
+
+  const movedLogs = moveTrackedWork(source.trackingData, target.trackingData, spans, audit);
+  const keystrokes = movedLogs.reduce((sum, log) => sum + (log.keyboardEvents || 0), 0);
+  const clicks = movedLogs.reduce((sum, log) => sum + (log.mouseEvents || 0), 0);
+  recalculateTaskSummary(source, -keystrokes, -clicks);
+  recalculateTaskSummary(target, keystrokes, clicks);
+
+  writeTaskDocument(targetPath, target);
+  writeTaskDocument(sourcePath, source);
+  retargetQueuedImages(new Set([...audit.screenshotIds, ...audit.webcamPhotoIds]), {
+    filePath: targetPath,
+    projectId: audit.to.projectId,
+    taskId: audit.to.taskId
+  });
+  await recordReattributionAudit(audit);
+  if (typeof triggerCombinedInsightsUpdate === 'function') {
+    triggerCombinedInsightsUpdate();
+  }
+
+  console.log(`[REATTRIBUTE] ↪️ Moved ${movedLogs.length} activity log(s), ${audit.screenshotIds.length} screenshot(s) and ${audit.movedSeconds}s from task ${taskId} to ${targetTaskId}`);
+  return {
+    audit,
+    source: { projectId: audit.from.projectId, taskId: audit.from.taskId, totalTime: source.trackingData.summary.totalTime },
+    target: { projectId: audit.to.projectId, taskId: audit.to.taskId, totalTime: target.trackingData.summary.totalTime }
+  };
+};
+
+// Today's activity logs of one task, with the interval each one covers
+ipcMain.handle('get-task-timeline', async (event, projectId, taskId) => {
+  try {
+    const doc = readTaskDocument(getTaskDataPath(projectId, taskId));
+    const trackingData = doc?.trackingData || {};
+    const screenshotCounts = new Map();
+    (trackingData.screenshots || []).forEach(record => {
+      if (record.activityLogId) {
+        screenshotCounts.set(record.activityLogId, (screenshotCounts.get(record.activityLogId) || 0) + 1);
+      }
+    });
+    const entries = getActivityLogSpans(trackingData.activityLogs).map(({ log, start, end }) => ({
+      id: log.id,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      activeWindow: log.activeWindow,
+      activeUrl: log.activeUrl,
+      keyboardEvents: log.keyboardEvents || 0,
+      mouseEvents: log.mouseEvents || 0,
+      productivityScore: log.compositeScore ?? log.productivityScore ?? 0,
+      isIdle: !!log.isIdle,
+      screenshotCount: screenshotCounts.get(log.id) || 0,
+      reattributedFrom: log.reattributedFrom
+    }));
+    return {
+      success: true,
+      running: isRunningTask(projectId, taskId),
+      totalTime: trackingData.summary?.totalTime || 0,
+      entries
+    };
+  } catch (error) {
+    console.error('[REATTRIBUTE] Error loading timeline:', error);
+    return { success: false, running: false, totalTime: 0, entries: [], error: error.message };
+  }
+});
+
+ipcMain.handle('reattribute-activity-logs', async (event, request) => {
+  try {
+    return { success: true, ...(await reattributeActivityLogs(request || {})) };
+  } catch (error) {
+    console.error('[REATTRIBUTE] ❌ Error moving activity logs:', error.message);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Manual Time Entries ====================
+// Time worked away from the computer (meetings, site visits) that the timer could not see. Entries
+// carry no activity logs or screenshots, so they never go into task documents: they live in their
+// own file next to the tracking data (entry shape and rules in manual-time.cjs) and are sent to the
+// server separately, where a manager approves or rejects them. The renderer polls the server and
+// hands status changes back here.
+// Layout: {baseDir}/manual-time/entries.json
+
+let manualTimeEntries = null; // Array<ManualTimeEntry> (lazy-loaded from disk)
+
+const getManualTimeDir = () => path.join(getBaseDataDirectory(), 'manual-time');
+const getManualTimePath = () => path.join(getManualTimeDir(), 'entries.json');
+
+const loadManualTimeEntries = () => {
+  if (manualTimeEntries) return manualTimeEntries;
+  manualTimeEntries = [];
+  try {
+    const entriesPath = getManualTimePath();
+    if (fs.existsSync(entriesPath)) {
+      const saved = JSON.parse(fs.readFileSync(entriesPath, 'utf8'));
+      manualTimeEntries = Array.isArray(saved.entries) ? saved.entries.map(normalizeManualTimeEntry) : [];
+    }
+  } catch (error) {
+    console.error('[MANUAL-TIME] ❌ Failed to load manual time entries, starting empty:', error.message);
+    manualTimeEntries = [];
+  }
+  return manualTimeEntries;
+};
+
+const persistManualTimeEntries = () => {
+  const dir = getManualTimeDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const entriesPath = getManualTimePath();
+  const tempPath = `${entriesPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify({ version: '1.0.0', entries: manualTimeEntries || [] }, null, 2));
+  fs.renameSync(tempPath, entriesPath);
+};
+
+const addManualTimeEntry = (input) => {
+  const entries = loadManualTimeEntries();
+  const entry = createManualTimeEntry(input, entries, generateUUID());
+  entries.push(entry);
+  persistManualTimeEntries();
+  console.log(`[MANUAL-TIME] ➕ Added ${entry.duration}s of manual time to task ${entry.taskId}`);
+  return entry;
+};
+
+const deleteManualTimeEntry = (entryId) => {
+  const entries = loadManualTimeEntries();
+  const entry = entries.find(e => e.id === entryId);
+  if (!entry) {
+    throw new Error('Manual time entry not found');
+  }
+  assertManualTimeEntryWithdrawable(entry);
+  manualTimeEntries = entries.filter(e => e.id !== entryId);
+  persistManualTimeEntries();
+  return entry;
+};
+
+const updateManualTimeEntries = (updates) => {
+  const changed = applyManualTimeUpdates(loadManualTimeEntries(), updates);
+  changed.forEach(entry => console.log(`[MANUAL-TIME] 🔔 Entry ${entry.id} is now ${entry.status}`));
+  if (changed.length > 0) {
+    persistManualTimeEntries();
+  }
+  return changed.length;
+};
+
+ipcMain.handle('get-manual-time-entries', async () => {
+  try {
+    const entries = [...loadManualTimeEntries()].sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+    return { success: true, entries };
+  } catch (error) {
+    console.error('[MANUAL-TIME] Error loading manual time entries:', error);
+    return { success: false, entries: [], error: error.message };
+  }
+});
+
+ipcMain.handle('add-manual-time-entry', async (event, input) => {
+  try {
+    return { success: true, entry: addManualTimeEntry(input || {}) };
+  } catch (error) {
+    console.error('[MANUAL-TIME] ❌ Error adding manual time:', error.message);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-manual-time-entry', async (event, entryId) => {
+  try {
+    return { success: true, entry: deleteManualTimeEntry(entryId) };
+  } catch (error) {
+    console.error('[MANUAL-TIME] ❌ Error withdrawing manual time:', error.message);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('update-manual-time-entries', async (event, updates) => {
+  try {
+    const changed = updateManualTimeEntries(updates);
+    return { success: true, changed, entries: loadManualTimeEntries() };
+  } catch (error) {
+    console.error('[MANUAL-TIME] ❌ Error updating manual time entries:', error.message);
+    return { success: false, changed: 0, error: error.message };
+  }
+});
+
+// ==================== Multi-Monitor Capture ====================
+// Screenshots cover every attached display. settings.multiMonitorMode picks the layout:
+//   'stitched' - one image composed by display geometry (the default)
+//   'separate' - one image per display, uploaded together under one server batch id
+const DEFAULT_MULTI_MONITOR_MODE = 'stitched';
+
+// Compose display captures into one image using their desktop positions.
+// Gaps between differently sized displays are filled with opaque black.
+const stitchDisplayImages = (captures) => {
+  if (captures.length === 1) {
+    return captures[0].image;
+  }
+  const minX = Math.min(...captures.map(c => c.display.bounds.x));
+  const minY = Math.min(...captures.map(c => c.display.bounds.y));
+  const width = Math.max(...captures.map(c => c.display.bounds.x + c.display.bounds.width)) - minX;
+  const height = Math.max(...captures.map(c => c.display.bounds.y + c.display.bounds.height)) - minY;
+
+  // Bitmaps are 32-bit BGRA
+  const canvas = Buffer.alloc(width * height * 4);
+  for (let i = 3; i < canvas.length; i += 4) {
+    canvas[i] = 255;
+  }
+  captures.forEach(({ image, display }) => {
+    const bitmap = image.toBitmap();
+    const size = image.getSize();
+    const offsetX = display.bounds.x - minX;
+    const offsetY = display.bounds.y - minY;
+    const rowBytes = Math.min(size.width, width - offsetX) * 4;
+    for (let row = 0; row < size.height && offsetY + row < height; row++) {
+      const sourceStart = row * size.width * 4;
+      bitmap.copy(canvas, ((offsetY + row) * width + offsetX) * 4, sourceStart, sourceStart + rowBytes);
+    }
+  });
+  return nativeImage.createFromBitmap(canvas, { width, height });
+};
+
+// 'separate' mode: upload every display image in one request so they share the server batch id.
+// If the upload fails each image is queued in the outbox on its own, keeping the shared captureId.
+// With review { activityLogId, graceMs } the images are held for review as one capture instead.
+const saveSeparateDisplayScreenshots = async (captures, composite, isBlurred, screenChange, profile, redactions, review = null) => {
+  // Pin the task context - the timer may move to another task while the upload is in flight
+  const projectId = currentProjectId;
+  const taskId = currentTaskId;
+  const timestamp = Date.now();
+  const captureId = `cap_${timestamp}_${Math.random().toString(36).substr(2, 9)}`;
+  const encodedImages = [];
+  for (const capture of captures) {
+    encodedImages.push(await encodeCaptureImage(capture.image, profile));
+  }
+  const imageBuffers = encodedImages.map(encoded => encoded.buffer);
+  const dataUrl = (await encodeCaptureImage(composite, profile)).dataUrl; // Preview shows the whole desktop
+  const screenChangeResult = { unchanged: screenChange.unchanged, changePercent: screenChange.changePercent, skipped: false };
+  console.log(`[TASK-SCREENSHOT] 🖥️ Captured ${captures.length} display(s) separately, capture ${captureId}`);
+
+  if (!taskId || !projectId) {
+    console.error('[TASK-SCREENSHOT] ❌ CRITICAL: No task context (taskId or projectId missing), cannot upload');
+    return { dataUrl, fileUrl: null, fileUrls: [], batchId: null, queued: false, pendingReview: false, screenChange: screenChangeResult };
+  }
+
+  const records = captures.map(({ display }, index) => ({
+    id: `ss_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp,
+    fileUrl: null,
+    isBlurred,
+    taskId,
+    projectId,
+    captureId,
+    batchId: null,
+    display,
+    profile: encodedImages[index].profile,
+    redactions: redactions.filter(redaction => redaction.displayId === display.id),
+    screenHash: screenChange.hash, // Hash of the whole desktop, shared by the batch
+    ...(screenChange.unchanged ? { unchanged: true, changePercent: screenChange.changePercent } : {})
+  }));
+
+  const store = await initStore();
+  const workspaceId = store.get('workspaceId');
+  let batchId = null;
+  if (review) {
+    holdCapturesForReview(records, imageBuffers, records.map((record, index) => ({
+      captureId,
+      displays: [record.display],
+      profiles: [encodedImages[index].profile],
+      redactions: record.redactions
+    })), { projectId, taskId, workspaceId, activityLogId: review.activityLogId, captureId, graceMs: review.graceMs });
+  } else {
+    try {
+      // Older uploads are still waiting - queue behind them to keep order
+      if (isOutboxBacklogged()) {
+        throw new Error('Upload outbox is backlogged or offline');
       }
-    } else {
-      const errorMsg = '[IMAGE UPLOAD] ❌ Unexpected API response format';
-      console.error(errorMsg);
-      console.error('[IMAGE UPLOAD] 📋 Response data:', JSON.stringify(response.data, null, 2));
-      console.error('[IMAGE UPLOAD] 📋 Expected: result=true, images array with at least 1 item');
-      console.error('[IMAGE UPLOAD] 📋 Actual:', {
-        result: response.data?.result,
-        hasImages: !!response.data?.images,
-        imagesLength: response.data?.images?.length || 0,
+      const uploaded = await retryWithBackoff(() => uploadTrackingImage(
+        imageBuffers,
+        'screenshot',
+        projectId,
+        taskId,
+        workspaceId,
+        { captureId, displays: captures.map(c => c.display), profiles: encodedImages.map(encoded => encoded.profile), redactions }
+      ), 3, 1000);
+      batchId = uploaded.batchId;
+      records.forEach((record, index) => {
+        record.fileUrl = uploaded.fileUrls[index] || null;
+        record.batchId = batchId;
       });
-      throw new Error('Unexpected API response format - upload may have failed');
+      console.log(`[TASK-SCREENSHOT] ✅ Uploaded ${records.length} display screenshot(s), batch ${batchId}`);
+    } catch (uploadError) {
+      console.error('[TASK-SCREENSHOT] ❌ Display batch upload failed after retries:', uploadError.message);
+      records.forEach((record, index) => {
+        try {
+          const queuedUpload = enqueueTrackingImageUpload(imageBuffers[index], 'screenshot', projectId, taskId, workspaceId, {
+            collection: 'screenshots',
+            recordId: record.id
+          });
+          record.uploadPending = true;
+          record.outboxId = queuedUpload.id;
+        } catch (queueError) {
+          console.error(`[TASK-SCREENSHOT] ❌ Failed to queue display ${index + 1} screenshot:`, queueError.message);
+        }
+      });
+    }
+  }
+
+  // Same rule as single screenshots - keep only records that are uploaded, queued or held for review
+  const savedRecords = records.filter(record => record.fileUrl || record.uploadPending || record.reviewPending);
+  if (savedRecords.length > 0) {
+    const taskData = getTaskTrackingData(projectId, taskId);
+    if (taskData) {
+      if (!taskData.screenshots) {
+        taskData.screenshots = [];
+      }
+      taskData.screenshots.push(...savedRecords);
+      rememberScreenHash(projectId, taskId, screenChange.hash, savedRecords[0].id);
+      scheduleTaskSave(projectId, taskId, null, null, true);
+      console.log(`[TASK-SCREENSHOT] 📝 Saved ${savedRecords.length} display screenshot(s) for capture ${captureId}`);
+    }
+  } else {
+    console.error('[TASK-SCREENSHOT] ❌ Cannot save display screenshots - upload failed and nothing was queued');
+  }
+
+  const fileUrls = records.map(record => record.fileUrl).filter(Boolean);
+  return {
+    dataUrl,
+    fileUrl: fileUrls[0] || null,
+    fileUrls,
+    batchId,
+    queued: records.some(record => record.uploadPending),
+    pendingReview: !!review,
+    screenChange: screenChangeResult
+  };
+};
+
+// ==================== Privacy Redaction ====================
+// settings.redactionRules hide sensitive windows inside screenshots instead of blurring the whole image:
+//   { id, match: 'app' | 'url' | 'title', pattern, action: 'blur' | 'blackout', enabled }
+// 'app' matches the process name, 'url' the window's domain (subdomains included) and 'title' the
+// window title, all case-insensitive. Each screenshot keeps a `redactions` list of what was hidden
+// (rule, app and rectangle - never the window title itself).
+const REDACTION_BLUR_FACTOR = 24; // Regions are shrunk this much and scaled back up
+
+let openWindowsModule = null;
+
+// Visible windows with bounds - active-win's openWindows where supported, otherwise the active window
+const getWindowsWithBounds = async () => {
+  try {
+    if (!openWindowsModule) {
+      const module = await import('active-win');
+      openWindowsModule = module.openWindows;
+    }
+    if (typeof openWindowsModule === 'function') {
+      const windows = await openWindowsModule();
+      if (Array.isArray(windows) && windows.length > 0) {
+        return windows.filter(win => win && win.bounds);
+      }
     }
   } catch (error) {
-    console.error('[IMAGE UPLOAD] ❌ FAILED to upload image!');
-    console.error('[IMAGE UPLOAD] Error message:', error.message);
-    if (error.response) {
-      console.error('[IMAGE UPLOAD] Response status:', error.response.status);
-      console.error('[IMAGE UPLOAD] Response data:', error.response.data);
-      console.error('[IMAGE UPLOAD] Response headers:', error.response.headers);
+    console.warn('[REDACTION] ⚠️ Could not list open windows:', error.message);
+  }
+  const active = await getActiveWindow();
+  return active && active.bounds ? [active] : [];
+};
+
+const getWindowOwnerName = (win) => (typeof win.owner === 'string' ? win.owner : win.owner?.name) || '';
+
+const getWindowDomain = (win) => {
+  const url = win.url || extractUrlFromTitle(win.title, getWindowOwnerName(win));
+  if (!url) return '';
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+const matchesRedactionRule = (rule, win) => {
+  const pattern = String(rule.pattern || '').trim().toLowerCase();
+  if (!pattern) return false;
+  switch (rule.match) {
+    case 'app':
+      return getWindowOwnerName(win).toLowerCase().includes(pattern);
+    case 'title':
+      return String(win.title || '').toLowerCase().includes(pattern);
+    case 'url': {
+      const domain = getWindowDomain(win);
+      const ruleDomain = pattern.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+      return !!domain && (domain === ruleDomain || domain.endsWith(`.${ruleDomain}`));
+    }
+    default:
+      return false;
+  }
+};
+
+// Sensitive windows as [{ ruleId, match, pattern, app, action, bounds }] in screen (DIP) coordinates
+const findRedactionRegions = async (rules) => {
+  const activeRules = (rules || []).filter(rule => rule && rule.enabled !== false && rule.pattern);
+  if (activeRules.length === 0) return [];
+  const windows = await getWindowsWithBounds();
+  const regions = [];
+  windows.forEach(win => {
+    const rule = activeRules.find(r => matchesRedactionRule(r, win));
+    if (!rule) return;
+    // Windows reports physical pixels, displays are laid out in DIPs
+    const bounds = process.platform === 'win32' ? screen.screenToDipRect(null, win.bounds) : win.bounds;
+    regions.push({
+      ruleId: rule.id,
+      match: rule.match,
+      pattern: rule.pattern,
+      app: getWindowOwnerName(win),
+      action: rule.action === 'blackout' ? 'blackout' : 'blur',
+      bounds: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height }
+    });
+  });
+  return regions;
+};
+
+// Hide regions inside one display capture (capture images are 1:1 with their display bounds)
+const redactDisplayCapture = (capture, regions) => {
+  const displayBounds = capture.display.bounds;
+  const size = capture.image.getSize();
+  const applied = [];
+  let bitmap = null;
+
+  regions.forEach(region => {
+    const left = Math.max(region.bounds.x, displayBounds.x) - displayBounds.x;
+    const top = Math.max(region.bounds.y, displayBounds.y) - displayBounds.y;
+    const right = Math.min(region.bounds.x + region.bounds.width, displayBounds.x + displayBounds.width) - displayBounds.x;
+    const bottom = Math.min(region.bounds.y + region.bounds.height, displayBounds.y + displayBounds.height) - displayBounds.y;
+    const rect = {
+      x: Math.max(0, Math.round(left)),
+      y: Math.max(0, Math.round(top)),
+      width: Math.min(size.width, Math.round(right)) - Math.max(0, Math.round(left)),
+      height: Math.min(size.height, Math.round(bottom)) - Math.max(0, Math.round(top))
+    };
+    if (rect.width <= 0 || rect.height <= 0) return;
+
+    bitmap = bitmap || capture.image.toBitmap(); // BGRA
+    let patch = null;
+    if (region.action === 'blur') {
+      patch = capture.image.crop(rect)
+        .resize({ width: Math.max(1, Math.round(rect.width / REDACTION_BLUR_FACTOR)), height: Math.max(1, Math.round(rect.height / REDACTION_BLUR_FACTOR)), quality: 'good' })
+        .resize({ width: rect.width, height: rect.height, quality: 'good' })
+        .toBitmap();
+    }
+    for (let row = 0; row < rect.height; row++) {
+      const start = ((rect.y + row) * size.width + rect.x) * 4;
+      if (patch) {
+        patch.copy(bitmap, start, row * rect.width * 4, (row + 1) * rect.width * 4);
+      } else {
+        for (let i = start; i < start + rect.width * 4; i += 4) {
+          bitmap[i] = 0;
+          bitmap[i + 1] = 0;
+          bitmap[i + 2] = 0;
+          bitmap[i + 3] = 255;
+        }
+      }
     }
-    if (error.request) {
-      console.error('[IMAGE UPLOAD] Request made but no response received');
-      console.error('[IMAGE UPLOAD] Request config:', error.config);
+    applied.push({ ...region, displayId: capture.display.id });
+  });
+
+  if (!bitmap) {
+    return { capture, applied };
+  }
+  return {
+    capture: { ...capture, image: nativeImage.createFromBitmap(bitmap, { width: size.width, height: size.height }) },
+    applied
+  };
+};
+
+const redactCaptures = (captures, regions) => {
+  if (regions.length === 0) {
+    return { captures, redactions: [] };
+  }
+  const redactions = [];
+  const redacted = captures.map(capture => {
+    const result = redactDisplayCapture(capture, regions);
+    redactions.push(...result.applied);
+    return result.capture;
+  });
+  if (redactions.length > 0) {
+    console.log(`[REDACTION] 🔒 Redacted ${redactions.length} region(s):`, redactions.map(r => `${r.app || r.pattern} (${r.action})`));
+  }
+  return { captures: redacted, redactions };
+};
+
+// ==================== Screenshot Exclusions ====================
+// settings.screenshotExclusions: while a matching window is focused no screenshot is taken at all.
+// Rules use the AppClassificationRule / UrlClassificationRule fields, stored as strings:
+//   { id, processName?, titlePattern?, domainPattern?, pathPattern?, enabled }
+// processName and domainPattern behave like the classifiers (exact or partial process name,
+// exact domain or subdomain). Any pattern written as /.../flags is used as a regex.
+// Every field present on a rule must match.
+const toRuleRegex = (pattern) => {
+  const match = /^\/(.+)\/([a-z]*)$/i.exec(String(pattern).trim());
+  if (!match) return null;
+  try {
+    return new RegExp(match[1], match[2].includes('i') ? match[2] : `${match[2]}i`);
+  } catch {
+    return null;
+  }
+};
+
+const matchesRulePattern = (pattern, value, exactOnly = false) => {
+  const regex = toRuleRegex(pattern);
+  if (regex) return regex.test(value);
+  const text = String(pattern).trim().toLowerCase();
+  return exactOnly ? value === text : value.includes(text);
+};
+
+const matchesExclusionRule = (rule, win) => {
+  if (!rule.processName && !rule.titlePattern && !rule.domainPattern && !rule.pathPattern) return false;
+
+  if (rule.processName && !matchesRulePattern(rule.processName, getWindowOwnerName(win).toLowerCase())) return false;
+  if (rule.titlePattern && !matchesRulePattern(rule.titlePattern, String(win.title || '').toLowerCase())) return false;
+
+  if (rule.domainPattern || rule.pathPattern) {
+    const domain = getWindowDomain(win);
+    if (!domain) return false;
+    if (rule.domainPattern) {
+      const regex = toRuleRegex(rule.domainPattern);
+      const ruleDomain = String(rule.domainPattern).trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+      if (regex ? !regex.test(domain) : !(domain === ruleDomain || domain.endsWith(`.${ruleDomain}`))) return false;
     }
-    // Re-throw error to prevent saving base64
-    throw error;
+    if (rule.pathPattern) {
+      const url = win.url || extractUrlFromTitle(win.title, getWindowOwnerName(win)) || '';
+      let urlPath = '';
+      try {
+        const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+        urlPath = (parsed.pathname + parsed.search).toLowerCase();
+      } catch {
+        return false;
+      }
+      if (!matchesRulePattern(rule.pathPattern, urlPath)) return false;
+    }
+  }
+  return true;
+};
+
+// The exclusion rule matching the focused window, or null
+const findScreenshotExclusion = async (rules) => {
+  const activeRules = (rules || []).filter(rule => rule && rule.enabled !== false);
+  if (activeRules.length === 0) return null;
+  const win = await getActiveWindow();
+  if (!win) return null;
+  const rule = activeRules.find(r => matchesExclusionRule(r, win));
+  return rule ? { ruleId: rule.id, app: getWindowOwnerName(win) } : null;
+};
+
+// ==================== Capture Profiles ====================
+// settings.screenshotProfile / settings.webcamProfile control how captured images are encoded:
+//   { maxWidth, maxHeight (0 = no cap), format: 'png' | 'jpeg' | 'webp', quality (1-100), grayscale }
+// The profile actually applied is stored with every image record.
+const DEFAULT_CAPTURE_PROFILES = {
+  screenshot: { maxWidth: 1920, maxHeight: 1080, format: 'png', quality: 80, grayscale: false },
+  webcam: { maxWidth: 0, maxHeight: 0, format: 'jpeg', quality: 80, grayscale: false }
+};
+const IMAGE_MIME_TYPES = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const getCaptureProfile = (settings, kind) => ({
+  ...DEFAULT_CAPTURE_PROFILES[kind],
+  ...((kind === 'webcam' ? settings.webcamProfile : settings.screenshotProfile) || {})
+});
+
+// Format from the encoded bytes - outbox replays only have the buffer to go on
+const detectImageFormat = (buffer) => {
+  if (!buffer || buffer.length < 12) return null;
+  if (buffer[0] === 0x89 && buffer.toString('ascii', 1, 4) === 'PNG') return 'png';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return 'jpeg';
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  return null;
+};
+
+// Scale down (never up) to fit inside the profile's resolution cap, keeping the aspect ratio
+const fitImageToProfile = (image, profile) => {
+  const size = image.getSize();
+  const scale = Math.min(
+    profile.maxWidth > 0 ? profile.maxWidth / size.width : 1,
+    profile.maxHeight > 0 ? profile.maxHeight / size.height : 1,
+    1
+  );
+  if (scale >= 1) return image;
+  return image.resize({
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+    quality: 'better'
+  });
+};
+
+const toGrayscale = (image) => {
+  const size = image.getSize();
+  const bitmap = image.toBitmap(); // BGRA
+  for (let i = 0; i < bitmap.length; i += 4) {
+    const luma = Math.round(bitmap[i + 2] * 0.299 + bitmap[i + 1] * 0.587 + bitmap[i] * 0.114);
+    bitmap[i] = luma;
+    bitmap[i + 1] = luma;
+    bitmap[i + 2] = luma;
+  }
+  return nativeImage.createFromBitmap(bitmap, { width: size.width, height: size.height });
+};
+
+// nativeImage can only write PNG and JPEG - WebP goes through the renderer's canvas encoder
+const encodeWebpInRenderer = async (image, quality) => {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    return null;
+  }
+  const dataUrl = await mainWindow.webContents.executeJavaScript(`
+    (async () => {
+      const img = new Image();
+      img.src = ${JSON.stringify(image.toDataURL())};
+      await img.decode();
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext('2d').drawImage(img, 0, 0);
+      return canvas.toDataURL('image/webp', ${quality / 100});
+    })()
+  `);
+  // Canvas silently falls back to PNG when it can't encode WebP
+  if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:image/webp')) {
+    return null;
+  }
+  return dataUrlToBuffer(dataUrl);
+};
+
+// Apply a capture profile to an image and encode it.
+// Returns { buffer, dataUrl, profile: { format, width, height, quality, grayscale, bytes } }
+const encodeCaptureImage = async (image, profile) => {
+  let output = fitImageToProfile(image, profile);
+  if (profile.grayscale) {
+    output = toGrayscale(output);
+  }
+  const quality = Math.min(100, Math.max(1, Math.round(profile.quality || DEFAULT_CAPTURE_PROFILES.screenshot.quality)));
+
+  let format = IMAGE_MIME_TYPES[profile.format] ? profile.format : 'png';
+  let buffer = null;
+  if (format === 'webp') {
+    try {
+      buffer = await encodeWebpInRenderer(output, quality);
+    } catch (error) {
+      console.warn('[CAPTURE-PROFILE] ⚠️ WebP encoding failed:', error.message);
+    }
+    if (!buffer) {
+      console.warn('[CAPTURE-PROFILE] ⚠️ WebP not available, falling back to JPEG');
+      format = 'jpeg';
+    }
+  }
+  if (format === 'jpeg') {
+    buffer = output.toJPEG(quality);
+  } else if (format === 'png') {
+    buffer = output.toPNG();
   }
+
+  const size = output.getSize();
+  return {
+    buffer,
+    dataUrl: `data:${IMAGE_MIME_TYPES[format]};base64,${buffer.toString('base64')}`,
+    profile: {
+      format,
+      width: size.width,
+      height: size.height,
+      quality: format === 'png' ? null : quality,
+      grayscale: !!profile.grayscale,
+      bytes: buffer.length
+    }
+  };
+};
+
+// ==================== Screenshot Change Detection ====================
+// Each capture gets a 64-bit difference hash (dHash). When it is within the configured
+// distance of the last screenshot kept for the task, the screen counts as unchanged and the
+// capture is either skipped (no upload) or kept and marked, per settings.skipUnchangedScreenshots.
+const lastScreenHashes = new Map(); // taskKey -> { hash, screenshotId, timestamp }
+
+const computeScreenHash = (image) => {
+  const small = image.resize({ width: SCREEN_HASH_WIDTH, height: SCREEN_HASH_HEIGHT, quality: 'better' });
+  return computeScreenHashFromBitmap(small.toBitmap()); // BGRA
+};
+
+// Compare a capture with the last kept screenshot of the task.
+// Returns { hash, changePercent (null for the first capture), unchanged, skip }
+const detectScreenChange = (image, projectId, taskId, settings) => {
+  const hash = computeScreenHash(image);
+  const previous = projectId && taskId ? lastScreenHashes.get(getTaskKey(projectId, taskId)) : null;
+  return { hash, ...compareScreenHashes(hash, previous?.hash, settings) };
+};
+
+// Only kept screenshots become the reference, so slow scrolling still adds up to a change
+const rememberScreenHash = (projectId, taskId, hash, screenshotId) => {
+  lastScreenHashes.set(getTaskKey(projectId, taskId), { hash, screenshotId, timestamp: Date.now() });
 };
 
 // Screenshot capture handler (no screen share needed)
-ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
+ipcMain.handle('capture-screenshot', async (event, isBlurred = false, activityLogId = null) => {
   try {
     console.log('[TASK-SCREENSHOT] ========================================');
     console.log('[TASK-SCREENSHOT] 📸 Starting screenshot capture...');
@@ -3561,58 +6259,87 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
     });
     console.log('[TASK-SCREENSHOT] ========================================');
     
-    // Request screen sources with proper permissions
-    const sources = await desktopCapturer.getSources({
-      types: ['screen'],
-      thumbnailSize: { width: 1920, height: 1080 }
-    });
-
-    console.log('[TASK-SCREENSHOT] Screenshot sources found:', sources.length, sources.map(s => s.name));
-
-    if (sources.length > 0) {
-      // Try to find the main screen
-      let primarySource = sources.find(s => 
-        s.name.toLowerCase().includes('entire screen') || 
-        s.name.toLowerCase().includes('screen 1') ||
-        s.name.toLowerCase().includes('display 1')
-      );
+    const settings = (await initStore()).get('settings', {});
+    
+    // Excluded apps and sites are never captured - the renderer logs a privacy marker instead
+    const exclusion = await findScreenshotExclusion(settings.screenshotExclusions);
+    if (exclusion) {
+      console.log(`[TASK-SCREENSHOT] 🔒 Screenshot suppressed for privacy (${exclusion.app}, rule ${exclusion.ruleId})`);
+      return { fileUrl: null, queued: false, suppressed: true, suppressedRuleId: exclusion.ruleId };
+    }
+    
+    const multiMonitorMode = settings.multiMonitorMode || DEFAULT_MULTI_MONITOR_MODE;
+    const reviewPolicy = getReviewPolicy(settings);
+    const rawCaptures = await getTrackingBackend().captureScreens();
+    const redactionRegions = rawCaptures.length > 0 ? await findRedactionRegions(settings.redactionRules) : [];
+    const { captures, redactions } = redactCaptures(rawCaptures, redactionRegions);
+
+    if (captures.length > 0) {
+      // Every display composed into one image (a single display passes through unchanged)
+      const thumbnail = stitchDisplayImages(captures);
+      const screenChange = detectScreenChange(thumbnail, currentProjectId, currentTaskId, settings);
+      const screenChangeResult = {
+        unchanged: screenChange.unchanged,
+        changePercent: screenChange.changePercent,
+        skipped: screenChange.skip
+      };
       
-      // Fallback to first source if not found
-      if (!primarySource) {
-        primarySource = sources[0];
+      if (screenChange.skip) {
+        console.log(`[TASK-SCREENSHOT] 💤 Screen unchanged (${screenChange.changePercent}% different), skipping upload`);
+        return { fileUrl: null, queued: false, screenChange: screenChangeResult };
       }
       
-      console.log('Using source:', primarySource.name);
-      const thumbnail = primarySource.thumbnail;
+      // One image per display in a shared batch
+      if (multiMonitorMode === 'separate' && captures.length > 1) {
+        const review = reviewPolicy.enabled ? { activityLogId, graceMs: reviewPolicy.graceMs } : null;
+        return await saveSeparateDisplayScreenshots(captures, thumbnail, isBlurred, screenChange, getCaptureProfile(settings, 'screenshot'), redactions, review);
+      }
+      
+      console.log(`[TASK-SCREENSHOT] Stitched ${captures.length} display(s) into one screenshot`);
       
       if (thumbnail) {
         const size = thumbnail.getSize();
         console.log('Thumbnail size:', size.width, 'x', size.height);
         
         if (size.width > 0 && size.height > 0) {
-          // Convert to PNG buffer for upload
-          const pngBuffer = thumbnail.toPNG();
-          const image = nativeImage.createFromBuffer(pngBuffer);
-          const dataUrl = image.toDataURL();
-          console.log('Screenshot captured successfully, data URL length:', dataUrl.length);
+          // Encode with the screenshot capture profile (resolution cap, format, quality, grayscale)
+          const encoded = await encodeCaptureImage(thumbnail, getCaptureProfile(settings, 'screenshot'));
+          const imageBuffer = encoded.buffer;
+          const dataUrl = encoded.dataUrl;
+          console.log('[TASK-SCREENSHOT] Screenshot encoded:', encoded.profile);
           
-          // Upload image to server with retry and deduplication - REQUIRED before saving to JSON
+          // Upload image to server with retry and deduplication - queued in the outbox if it can't be sent now
           let fileUrl = null;
-          if (currentTaskId && currentProjectId) {
+          let queuedUpload = null;
+          let heldForReview = false;
+          let workspaceId = null;
+          const screenshotId = `ss_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+          if (currentTaskId && currentProjectId && reviewPolicy.enabled) {
+            // Kept on disk until the grace window passes or the user reviews it
+            console.log('[TASK-SCREENSHOT] 🕒 Review before upload is on, holding screenshot locally');
+            workspaceId = (await initStore()).get('workspaceId');
+            heldForReview = true;
+          } else if (currentTaskId && currentProjectId) {
             console.log('[TASK-SCREENSHOT] ✅ Task context available, proceeding with upload...');
             try {
               // Get workspace ID if available
               const store = await initStore();
-              const workspaceId = store.get('workspaceId');
+              workspaceId = store.get('workspaceId');
+              
+              // Older uploads are still waiting - queue behind them to keep order
+              if (isOutboxBacklogged()) {
+                throw new Error('Upload outbox is backlogged or offline');
+              }
+              
               console.log('[TASK-SCREENSHOT] 📋 Upload parameters:', {
                 projectId: currentProjectId,
                 taskId: currentTaskId,
                 workspaceId: workspaceId || 'not set',
-                imageSize: `${(pngBuffer.length / 1024).toFixed(2)} KB`
+                imageSize: `${(imageBuffer.length / 1024).toFixed(2)} KB`
               });
               
               // Create upload key for deduplication
-              const uploadKey = getUploadKey(pngBuffer, 'screenshot', currentProjectId, currentTaskId);
+              const uploadKey = getUploadKey(imageBuffer, 'screenshot', currentProjectId, currentTaskId);
               
               // Check if this exact image is already being uploaded
               if (activeUploads.has(uploadKey)) {
@@ -3625,11 +6352,12 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
                 // Create upload promise and store it to prevent duplicates
                 const uploadPromise = retryWithBackoff(async () => {
                   return await uploadTrackingImage(
-                    pngBuffer,
+                    imageBuffer,
                     'screenshot',
                     currentProjectId,
                     currentTaskId,
-                    workspaceId
+                    workspaceId,
+                    { profile: encoded.profile, redactions }
                   );
                 }, 3, 1000);
                 
@@ -3661,10 +6389,17 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
                   method: uploadError.config.method
                 } : 'no config'
               });
-              console.error('[TASK-SCREENSHOT] ⚠️ Screenshot will NOT be saved to JSON (upload required)');
-              console.error('[TASK-SCREENSHOT] 💡 Fix: Enable API, configure API base URL, and ensure authentication token is available');
-              // Don't save screenshot if upload fails - user needs to fix API configuration
               fileUrl = null;
+              try {
+                queuedUpload = enqueueTrackingImageUpload(imageBuffer, 'screenshot', currentProjectId, currentTaskId, workspaceId, {
+                  collection: 'screenshots',
+                  recordId: screenshotId
+                });
+                console.warn('[TASK-SCREENSHOT] 📥 Screenshot queued in upload outbox, will retry when online');
+              } catch (queueError) {
+                console.error('[TASK-SCREENSHOT] ❌ Failed to queue screenshot upload:', queueError.message);
+                console.error('[TASK-SCREENSHOT] ⚠️ Screenshot will NOT be saved to JSON (upload required)');
+              }
             }
           } else {
             console.error('[TASK-SCREENSHOT] ❌ CRITICAL: No task context (taskId or projectId missing), cannot upload');
@@ -3678,16 +6413,18 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
             fileUrl = null;
           }
           
-          // Save screenshot to task - ONLY if upload succeeded (fileUrl exists)
+          // Save screenshot to task - ONLY if upload succeeded (fileUrl exists), is queued in the outbox or held for review
           // Save IMMEDIATELY after upload success (not debounced)
           console.log('[TASK-SCREENSHOT] 📋 Pre-save check:', {
             hasFileUrl: !!fileUrl,
+            isQueued: !!queuedUpload,
+            heldForReview,
             hasTaskId: !!currentTaskId,
             hasProjectId: !!currentProjectId,
-            canSave: !!(fileUrl && currentTaskId && currentProjectId)
+            canSave: !!((fileUrl || queuedUpload || heldForReview) && currentTaskId && currentProjectId)
           });
           
-          if (fileUrl && currentTaskId && currentProjectId) {
+          if ((fileUrl || queuedUpload || heldForReview) && currentTaskId && currentProjectId) {
             console.log('[TASK-SCREENSHOT] ✅ All conditions met, saving screenshot to task data...');
             const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
             if (taskData) {
@@ -3697,17 +6434,44 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
                 console.log('[TASK-SCREENSHOT] ⚠️ Initialized screenshots array (was missing)');
               }
               
-              const screenshotId = `ss_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
               const screenshotData = {
                 id: screenshotId,
                 timestamp: Date.now(),
-                fileUrl: fileUrl, // ONLY save fileUrl, never base64
+                fileUrl: fileUrl, // ONLY save fileUrl, never base64 (null until the outbox uploads it)
                 isBlurred: isBlurred,
                 taskId: currentTaskId,
                 projectId: currentProjectId
               };
+              if (captures.length > 1) {
+                // Where each display sits inside the stitched image
+                screenshotData.displays = captures.map(c => c.display);
+              }
+              screenshotData.profile = encoded.profile;
+              if (redactions.length > 0) {
+                screenshotData.redactions = redactions;
+              }
+              screenshotData.screenHash = screenChange.hash;
+              if (screenChange.unchanged) {
+                screenshotData.unchanged = true;
+                screenshotData.changePercent = screenChange.changePercent;
+              }
+              if (queuedUpload) {
+                screenshotData.uploadPending = true;
+                screenshotData.outboxId = queuedUpload.id;
+              }
+              if (heldForReview) {
+                holdCapturesForReview([screenshotData], [imageBuffer], [{ profile: encoded.profile, redactions }], {
+                  projectId: currentProjectId,
+                  taskId: currentTaskId,
+                  workspaceId,
+                  activityLogId,
+                  captureId: `cap_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                  graceMs: reviewPolicy.graceMs
+                });
+              }
               
               taskData.screenshots.push(screenshotData);
+              rememberScreenHash(currentProjectId, currentTaskId, screenChange.hash, screenshotId);
               
               console.log(`[TASK-SCREENSHOT] 📝 Added screenshot to memory. Total screenshots in memory: ${taskData.screenshots.length}`);
               console.log(`[TASK-SCREENSHOT] 📝 Screenshot data:`, JSON.stringify(screenshotData, null, 2));
@@ -3715,8 +6479,13 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
               // IMMEDIATE save after successful upload (no debounce)
               scheduleTaskSave(currentProjectId, currentTaskId, null, null, true);
               
-              console.log(`[TASK-SCREENSHOT] ✅ Screenshot saved to JSON with fileUrl: ${fileUrl.substring(0, 80)}...`);
-              console.log(`[TASK-SCREENSHOT] 💾 Save called, fileUrl length: ${fileUrl.length}`);
+              if (fileUrl) {
+                console.log(`[TASK-SCREENSHOT] ✅ Screenshot saved to JSON with fileUrl: ${fileUrl.substring(0, 80)}...`);
+              } else if (heldForReview) {
+                console.log('[TASK-SCREENSHOT] ✅ Screenshot saved to JSON, waiting for review before upload');
+              } else {
+                console.log(`[TASK-SCREENSHOT] ✅ Screenshot saved to JSON, upload pending in outbox (${queuedUpload.id})`);
+              }
               console.log(`[TASK-SCREENSHOT] 📊 Task data now has ${taskData.screenshots.length} screenshot(s) in memory`);
               
               if (isDev) {
@@ -3741,7 +6510,10 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
           // Return both dataUrl (for UI display) and fileUrl (for storage)
           return {
             dataUrl: dataUrl, // For UI preview
-            fileUrl: fileUrl // For storage in activity log (null if upload failed)
+            fileUrl: fileUrl, // For storage in activity log (null if upload failed, queued or held for review)
+            queued: !!queuedUpload,
+            pendingReview: heldForReview,
+            screenChange: screenChangeResult
           };
         } else {
           console.warn('Thumbnail has invalid dimensions');
@@ -3756,59 +6528,770 @@ ipcMain.handle('capture-screenshot', async (event, isBlurred = false) => {
       return null;
     }
   } catch (error) {
-    // Only log critical errors that prevent screenshot capture entirely
-    // Upload errors are already handled above and won't reach here
-    console.error('Screenshot capture error:', error);
-    // Still return null for critical errors (permissions, capture failure, etc.)
-    return null;
+    // Only log critical errors that prevent screenshot capture entirely
+    // Upload errors are already handled above and won't reach here
+    console.error('Screenshot capture error:', error);
+    // Still return null for critical errors (permissions, capture failure, etc.)
+    return null;
+  }
+});
+
+// ==================== Code Context ====================
+// Editor and terminal windows become { tool, repo, branch, file, language } (null for anything else):
+//   VS Code, Cursor, VSCodium, Windsurf - "● file.ts - folder - Visual Studio Code"; the folder is
+//     found among the editor's recently opened folders (User/globalStorage/storage.json)
+//   JetBrains IDEs - "project – src/file.ts" or "project [~/code/project] – file.ts"; the project
+//     through options/recentProjects.xml
+//   Other editors (Sublime Text, Xcode, ...) - the file name before the first " - "
+//   Terminals - a path in the title ("user@host: ~/code/app", "MINGW64:/c/code/app", "C:\code\app")
+// repo and branch come from the nearest .git directory, read from disk (HEAD, config) without running
+// git. repo is "owner/name" from the origin remote when there is one, else the folder name; file is
+// relative to the repo when its location is known.
+const { fileURLToPath } = require('url');
+
+const CODE_CONTEXT_CACHE_MS = 30 * 1000; // Branch switches show up within this long
+const CODE_CONTEXT_CACHE_LIMIT = 200;
+
+const VSCODE_FAMILY = [
+  { match: /cursor/, title: 'Cursor', configDir: 'Cursor' },
+  { match: /windsurf/, title: 'Windsurf', configDir: 'Windsurf' },
+  { match: /codium/, title: 'VSCodium', configDir: 'VSCodium' },
+  { match: /insiders/, title: 'Visual Studio Code - Insiders', configDir: 'Code - Insiders' },
+  { match: /^(code|code\.exe|visual studio code|code-oss)$/, title: 'Visual Studio Code', configDir: 'Code' }
+];
+const JETBRAINS_PATTERN = /idea|webstorm|pycharm|phpstorm|goland|rider|clion|rubymine|rustrover|android studio|studio64|jetbrains/;
+const OTHER_EDITOR_PATTERN = /sublime|atom|xcode|zed|notepad\+\+|kate|gedit|textmate|nova/;
+const TERMINAL_PATTERN = /terminal|iterm|konsole|xterm|alacritty|kitty|wezterm|tilix|terminator|foot|ghostty|warp|hyper|mintty|conemu|cmd|powershell|pwsh|tabby/;
+
+const LANGUAGES_BY_EXTENSION = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', rb: 'Ruby', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', kts: 'Kotlin',
+  swift: 'Swift', m: 'Objective-C', c: 'C', h: 'C', cpp: 'C++', cc: 'C++', hpp: 'C++', cs: 'C#',
+  php: 'PHP', scala: 'Scala', dart: 'Dart', lua: 'Lua', r: 'R', ex: 'Elixir', exs: 'Elixir',
+  vue: 'Vue', svelte: 'Svelte', html: 'HTML', css: 'CSS', scss: 'SCSS', less: 'Less',
+  json: 'JSON', yml: 'YAML', yaml: 'YAML', toml: 'TOML', xml: 'XML', md: 'Markdown', mdx: 'Markdown',
+  sql: 'SQL', sh: 'Shell', bash: 'Shell', zsh: 'Shell', ps1: 'PowerShell', dockerfile: 'Dockerfile'
+};
+
+const codeContextCache = new Map(); // Map<app|title, { context, at }>
+const gitRootCache = new Map(); // Map<directory, { root, at }>
+const recentFolderCache = new Map(); // Map<config file, { mtimeMs, folders }>
+
+const getAppConfigDirectory = () => {
+  if (process.platform === 'win32') return process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+  if (process.platform === 'darwin') return path.join(os.homedir(), 'Library', 'Application Support');
+  return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+};
+
+const expandHomePath = (value) => (value.startsWith('~') ? path.join(os.homedir(), value.slice(1)) : value);
+
+const getLanguageForFile = (file) => {
+  const base = path.basename(file || '').toLowerCase();
+  if (base === 'dockerfile') return 'Dockerfile';
+  const extension = base.includes('.') ? base.split('.').pop() : null;
+  return (extension && LANGUAGES_BY_EXTENSION[extension]) || null;
+};
+
+// Folders listed in a config file, re-read only when the file changes
+const readRecentFolders = (configFile, extract) => {
+  try {
+    const { mtimeMs } = fs.statSync(configFile);
+    const cached = recentFolderCache.get(configFile);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.folders;
+    const folders = extract(fs.readFileSync(configFile, 'utf8'));
+    recentFolderCache.set(configFile, { mtimeMs, folders });
+    return folders;
+  } catch {
+    return [];
+  }
+};
+
+const findRecentFolder = (folders, name) => {
+  const wanted = name.toLowerCase();
+  return folders.find(folder => path.basename(folder).toLowerCase() === wanted && fs.existsSync(folder)) || null;
+};
+
+const getVsCodeRecentFolders = (configDir) => readRecentFolders(
+  path.join(getAppConfigDirectory(), configDir, 'User', 'globalStorage', 'storage.json'),
+  // Every folder URI in the file - opened windows, backups and profile associations all list them
+  (text) => Array.from(new Set(Array.from(text.matchAll(/"(file:\/\/\/[^"]+)"/g), match => {
+    try {
+      return fileURLToPath(match[1]);
+    } catch {
+      return null;
+    }
+  }).filter(Boolean)))
+);
+
+const getJetBrainsRecentProjects = () => {
+  const roots = [path.join(getAppConfigDirectory(), 'JetBrains'), path.join(getAppConfigDirectory(), 'Google')];
+  const projects = [];
+  roots.forEach(root => {
+    let products = [];
+    try {
+      products = fs.readdirSync(root);
+    } catch {
+      return;
+    }
+    products.forEach(product => {
+      projects.push(...readRecentFolders(
+        path.join(root, product, 'options', 'recentProjects.xml'),
+        (text) => Array.from(text.matchAll(/<entry key="([^"]+)"/g), match => path.normalize(match[1].replace('$USER_HOME$', os.homedir())))
+      ));
+    });
+  });
+  return projects;
+};
+
+// Walk up to the nearest directory holding .git (a directory, or a file for worktrees / submodules)
+const findGitRoot = (startPath) => {
+  let dir = startPath;
+  try {
+    if (fs.statSync(dir).isFile()) dir = path.dirname(dir);
+  } catch {
+    return null;
+  }
+  const cached = gitRootCache.get(dir);
+  if (cached && Date.now() - cached.at < CODE_CONTEXT_CACHE_MS) return cached.root;
+  
+  let root = null;
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, '.git'))) {
+      root = current;
+      break;
+    }
+    if (path.dirname(current) === current) break;
+  }
+  gitRootCache.set(dir, { root, at: Date.now() });
+  return root;
+};
+
+const readGitInfo = (root) => {
+  let gitDir = path.join(root, '.git');
+  try {
+    if (fs.statSync(gitDir).isFile()) {
+      const pointer = fs.readFileSync(gitDir, 'utf8').match(/^gitdir:\s*(.+)$/m)?.[1]?.trim();
+      if (pointer) gitDir = path.resolve(root, pointer);
+    }
+  } catch {
+    return { repo: path.basename(root), branch: null };
+  }
+  
+  let branch = null;
+  try {
+    const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf8').trim();
+    branch = head.startsWith('ref: refs/heads/') ? head.slice('ref: refs/heads/'.length) : head.slice(0, 7); // detached: short sha
+  } catch {
+    // Unreadable HEAD - keep the repo without a branch
+  }
+  
+  // Worktrees keep the shared config in the common directory
+  let configDir = gitDir;
+  try {
+    configDir = path.resolve(gitDir, fs.readFileSync(path.join(gitDir, 'commondir'), 'utf8').trim());
+  } catch {
+    // Not a worktree
+  }
+  let repo = path.basename(root);
+  try {
+    const config = fs.readFileSync(path.join(configDir, 'config'), 'utf8');
+    const originUrl = config.match(/\[remote "origin"\][^[]*?\burl\s*=\s*(\S+)/)?.[1];
+    const slug = originUrl?.replace(/\.git$/, '').match(/[:/]([^/:]+\/[^/:]+)$/)?.[1];
+    if (slug) repo = slug;
+  } catch {
+    // No config - the folder name will do
+  }
+  return { repo, branch };
+};
+
+// Title parts for each tool: { tool, file, folder } where folder is a name or a path
+const parseEditorTitle = (title, lowerApp) => {
+  const clean = title.replace(/^[●•*]\s*/, '').replace(/\s*\[(Extension Development Host|Administrator|Unsupported)\]/g, '');
+  const lowerTitle = clean.toLowerCase();
+  
+  const vscode = VSCODE_FAMILY.find(editor => editor.match.test(lowerApp) || lowerTitle.endsWith(editor.title.toLowerCase()));
+  if (vscode) {
+    const parts = clean.split(/ [-—] /).map(part => part.trim());
+    if (parts.length > 1 && lowerTitle.endsWith(vscode.title.toLowerCase())) parts.pop();
+    // "file - folder", just "folder" when no editor is open, "(Workspace)" for multi-root workspaces
+    const folderName = parts.length > 1 ? parts[parts.length - 1].replace(/\s*\(Workspace\)$/, '') : parts[0];
+    const file = parts.length > 1 ? parts[0] : null;
+    const folder = path.isAbsolute(folderName) ? folderName : findRecentFolder(getVsCodeRecentFolders(vscode.configDir), folderName);
+    return { tool: vscode.configDir === 'Cursor' ? 'cursor' : 'vscode', file, folder };
+  }
+  
+  if (JETBRAINS_PATTERN.test(lowerApp)) {
+    const parts = clean.split(' – ').map(part => part.trim());
+    const project = parts[0].match(/^(.*?)\s*(?:\[(.+)\])?$/);
+    const projectPath = project?.[2] ? expandHomePath(project[2]) : null;
+    const file = parts[1] ? parts[1].replace(/\s*\[[^\]]+\]$/, '') : null;
+    const folder = projectPath && path.isAbsolute(projectPath) ? projectPath : findRecentFolder(getJetBrainsRecentProjects(), project?.[1] || parts[0]);
+    return { tool: 'jetbrains', file, folder };
+  }
+  
+  if (OTHER_EDITOR_PATTERN.test(lowerApp)) {
+    const first = clean.split(/ [-—] /)[0].replace(/\s*\([^)]*\)$/, '').trim();
+    return /\.[a-zA-Z0-9]+$/.test(first) ? { tool: 'editor', file: first, folder: null } : null;
+  }
+  
+  if (TERMINAL_PATTERN.test(lowerApp)) {
+    const windowsPath = clean.match(/[A-Za-z]:\\[^:*?"<>|]*/)?.[0];
+    const msysPath = clean.match(/MINGW\d*:\/([a-z])(\/[^\s]*)?/i);
+    const unixPath = clean.match(/(?:^|[\s:])((?:~|\/)[^\s:]*)/)?.[1];
+    let folder = windowsPath?.trim() ||
+      (msysPath ? `${msysPath[1].toUpperCase()}:${(msysPath[2] || '/').replace(/\//g, '\\')}` : null) ||
+      (unixPath ? expandHomePath(unixPath) : null);
+    if (folder && !fs.existsSync(folder)) folder = null;
+    return folder ? { tool: 'terminal', file: null, folder } : null;
+  }
+  
+  return null;
+};
+
+const resolveCodeContext = (title, lowerApp) => {
+  const parsed = parseEditorTitle(title, lowerApp);
+  if (!parsed) return null;
+  
+  // The file alone resolves when the title shows a full path; otherwise go through the folder
+  const fileIsAbsolute = parsed.file && path.isAbsolute(expandHomePath(parsed.file));
+  const lookupPath = fileIsAbsolute ? expandHomePath(parsed.file) : parsed.folder;
+  const root = lookupPath ? findGitRoot(lookupPath) : null;
+  const { repo, branch } = root ? readGitInfo(root) : { repo: null, branch: null };
+  
+  let file = parsed.file;
+  if (file && fileIsAbsolute && root) {
+    file = path.relative(root, expandHomePath(file)).split(path.sep).join('/');
+  }
+  return {
+    tool: parsed.tool,
+    repo,
+    branch,
+    file: file || null,
+    language: getLanguageForFile(file)
+  };
+};
+
+// Cached per window title - the monitoring loop asks every second
+const getCodeContext = (title, appName) => {
+  if (!title || !appName) return null;
+  const lowerApp = (typeof appName === 'string' ? appName : String(appName)).toLowerCase().replace(/\.exe$/, '');
+  const key = `${lowerApp}|${title}`;
+  const cached = codeContextCache.get(key);
+  if (cached && Date.now() - cached.at < CODE_CONTEXT_CACHE_MS) return cached.context;
+  
+  let context = null;
+  try {
+    context = resolveCodeContext(title, lowerApp);
+  } catch (error) {
+    console.warn('[CODE-CONTEXT] ⚠️ Could not resolve context for', title, error.message);
+  }
+  if (codeContextCache.size >= CODE_CONTEXT_CACHE_LIMIT) {
+    codeContextCache.delete(codeContextCache.keys().next().value);
+  }
+  codeContextCache.set(key, { context, at: Date.now() });
+  return context;
+};
+
+// File shown in a code editor's window title, as a file:// URL for the window's URL history
+const extractFilePathFromTitle = (title, appName) => {
+  const context = getCodeContext(title, appName);
+  return context?.file && context.tool !== 'terminal' ? `file://${context.file}` : null;
+};
+
+// ==================== Browser Extension Bridge ====================
+// The companion extension (browser-extension/) pushes the active tab over a WebSocket on 127.0.0.1,
+// so browser URLs are exact instead of guessed from window titles. Off unless browserBridgeEnabled.
+//   Connect - ws://127.0.0.1:17345/bridge, only from chrome-extension:// / moz-extension:// origins
+//   Pair    - { type: 'hello', token, browser, version } -> { type: 'paired' } or { type: 'error', error }
+//   Push    - { type: 'tab', url, title, incognito } on tab / window changes and every 20s
+// The pairing token is kept in electron-store (browserBridgeToken) and shown in Settings.
+// Client shape: { socket, buffer, paired, browser, connectedAt, tab: { url, title, at } | null }
+const BROWSER_BRIDGE_PORT = 17345;
+const BROWSER_BRIDGE_TAB_MAX_AGE_MS = 90 * 1000; // A tab not re-sent for this long is stale
+const BROWSER_BRIDGE_PAIRING_TIMEOUT_MS = 10 * 1000;
+const BROWSER_BRIDGE_MAX_FRAME_BYTES = 64 * 1024;
+const BROWSER_BRIDGE_ORIGIN_PATTERN = /^(chrome-extension|moz-extension|safari-web-extension):\/\//i;
+const WEBSOCKET_ACCEPT_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+let browserBridgeServer = null;
+let browserBridgeToken = null;
+const browserBridgeClients = new Set();
+
+const loadBrowserBridgeToken = async (regenerate = false) => {
+  const s = await initStore();
+  browserBridgeToken = regenerate ? null : s.get('browserBridgeToken', null);
+  if (!browserBridgeToken) {
+    browserBridgeToken = crypto.randomBytes(24).toString('base64url');
+    s.set('browserBridgeToken', browserBridgeToken);
+  }
+  return browserBridgeToken;
+};
+
+const isBrowserBridgeToken = (token) => {
+  if (typeof token !== 'string' || !browserBridgeToken) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(browserBridgeToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Server frames are never masked; every message here is JSON text well under 64 KB
+const sendBridgeMessage = (client, message) => {
+  const payload = Buffer.from(JSON.stringify(message));
+  const header = payload.length < 126
+    ? Buffer.from([0x81, payload.length])
+    : Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+  client.socket.write(Buffer.concat([header, payload]));
+};
+
+const closeBridgeClient = (client, code = 1000) => {
+  if (!browserBridgeClients.delete(client)) return;
+  try {
+    client.socket.end(Buffer.from([0x88, 2, code >> 8, code & 0xff]));
+  } catch (error) {
+    client.socket.destroy();
   }
-});
+  if (client.paired) {
+    console.log(`[BROWSER-BRIDGE] ${client.browser} disconnected`);
+  }
+};
 
-// Helper function to extract file path from code editor window title
-// Pattern: "filename.ext - project - Editor" or "filename.ext - Editor"
-const extractFilePathFromTitle = (title, appName) => {
-  if (!title || !appName) return null;
+const handleBridgeMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
   
-  // Ensure appName is a string
-  const appNameStr = typeof appName === 'string' ? appName : String(appName || '');
-  const lowerApp = appNameStr.toLowerCase();
+  if (!client.paired) {
+    if (message?.type !== 'hello' || !isBrowserBridgeToken(message.token)) {
+      console.warn('[BROWSER-BRIDGE] ⚠️ Rejected a connection with a wrong pairing token');
+      sendBridgeMessage(client, { type: 'error', error: 'invalid-token' });
+      closeBridgeClient(client, 1008);
+      return;
+    }
+    client.paired = true;
+    client.browser = String(message.browser || 'browser').slice(0, 40);
+    sendBridgeMessage(client, { type: 'paired' });
+    console.log(`[BROWSER-BRIDGE] ✅ ${client.browser} paired (extension ${String(message.version || 'unknown').slice(0, 20)})`);
+    return;
+  }
   
-  // Check if it's a code editor
-  const isCodeEditor = lowerApp.includes('cursor') || 
-                       lowerApp.includes('code') || 
-                       lowerApp.includes('vscode') ||
-                       lowerApp.includes('sublime') ||
-                       lowerApp.includes('atom') ||
-                       lowerApp.includes('webstorm') ||
-                       lowerApp.includes('intellij') ||
-                       lowerApp.includes('phpstorm') ||
-                       lowerApp.includes('pycharm') ||
-                       lowerApp.includes('rider') ||
-                       lowerApp.includes('clion') ||
-                       lowerApp.includes('goland') ||
-                       lowerApp.includes('rubymine') ||
-                       lowerApp.includes('android studio') ||
-                       lowerApp.includes('xcode');
-  
-  if (!isCodeEditor) return null;
-  
-  // Pattern: "filename.ext - project - Editor" or "filename.ext - Editor"
-  // Extract the file path part (before the first " - ")
-  const parts = title.split(' - ');
-  if (parts.length > 0) {
-    const filePart = parts[0].trim();
-    // Check if it looks like a file path (has extension)
-    const fileExtensionPattern = /\.([a-zA-Z0-9]+)$/;
-    if (fileExtensionPattern.test(filePart)) {
-      // Format as file:// URL or just return the file path
-      // For now, return as file path (can be converted to file:// URL if needed)
-      return `file://${filePart}`;
+  if (message?.type === 'tab') {
+    // Only web pages count - browser-internal pages and incognito tabs report no URL
+    const url = typeof message.url === 'string' && /^https?:\/\//i.test(message.url) && !message.incognito
+      ? message.url.slice(0, 2048)
+      : null;
+    client.tab = { url, title: String(message.title || '').slice(0, 512), at: Date.now() };
+  }
+};
+
+const readBridgeFrames = (client, chunk) => {
+  client.buffer = Buffer.concat([client.buffer, chunk]);
+  while (client.buffer.length >= 2) {
+    const frame = client.buffer;
+    const opcode = frame[0] & 0x0f;
+    let length = frame[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (frame.length < 4) return;
+      length = frame.readUInt16BE(2);
+      offset = 4;
+    }
+    // Clients must mask their frames; fragmented and 64-bit length frames aren't needed here
+    if (!(frame[1] & 0x80) || !(frame[0] & 0x80) || length === 127 || length > BROWSER_BRIDGE_MAX_FRAME_BYTES) {
+      closeBridgeClient(client, 1009);
+      return;
+    }
+    // Control frames (close / ping / pong) carry at most 125 bytes (RFC 6455 5.5)
+    if ((opcode & 0x8) && length > 125) {
+      closeBridgeClient(client, 1002);
+      return;
+    }
+    if (frame.length < offset + 4 + length) return;
+    
+    const mask = frame.subarray(offset, offset + 4);
+    const payload = Buffer.from(frame.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+    client.buffer = frame.subarray(offset + 4 + length);
+    
+    if (opcode === 0x1) {
+      handleBridgeMessage(client, payload.toString('utf8'));
+    } else if (opcode === 0x8) {
+      closeBridgeClient(client);
+      return;
+    } else if (opcode === 0x9) {
+      client.socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload])); // pong
     }
   }
+};
+
+const acceptBridgeConnection = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  const pathname = (req.url || '').split('?')[0];
+  if (pathname !== '/bridge' || !key || !BROWSER_BRIDGE_ORIGIN_PATTERN.test(req.headers.origin || '')) {
+    // Web pages can open localhost sockets too - anything that isn't an extension is turned away
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
   
-  return null;
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_ACCEPT_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  
+  const client = { socket, buffer: Buffer.alloc(0), paired: false, browser: null, connectedAt: Date.now(), tab: null };
+  browserBridgeClients.add(client);
+  setTimeout(() => {
+    if (!client.paired) closeBridgeClient(client, 1008);
+  }, BROWSER_BRIDGE_PAIRING_TIMEOUT_MS);
+  
+  socket.setNoDelay(true);
+  socket.on('data', (chunk) => readBridgeFrames(client, chunk));
+  socket.on('close', () => closeBridgeClient(client));
+  socket.on('error', () => closeBridgeClient(client));
+};
+
+const startBrowserBridge = async () => {
+  if (browserBridgeServer) return;
+  await loadBrowserBridgeToken();
+  const http = require('http');
+  const server = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Upgrade Required');
+  });
+  server.on('upgrade', acceptBridgeConnection);
+  server.on('error', (error) => {
+    console.error(`[BROWSER-BRIDGE] ❌ Bridge unavailable on port ${BROWSER_BRIDGE_PORT}:`, error.message);
+    if (browserBridgeServer === server) browserBridgeServer = null;
+  });
+  server.listen(BROWSER_BRIDGE_PORT, '127.0.0.1', () => {
+    console.log(`[BROWSER-BRIDGE] Listening on ws://127.0.0.1:${BROWSER_BRIDGE_PORT}/bridge`);
+  });
+  browserBridgeServer = server;
+};
+
+const stopBrowserBridge = () => {
+  browserBridgeClients.forEach(client => closeBridgeClient(client, 1001));
+  if (browserBridgeServer) {
+    browserBridgeServer.close();
+    browserBridgeServer = null;
+    console.log('[BROWSER-BRIDGE] Stopped');
+  }
+};
+
+const applyBrowserBridgeSetting = async (settings) => {
+  if (settings?.browserBridgeEnabled) {
+    await startBrowserBridge();
+  } else {
+    stopBrowserBridge();
+  }
+};
+
+// Latest fresh tab whose title is part of the focused window's title (browsers append their name)
+const getBridgeTabForWindow = (win) => {
+  const windowTitle = (win?.title || '').toLowerCase();
+  if (!windowTitle) return null;
+  let match = null;
+  browserBridgeClients.forEach(client => {
+    const tab = client.paired ? client.tab : null;
+    if (!tab || !tab.title || Date.now() - tab.at > BROWSER_BRIDGE_TAB_MAX_AGE_MS) return;
+    if (!windowTitle.includes(tab.title.toLowerCase())) return;
+    if (!match || tab.at > match.at) match = { ...tab, browser: client.browser };
+  });
+  return match;
+};
+
+// Fill in the URL from the bridge. A URL active-win already read natively is kept.
+const withBridgeUrl = (win) => {
+  if (!win || win.url || browserBridgeClients.size === 0) return win;
+  const tab = getBridgeTabForWindow(win);
+  return tab?.url ? { ...win, url: tab.url, urlSource: 'browser-extension' } : win;
+};
+
+const getBrowserBridgeStatus = async () => {
+  const settings = (await initStore()).get('settings', {});
+  return {
+    enabled: !!settings.browserBridgeEnabled,
+    listening: !!browserBridgeServer?.listening,
+    port: BROWSER_BRIDGE_PORT,
+    token: browserBridgeToken || await loadBrowserBridgeToken(),
+    clients: Array.from(browserBridgeClients).filter(client => client.paired).map(client => ({
+      browser: client.browser,
+      connectedAt: client.connectedAt,
+      lastTabAt: client.tab?.at || null
+    }))
+  };
+};
+
+ipcMain.handle('get-browser-bridge-status', async () => {
+  try {
+    return { success: true, ...(await getBrowserBridgeStatus()) };
+  } catch (error) {
+    console.error('[BROWSER-BRIDGE] Error reading status:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// New token - every paired extension has to be paired again
+ipcMain.handle('regenerate-browser-bridge-token', async () => {
+  try {
+    await loadBrowserBridgeToken(true);
+    browserBridgeClients.forEach(client => closeBridgeClient(client, 1008));
+    console.log('[BROWSER-BRIDGE] 🔑 Pairing token regenerated');
+    return { success: true, ...(await getBrowserBridgeStatus()) };
+  } catch (error) {
+    console.error('[BROWSER-BRIDGE] Error regenerating token:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Task Suggestions ====================
+// Suggests the task the user is probably working on when the focused window stops looking like the
+// running task. Everything is learned locally from the activity logs already saved to task files
+// (ActivityLog.taskId); nothing is sent anywhere.
+//   Features - app:<name>, domain:<host>, repo:<owner/name>, branch:<repo>@<branch>, word:<token>
+//              (words come from the URL path, the file and the branch name)
+//   Model    - store key taskAssociations:
+//              { version, builtAt, tasks: { "<projectId>/<taskId>": { projectId, taskId, total, features: { [feature]: count } } } }
+//              built from every task file the first time it is needed, then updated as logs are added
+//   Scoring  - for each feature seen in the last few minutes of focus: how often the task's logs had
+//              it, weighted by feature kind and by how few tasks share it; plus how many words of the
+//              task name appear in the window titles
+const TASK_ASSOCIATIONS_VERSION = 1;
+const TASK_ASSOCIATION_FEATURE_LIMIT = 300; // Per task, least frequent features are dropped first
+const TASK_ASSOCIATIONS_SAVE_DELAY_MS = 30 * 1000;
+const TASK_SUGGESTION_WINDOW_MS = 3 * 60 * 1000; // Focus samples scored together
+const TASK_SUGGESTION_MIN_SAMPLES = 60; // About a minute of focus before anything is suggested
+const TASK_SUGGESTION_MIN_SCORE = 0.5;
+const TASK_SUGGESTION_MARGIN = 1.5; // Suggested task has to beat the running one by this factor
+const TASK_SUGGESTION_NAME_WEIGHT = 2;
+const TASK_FEATURE_WEIGHTS = { app: 1, domain: 2, repo: 3, branch: 4, word: 0.5 };
+const TASK_TOKEN_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'www', 'com', 'org', 'net', 'http', 'https', 'html', 'htm', 'php',
+  'index', 'src', 'lib', 'app', 'main', 'master', 'develop', 'feature', 'bugfix', 'hotfix', 'new', 'tab',
+  'untitled', 'google', 'chrome', 'firefox', 'edge', 'safari', 'visual', 'studio', 'code'
+]);
+
+let taskAssociations = null;
+let taskAssociationsLoading = null;
+let taskAssociationsSaveTimer = null;
+let taskSuggestionSamples = []; // [{ at, features: string[], words: string[] }], newest last
+
+const tokenizeForTaskMatch = (text) => {
+  if (!text) return [];
+  return String(text).toLowerCase().split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3 && !/^\d+$/.test(token) && !TASK_TOKEN_STOPWORDS.has(token));
+};
+
+// { app, url, codeContext } - the activity log fields, or the focused window from the monitoring loop
+const extractTaskFeatures = ({ app, url, codeContext }) => {
+  const features = new Set();
+  const appName = (app || '').toLowerCase().replace(/\.exe$/, '').trim();
+  if (appName && appName !== 'unknown') features.add(`app:${appName}`);
+  if (url && /^https?:\/\//i.test(url)) {
+    try {
+      const parsed = new URL(url);
+      features.add(`domain:${parsed.hostname.replace(/^www\./, '')}`);
+      tokenizeForTaskMatch(decodeURIComponent(parsed.pathname)).slice(0, 8).forEach(token => features.add(`word:${token}`));
+    } catch (error) {
+      // Not a URL we can read - the app feature still counts
+    }
+  }
+  if (codeContext?.repo) {
+    const repo = codeContext.repo.toLowerCase();
+    features.add(`repo:${repo}`);
+    if (codeContext.branch) {
+      features.add(`branch:${repo}@${codeContext.branch.toLowerCase()}`);
+      tokenizeForTaskMatch(codeContext.branch).forEach(token => features.add(`word:${token}`));
+    }
+  }
+  if (codeContext?.file) {
+    tokenizeForTaskMatch(codeContext.file).forEach(token => features.add(`word:${token}`));
+  }
+  return Array.from(features);
+};
+
+const getTaskAssociationKey = (projectId, taskId) => `${projectId}/${taskId}`;
+
+const learnTaskAssociationsFromLog = (model, projectId, taskId, log) => {
+  if (!projectId || !taskId || !log || log.isIdle) return;
+  const features = extractTaskFeatures({ app: log.activeWindow, url: log.activeUrl, codeContext: log.codeContext });
+  if (features.length === 0) return;
+  const key = getTaskAssociationKey(projectId, taskId);
+  const entry = model.tasks[key] || (model.tasks[key] = { projectId: String(projectId), taskId: String(taskId), total: 0, features: {} });
+  entry.total++;
+  features.forEach(feature => {
+    entry.features[feature] = (entry.features[feature] || 0) + 1;
+  });
+  const featureNames = Object.keys(entry.features);
+  if (featureNames.length > TASK_ASSOCIATION_FEATURE_LIMIT) {
+    featureNames
+      .sort((a, b) => entry.features[a] - entry.features[b])
+      .slice(0, featureNames.length - TASK_ASSOCIATION_FEATURE_LIMIT)
+      .forEach(feature => delete entry.features[feature]);
+  }
+};
+
+const buildTaskAssociations = () => {
+  const model = { version: TASK_ASSOCIATIONS_VERSION, builtAt: new Date().toISOString(), tasks: {} };
+  const trackingDataPath = path.join(getBaseDataDirectory(), 'tracking-data');
+  if (!trackingDataExists(trackingDataPath)) return model;
+  let logCount = 0;
+  for (const taskFile of findAllTaskFiles(trackingDataPath)) {
+    try {
+      const data = readTaskDocument(taskFile.filePath);
+      (data?.trackingData?.activityLogs || []).forEach(log => {
+        learnTaskAssociationsFromLog(model, taskFile.projectId, taskFile.taskId, log);
+        logCount++;
+      });
+    } catch (error) {
+      console.error(`[TASK-SUGGEST] Error reading ${taskFile.filePath}:`, error.message);
+    }
+  }
+  console.log(`[TASK-SUGGEST] 🧠 Learned task associations from ${logCount} activity logs across ${Object.keys(model.tasks).length} tasks`);
+  return model;
+};
+
+const loadTaskAssociations = async () => {
+  if (taskAssociations) return taskAssociations;
+  if (!taskAssociationsLoading) {
+    taskAssociationsLoading = (async () => {
+      const s = await initStore();
+      const stored = s.get('taskAssociations', null);
+      if (stored?.version === TASK_ASSOCIATIONS_VERSION && stored.tasks) {
+        taskAssociations = stored;
+      } else {
+        taskAssociations = buildTaskAssociations();
+        s.set('taskAssociations', taskAssociations);
+      }
+      return taskAssociations;
+    })().finally(() => {
+      taskAssociationsLoading = null;
+    });
+  }
+  return taskAssociationsLoading;
+};
+
+const saveTaskAssociations = async () => {
+  if (taskAssociationsSaveTimer) {
+    clearTimeout(taskAssociationsSaveTimer);
+    taskAssociationsSaveTimer = null;
+  }
+  if (!taskAssociations) return;
+  (await initStore()).set('taskAssociations', taskAssociations);
+};
+
+// Called for each new activity log saved to a task
+const learnTaskAssociation = async (projectId, taskId, log) => {
+  const model = await loadTaskAssociations();
+  learnTaskAssociationsFromLog(model, projectId, taskId, log);
+  if (!taskAssociationsSaveTimer) {
+    taskAssociationsSaveTimer = setTimeout(() => {
+      saveTaskAssociations().catch(error => console.error('[TASK-SUGGEST] Error saving task associations:', error));
+    }, TASK_ASSOCIATIONS_SAVE_DELAY_MS);
+  }
+};
+
+// Called with each focused window while tracking (the monitoring loop's currentWindow)
+const recordTaskSuggestionSample = (currentWindow) => {
+  const now = Date.now();
+  taskSuggestionSamples.push({
+    at: now,
+    features: extractTaskFeatures(currentWindow),
+    words: tokenizeForTaskMatch(currentWindow.title)
+  });
+  const cutoff = now - TASK_SUGGESTION_WINDOW_MS;
+  while (taskSuggestionSamples.length > 0 && taskSuggestionSamples[0].at < cutoff) {
+    taskSuggestionSamples.shift();
+  }
+};
+
+// candidates: [{ id, projectId, name }] - the workspace's open tasks.
+// Returns [{ projectId, taskId, score, reasons: [{ kind, value }] }], best first
+const scoreTaskCandidates = (model, candidates, samples) => {
+  const featureShare = new Map(); // Feature -> share of samples that had it
+  const wordShare = new Map();
+  samples.forEach(sample => {
+    sample.features.forEach(feature => featureShare.set(feature, (featureShare.get(feature) || 0) + 1 / samples.length));
+    new Set([...sample.words, ...sample.features.filter(f => f.startsWith('word:')).map(f => f.slice(5))])
+      .forEach(word => wordShare.set(word, (wordShare.get(word) || 0) + 1 / samples.length));
+  });
+
+  const learnedTasks = Object.values(model.tasks);
+  const taskFrequency = (feature) => learnedTasks.reduce((count, entry) => count + (entry.features[feature] ? 1 : 0), 0);
+  const specificity = new Map();
+  featureShare.forEach((share, feature) => {
+    specificity.set(feature, Math.log(1 + learnedTasks.length / Math.max(1, taskFrequency(feature))));
+  });
+
+  return candidates.map(task => {
+    const entry = model.tasks[getTaskAssociationKey(task.projectId, task.id)];
+    const contributions = [];
+    if (entry && entry.total > 0) {
+      featureShare.forEach((share, feature) => {
+        const count = entry.features[feature];
+        if (!count) return;
+        const kind = feature.slice(0, feature.indexOf(':'));
+        const value = feature.slice(kind.length + 1);
+        contributions.push({ kind, value, score: share * (count / entry.total) * (TASK_FEATURE_WEIGHTS[kind] || 1) * specificity.get(feature) });
+      });
+    }
+    const nameWords = Array.from(new Set(tokenizeForTaskMatch(task.name)));
+    if (nameWords.length > 0) {
+      const matched = nameWords.filter(word => wordShare.has(word));
+      if (matched.length > 0) {
+        const overlap = matched.reduce((sum, word) => sum + wordShare.get(word), 0) / nameWords.length;
+        contributions.push({ kind: 'name', value: matched.join(' '), score: overlap * TASK_SUGGESTION_NAME_WEIGHT });
+      }
+    }
+    contributions.sort((a, b) => b.score - a.score);
+    return {
+      projectId: String(task.projectId),
+      taskId: String(task.id),
+      score: contributions.reduce((sum, c) => sum + c.score, 0),
+      reasons: contributions.slice(0, 3).map(({ kind, value }) => ({ kind, value }))
+    };
+  }).sort((a, b) => b.score - a.score);
 };
 
+// Best other task for what has been on screen lately, or null when the running task still fits
+const getTaskSuggestion = async (candidates) => {
+  if (!currentProjectId || !currentTaskId || !Array.isArray(candidates) || candidates.length === 0) return null;
+  const samples = taskSuggestionSamples.filter(sample => Date.now() - sample.at <= TASK_SUGGESTION_WINDOW_MS);
+  if (samples.length < TASK_SUGGESTION_MIN_SAMPLES) return null;
+
+  const ranked = scoreTaskCandidates(await loadTaskAssociations(), candidates, samples);
+  const runningKey = getTaskAssociationKey(currentProjectId, currentTaskId);
+  const running = ranked.find(task => getTaskAssociationKey(task.projectId, task.taskId) === runningKey);
+  const best = ranked.find(task => getTaskAssociationKey(task.projectId, task.taskId) !== runningKey);
+  if (!best || best.score < TASK_SUGGESTION_MIN_SCORE) return null;
+  if (running && best.score < running.score * TASK_SUGGESTION_MARGIN) return null;
+
+  const totalScore = ranked.reduce((sum, task) => sum + task.score, 0);
+  return { ...best, confidence: totalScore > 0 ? best.score / totalScore : 0 };
+};
+
+ipcMain.handle('get-task-suggestion', async (event, candidates) => {
+  try {
+    const suggestion = await getTaskSuggestion(candidates);
+    if (suggestion && isDev) {
+      console.log(`[TASK-SUGGEST] Suggesting task ${suggestion.taskId} (score ${suggestion.score.toFixed(2)}):`, suggestion.reasons);
+    }
+    return { success: true, suggestion };
+  } catch (error) {
+    console.error('[TASK-SUGGEST] Error suggesting a task:', error);
+    return { success: false, suggestion: null, error: error.message };
+  }
+});
+
 // Helper function to extract URL from window title (for browsers)
 // Improved version that extracts URLs more aggressively
 const extractUrlFromTitle = (title, appName) => {
@@ -4002,7 +7485,6 @@ const extractUrlFromTitle = (title, appName) => {
 // Get active window info
 ipcMain.handle('get-active-window', async () => {
   try {
-    // Try active-win first
     const win = await getActiveWindow();
     if (win) {
       const url = win.url || extractUrlFromTitle(win.title, win.owner);
@@ -4010,23 +7492,11 @@ ipcMain.handle('get-active-window', async () => {
         title: win.title || 'Unknown',
         owner: win.owner || 'Unknown',
         url: url,
-        app: win.owner || win.title || 'Unknown'
+        app: win.owner || win.title || 'Unknown',
+        codeContext: getCodeContext(win.title, getWindowOwnerName(win))
       };
     }
     
-    // Fallback to Windows PowerShell method
-    if (process.platform === 'win32') {
-      const windowInfo = await getActiveWindowWindows();
-      if (windowInfo) {
-        // Try to extract URL from title for browsers
-        const extractedUrl = extractUrlFromTitle(windowInfo.title, windowInfo.app);
-        return {
-          ...windowInfo,
-          url: extractedUrl || windowInfo.url
-        };
-      }
-    }
-    
     return { title: 'Unknown', owner: 'Unknown', url: null, app: 'Unknown' };
   } catch (error) {
     console.error('Error getting active window:', error);
@@ -4051,502 +7521,88 @@ ipcMain.handle('get-activity-insights', async (event, timeWindow) => {
   return null; // Renderer should handle processing
 });
 
-// Helper function to safely execute PowerShell commands with better error handling
-const execPowerShell = async (command, options = {}) => {
-  try {
-    const result = await execAsync(command, {
-      timeout: options.timeout || 2000,
-      maxBuffer: options.maxBuffer || 1024,
-      encoding: 'utf8',
-      ...options
-    });
-    return result;
-  } catch (error) {
-    // Extract error details from exec error object
-    const errorDetails = {
-      message: error.message,
-      code: error.code,
-      signal: error.signal,
-      stderr: error.stderr || '',
-      stdout: error.stdout || ''
-    };
-    // Create a new error with all details
-    const enhancedError = new Error(errorDetails.message);
-    Object.assign(enhancedError, errorDetails);
-    throw enhancedError;
-  }
-};
-
-// Windows API-based keyboard tracking fallback (Polling method with transition detection)
-let keyboardTrackingInterval = null;
-let lastKeyStates = new Map(); // Map<keyCode, wasPressed>
-
-const initKeyboardTrackingWindows = async () => {
-  if (process.platform !== 'win32') return;
-  
-  // Check if PowerShell is available
-  try {
-    await execAsync('powershell -Command "exit 0"', { timeout: 1000 });
-  } catch (error) {
-    console.error('[KEY-WIN] PowerShell is not available:', error.message);
-    return;
-  }
+// Input pipeline - each key press / left click reported by the tracking backend updates the global
+// counters (idle detection), the focused window's stats and the current task
+const recordTaskInput = (field) => {
+  if (!currentTaskId || !currentProjectId) return;
+  const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
+  if (!taskData) return;
+  taskData[field]++;
   
-  try {
-    const tmpDir = os.tmpdir();
-    const scriptPath = path.join(tmpDir, 'keyboard-tracker.ps1');
-    
-    // Create reusable script that outputs key states
-    // Uses GetAsyncKeyState - bit 15 (0x8000) = key is currently down
-    // Bit 0 (0x0001) = key was pressed since last call (transition bit)
-    const psScript = `Add-Type -TypeDefinition @'
-using System;
-using System.Runtime.InteropServices;
-public class KeyChecker {
-  [DllImport("user32.dll")]
-  public static extern short GetAsyncKeyState(int vKey);
-  
-  public static bool IsKeyPressed(int vKey) {
-    short state = GetAsyncKeyState(vKey);
-    // Check if key is currently down (bit 15) OR was just pressed (bit 0)
-    return (state & 0x8000) != 0 || (state & 0x0001) != 0;
-  }
-}
-'@
-$keys = @()
-# Check A-Z (65-90), 0-9 (48-57), Space (32), Enter (13), Tab (9), Backspace (8)
-for ($i = 65; $i -le 90; $i++) { if ([KeyChecker]::IsKeyPressed($i)) { $keys += $i } }
-for ($i = 48; $i -le 57; $i++) { if ([KeyChecker]::IsKeyPressed($i)) { $keys += $i } }
-if ([KeyChecker]::IsKeyPressed(32)) { $keys += 32 }  # Space
-if ([KeyChecker]::IsKeyPressed(13)) { $keys += 13 }  # Enter
-if ([KeyChecker]::IsKeyPressed(9)) { $keys += 9 }    # Tab
-if ([KeyChecker]::IsKeyPressed(8)) { $keys += 8 }    # Backspace
-$keys -join ','`;
-
-    // Write script with UTF-8 encoding (PowerShell prefers UTF-8)
-    fs.writeFileSync(scriptPath, psScript, { encoding: 'utf8' });
-    
-    // Verify script file was created
-    if (!fs.existsSync(scriptPath)) {
-      throw new Error(`Failed to create keyboard tracking script at ${scriptPath}`);
-    }
-    
-    // Test script execution once before starting polling
-    try {
-      // Escape path for PowerShell (handle spaces and special characters)
-      const escapedPath = scriptPath.replace(/"/g, '""').replace(/'/g, "''");
-      const testResult = await execPowerShell(
-        `powershell -NoProfile -ExecutionPolicy Bypass -File "${escapedPath}"`,
-        { timeout: 2000, maxBuffer: 1024 }
-      );
-      if (isDev) {
-        console.log('[KEY-WIN] Script test successful');
-      }
-    } catch (testError) {
-      console.error('[KEY-WIN] Script test failed:', testError.message);
-      if (testError.stderr) {
-        console.error('[KEY-WIN] PowerShell stderr:', testError.stderr);
-      }
-      if (testError.stdout) {
-        console.error('[KEY-WIN] PowerShell stdout:', testError.stdout);
-      }
-      throw new Error(`Keyboard tracking script validation failed: ${testError.message}`);
-    }
-    
-    // Use polling method to detect keyboard activity
-    // This checks keyboard state every 50ms for better responsiveness
-    keyboardTrackingInterval = setInterval(async () => {
-      try {
-        // Verify script still exists before executing
-        if (!fs.existsSync(scriptPath)) {
-          if (isDev) {
-            console.warn('[KEY-WIN] Script file missing, recreating...');
-          }
-          fs.writeFileSync(scriptPath, psScript, { encoding: 'utf8' });
-        }
-        
-        // Escape path for PowerShell (handle spaces and special characters)
-        const escapedPath = scriptPath.replace(/"/g, '""').replace(/'/g, "''");
-        const { stdout, stderr } = await execPowerShell(
-          `powershell -NoProfile -ExecutionPolicy Bypass -File "${escapedPath}"`,
-          { timeout: 1000, maxBuffer: 1024 }
-        );
-        
-        if (stderr && stderr.trim() && isDev) {
-          console.warn('[KEY-WIN] PowerShell stderr:', stderr.trim());
-        }
-        
-        const result = stdout.trim();
-        const currentKeys = new Set();
-        
-        if (result) {
-          result.split(',').forEach(k => {
-            const keyCode = parseInt(k);
-            if (!isNaN(keyCode)) {
-              currentKeys.add(keyCode);
-            }
-          });
-        }
-        
-        // Detect new key presses (keys that are pressed now but weren't before)
-        currentKeys.forEach(keyCode => {
-          const wasPressed = lastKeyStates.get(keyCode) || false;
-          if (!wasPressed) {
-            // New key press detected!
-            keystrokeCount++; // Global counter for idle detection
-            lastActivityTimestamp = Date.now();
-            
-            // Increment per-window counter if we have a current window
-            if (currentWindowKey) {
-              const stats = getWindowStats(currentWindowKey);
-              stats.keystrokes++;
-            }
-            
-            // Increment per-task counter if we have a current task
-            if (currentTaskId && currentProjectId) {
-              const taskStats = getTaskStats(currentProjectId, currentTaskId);
-              if (taskStats) {
-                taskStats.keystrokes++;
-              }
-            }
-            
-            if (isTrackingActive && mainWindow) {
-              mainWindow.webContents.send('keystroke-update', keystrokeCount);
-            }
-            if (isDev) {
-              console.log('[KEY-WIN] Keystroke detected (keyCode:', keyCode, ') | Total:', keystrokeCount);
-            }
-          }
-          // Update state: key is now pressed
-          lastKeyStates.set(keyCode, true);
-        });
-        
-        // Mark keys that are no longer pressed
-        lastKeyStates.forEach((wasPressed, keyCode) => {
-          if (!currentKeys.has(keyCode)) {
-            lastKeyStates.set(keyCode, false);
-          }
-        });
-        
-      } catch (error) {
-        // Only log errors occasionally to avoid spam (every 50th error)
-        if (isDev && (!keyboardTrackingInterval._errorCount || keyboardTrackingInterval._errorCount % 50 === 0)) {
-          console.error('[KEY-WIN] Polling error:', error.message);
-          if (error.stderr) {
-            console.error('[KEY-WIN] PowerShell stderr:', error.stderr);
-          }
-          if (error.stdout) {
-            console.error('[KEY-WIN] PowerShell stdout:', error.stdout);
-          }
-        }
-        if (!keyboardTrackingInterval._errorCount) {
-          keyboardTrackingInterval._errorCount = 0;
-        }
-        keyboardTrackingInterval._errorCount++;
-      }
-    }, 200); // Check every 200ms (reduced from 50ms to prevent resource exhaustion)
-    
-    console.log('✅ Windows API keyboard tracking initialized (polling method)');
-    if (isDev) {
-      console.log('   Script path:', scriptPath);
-    }
-  } catch (error) {
-    console.error('Failed to initialize Windows keyboard tracking:', error.message);
-    if (isDev) {
-      console.error('Full error:', error);
-      if (error.stderr) {
-        console.error('PowerShell stderr:', error.stderr);
-      }
-    }
-  }
-};
-
-// Initialize system-wide tracking using uiohook-napi (unified keyboard and mouse)
-const initSystemTracking = () => {
-  try {
-    if (!uIOhook) {
-      const uiohookModule = require('uiohook-napi');
-      uIOhook = uiohookModule.uIOhook || uiohookModule;
-      UiohookKey = uiohookModule.UiohookKey;
-    }
-    
-    // Keyboard Listener
-    uIOhook.on('keydown', (e) => {
-      keystrokeCount++; // Global counter for idle detection
-      lastActivityTimestamp = Date.now();
-      
-      // Increment per-window counter if we have a current window
-      if (currentWindowKey) {
-        const stats = getWindowStats(currentWindowKey);
-        stats.keystrokes++;
-      }
-      
-      // Increment per-task counter if we have a current task
-      if (currentTaskId && currentProjectId) {
-        const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
-        if (taskData) {
-          taskData.keystrokes++;
-          
-          // Also track per-window within task
-          if (currentWindowKey) {
-            if (!taskData.activeWindows.has(currentWindowKey)) {
-              taskData.activeWindows.set(currentWindowKey, {
-                keystrokes: 0,
-                mouseClicks: 0,
-                timeSpent: 0,
-                startTime: Date.now(),
-                lastSeen: Date.now(),
-                urls: []
-              });
-            }
-            const windowData = taskData.activeWindows.get(currentWindowKey);
-            // Increment keystrokes (this is current session only, will be merged on save)
-            windowData.keystrokes = (windowData.keystrokes || 0) + 1;
-            windowData.lastSeen = Date.now();
-          }
-          
-          // Schedule real-time save (debounced)
-          scheduleTaskSave(currentProjectId, currentTaskId);
-        }
-      }
-      
-      if (isTrackingActive && mainWindow) {
-        mainWindow.webContents.send('keystroke-update', keystrokeCount);
-      }
-      if (isDev) {
-        console.log('[KEY] Pressed keycode:', e.keycode, '| Total keystrokes:', keystrokeCount);
-      }
-    });
-
-    // Mouse Listener
-    uIOhook.on('mousedown', (e) => {
-      // e.button: 1 = left, 2 = right, 3 = middle
-      if (e.button === 1) { 
-        mouseClickCount++; // Global counter for idle detection
-        lastActivityTimestamp = Date.now();
-        
-        // Increment per-window counter if we have a current window
-        if (currentWindowKey) {
-          const stats = getWindowStats(currentWindowKey);
-          stats.clicks++;
-        }
-        
-        // Increment per-task counter if we have a current task
-        if (currentTaskId && currentProjectId) {
-          const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
-          if (taskData) {
-            taskData.mouseClicks++;
-            
-            // Also track per-window within task
-            if (currentWindowKey) {
-              if (!taskData.activeWindows.has(currentWindowKey)) {
-                taskData.activeWindows.set(currentWindowKey, {
-                  keystrokes: 0,
-                  mouseClicks: 0,
-                  timeSpent: 0,
-                  startTime: Date.now(),
-                  lastSeen: Date.now(),
-                  urls: []
-                });
-              }
-              const windowData = taskData.activeWindows.get(currentWindowKey);
-              // Increment mouse clicks (this is current session only, will be merged on save)
-              windowData.mouseClicks = (windowData.mouseClicks || 0) + 1;
-              windowData.lastSeen = Date.now();
-            }
-            
-            // Schedule real-time save (debounced)
-            scheduleTaskSave(currentProjectId, currentTaskId);
-          }
-        }
-        
-        if (isTrackingActive && mainWindow) {
-          mainWindow.webContents.send('mouseclick-update', mouseClickCount);
-        }
-        if (isDev) {
-          console.log('[MOUSE] Left click detected | Total clicks:', mouseClickCount);
-        }
-      }
-    });
-
-    uIOhook.start();
-    isUiohookInitialized = true;
-    console.log('✅ System-wide tracking initialized (uiohook-napi)');
-    return true;
-  } catch (error) {
-    console.error('Failed to initialize uiohook-napi:', error.message);
-    if (isDev) {
-      console.error('Full error:', error);
+  // Also track per-window within task
+  if (currentWindowKey) {
+    if (!taskData.activeWindows.has(currentWindowKey)) {
+      taskData.activeWindows.set(currentWindowKey, {
+        keystrokes: 0,
+        mouseClicks: 0,
+        timeSpent: 0,
+        startTime: Date.now(),
+        lastSeen: Date.now(),
+        urls: []
+      });
     }
-    isUiohookInitialized = false;
-    return false;
+    const windowData = taskData.activeWindows.get(currentWindowKey);
+    // Current session only, merged on save
+    windowData[field] = (windowData[field] || 0) + 1;
+    windowData.lastSeen = Date.now();
   }
+  
+  // Schedule real-time save (debounced)
+  scheduleTaskSave(currentProjectId, currentTaskId);
 };
 
-// Windows API-based mouse tracking fallback (Polling method)
-let mouseTrackingInterval = null;
-let lastMouseState = false;
-
-const initMouseTrackingWindows = async () => {
-  if (process.platform !== 'win32') return;
-  
-  // Check if PowerShell is available
-  try {
-    await execAsync('powershell -Command "exit 0"', { timeout: 1000 });
-  } catch (error) {
-    console.error('[MOUSE-WIN] PowerShell is not available:', error.message);
-    return;
+const recordKeystroke = () => {
+  keystrokeCount++; // Global counter for idle detection
+  lastActivityTimestamp = Date.now();
+  if (currentWindowKey) {
+    getWindowStats(currentWindowKey).keystrokes++;
   }
+  recordTaskInput('keystrokes');
   
-  try {
-    const tmpDir = os.tmpdir();
-    const scriptPath = path.join(tmpDir, 'mouse-tracker.ps1');
-    
-    // Create reusable script that checks mouse button state
-    // VK_LBUTTON = 0x01, VK_RBUTTON = 0x02, VK_MBUTTON = 0x04
-    const psScript = `Add-Type -TypeDefinition @'
-using System;
-using System.Runtime.InteropServices;
-public class MouseChecker {
-  [DllImport("user32.dll")]
-  public static extern short GetAsyncKeyState(int vKey);
-  
-  public static bool IsLeftMousePressed() {
-    short state = GetAsyncKeyState(0x01); // VK_LBUTTON
-    // Check if button is currently down (bit 15) OR was just pressed (bit 0)
-    return (state & 0x8000) != 0 || (state & 0x0001) != 0;
+  if (isTrackingActive && mainWindow) {
+    mainWindow.webContents.send('keystroke-update', keystrokeCount);
   }
-}
-'@
-if ([MouseChecker]::IsLeftMousePressed()) { Write-Output "1" } else { Write-Output "0" }`;
+  if (isDev) {
+    console.log('[KEY] Keystroke | Total keystrokes:', keystrokeCount);
+  }
+};
 
-    // Write script with UTF-8 encoding (PowerShell prefers UTF-8)
-    fs.writeFileSync(scriptPath, psScript, { encoding: 'utf8' });
-    
-    // Verify script file was created
-    if (!fs.existsSync(scriptPath)) {
-      throw new Error(`Failed to create mouse tracking script at ${scriptPath}`);
-    }
-    
-    // Test script execution once before starting polling
-    try {
-      // Escape path for PowerShell (handle spaces and special characters)
-      const escapedPath = scriptPath.replace(/"/g, '""').replace(/'/g, "''");
-      const testResult = await execPowerShell(
-        `powershell -NoProfile -ExecutionPolicy Bypass -File "${escapedPath}"`,
-        { timeout: 2000, maxBuffer: 1024 }
-      );
-      if (isDev) {
-        console.log('[MOUSE-WIN] Script test successful');
-      }
-    } catch (testError) {
-      console.error('[MOUSE-WIN] Script test failed:', testError.message);
-      if (testError.stderr) {
-        console.error('[MOUSE-WIN] PowerShell stderr:', testError.stderr);
-      }
-      if (testError.stdout) {
-        console.error('[MOUSE-WIN] PowerShell stdout:', testError.stdout);
-      }
-      throw new Error(`Mouse tracking script validation failed: ${testError.message}`);
-    }
-    
-    // Use polling method to detect mouse clicks
-    // This checks mouse button state every 30ms for very responsive click detection
-    mouseTrackingInterval = setInterval(async () => {
-      try {
-        // Verify script still exists before executing
-        if (!fs.existsSync(scriptPath)) {
-          if (isDev) {
-            console.warn('[MOUSE-WIN] Script file missing, recreating...');
-          }
-          fs.writeFileSync(scriptPath, psScript, { encoding: 'utf8' });
-        }
-        
-        // Escape path for PowerShell (handle spaces and special characters)
-        const escapedPath = scriptPath.replace(/"/g, '""').replace(/'/g, "''");
-        const { stdout, stderr } = await execPowerShell(
-          `powershell -NoProfile -ExecutionPolicy Bypass -File "${escapedPath}"`,
-          { timeout: 1000, maxBuffer: 1024 }
-        );
-        
-        if (stderr && stderr.trim() && isDev) {
-          console.warn('[MOUSE-WIN] PowerShell stderr:', stderr.trim());
-        }
-        
-        const result = stdout.trim();
-        const isPressed = result === '1';
-        
-        // Detect click (transition from not pressed to pressed)
-        if (isPressed && !lastMouseState) {
-          mouseClickCount++; // Global counter for idle detection
-          lastActivityTimestamp = Date.now();
-          
-          // Increment per-window counter if we have a current window
-          if (currentWindowKey) {
-            const stats = getWindowStats(currentWindowKey);
-            stats.clicks++;
-          }
-          
-          // Increment per-task counter if we have a current task
-          if (currentTaskId && currentProjectId) {
-            const taskStats = getTaskStats(currentProjectId, currentTaskId);
-            if (taskStats) {
-              taskStats.clicks++;
-            }
-          }
-          
-          if (isTrackingActive && mainWindow) {
-            mainWindow.webContents.send('mouseclick-update', mouseClickCount);
-          }
-          if (isDev) {
-            console.log('[MOUSE-WIN] Left click detected | Total:', mouseClickCount);
-          }
-        }
-        lastMouseState = isPressed;
-      } catch (error) {
-        // Only log errors occasionally to avoid spam (every 50th error)
-        if (isDev && (!mouseTrackingInterval._errorCount || mouseTrackingInterval._errorCount % 50 === 0)) {
-          console.error('[MOUSE-WIN] Polling error:', error.message);
-          if (error.stderr) {
-            console.error('[MOUSE-WIN] PowerShell stderr:', error.stderr);
-          }
-          if (error.stdout) {
-            console.error('[MOUSE-WIN] PowerShell stdout:', error.stdout);
-          }
-        }
-        if (!mouseTrackingInterval._errorCount) {
-          mouseTrackingInterval._errorCount = 0;
-        }
-        mouseTrackingInterval._errorCount++;
-      }
-    }, 200); // Check every 200ms (reduced from 30ms to prevent resource exhaustion)
-    
-    console.log('✅ Windows API mouse tracking initialized (polling method)');
-    if (isDev) {
-      console.log('   Script path:', scriptPath);
-    }
-  } catch (error) {
-    console.error('Failed to initialize Windows mouse tracking:', error.message);
-    if (isDev) {
-      console.error('Full error:', error);
-      if (error.stderr) {
-        console.error('PowerShell stderr:', error.stderr);
-      }
-    }
+const recordMouseClick = () => {
+  mouseClickCount++; // Global counter for idle detection
+  lastActivityTimestamp = Date.now();
+  if (currentWindowKey) {
+    getWindowStats(currentWindowKey).clicks++;
+  }
+  recordTaskInput('mouseClicks');
+  
+  if (isTrackingActive && mainWindow) {
+    mainWindow.webContents.send('mouseclick-update', mouseClickCount);
+  }
+  if (isDev) {
+    console.log('[MOUSE] Left click detected | Total clicks:', mouseClickCount);
   }
 };
 
-// Legacy function names for compatibility (now handled by initSystemTracking)
-const initKeyboardTracking = async () => {
-  // uiohook-napi handles both keyboard and mouse in initSystemTracking
-  // This function is kept for compatibility but does nothing
-  return;
+let trackingInputSubscriptions = [];
+
+const startTrackingInput = async () => {
+  const backend = getTrackingBackend();
+  if (trackingInputSubscriptions.length === 0) {
+    trackingInputSubscriptions = [backend.onKey(recordKeystroke), backend.onClick(recordMouseClick)];
+  }
+  const started = await backend.startInput();
+  if (!started) {
+    console.warn(`⚠️  No keyboard/mouse hooks available from the ${backend.name} backend - only window tracking will run`);
+  }
+  return started;
 };
 
-const initMouseTracking = async () => {
-  // uiohook-napi handles both keyboard and mouse in initSystemTracking
-  // This function is kept for compatibility but does nothing
-  return;
+const stopTrackingInput = async () => {
+  trackingInputSubscriptions.forEach(unsubscribe => unsubscribe());
+  trackingInputSubscriptions = [];
+  if (trackingBackend) {
+    await trackingBackend.stopInput();
+  }
 };
 
 // Start activity monitoring
@@ -4576,17 +7632,8 @@ ipcMain.handle('start-activity-monitoring', async (event, projectId, taskId, tas
     }
   }
 
-  // Initialize system-wide tracking using uiohook-napi
-  const trackingInitialized = initSystemTracking();
-  
-  // If uiohook-napi failed, fall back to PowerShell method (but with slower polling)
-  if (!trackingInitialized && process.platform === 'win32') {
-    console.warn('⚠️  uiohook-napi not initialized - falling back to Windows API method (slower polling)');
-    console.warn('   This will use PowerShell polling at 200ms intervals (reduced from 30-50ms)');
-    // Use Windows API fallback with slower polling to prevent resource exhaustion
-    await initKeyboardTrackingWindows();
-    await initMouseTrackingWindows();
-  }
+  // Keyboard and mouse hooks from the tracking backend
+  await startTrackingInput();
 
   // Send all windows stats every 3 seconds (separate interval)
   allWindowsUpdateInterval = setInterval(() => {
@@ -4786,7 +7833,7 @@ ipcMain.handle('start-activity-monitoring', async (event, projectId, taskId, tas
               
               // Note: Keystrokes and clicks are tracked directly in event handlers
               // perWindowStats is used for reference, but windowData.keystrokes/clicks
-              // are incremented directly in uIOhook event handlers
+              // are incremented directly by the input pipeline (recordKeystroke / recordMouseClick)
               // On save, we'll merge with saved data properly
             }
             
@@ -4968,6 +8015,7 @@ ipcMain.handle('start-activity-monitoring', async (event, projectId, taskId, tas
           owner: ownerName,
           url: url,
           app: ownerName,
+          codeContext: getCodeContext(win.title, ownerName), // { tool, repo, branch, file, language } for editors and terminals
           keystrokes: windowStats.keystrokes, // Per-window keystrokes
           mouseClicks: windowStats.clicks, // Per-window clicks
           // Per-task stats (cumulative across all windows for this task)
@@ -4980,387 +8028,11 @@ ipcMain.handle('start-activity-monitoring', async (event, projectId, taskId, tas
 
         // Always send update (don't check if changed, to ensure real-time tracking)
         lastActiveWindow = currentWindow;
+        recordTaskSuggestionSample(currentWindow);
         mainWindow.webContents.send('activity-update', currentWindow);
         
         console.log('[ACTIVITY] App:', currentWindow.app, '| Title:', currentWindow.title.substring(0, 50), '| URL:', currentWindow.url || 'N/A', '| Window Keys:', windowStats.keystrokes, '| Window Clicks:', windowStats.clicks, '| Task Keys:', taskKeystrokes, '| Task Clicks:', taskClicks);
       } else {
-        // Fallback to Windows PowerShell method if active-win didn't work
-        if (!win && process.platform === 'win32') {
-          const windowInfo = await getActiveWindowWindows();
-          if (windowInfo && mainWindow) {
-            // Extract URL from title if not available
-            const url = windowInfo.url || extractUrlFromTitle(windowInfo.title, windowInfo.app);
-            
-            // Create window key for per-window tracking
-            const windowKey = getWindowKey(windowInfo.app, windowInfo.title);
-            
-            // Check if window changed - if so, update time tracking for previous window
-            if (windowKey !== currentWindowKey) {
-              // CRITICAL FIX: Close time capsule for the previous window when switching (PowerShell path)
-              if (currentWindowKey && currentTaskId && currentProjectId) {
-                const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
-                if (taskData && taskData.activeWindows.has(currentWindowKey)) {
-                  const previousWindowData = taskData.activeWindows.get(currentWindowKey);
-                  if (previousWindowData.startTime) {
-                    // Initialize timeCapsules array if it doesn't exist
-                    if (!previousWindowData.timeCapsules) {
-                      previousWindowData.timeCapsules = [];
-                    }
-                    
-                    // Close the current time capsule
-                    const endTime = Date.now();
-                    const startTime = previousWindowData.startTime; // Save before clearing
-                    const duration = Math.floor((endTime - startTime) / 1000);
-                    
-                    // Check if this capsule already exists (prevent duplicates)
-                    const capsuleKey = `${startTime}-${endTime}`;
-                    const existingCapsule = previousWindowData.timeCapsules.find(c => 
-                      `${c.startTime}-${c.endTime}` === capsuleKey
-                    );
-                    
-                    if (!existingCapsule) {
-                      // Only add if it doesn't already exist
-                      previousWindowData.timeCapsules.push({
-                        startTime: startTime,
-                        endTime: endTime,
-                        duration: duration
-                      });
-                      
-                      if (isDev) {
-                        console.log(`[WINDOW-PAUSE] Closed NEW time capsule for ${currentWindowKey} (PowerShell), duration: ${duration}s (total capsules: ${previousWindowData.timeCapsules.length})`);
-                      }
-                    } else {
-                      if (isDev) {
-                        console.log(`[WINDOW-PAUSE] Skipped duplicate capsule for ${currentWindowKey} (PowerShell) (already exists)`);
-                      }
-                    }
-                    
-                    // Clear startTime to indicate window is inactive
-                    previousWindowData.startTime = null;
-                    previousWindowData.lastSeen = endTime;
-                  }
-                }
-              }
-              
-              if (isDev && currentWindowKey) {
-                const oldStats = perWindowStats.get(currentWindowKey);
-                console.log('[WINDOW-SWITCH] Switched from', currentWindowKey, 'to', windowKey, '(PowerShell)');
-                console.log('[WINDOW-SWITCH] Previous window stats:', oldStats ? { keystrokes: oldStats.keystrokes, clicks: oldStats.clicks } : 'none');
-              } else if (isDev && !currentWindowKey) {
-                console.log('[WINDOW-INIT] Initializing tracking for window:', windowKey, '(PowerShell)');
-              }
-              
-              const oldWindowKey = currentWindowKey;
-              currentWindowKey = windowKey;
-              
-              // Initialize new window in task tracking
-              if (currentTaskId && currentProjectId) {
-                const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
-                if (taskData && !taskData.activeWindows.has(windowKey)) {
-                  // New window - initialize with empty time capsules array
-                  const startTime = Date.now();
-                  taskData.activeWindows.set(windowKey, {
-                    keystrokes: 0,
-                    mouseClicks: 0,
-                    timeSpent: 0,
-                    timeCapsules: [], // Array of {startTime, endTime, duration} objects
-                    startTime: startTime, // Current active session start time
-                    lastSeen: startTime,
-                    title: windowInfo.title || windowKey,
-                    urls: [],
-                    lastUrl: null // Track last URL to detect actual visits (not just checks)
-                  });
-                } else if (taskData && taskData.activeWindows.has(windowKey)) {
-                    // Window already exists - start new time capsule if it was paused
-                    const windowData = taskData.activeWindows.get(windowKey);
-                    
-                    // CRITICAL: Ensure timeCapsules array exists and preserve existing capsules
-                    if (!windowData.timeCapsules) {
-                      windowData.timeCapsules = [];
-                    }
-                    
-                    if (!windowData.startTime) {
-                      // Start new time capsule - window is becoming active again
-                      // NOTE: We don't create a capsule here, just set startTime
-                      // The capsule will be created when the window closes
-                      windowData.startTime = Date.now();
-                      windowData.lastSeen = Date.now();
-                      
-                      if (isDev) {
-                        console.log(`[WINDOW-RESUME] Started new time capsule for ${windowKey} (PowerShell) (existing capsules: ${windowData.timeCapsules.length})`);
-                      }
-                    } else {
-                      // Window is already active - just update lastSeen
-                      windowData.lastSeen = Date.now();
-                    }
-                }
-              }
-              
-              getWindowStats(windowKey, windowInfo.title, url);
-            }
-            
-            // Get per-window statistics (update title and URL)
-            const windowStats = getWindowStats(windowKey, windowInfo.title, url);
-            
-            // Get per-task stats if we have a current task
-            let taskKeystrokes = 0;
-            let taskClicks = 0;
-            if (currentTaskId && currentProjectId) {
-              const taskData = getTaskTrackingData(currentProjectId, currentTaskId);
-              if (taskData) {
-                taskKeystrokes = taskData.keystrokes;
-                taskClicks = taskData.mouseClicks;
-                
-                // CRITICAL: Update active window tracking with time spent
-                if (currentWindowKey) {
-                  if (!taskData.activeWindows.has(currentWindowKey)) {
-                    const startTime = Date.now();
-                    taskData.activeWindows.set(currentWindowKey, {
-                      keystrokes: 0,
-                      mouseClicks: 0,
-                      timeSpent: 0, // in seconds (will be calculated from capsules on save)
-                      timeCapsules: [], // Array of {startTime, endTime, duration} objects
-                      startTime: startTime, // Current active session start time
-                      lastSeen: startTime,
-                      title: windowInfo.title || currentWindowKey,
-                      urls: [],
-                      lastUrl: null // Track last URL to detect actual visits (not just checks)
-                    });
-                  }
-                  
-                  const windowData = taskData.activeWindows.get(currentWindowKey);
-                  
-                  // Initialize timeCapsules if not exists
-                  if (!windowData.timeCapsules) {
-                    windowData.timeCapsules = [];
-                  }
-                  
-                  // Ensure startTime is set if window is active (start new capsule if paused)
-                  if (!windowData.startTime) {
-                    windowData.startTime = Date.now();
-                    if (isDev) {
-                      console.log(`[WINDOW-RESUME] Started new time capsule for ${currentWindowKey} in real-time update (PowerShell)`);
-                    }
-                  }
-                  
-                  // Don't update timeSpent here - it will be calculated on save
-                  // Just update lastSeen
-                  windowData.lastSeen = Date.now();
-                  
-                  // Update window title if changed
-                  if (windowInfo.title && windowInfo.title !== windowData.title) {
-                    windowData.title = windowInfo.title;
-                  }
-                  
-                  // Update keystrokes and clicks from per-window stats (current session)
-                  const windowStats = perWindowStats.get(currentWindowKey);
-                  if (windowStats) {
-                    // Store current session counts (will be merged with saved on save)
-                    if (windowData.currentSessionKeystrokes === undefined) {
-                  windowData.currentSessionKeystrokes = 0;
-                }
-                if (windowData.currentSessionMouseClicks === undefined) {
-                  windowData.currentSessionMouseClicks = 0;
-                }
-                // Update from perWindowStats (these are current session totals)
-                windowData.currentSessionKeystrokes = windowStats.keystrokes || 0;
-                windowData.currentSessionMouseClicks = windowStats.clicks || 0;
-                  }
-                }
-                
-                // Track URL in task's URL history
-                // Always try to extract URL even if previous extraction failed (retry extraction)
-                let currentUrl = url;
-                if (!currentUrl) {
-                  currentUrl = extractUrlFromTitle(windowInfo.title, windowInfo.app);
-                }
-                
-                // Check if it's a browser for debug logging
-                const lowerAppName = (windowInfo.app || '').toLowerCase();
-                const isBrowserApp = lowerAppName.includes('chrome') || 
-                                    lowerAppName.includes('brave') || 
-                                    lowerAppName.includes('firefox') || 
-                                    lowerAppName.includes('edge') || 
-                                    lowerAppName.includes('safari') ||
-                                    lowerAppName.includes('opera') ||
-                                    lowerAppName.includes('vivaldi');
-                
-                if (isDev && !currentUrl && isBrowserApp) {
-                  console.log(`[URL-DEBUG] Failed to extract URL from title (PowerShell): "${windowInfo.title}" (app: ${windowInfo.app})`);
-                }
-                
-                if (currentUrl) {
-                  const normalizedUrl = normalizeUrl(currentUrl);
-                  if (normalizedUrl) {
-                    // Check if URL already exists in history
-                    const urlExists = taskData.urlHistory.some(entry => 
-                      normalizeUrl(entry.url) === normalizedUrl
-                    );
-                    
-                    if (!urlExists) {
-                      taskData.urlHistory.push({
-                        url: normalizedUrl,
-                        title: windowInfo.title || 'Unknown',
-                        timestamp: Date.now()
-                      });
-                      
-                      // Keep only last 100 URLs
-                      if (taskData.urlHistory.length > 100) {
-                        taskData.urlHistory = taskData.urlHistory.slice(-100);
-                      }
-                      
-                      if (isDev) {
-                        console.log(`[TASK-URL] Added URL to task ${currentTaskId} (PowerShell):`, normalizedUrl, 'from title:', windowInfo.title);
-                      }
-                      
-                      // Schedule real-time save when URL is added
-                      scheduleTaskSave(currentProjectId, currentTaskId);
-                    }
-                    
-                    // Also track URL in active window within task
-                    if (currentWindowKey && taskData.activeWindows.has(currentWindowKey)) {
-                      const windowData = taskData.activeWindows.get(currentWindowKey);
-                      if (!windowData.urls) {
-                        windowData.urls = [];
-                      }
-                      const urlInWindow = windowData.urls.find(u => {
-                        const uNormalized = normalizeUrl(u.url);
-                        return uNormalized && normalizedUrl && uNormalized === normalizedUrl;
-                      });
-                      if (!urlInWindow) {
-                        // New URL - add it (no visit count tracking)
-                        windowData.urls.push({
-                          url: normalizedUrl,
-                          title: windowInfo.title || 'Unknown',
-                          timestamp: Date.now()
-                        });
-                        
-                        // Track this as the current URL
-                        windowData.lastUrl = normalizedUrl;
-                        
-                        if (isDev) {
-                          console.log(`[WINDOW-URL] Added new URL to window ${currentWindowKey} (PowerShell):`, normalizedUrl);
-                        }
-                        
-                        // Schedule save when new URL is added
-                        scheduleTaskSave(currentProjectId, currentTaskId);
-                      } else {
-                        // URL already exists - just update timestamp if URL changed
-                        const urlChanged = windowData.lastUrl !== normalizedUrl;
-                        if (urlChanged) {
-                          // URL changed - update timestamp
-                          urlInWindow.timestamp = Date.now();
-                          windowData.lastUrl = normalizedUrl; // Track current URL
-                          
-                          if (isDev) {
-                            console.log(`[WINDOW-URL] URL changed in window ${currentWindowKey} (PowerShell):`, normalizedUrl);
-                          }
-                          
-                          // Schedule save when URL changes
-                          scheduleTaskSave(currentProjectId, currentTaskId);
-                        } else {
-                          // Same URL - just update timestamp
-                          urlInWindow.timestamp = Date.now();
-                        }
-                      }
-                    }
-                  } else if (isDev) {
-                    console.log(`[URL-DEBUG] Failed to normalize URL (PowerShell):`, currentUrl);
-                  }
-                } else {
-                  // No URL extracted, but check if it's a code editor with file path in title
-                  const lowerAppName = (windowInfo.app || '').toLowerCase();
-                  const isCodeEditor = lowerAppName.includes('cursor') || 
-                                      lowerAppName.includes('code') || 
-                                      lowerAppName.includes('vscode') ||
-                                      lowerAppName.includes('sublime') ||
-                                      lowerAppName.includes('atom') ||
-                                      lowerAppName.includes('webstorm') ||
-                                      lowerAppName.includes('intellij');
-                  
-                  if (isCodeEditor && windowInfo.title) {
-                    // Extract file path from code editor title
-                    const filePath = extractFilePathFromTitle(windowInfo.title, windowInfo.app);
-                    if (filePath) {
-                      const normalizedFilePath = normalizeUrl(filePath);
-                      if (normalizedFilePath && currentWindowKey && taskData.activeWindows.has(currentWindowKey)) {
-                        const windowData = taskData.activeWindows.get(currentWindowKey);
-                        if (!windowData.urls) {
-                          windowData.urls = [];
-                        }
-                        const fileInWindow = windowData.urls.find(u => {
-                          const uNormalized = normalizeUrl(u.url);
-                          return uNormalized && normalizedFilePath && uNormalized === normalizedFilePath;
-                        });
-                        if (!fileInWindow) {
-                          // New file path - add it (no visit count tracking)
-                          windowData.urls.push({
-                            url: normalizedFilePath,
-                            title: windowInfo.title,
-                            timestamp: Date.now()
-                          });
-                          
-                          // Track this as the current file path
-                          windowData.lastUrl = normalizedFilePath;
-                          
-                          if (isDev) {
-                            console.log(`[WINDOW-FILE] Added new file path to window ${currentWindowKey} (PowerShell):`, normalizedFilePath);
-                          }
-                          
-                          // Schedule save when new file path is added
-                          scheduleTaskSave(currentProjectId, currentTaskId);
-                        } else {
-                          // File path already exists - just update timestamp and title if file changed
-                          const fileChanged = windowData.lastUrl !== normalizedFilePath;
-                          if (fileChanged) {
-                            // File changed - update timestamp and title
-                            fileInWindow.timestamp = Date.now();
-                            fileInWindow.title = windowInfo.title; // Update title in case it changed
-                            windowData.lastUrl = normalizedFilePath; // Track current file path
-                            
-                            if (isDev) {
-                              console.log(`[WINDOW-FILE] File path changed in window ${currentWindowKey} (PowerShell):`, normalizedFilePath);
-                            }
-                            
-                            // Schedule save when file path changes
-                            scheduleTaskSave(currentProjectId, currentTaskId);
-                          } else {
-                            // Same file - just update timestamp and title
-                            fileInWindow.timestamp = Date.now();
-                            fileInWindow.title = windowInfo.title; // Update title in case it changed
-                          }
-                        }
-                      }
-                    }
-                  } else if (isDev && isBrowserApp) {
-                    // Log when URL extraction fails for browsers
-                    console.log(`[URL-DEBUG] No URL extracted for browser window (PowerShell): "${windowInfo.title}" (app: ${windowInfo.app})`);
-                  }
-                }
-              }
-            }
-            
-            const currentWindow = {
-              title: windowInfo.title || 'Unknown',
-              owner: windowInfo.owner || 'Unknown',
-              url: url,
-              app: windowInfo.owner || windowInfo.title || 'Unknown',
-              keystrokes: windowStats.keystrokes, // Per-window keystrokes
-              mouseClicks: windowStats.clicks, // Per-window clicks
-              // Per-task stats (cumulative across all windows for this task)
-              taskKeystrokes: taskKeystrokes,
-              taskClicks: taskClicks,
-              // Also include global counters for backward compatibility
-              globalKeystrokes: keystrokeCount,
-              globalClicks: mouseClickCount
-            };
-            lastActiveWindow = currentWindow;
-            mainWindow.webContents.send('activity-update', currentWindow);
-            
-            console.log('[ACTIVITY-PS] App:', currentWindow.app, '| Title:', currentWindow.title.substring(0, 50), '| URL:', currentWindow.url || 'N/A', '| Window Keys:', windowStats.keystrokes, '| Window Clicks:', windowStats.clicks, '| Task Keys:', taskKeystrokes, '| Task Clicks:', taskClicks);
-          }
-        }
-        
         if (!win && !mainWindow) {
           console.warn('Could not get window info and mainWindow not available');
         }
@@ -5400,7 +8072,7 @@ ipcMain.handle('update-task-tracking', async (event, projectId, taskId, taskName
 });
 
 // Stop activity monitoring
-ipcMain.handle('stop-activity-monitoring', () => {
+ipcMain.handle('stop-activity-monitoring', async () => {
   // Close all active time capsules before stopping
   if (currentTaskId && currentProjectId) {
     const taskKey = getTaskKey(currentProjectId, currentTaskId);
@@ -5478,40 +8150,11 @@ ipcMain.handle('stop-activity-monitoring', () => {
   
   isTrackingActive = false;
   
-  // Stop uiohook-napi (handles both keyboard and mouse)
-  try {
-    if (uIOhook && isUiohookInitialized) {
-      uIOhook.stop();
-      uIOhook.removeAllListeners();
-      isUiohookInitialized = false;
-      console.log('System-wide tracking stopped (uiohook-napi)');
-    }
-  } catch (error) {
-    console.error('Error stopping uiohook-napi:', error);
-  }
-  
-  // Stop Windows API fallback intervals
+  // Stop the backend's keyboard and mouse hooks
   try {
-    if (keyboardTrackingInterval) {
-      clearInterval(keyboardTrackingInterval);
-      keyboardTrackingInterval = null;
-    }
-    if (mouseTrackingInterval) {
-      clearInterval(mouseTrackingInterval);
-      mouseTrackingInterval = null;
-    }
-    // Clean up script files
-    const tmpDir = os.tmpdir();
-    const keyboardScript = path.join(tmpDir, 'keyboard-tracker.ps1');
-    const mouseScript = path.join(tmpDir, 'mouse-tracker.ps1');
-    if (fs.existsSync(keyboardScript)) {
-      fs.unlinkSync(keyboardScript);
-    }
-    if (fs.existsSync(mouseScript)) {
-      fs.unlinkSync(mouseScript);
-    }
+    await stopTrackingInput();
   } catch (error) {
-    // Ignore cleanup errors
+    console.error('[TRACKING] Error stopping input tracking:', error);
   }
   
   globalShortcut.unregisterAll();
@@ -5533,7 +8176,18 @@ ipcMain.handle('stop-activity-monitoring', () => {
 });
 
 // Get last activity timestamp for idle detection
-ipcMain.handle('get-last-activity-timestamp', () => {
+ipcMain.handle('get-last-activity-timestamp', async () => {
+  // The hooks can miss input (e.g. native Wayland windows), so the system idle time counts too
+  if (lastActivityTimestamp) {
+    try {
+      const idleSeconds = await getTrackingBackend().getIdleSeconds();
+      if (idleSeconds !== null && Number.isFinite(idleSeconds)) {
+        return Math.max(lastActivityTimestamp, Date.now() - idleSeconds * 1000);
+      }
+    } catch (error) {
+      console.warn('[TRACKING] ⚠️ Could not read the system idle time:', error.message);
+    }
+  }
   return lastActivityTimestamp;
 });
 
@@ -5711,19 +8365,38 @@ app.whenReady().then(async () => {
   
   // Initialize workspace ID from storage (needed before migration)
   await initializeWorkspaceId();
+  await initDeviceIdentity();
   
-  // Migrate existing files to new folder structure on startup (use actual workspace ID)
-  if (isDev) {
-    console.log('[APP] Running migration to new folder structure with workspace ID:', currentWorkspaceId);
+  // Data key must be loaded before any task document is read or written
+  await initEncryption();
+  
+  // Open the tracking database, repair torn JSON task files, then import them once (needs workspace ID)
+  initTrackingDb();
+  const trackingStore = await initStore();
+  if (!trackingDb || !trackingStore.get('trackingDbImportedAt')) {
+    await recoverTrackingDataFiles().catch(err => {
+      console.error('[APP] Tracking data recovery error:', err);
+    });
   }
-  migrateTrackingDataStructure(currentWorkspaceId).catch(err => {
-    console.error('[APP] Migration error:', err);
+  await importJsonTrackingData().catch(err => {
+    console.error('[APP] Tracking data import error:', err);
+  });
+  await encryptExistingTrackingData().catch(err => {
+    console.error('[APP] Tracking data encryption error:', err);
   });
   
   createWindow();
   createTray();
   // Start tracking data watcher for combined insights
   startTrackingDataWatcher();
+  // Replay any uploads left in the outbox from a previous run
+  startUploadOutbox();
+  // Release screenshots whose review window ran out while the app was closed
+  startReviewQueue();
+  // Enforce local retention once synced data gets old
+  startDataPruner();
+  // Accept active-tab updates from the paired browser extension
+  await applyBrowserBridgeSetting(trackingStore.get('settings', {}));
 
   // Check for updates (only in production)
   if (!isDev) {
@@ -5802,11 +8475,24 @@ ipcMain.handle('add-activity-log-to-task', async (event, activityLog) => {
     taskData.activityLogs = [];
   }
   
-  taskData.activityLogs.push({
+  const entry = {
     ...activityLog,
     taskId: currentTaskId,
-    projectId: currentProjectId
-  });
+    projectId: currentProjectId,
+    deviceId: activityLog.deviceId || getDeviceId()
+  };
+  
+  // A log sent again with the same id (e.g. rescored after the screen change check) replaces the stored one
+  const existingIndex = activityLog.id ? taskData.activityLogs.findIndex(log => log.id === activityLog.id) : -1;
+  if (existingIndex !== -1) {
+    taskData.activityLogs[existingIndex] = { ...taskData.activityLogs[existingIndex], ...entry };
+    touchSyncItems([taskData.activityLogs[existingIndex]]);
+  } else {
+    taskData.activityLogs.push(entry);
+    learnTaskAssociation(currentProjectId, currentTaskId, entry).catch(error => {
+      console.error('[TASK-SUGGEST] Error learning from activity log:', error);
+    });
+  }
   
   // Schedule real-time save (debounced) - saves 2 seconds after activity log
   scheduleTaskSave(currentProjectId, currentTaskId);
@@ -5868,11 +8554,16 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
     return null;
   }
   
-  // Upload image to server with retry and deduplication - REQUIRED before saving to JSON
+  // Upload image to server with retry and deduplication - queued in the outbox if it can't be sent now
   let fileUrl = null;
+  let queuedUpload = null;
+  let imageBuffer = null;
+  let photoProfile = null;
+  let workspaceId = null;
+  const photoId = `wc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   try {
     // Convert dataUrl to buffer
-    const imageBuffer = dataUrlToBuffer(photoDataUrl);
+    imageBuffer = dataUrlToBuffer(photoDataUrl);
     if (!imageBuffer) {
       throw new Error('Failed to convert dataUrl to buffer');
     }
@@ -5881,7 +8572,21 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
     
     // Get workspace ID if available
     const store = await initStore();
-    const workspaceId = store.get('workspaceId');
+    workspaceId = store.get('workspaceId');
+    
+    // Re-encode with the webcam capture profile
+    const sourceImage = nativeImage.createFromBuffer(imageBuffer);
+    if (!sourceImage.isEmpty()) {
+      const encoded = await encodeCaptureImage(sourceImage, getCaptureProfile(store.get('settings', {}), 'webcam'));
+      imageBuffer = encoded.buffer;
+      photoProfile = encoded.profile;
+      console.log('[TASK-WEBCAM] Photo encoded:', photoProfile);
+    }
+    
+    // Older uploads are still waiting - queue behind them to keep order
+    if (isOutboxBacklogged()) {
+      throw new Error('Upload outbox is backlogged or offline');
+    }
     
     console.log('[TASK-WEBCAM] 📋 Upload parameters:', {
       projectId: currentProjectId,
@@ -5908,7 +8613,8 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
           'webcam_photo',
           currentProjectId,
           currentTaskId,
-          workspaceId
+          workspaceId,
+          photoProfile ? { profile: photoProfile } : null
         );
       }, 3, 1000);
       
@@ -5940,22 +8646,34 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
         method: uploadError.config.method
       } : 'no config'
     });
-    console.error('[TASK-WEBCAM] ⚠️ Webcam photo will NOT be saved to JSON (upload required)');
-    console.error('[TASK-WEBCAM] 💡 Fix: Enable API, configure API base URL, and ensure authentication token is available');
-    // Don't save webcam photo if upload fails - user needs to fix API configuration
     fileUrl = null;
+    if (imageBuffer) {
+      try {
+        queuedUpload = enqueueTrackingImageUpload(imageBuffer, 'webcam_photo', currentProjectId, currentTaskId, workspaceId, {
+          collection: 'webcamPhotos',
+          recordId: photoId
+        });
+        console.warn('[TASK-WEBCAM] 📥 Webcam photo queued in upload outbox, will retry when online');
+      } catch (queueError) {
+        console.error('[TASK-WEBCAM] ❌ Failed to queue webcam photo upload:', queueError.message);
+      }
+    }
+    if (!queuedUpload) {
+      console.error('[TASK-WEBCAM] ⚠️ Webcam photo will NOT be saved to JSON (upload required)');
+    }
   }
   
-  // Save webcam photo to task - ONLY if upload succeeded (fileUrl exists)
+  // Save webcam photo to task - ONLY if upload succeeded (fileUrl exists) or is queued in the outbox
   // Save IMMEDIATELY after upload success (not debounced)
   console.log('[TASK-WEBCAM] 📋 Pre-save check:', {
     hasFileUrl: !!fileUrl,
+    isQueued: !!queuedUpload,
     hasTaskId: !!currentTaskId,
     hasProjectId: !!currentProjectId,
-    canSave: !!fileUrl
+    canSave: !!(fileUrl || queuedUpload)
   });
   
-  if (fileUrl) {
+  if (fileUrl || queuedUpload) {
     console.log('[TASK-WEBCAM] ✅ All conditions met, saving webcam photo to task data...');
     // Ensure webcamPhotos array exists
     if (!taskData.webcamPhotos) {
@@ -5963,14 +8681,20 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
       console.log('[TASK-WEBCAM] ⚠️ Initialized webcamPhotos array (was missing)');
     }
     
-    const photoId = `wc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const photoData = {
       id: photoId,
       timestamp: Date.now(),
-      fileUrl: fileUrl, // ONLY save fileUrl, never base64
+      fileUrl: fileUrl, // ONLY save fileUrl, never base64 (null until the outbox uploads it)
       taskId: currentTaskId,
       projectId: currentProjectId
     };
+    if (photoProfile) {
+      photoData.profile = photoProfile;
+    }
+    if (queuedUpload) {
+      photoData.uploadPending = true;
+      photoData.outboxId = queuedUpload.id;
+    }
     
     taskData.webcamPhotos.push(photoData);
     
@@ -5980,15 +8704,18 @@ ipcMain.handle('add-webcam-photo-to-task', async (event, photoDataUrl) => {
     // IMMEDIATE save after successful upload (no debounce)
     scheduleTaskSave(currentProjectId, currentTaskId, null, null, true);
     
-    console.log(`[TASK-WEBCAM] ✅ Webcam photo saved to JSON with fileUrl: ${fileUrl.substring(0, 80)}...`);
-    console.log(`[TASK-WEBCAM] 💾 Save called, fileUrl length: ${fileUrl.length}`);
+    if (fileUrl) {
+      console.log(`[TASK-WEBCAM] ✅ Webcam photo saved to JSON with fileUrl: ${fileUrl.substring(0, 80)}...`);
+    } else {
+      console.log(`[TASK-WEBCAM] ✅ Webcam photo saved to JSON, upload pending in outbox (${queuedUpload.id})`);
+    }
     console.log(`[TASK-WEBCAM] 📊 Task data now has ${taskData.webcamPhotos.length} webcam photo(s) in memory`);
     
     if (isDev) {
       console.log(`[TASK-WEBCAM] Tagged webcam photo with task ${currentTaskId}, saved immediately`);
     }
     
-    // Return fileUrl for storage in activity log
+    // Return fileUrl for storage in activity log (null while the upload is queued)
     return fileUrl;
   } else {
     console.error('[TASK-WEBCAM] ❌ Cannot save webcam photo - upload failed. Fix API configuration.');
@@ -6208,6 +8935,8 @@ ipcMain.handle('load-task-tracking-data', async (event, projectId, taskId, dateF
       });
       loadedData.trackingData.summary.totalTime = totalTimeFromWindows;
     }
+    const conflictTime = getConflictDeductedSeconds(loadedData.trackingData, { start: todayStart, end: todayEnd });
+    loadedData.trackingData.summary.totalTime = Math.max(0, loadedData.trackingData.summary.totalTime - getDeductedSeconds(filteredLogs) - conflictTime);
   }
   
   // Return the full data structure (filtered if dateFilter is 'today')
@@ -6264,7 +8993,9 @@ ipcMain.handle('get-tracking-data-path', async () => {
     projectRoot: baseDir, // Keep key name for backward compatibility
     baseDir: baseDir,
     trackingDataPath: trackingDataPath,
-    exists: fs.existsSync(trackingDataPath)
+    exists: trackingDataExists(trackingDataPath),
+    storage: trackingDb ? 'sqlite' : 'json',
+    databasePath: trackingDb ? getTrackingDbPath() : null
   };
 });
 
@@ -6274,7 +9005,7 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return {
         success: false,
         message: 'Tracking data directory does not exist',
@@ -6282,13 +9013,18 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
       };
     }
     
+    const store = await initStore();
+    const repairs = store.get('trackingDataRepairs', []);
     const results = {
       success: true,
       totalFiles: 0,
       validFiles: 0,
       invalidFiles: 0,
+      checksumMismatches: 0,
       totalSize: 0,
-      projects: {}
+      projects: {},
+      // Files fixed by the startup recovery pass (most recent last)
+      repairs: projectId ? repairs.filter(r => r.projectId === projectId) : repairs
     };
     
     // Find all task files using new structure (supports both old and new)
@@ -6317,9 +9053,8 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
       results.projects[projId].totalFiles++;
       
       try {
-        const stats = fs.statSync(filePath);
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(filePath);
+        const stats = { size: trackingDb ? Buffer.byteLength(JSON.stringify(data || {})) : fs.statSync(filePath).size };
         
         // Verify structure
         const isValid = data.metadata && 
@@ -6327,6 +9062,11 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
                        data.metadata.sessionUUID &&
                        data.metadata.taskId;
         
+        const checksumValid = isTaskDocumentChecksumValid(data);
+        if (checksumValid === false) {
+          results.checksumMismatches++;
+        }
+        
         if (isValid) {
           results.validFiles++;
           results.totalSize += stats.size;
@@ -6345,6 +9085,8 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
             activityLogs: data.trackingData.activityLogs?.length || 0,
             screenshots: data.trackingData.screenshots?.length || 0,
             webcamPhotos: data.trackingData.webcamPhotos?.length || 0,
+            checksumValid,
+            recoveredAt: data.metadata.recoveredAt || null,
             valid: true
           });
         } else {
@@ -6365,7 +9107,7 @@ ipcMain.handle('verify-tracking-data', async (event, projectId = null) => {
       }
     }
     
-    console.log(`[DATA-VERIFY] Verified ${results.totalFiles} files: ${results.validFiles} valid, ${results.invalidFiles} invalid`);
+    console.log(`[DATA-VERIFY] Verified ${results.totalFiles} files: ${results.validFiles} valid, ${results.invalidFiles} invalid, ${results.checksumMismatches} checksum mismatches, ${results.repairs.length} repairs on record`);
     console.log(`[DATA-VERIFY] Total size: ${(results.totalSize / 1024).toFixed(2)} KB`);
     
     return results;
@@ -6386,7 +9128,7 @@ ipcMain.handle('get-today-tasks', async (event, workspaceId = null) => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return [];
     }
     
@@ -6415,10 +9157,9 @@ ipcMain.handle('get-today-tasks', async (event, workspaceId = null) => {
         continue; // Skip old structure files if filtering by specific workspace
       }
       try {
-        const fileContent = fs.readFileSync(taskFile.filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(taskFile.filePath);
         
-        if (!data.metadata) continue;
+        if (!data || !data.metadata) continue;
         
         // Check if task was created or updated today
         const createdAt = data.metadata.createdAt ? new Date(data.metadata.createdAt).toISOString().split('T')[0] : null;
@@ -6563,6 +9304,11 @@ ipcMain.handle('get-today-tasks', async (event, workspaceId = null) => {
             });
           }
           
+          // Screenshots the user deleted during review take their interval off tracked time, as
+          // do overlaps with another device resolved in that device's favour
+          const conflictTime = getConflictDeductedSeconds(data.trackingData, { start: todayStart, end: todayEnd });
+          totalTime = Math.max(0, totalTime - getDeductedSeconds(todayLogs) - conflictTime);
+          
           // Only include task if it has today's activity
           if (totalTime > 0 || todayLogs.length > 0 || todayScreenshots.length > 0 || todayWebcamPhotos.length > 0) {
             if (isDev) {
@@ -6610,7 +9356,7 @@ ipcMain.handle('get-all-tasks', async () => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return [];
     }
     
@@ -6620,10 +9366,9 @@ ipcMain.handle('get-all-tasks', async () => {
     
     for (const taskFile of taskFiles) {
       try {
-        const fileContent = fs.readFileSync(taskFile.filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(taskFile.filePath);
         
-        if (!data.metadata) continue;
+        if (!data || !data.metadata) continue;
         
         allTasks.push({
           projectId: taskFile.projectId,
@@ -6665,7 +9410,7 @@ ipcMain.handle('get-project-tasks-tracking', async (event, projectId) => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return [];
     }
     
@@ -6683,8 +9428,7 @@ ipcMain.handle('get-project-tasks-tracking', async (event, projectId) => {
       const { filePath, taskId } = taskFile;
       
       try {
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(filePath);
         
         tasks.push({
           taskId: taskId,
@@ -6721,7 +9465,7 @@ const combineAllTrackingData = (dateFilter = 'today') => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return {
         success: true,
         totalTasks: 0,
@@ -6779,7 +9523,7 @@ const combineAllTrackingData = (dateFilter = 'today') => {
     for (const taskFile of taskFiles) {
       const { filePath, projectId: projId, taskId } = taskFile;
       
-      if (!fs.existsSync(filePath)) continue;
+      if (!taskDocumentExists(filePath)) continue;
       
       if (!projects[projId]) {
         projects[projId] = {
@@ -6792,10 +9536,9 @@ const combineAllTrackingData = (dateFilter = 'today') => {
       }
       
       try {
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(filePath);
         
-        if (!data.metadata || !data.trackingData) continue;
+        if (!data || !data.metadata || !data.trackingData) continue;
         
         // Filter by date: only include tasks that were created or updated today
         if (dateFilter === 'today') {
@@ -7234,8 +9977,34 @@ ipcMain.handle('get-combined-insights', async (event, dateFilter = 'today') => {
   return combineAllTrackingData(dateFilter);
 });
 
+// Push fresh combined insights to subscribers (debounced - wait 500ms after last change)
+const scheduleCombinedInsightsUpdate = () => {
+  if (trackingDataWatchers.has('debounceTimer')) {
+    clearTimeout(trackingDataWatchers.get('debounceTimer'));
+  }
+  
+  const debounceTimer = setTimeout(() => {
+    trackingDataWatchers.delete('debounceTimer');
+    if (combinedInsightsListeners.size === 0) return;
+    const combinedData = combineAllTrackingData('today'); // Always use today filter for real-time updates
+    
+    // Notify all listeners
+    combinedInsightsListeners.forEach(listener => {
+      if (listener && !listener.isDestroyed()) {
+        listener.send('combined-insights-update', combinedData);
+      }
+    });
+  }, 500);
+  
+  trackingDataWatchers.set('debounceTimer', debounceTimer);
+};
+
 // Start watching tracking data directory for changes
+// With the tracking database, writeTaskDocument() triggers updates directly - no file watching needed
 const startTrackingDataWatcher = () => {
+  if (trackingDb) {
+    return;
+  }
   try {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
@@ -7252,23 +10021,7 @@ const startTrackingDataWatcher = () => {
           console.log(`[COMBINED-INSIGHTS] File ${eventType}: ${filename}`);
         }
         
-        // Debounce updates (wait 500ms after last change)
-        if (trackingDataWatchers.has('debounceTimer')) {
-          clearTimeout(trackingDataWatchers.get('debounceTimer'));
-        }
-        
-        const debounceTimer = setTimeout(() => {
-          const combinedData = combineAllTrackingData('today'); // Always use today filter for real-time updates
-          
-          // Notify all listeners
-          combinedInsightsListeners.forEach(listener => {
-            if (listener && !listener.isDestroyed()) {
-              listener.send('combined-insights-update', combinedData);
-            }
-          });
-        }, 500);
-        
-        trackingDataWatchers.set('debounceTimer', debounceTimer);
+        scheduleCombinedInsightsUpdate();
       }
     });
     
@@ -7323,7 +10076,7 @@ const findLastActiveTaskFromFiles = () => {
     const baseDir = getBaseDataDirectory();
     const trackingDataPath = path.join(baseDir, 'tracking-data');
     
-    if (!fs.existsSync(trackingDataPath)) {
+    if (!trackingDataExists(trackingDataPath)) {
       return null;
     }
     
@@ -7333,10 +10086,9 @@ const findLastActiveTaskFromFiles = () => {
     
     for (const taskFile of taskFiles) {
       try {
-        const fileContent = fs.readFileSync(taskFile.filePath, 'utf8');
-        const data = JSON.parse(fileContent);
+        const data = readTaskDocument(taskFile.filePath);
         
-        if (data.metadata && data.metadata.lastUpdated) {
+        if (data && data.metadata && data.metadata.lastUpdated) {
           const updateTime = new Date(data.metadata.lastUpdated).getTime();
           
           // Check if this task has recent activity (within last 24 hours)
@@ -7439,6 +10191,17 @@ app.on('will-quit', () => {
   saveTimers.forEach(timer => clearTimeout(timer));
   saveTimers.clear();
   
+  // Outbox is already on disk - just stop the replay timer
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+    outboxTimer = null;
+  }
+  if (pruneTimer) {
+    clearTimeout(pruneTimer);
+    clearInterval(pruneTimer);
+    pruneTimer = null;
+  }
+  
   // Cleanup combined insights watchers
   if (trackingDataWatchers.has('debounceTimer')) {
     clearTimeout(trackingDataWatchers.get('debounceTimer'));
@@ -7449,16 +10212,25 @@ app.on('will-quit', () => {
   trackingDataWatchers.clear();
   combinedInsightsListeners.clear();
   
-  // Cleanup tracking
-  try {
-    if (uIOhook && isUiohookInitialized) {
-      uIOhook.stop();
-      uIOhook.removeAllListeners();
-      isUiohookInitialized = false;
+  // Close the tracking database after the final saves above
+  if (trackingDb) {
+    try {
+      trackingDb.close();
+    } catch (error) {
+      console.error('[TRACKING-DB] Error closing database:', error);
     }
-  } catch (error) {
-    // Ignore cleanup errors
+    trackingDb = null;
   }
+  
+  stopBrowserBridge();
+  saveTaskAssociations().catch(() => {
+    // Ignore - at worst the last few learned logs are lost
+  });
+  
+  // Cleanup tracking
+  stopTrackingInput().catch(() => {
+    // Ignore cleanup errors
+  });
 });
 
 
@@ -0,0 +1,107 @@
+// Manual time entry rules, free of Electron: what a valid entry looks like and how review
+// decisions from the server land on it. main.cjs owns the entries file and the IPC.
+//
+// Entry shape:
+// {
+//   id (also the server's client_id), workspaceId, projectId, taskId, projectName, taskName,
+//   startTime, endTime, duration (seconds), reason,
+//   status: 'pending' | 'approved' | 'rejected', reviewerNote, reviewedAt,
+//   createdBy: { id, name, email } | null, createdAt, updatedAt, submittedAt
+// }
+const MAX_MANUAL_ENTRY_HOURS = 12;
+const MANUAL_ENTRY_STATUSES = ['pending', 'approved', 'rejected'];
+
+// input: { workspaceId?, projectId, taskId, projectName?, taskName?, startTime, endTime, reason, createdBy? }
+// Throws with a message for the form when the input can't become an entry
+const createManualTimeEntry = (input, existingEntries, id, now = Date.now()) => {
+  const start = new Date(input.startTime).getTime();
+  const end = new Date(input.endTime).getTime();
+  const reason = String(input.reason || '').trim();
+  if (!input.projectId || !input.taskId) {
+    throw new Error('Choose the project and task the time belongs to');
+  }
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    throw new Error('The end time must be after the start time');
+  }
+  if (end > now) {
+    throw new Error('Manual time can only be added for time that has already passed');
+  }
+  if (end - start > MAX_MANUAL_ENTRY_HOURS * 60 * 60 * 1000) {
+    throw new Error(`A manual entry can cover at most ${MAX_MANUAL_ENTRY_HOURS} hours`);
+  }
+  if (!reason) {
+    throw new Error('Add a reason so the reviewer knows what the time was for');
+  }
+
+  const overlapping = (existingEntries || []).find(entry => entry.status !== 'rejected' &&
+    new Date(entry.startTime).getTime() < end && new Date(entry.endTime).getTime() > start);
+  if (overlapping) {
+    throw new Error(`Overlaps manual time already added for ${overlapping.taskName || overlapping.taskId}`);
+  }
+
+  const createdAt = new Date(now).toISOString();
+  return {
+    id,
+    workspaceId: input.workspaceId ? String(input.workspaceId) : null,
+    projectId: String(input.projectId),
+    taskId: String(input.taskId),
+    projectName: input.projectName || null,
+    taskName: input.taskName || null,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+    duration: Math.round((end - start) / 1000),
+    reason,
+    status: 'pending',
+    reviewerNote: null,
+    reviewedAt: null,
+    createdBy: input.createdBy || null,
+    createdAt,
+    updatedAt: createdAt,
+    submittedAt: null
+  };
+};
+
+// Entries saved before they were sent for review have no status yet - they start out pending and unsent
+const normalizeManualTimeEntry = (entry) => ({
+  ...entry,
+  status: MANUAL_ENTRY_STATUSES.includes(entry.status) ? entry.status : 'pending',
+  reviewerNote: entry.reviewerNote ?? null,
+  reviewedAt: entry.reviewedAt ?? null,
+  submittedAt: entry.submittedAt ?? null
+});
+
+// Only pending entries can be withdrawn - approved or rejected ones are the reviewer's record
+const assertManualTimeEntryWithdrawable = (entry) => {
+  if (entry.status !== 'pending') {
+    throw new Error(`This entry was already ${entry.status} and can no longer be withdrawn`);
+  }
+};
+
+// updates: Array<{ id, status?, reviewerNote?, reviewedAt?, submittedAt? }>, from the server or after a submit.
+// Applies them in place and returns the entries that changed
+const applyManualTimeUpdates = (entries, updates, now = Date.now()) => {
+  const changed = new Set();
+  (updates || []).forEach(update => {
+    const entry = (entries || []).find(e => e.id === update.id);
+    if (!entry) return;
+    const next = {
+      status: MANUAL_ENTRY_STATUSES.includes(update.status) ? update.status : entry.status,
+      reviewerNote: update.reviewerNote !== undefined ? update.reviewerNote : entry.reviewerNote,
+      reviewedAt: update.reviewedAt !== undefined ? update.reviewedAt : entry.reviewedAt,
+      submittedAt: update.submittedAt || entry.submittedAt
+    };
+    if (Object.keys(next).every(key => next[key] === entry[key])) return;
+    Object.assign(entry, next, { updatedAt: new Date(now).toISOString() });
+    changed.add(entry);
+  });
+  return [...changed];
+};
+
+module.exports = {
+  MAX_MANUAL_ENTRY_HOURS,
+  MANUAL_ENTRY_STATUSES,
+  createManualTimeEntry,
+  normalizeManualTimeEntry,
+  assertManualTimeEntryWithdrawable,
+  applyManualTimeUpdates
+};
@@ -0,0 +1,87 @@
+// Upload outbox rules that don't need Electron: retry backoff, which URLs may carry the
+// login token and the in-order replay loop. main.cjs owns the queue file and the timers.
+
+const OUTBOX_BASE_DELAY_MS = 5000; // First retry after ~5s
+const OUTBOX_MAX_DELAY_MS = 15 * 60 * 1000; // Cap backoff at 15 minutes
+
+// Exponential backoff with jitter so many clients don't retry in lockstep
+const getOutboxRetryDelay = (attempts, random = Math.random) => {
+  const delay = Math.min(OUTBOX_MAX_DELAY_MS, OUTBOX_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(delay / 2 + random() * (delay / 2));
+};
+
+// Network errors, timeouts, 5xx, 401 (token may be refreshed) and 429 are worth retrying
+const isTransientUploadError = (error) => {
+  if (error?.permanent) return false;
+  const status = error?.response?.status;
+  if (!status) return true;
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+// The Bearer token only goes to the API server: one of allowedBases, or a workspace
+// subdomain of one (check-in/out use {workspace}.{host}), on the same protocol and port
+const isAllowedOutboxUrl = (url, allowedBases) => {
+  let target;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  if (target.username || target.password) return false;
+
+  return (allowedBases || []).some(base => {
+    let allowed;
+    try {
+      allowed = new URL(base);
+    } catch {
+      return false;
+    }
+    const host = allowed.hostname.replace(/^www\./, '');
+    return target.protocol === allowed.protocol &&
+      target.port === allowed.port &&
+      (target.hostname === host || target.hostname.endsWith(`.${host}`));
+  });
+};
+
+// Replay the queue strictly in order, removing entries as they are delivered or dropped.
+// Stops at the first entry that is still backing off or fails with a retryable error, so
+// nothing behind it is sent out of order.
+// hooks: deliver(entry) plus optional onDelivered / onDropped / onRetry / onWait callbacks
+const replayOutboxQueue = async (queue, hooks) => {
+  const { deliver, maxAttempts, now = Date.now, random = Math.random } = hooks;
+  while (queue.length > 0) {
+    const entry = queue[0];
+    const waitMs = entry.nextAttemptAt - now();
+    if (waitMs > 0) {
+      hooks.onWait?.(entry, waitMs);
+      return;
+    }
+
+    try {
+      await deliver(entry);
+      queue.shift();
+      hooks.onDelivered?.(entry);
+    } catch (error) {
+      entry.attempts += 1;
+      entry.lastError = error.message;
+
+      if (!isTransientUploadError(error) || entry.attempts >= maxAttempts) {
+        queue.shift();
+        hooks.onDropped?.(entry, error);
+        continue;
+      }
+
+      const delay = getOutboxRetryDelay(entry.attempts, random);
+      entry.nextAttemptAt = now() + delay;
+      hooks.onRetry?.(entry, error, delay);
+      return;
+    }
+  }
+};
+
+module.exports = {
+  getOutboxRetryDelay,
+  isTransientUploadError,
+  isAllowedOutboxUrl,
+  replayOutboxQueue
+};
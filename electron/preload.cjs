@@ -17,7 +17,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   windowClose: () => ipcRenderer.invoke('window-close'),
   windowIsMaximized: () => ipcRenderer.invoke('window-is-maximized'),
   // Screenshot capture (no screen share needed)
-  captureScreenshot: (isBlurred) => ipcRenderer.invoke('capture-screenshot', isBlurred),
+  captureScreenshot: (isBlurred, activityLogId) => ipcRenderer.invoke('capture-screenshot', isBlurred, activityLogId),
   // System activity tracking
   getActiveWindow: () => ipcRenderer.invoke('get-active-window'),
   startActivityMonitoring: (projectId, taskId, taskName, projectName) => ipcRenderer.invoke('start-activity-monitoring', projectId, taskId, taskName, projectName),
@@ -79,6 +79,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Settings management
   getSettings: () => ipcRenderer.invoke('get-settings'),
   setSettings: (settings) => ipcRenderer.invoke('set-settings', settings),
+  // Classification rules
+  exportClassificationRules: (rules) => ipcRenderer.invoke('export-classification-rules', rules),
+  importClassificationRules: () => ipcRenderer.invoke('import-classification-rules'),
+  getClassificationPolicy: (workspaceId) => ipcRenderer.invoke('get-classification-policy', workspaceId),
+  setClassificationPolicy: (policy) => ipcRenderer.invoke('set-classification-policy', policy),
+  recordUnclassifiedActivity: (entries) => ipcRenderer.invoke('record-unclassified-activity', entries),
+  getUnclassifiedInbox: () => ipcRenderer.invoke('get-unclassified-inbox'),
+  removeUnclassifiedItems: (keys) => ipcRenderer.invoke('remove-unclassified-items', keys),
   // Data export/delete
   exportData: (data) => ipcRenderer.invoke('export-data', data),
   deleteAllData: () => ipcRenderer.invoke('delete-all-data'),
@@ -87,7 +95,52 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // API Sync
   syncTaskTracking: (projectId, taskId) => ipcRenderer.invoke('sync-task-tracking', projectId, taskId),
   syncAllTasks: () => ipcRenderer.invoke('sync-all-tasks'),
+  getTaskSyncDelta: (projectId, taskId) => ipcRenderer.invoke('get-task-sync-delta', projectId, taskId),
+  acknowledgeTaskSync: (projectId, taskId, syncId, ack, queued) => ipcRenderer.invoke('acknowledge-task-sync', projectId, taskId, syncId, ack, queued),
   testApiConnection: () => ipcRenderer.invoke('test-api-connection'),
+  // Offline upload outbox
+  enqueueOutboxRequest: (request) => ipcRenderer.invoke('enqueue-outbox-request', request),
+  getOutboxStatus: () => ipcRenderer.invoke('get-outbox-status'),
+  flushOutbox: () => ipcRenderer.invoke('flush-outbox'),
+  onOutboxStatusUpdate: (callback) => {
+    ipcRenderer.on('outbox-status-update', (_, status) => callback(status));
+  },
+  removeOutboxStatusListener: () => {
+    ipcRenderer.removeAllListeners('outbox-status-update');
+  },
+  // Review before upload
+  getPendingCaptures: () => ipcRenderer.invoke('get-pending-captures'),
+  keepPendingCapture: (captureId) => ipcRenderer.invoke('keep-pending-capture', captureId),
+  deletePendingCapture: (captureId) => ipcRenderer.invoke('delete-pending-capture', captureId),
+  onPendingCapturesUpdate: (callback) => {
+    ipcRenderer.on('pending-captures-update', (_, captures) => callback(captures));
+  },
+  removePendingCapturesListener: () => {
+    ipcRenderer.removeAllListeners('pending-captures-update');
+  },
+  // Local data retention
+  getDiskUsage: () => ipcRenderer.invoke('get-disk-usage'),
+  pruneTrackingData: () => ipcRenderer.invoke('prune-tracking-data'),
+  // Encryption at rest
+  getEncryptionStatus: () => ipcRenderer.invoke('get-encryption-status'),
+  rotateEncryptionKey: () => ipcRenderer.invoke('rotate-encryption-key'),
+  // Browser extension bridge
+  getBrowserBridgeStatus: () => ipcRenderer.invoke('get-browser-bridge-status'),
+  regenerateBrowserBridgeToken: () => ipcRenderer.invoke('regenerate-browser-bridge-token'),
+  // Task suggestions
+  getTaskSuggestion: (tasks) => ipcRenderer.invoke('get-task-suggestion', tasks),
+  // Timeline editor
+  getTaskTimeline: (projectId, taskId) => ipcRenderer.invoke('get-task-timeline', projectId, taskId),
+  reattributeActivityLogs: (request) => ipcRenderer.invoke('reattribute-activity-logs', request),
+  // Manual time entries
+  getManualTimeEntries: () => ipcRenderer.invoke('get-manual-time-entries'),
+  addManualTimeEntry: (input) => ipcRenderer.invoke('add-manual-time-entry', input),
+  deleteManualTimeEntry: (entryId) => ipcRenderer.invoke('delete-manual-time-entry', entryId),
+  updateManualTimeEntries: (updates) => ipcRenderer.invoke('update-manual-time-entries', updates),
+  // Multi-device merge
+  mergeRemoteTrackingData: (projectId, taskId, records) => ipcRenderer.invoke('merge-remote-tracking-data', projectId, taskId, records),
+  getMergedTaskTracking: (projectId, taskId) => ipcRenderer.invoke('get-merged-task-tracking', projectId, taskId),
+  resolveDeviceConflict: (projectId, taskId, conflictId, resolution) => ipcRenderer.invoke('resolve-device-conflict', projectId, taskId, conflictId, resolution),
   // OAuth Authentication
   oauthAuthenticate: () => ipcRenderer.invoke('oauth-authenticate'),
   oauthCheckStatus: () => ipcRenderer.invoke('oauth-check-status'),
@@ -0,0 +1,141 @@
+// Moving activity logs between task documents, free of Electron: the interval each log covers,
+// splitting window time at those intervals and carrying logs, images and window time across.
+// main.cjs owns the documents, the running-task checks, the queues and the audit store.
+const { touchSyncItems, recordSyncRemovals } = require('./sync-delta.cjs');
+const { mergeIntervals } = require('./device-merge.cjs');
+
+const ACTIVITY_LOG_INTERVAL_MS = 10 * 60 * 1000; // useSurveillance writes one activity log per 10 minutes
+
+const getLogTime = (log) => new Date(log?.timestamp).getTime();
+
+// Each log covers the time since the log before it, at most one interval
+const getActivityLogSpans = (activityLogs) => {
+  const sorted = (activityLogs || [])
+    .filter(log => Number.isFinite(getLogTime(log)))
+    .sort((a, b) => getLogTime(a) - getLogTime(b));
+  return sorted.map((log, index) => {
+    const end = getLogTime(log);
+    const previous = index > 0 ? getLogTime(sorted[index - 1]) : -Infinity;
+    return { log, start: Math.max(previous, end - ACTIVITY_LOG_INTERVAL_MS), end };
+  });
+};
+
+const isWithinSpans = (timestamp, spans) => {
+  const time = new Date(timestamp).getTime();
+  return Number.isFinite(time) && spans.some(span => time > span.start && time <= span.end);
+};
+
+const toTimeCapsule = ({ start, end }) => ({ startTime: start, endTime: end, duration: Math.round((end - start) / 1000) });
+
+// Split capsules into the parts inside spans (moved) and the rest (kept)
+const splitCapsulesBySpans = (capsules, spans) => {
+  const kept = [];
+  const moved = [];
+  (capsules || []).forEach(capsule => {
+    let outside = [{ start: capsule.startTime, end: capsule.endTime }];
+    let touched = false;
+    spans.forEach(span => {
+      const next = [];
+      outside.forEach(piece => {
+        const overlapStart = Math.max(piece.start, span.start);
+        const overlapEnd = Math.min(piece.end, span.end);
+        if (overlapEnd <= overlapStart) {
+          next.push(piece);
+          return;
+        }
+        touched = true;
+        moved.push(toTimeCapsule({ start: overlapStart, end: overlapEnd }));
+        if (piece.start < overlapStart) next.push({ start: piece.start, end: overlapStart });
+        if (overlapEnd < piece.end) next.push({ start: overlapEnd, end: piece.end });
+      });
+      outside = next;
+    });
+    if (touched) {
+      outside.forEach(piece => kept.push(toTimeCapsule(piece)));
+    } else {
+      kept.push(capsule);
+    }
+  });
+  return { kept, moved };
+};
+
+// Move the capsules inside spans from one document's windows to the other's, same window key.
+// Windows changed on either side are touched so both documents sync them again
+const moveWindowTime = (sourceData, targetData, spans, now = Date.now()) => {
+  const targetWindows = targetData.activeWindows || (targetData.activeWindows = []);
+  let movedSeconds = 0;
+  (sourceData.activeWindows || []).forEach(win => {
+    const { kept, moved } = splitCapsulesBySpans(win.timeCapsules, spans);
+    if (moved.length === 0) return;
+    const seconds = moved.reduce((sum, capsule) => sum + capsule.duration, 0);
+    const before = (win.timeCapsules || []).reduce((sum, capsule) => sum + (capsule.duration || 0), 0);
+    const share = before > 0 ? Math.min(1, seconds / before) : 0;
+    const movedKeystrokes = Math.round((win.keystrokes || 0) * share);
+    const movedClicks = Math.round((win.mouseClicks || 0) * share);
+    win.timeCapsules = kept;
+    win.keystrokes = (win.keystrokes || 0) - movedKeystrokes;
+    win.mouseClicks = (win.mouseClicks || 0) - movedClicks;
+
+    let targetWin = targetWindows.find(w => w.windowKey === win.windowKey);
+    if (!targetWin) {
+      targetWin = { windowKey: win.windowKey, appName: win.appName || win.windowKey, title: win.title, keystrokes: 0, mouseClicks: 0, timeSpent: 0, timeCapsules: [], startTime: null, lastSeen: win.lastSeen, urls: [] };
+      targetWindows.push(targetWin);
+    }
+    targetWin.timeCapsules = [...(targetWin.timeCapsules || []), ...moved].sort((a, b) => a.startTime - b.startTime);
+    targetWin.keystrokes = (targetWin.keystrokes || 0) + movedKeystrokes;
+    targetWin.mouseClicks = (targetWin.mouseClicks || 0) + movedClicks;
+    targetWin.lastSeen = Math.max(targetWin.lastSeen || 0, win.lastSeen || 0);
+    touchSyncItems([win, targetWin], now);
+    movedSeconds += seconds;
+  });
+  return movedSeconds;
+};
+
+// Move the logs in spans (getActivityLogSpans) and what they stood for - their screenshots and
+// webcam photos, window time inside their intervals - from sourceData to targetData.
+// audit: { id, movedAt, movedBy, reason, from, to }; the moved ids and seconds are filled in.
+// Moved logs carry who moved them and why (reattributedFrom), which syncs with them. Moved logs and
+// images keep their timestamps, which the target's sync cursor may already be past, so they are
+// touched to be sent again, and the source gets a 'moved' tombstone for each.
+// Returns the moved logs as they now are in the target
+const moveTrackedWork = (sourceData, targetData, spans, audit, now = Date.now()) => {
+  const activityLogIds = new Set(spans.map(span => span.log.id));
+  const timeSpans = mergeIntervals(spans);
+  const retarget = (record) => ({ ...record, projectId: audit.to.projectId, taskId: audit.to.taskId });
+
+  const movedLogs = spans.map(span => ({
+    ...retarget(span.log),
+    reattributedFrom: { ...audit.from, at: audit.movedAt, auditId: audit.id, movedBy: audit.movedBy || null, reason: audit.reason || null }
+  }));
+  recordSyncRemovals(sourceData, 'activityLogs', spans.map(span => span.log), 'moved', now);
+  touchSyncItems(movedLogs, now);
+  sourceData.activityLogs = (sourceData.activityLogs || []).filter(log => !activityLogIds.has(log.id));
+  targetData.activityLogs = [...(targetData.activityLogs || []), ...movedLogs]
+    .sort((a, b) => getLogTime(a) - getLogTime(b));
+  audit.activityLogIds = movedLogs.map(log => log.id);
+
+  // Screenshots belong to their activity log; older records without one go by timestamp
+  const movesWithLogs = (record) => record.activityLogId ? activityLogIds.has(record.activityLogId) : isWithinSpans(record.timestamp, timeSpans);
+  ['screenshots', 'webcamPhotos'].forEach(collection => {
+    const records = sourceData[collection] || [];
+    const leaving = records.filter(movesWithLogs);
+    if (leaving.length === 0) return;
+    const movedIds = new Set(leaving.map(record => record.id));
+    const moved = leaving.map(retarget);
+    recordSyncRemovals(sourceData, collection, leaving, 'moved', now);
+    touchSyncItems(moved, now);
+    sourceData[collection] = records.filter(record => !movedIds.has(record.id));
+    targetData[collection] = [...(targetData[collection] || []), ...moved];
+    audit[collection === 'screenshots' ? 'screenshotIds' : 'webcamPhotoIds'] = Array.from(movedIds);
+  });
+
+  audit.movedSeconds = moveWindowTime(sourceData, targetData, timeSpans, now);
+  return movedLogs;
+};
+
+module.exports = {
+  getActivityLogSpans,
+  splitCapsulesBySpans,
+  moveWindowTime,
+  moveTrackedWork
+};
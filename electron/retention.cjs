@@ -0,0 +1,65 @@
+// Retention rules that don't need Electron: the policy from settings, a document's age,
+// whether its current revision reached the server and what pruning strips from it.
+// main.cjs owns the timer, the store and reading/writing the documents.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to keep each kind of data; 0 means keep forever. Off until the user sets a limit.
+const getRetentionPolicy = (settings) => ({
+  imageDays: settings.imageRetentionDays ?? 0,
+  activityLogDays: settings.activityLogRetentionDays ?? 0
+});
+
+const getTaskDocumentAgeDays = (taskFile, doc, now = Date.now()) => {
+  const day = taskFile.date || doc?.metadata?.createdAt?.split('T')[0];
+  if (!day) return 0;
+  return Math.floor((now - new Date(`${day}T00:00:00`).getTime()) / DAY_MS);
+};
+
+// The server has the current revision: the delta sync cursor confirmed it, and no image is
+// still held for review or waiting in the upload outbox
+const isTaskRevisionSynced = (doc, cursor) => {
+  const lastUpdated = doc.metadata?.lastUpdated;
+  if (!lastUpdated) return false;
+  
+  const images = [...(doc.trackingData?.screenshots || []), ...(doc.trackingData?.webcamPhotos || [])];
+  if (images.some(image => image.uploadPending || image.reviewPending)) return false;
+  return cursor?.lastUpdated === lastUpdated;
+};
+
+// Strip expired data from one document in place; returns what was removed. Pruning only frees
+// space on this computer - it leaves no sync tombstones, so the server keeps its copies.
+const pruneTaskDocument = (doc, ageDays, policy, prunedAt = new Date().toISOString()) => {
+  const trackingData = doc.trackingData || {};
+  const removed = { images: 0, activityLogs: 0 };
+  
+  if (policy.imageDays > 0 && ageDays >= policy.imageDays) {
+    removed.images = (trackingData.screenshots?.length || 0) + (trackingData.webcamPhotos?.length || 0);
+    if (removed.images > 0) {
+      trackingData.screenshots = [];
+      trackingData.webcamPhotos = [];
+      doc.metadata.imagesPrunedAt = prunedAt;
+    }
+  }
+  
+  if (policy.activityLogDays > 0 && ageDays >= policy.activityLogDays) {
+    const remoteDevices = Object.values(trackingData.deviceMerge?.devices || {});
+    removed.activityLogs = (trackingData.activityLogs?.length || 0) + remoteDevices.reduce((sum, d) => sum + (d.activityLogs?.length || 0), 0);
+    if (removed.activityLogs > 0 || trackingData.urlHistory?.length) {
+      trackingData.activityLogs = [];
+      trackingData.urlHistory = [];
+      remoteDevices.forEach(device => {
+        device.activityLogs = [];
+      });
+      doc.metadata.activityLogsPrunedAt = prunedAt;
+    }
+  }
+  
+  return removed;
+};
+
+module.exports = {
+  getRetentionPolicy,
+  getTaskDocumentAgeDays,
+  isTaskRevisionSynced,
+  pruneTaskDocument
+};
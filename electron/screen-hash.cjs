@@ -0,0 +1,52 @@
+// Screenshot change detection maths, free of Electron: the 64-bit difference hash (dHash)
+// of a 9x8 bitmap and how far two hashes are apart. main.cjs shrinks the nativeImage and
+// keeps the last hash per task.
+const DEFAULT_SCREENSHOT_CHANGE_THRESHOLD = 5; // % of hash bits that must differ; 0 disables the check
+const SCREEN_HASH_BITS = 64;
+const SCREEN_HASH_WIDTH = 9;
+const SCREEN_HASH_HEIGHT = 8;
+
+// bitmap: 9x8 BGRA pixels; each bit says whether a pixel is brighter than its right neighbour
+const computeScreenHashFromBitmap = (bitmap) => {
+  let hash = 0n;
+  for (let y = 0; y < SCREEN_HASH_HEIGHT; y++) {
+    for (let x = 0; x < SCREEN_HASH_WIDTH - 1; x++) {
+      const left = (y * SCREEN_HASH_WIDTH + x) * 4;
+      const right = left + 4;
+      const leftLuma = bitmap[left + 2] * 0.299 + bitmap[left + 1] * 0.587 + bitmap[left] * 0.114;
+      const rightLuma = bitmap[right + 2] * 0.299 + bitmap[right + 1] * 0.587 + bitmap[right] * 0.114;
+      hash = (hash << 1n) | (leftLuma > rightLuma ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+const getScreenHashDistance = (hashA, hashB) => {
+  let diff = BigInt(`0x${hashA}`) ^ BigInt(`0x${hashB}`);
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+};
+
+// Compare a hash with the last kept one (null for the first capture of a task).
+// Returns { changePercent (null when not compared), unchanged, skip }
+const compareScreenHashes = (hash, previousHash, settings) => {
+  const threshold = settings.screenshotChangeThreshold ?? DEFAULT_SCREENSHOT_CHANGE_THRESHOLD;
+  if (!previousHash || threshold <= 0) {
+    return { changePercent: null, unchanged: false, skip: false };
+  }
+  const changePercent = Math.round((getScreenHashDistance(hash, previousHash) / SCREEN_HASH_BITS) * 100);
+  const unchanged = changePercent < threshold;
+  return { changePercent, unchanged, skip: unchanged && settings.skipUnchangedScreenshots !== false };
+};
+
+module.exports = {
+  SCREEN_HASH_WIDTH,
+  SCREEN_HASH_HEIGHT,
+  computeScreenHashFromBitmap,
+  getScreenHashDistance,
+  compareScreenHashes
+};
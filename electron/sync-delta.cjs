@@ -0,0 +1,169 @@
+// Which tracking items a delta sync still has to send. Kept free of Electron so it can be
+// checked on its own; main.cjs owns the cursors in the store and the requests.
+//
+// A cursor is a high-water mark per collection (see isAfterSyncPosition). An item's
+// position is the later of its own time and updatedAt, so anything edited or moved in place
+// (rescored, reattributed) moves past the cursor again and is resent - the server upserts by id.
+// Removed items leave a tombstone in trackingData.syncRemovals, which syncs like any
+// other collection.
+const crypto = require('crypto');
+
+const SYNC_BATCH_LIMIT = 200; // Max items per collection in one request
+
+// Collections sent incrementally and the time that orders them
+const SYNC_COLLECTIONS = {
+  activityLogs: (item) => new Date(item.timestamp).getTime() || 0,
+  activeWindows: (item) => item.lastSeen || 0, // Window stats are mutable - resend when touched
+  screenshots: (item) => item.timestamp || 0,
+  webcamPhotos: (item) => item.timestamp || 0,
+  urlHistory: (item) => item.timestamp || 0,
+  syncRemovals: (item) => item.removedAt || 0
+};
+
+const getSyncPosition = (collection, item) => {
+  return Math.max(SYNC_COLLECTIONS[collection](item), item.updatedAt || 0);
+};
+
+const getSyncItemId = (collection, item) => {
+  if (collection === 'activeWindows') return String(item.windowKey ?? '');
+  if (item.id !== undefined && item.id !== null && item.id !== '') return String(item.id);
+  // url history entries have no id - derive a stable one from the visit itself
+  const visit = JSON.stringify([item.timestamp ?? null, item.url ?? null, item.title ?? null]);
+  return `derived-${crypto.createHash('sha1').update(visit).digest('hex').slice(0, 16)}`;
+};
+
+// A position is the last acknowledged time plus every id acknowledged at exactly that time,
+// so an item that turns up later at the same millisecond is still sent. Cursors written
+// before ids were kept only have the last id.
+const isAfterSyncPosition = (position, timestamp, id) => {
+  if (!position) return true;
+  if (timestamp !== position.timestamp) return timestamp > position.timestamp;
+  return !(position.ids || [position.id]).includes(id);
+};
+
+// The position after the server acknowledged entries (in delta order) from position
+const advanceSyncPosition = (position, entries) => {
+  if (entries.length === 0) return position;
+  const { timestamp } = entries[entries.length - 1];
+  const previous = position?.timestamp === timestamp ? (position.ids || [position.id]) : [];
+  const ids = [...new Set([...previous, ...entries.filter(entry => entry.timestamp === timestamp).map(entry => entry.id)])];
+  return { timestamp, id: ids[ids.length - 1], ids };
+};
+
+// Mark items edited (or moved in) so the next sync sends them again
+const touchSyncItems = (items, now = Date.now()) => {
+  items.forEach(item => {
+    item.updatedAt = now;
+  });
+};
+
+// Leave a tombstone for each removed item so the server drops it too. reason tells the
+// server why: 'deleted' by the user or 'moved' to another task. Retention pruning leaves
+// none - the server keeps what it has
+const recordSyncRemovals = (trackingData, collection, items, reason = 'deleted', now = Date.now()) => {
+  if (items.length === 0) return;
+  const tombstones = items.map(item => {
+    const itemId = getSyncItemId(collection, item);
+    return { id: `${collection}:${itemId}`, collection, itemId, reason, removedAt: now };
+  });
+  const replaced = new Set(tombstones.map(tombstone => tombstone.id));
+  trackingData.syncRemovals = [
+    ...(trackingData.syncRemovals || []).filter(tombstone => !replaced.has(tombstone.id)),
+    ...tombstones
+  ];
+};
+
+// Pick the next batch of unsynced items for every collection
+const collectSyncDelta = (trackingData, cursor) => {
+  // A tombstone for an item that is back in the document (moved back) is not sent, nor one
+  // left by retention pruning in documents pruned before it stopped writing them
+  const presentIds = new Set();
+  for (const collection of Object.keys(SYNC_COLLECTIONS)) {
+    if (collection === 'syncRemovals') continue;
+    (trackingData?.[collection] || []).forEach(item => presentIds.add(`${collection}:${getSyncItemId(collection, item)}`));
+  }
+
+  const delta = {};
+  for (const collection of Object.keys(SYNC_COLLECTIONS)) {
+    const items = (trackingData?.[collection] || [])
+      .filter(item => collection !== 'syncRemovals' || (!presentIds.has(item.id) && item.reason !== 'retention'))
+      .map(item => ({ item, timestamp: getSyncPosition(collection, item), id: getSyncItemId(collection, item) }))
+      .filter(entry => isAfterSyncPosition(cursor.collections?.[collection], entry.timestamp, entry.id))
+      .sort((a, b) => (a.timestamp - b.timestamp) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    // Images still held for review or waiting in the upload outbox have no fileUrl yet - hold
+    // them (and everything after them) back so the cursor never skips past them
+    const pendingIndex = items.findIndex(entry => entry.item.uploadPending || entry.item.reviewPending);
+    const ready = pendingIndex === -1 ? items : items.slice(0, pendingIndex);
+    delta[collection] = ready.slice(0, SYNC_BATCH_LIMIT);
+  }
+  return delta;
+};
+
+// What one delta request carries: the batches, plus the task summary, which is always sent as is
+const getSyncBatchPayload = (trackingData, delta) => {
+  const payload = { summary: trackingData?.summary };
+  for (const [collection, batch] of Object.entries(delta)) {
+    payload[collection] = batch.map(entry => entry.item);
+  }
+  return payload;
+};
+
+// Nothing past the cursor and the summary of this revision already went out
+const isSyncUpToDate = (delta, cursor, revision) => {
+  return Object.values(delta).every(batch => batch.length === 0) && cursor?.lastUpdated === revision;
+};
+
+// The cursor once the server answered a delta request (ack = its response body). Each
+// collection moves by what the server accepted; the revision only counts as synced when
+// the whole request was taken and confirmRevision is set - a request parked in the upload
+// outbox has not reached the server yet. more: full batches went out, so there may be more.
+const acknowledgeSyncDelta = (cursor, delta, ack, revision, { confirmRevision = true, now = Date.now() } = {}) => {
+  const next = { collections: { ...cursor?.collections }, lastUpdated: cursor?.lastUpdated, syncedAt: now };
+  let sent = 0;
+  let partial = false;
+  for (const [collection, batch] of Object.entries(delta)) {
+    const acceptedCount = getAcceptedCount(ack, collection, batch);
+    if (acceptedCount > 0) {
+      next.collections[collection] = advanceSyncPosition(cursor?.collections?.[collection], batch.slice(0, acceptedCount));
+    }
+    sent += acceptedCount;
+    if (acceptedCount < batch.length) {
+      partial = true;
+    }
+  }
+  if (!partial && confirmRevision) {
+    next.lastUpdated = revision;
+  }
+  const more = !partial && Object.values(delta).some(batch => batch.length >= SYNC_BATCH_LIMIT);
+  return { cursor: next, sent, partial, more };
+};
+
+// How many items of a batch the server acknowledged. The response may carry
+// accepted.{collection} as a count or as a list of ids; no accepted block means all of it.
+const getAcceptedCount = (ack, collection, batch) => {
+  const accepted = ack?.accepted ?? ack?.data?.accepted;
+  if (accepted === undefined || accepted === null) return batch.length;
+  const value = accepted[collection];
+  if (typeof value === 'number') return Math.max(0, Math.min(value, batch.length));
+  if (Array.isArray(value)) {
+    const acceptedIds = new Set(value.map(String));
+    const firstMissing = batch.findIndex(entry => !acceptedIds.has(entry.id));
+    return firstMissing === -1 ? batch.length : firstMissing;
+  }
+  return batch.length;
+};
+
+module.exports = {
+  SYNC_BATCH_LIMIT,
+  SYNC_COLLECTIONS,
+  getSyncItemId,
+  touchSyncItems,
+  recordSyncRemovals,
+  collectSyncDelta,
+  advanceSyncPosition,
+  getAcceptedCount,
+  getSyncBatchPayload,
+  isSyncUpToDate,
+  acknowledgeSyncDelta
+};
@@ -0,0 +1,187 @@
+// Task document <-> tracking database row mapping, the document checksum and torn-file
+// salvage. Kept free of Electron and SQLite so they can be checked on their own; main.cjs
+// seals the parts, runs the statements and writes the files.
+const crypto = require('crypto');
+
+// trackingData keys that have their own table/column - anything else goes to tasks.extra
+const TRACKING_DB_KNOWN_KEYS = ['activityLogs', 'activeWindows', 'screenshots', 'webcamPhotos', 'urlHistory', 'summary'];
+
+// A known key only goes to its table when it holds what the table stores; anything else
+// (null, a non-array) is kept verbatim in tasks.extra
+const holdsTableValue = (key, value) => (key === 'summary'
+  ? !!value && typeof value === 'object' && !Array.isArray(value)
+  : Array.isArray(value));
+
+// Split a document into the values stored per table. Key order is recorded in extra so the
+// document reads back exactly as written (the checksum and exported files depend on it).
+const splitTaskDocument = (data) => {
+  const trackingData = data.trackingData || {};
+  const { version, metadata, trackingData: _trackingData, ...doc } = data;
+  const tables = {};
+  const trackingExtra = {};
+  Object.keys(trackingData).forEach(key => {
+    if (TRACKING_DB_KNOWN_KEYS.includes(key) && holdsTableValue(key, trackingData[key])) {
+      tables[key] = trackingData[key];
+    } else {
+      trackingExtra[key] = trackingData[key];
+    }
+  });
+
+  return {
+    version,
+    metadata: metadata || {},
+    activityLogs: tables.activityLogs || [],
+    activeWindows: tables.activeWindows || [],
+    screenshots: tables.screenshots || [],
+    webcamPhotos: tables.webcamPhotos || [],
+    urlHistory: tables.urlHistory || [],
+    summary: tables.summary || null,
+    extra: {
+      doc,
+      trackingData: trackingExtra,
+      docKeys: Object.keys(data),
+      trackingKeys: Object.keys(trackingData)
+    }
+  };
+};
+
+// Inverse of splitTaskDocument. Rows written before key order was recorded get the
+// fixed layout they always had.
+const joinTaskDocument = (parts) => {
+  const extra = parts.extra || {};
+  const trackingExtra = extra.trackingData || {};
+  const tables = {
+    activityLogs: parts.activityLogs || [],
+    screenshots: parts.screenshots || [],
+    webcamPhotos: parts.webcamPhotos || [],
+    urlHistory: parts.urlHistory || [],
+    activeWindows: parts.activeWindows || [],
+    summary: parts.summary || undefined
+  };
+
+  if (!Array.isArray(extra.docKeys) || !Array.isArray(extra.trackingKeys)) {
+    return {
+      ...(extra.doc || {}),
+      version: parts.version || '1.0.0',
+      metadata: parts.metadata,
+      trackingData: {
+        ...tables,
+        ...trackingExtra,
+        summary: tables.summary
+      }
+    };
+  }
+
+  const trackingData = {};
+  extra.trackingKeys.forEach(key => {
+    trackingData[key] = Object.prototype.hasOwnProperty.call(trackingExtra, key) ? trackingExtra[key] : tables[key];
+  });
+  const data = {};
+  extra.docKeys.forEach(key => {
+    if (key === 'version') {
+      data.version = parts.version ?? undefined;
+    } else if (key === 'metadata') {
+      data.metadata = parts.metadata;
+    } else if (key === 'trackingData') {
+      data.trackingData = trackingData;
+    } else {
+      data[key] = extra.doc?.[key];
+    }
+  });
+  return data;
+};
+
+// JSON with object keys sorted at every level, so equal documents hash the same however
+// they were assembled (a row read back from the database, a merge, a recovered file)
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined || typeof item === 'function' ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    if (typeof value.toJSON === 'function') return canonicalJson(value.toJSON());
+    const entries = Object.keys(value).sort()
+      .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const sha256 = (text) => crypto.createHash('sha256').update(text).digest('hex');
+
+// metadata.checksum covers trackingData
+const CHECKSUM_PREFIX = 'sha256-sorted:';
+const LEGACY_CHECKSUM_PREFIX = 'sha256:'; // Hashed the keys in stored order
+
+const computeTaskDocumentChecksum = (data) => CHECKSUM_PREFIX + sha256(canonicalJson(data?.trackingData || {}));
+
+// true / false, or null when there is nothing to check: no checksum stored (written before
+// checksums existed), or a legacy one whose key order can't be trusted (rows the database
+// reassembled before key order was recorded)
+const verifyTaskDocumentChecksum = (data, { legacyOrderTrusted = true } = {}) => {
+  const stored = data?.metadata?.checksum;
+  if (!stored) return null;
+  if (stored.startsWith(CHECKSUM_PREFIX)) {
+    return stored === computeTaskDocumentChecksum(data);
+  }
+  if (stored === LEGACY_CHECKSUM_PREFIX + sha256(JSON.stringify(data?.trackingData || {}))) {
+    return true;
+  }
+  return legacyOrderTrusted ? false : null;
+};
+
+// Pull every complete object out of a (possibly truncated) "activityLogs" array
+const salvageActivityLogs = (rawText) => {
+  const logs = [];
+  const arrayMatch = /"activityLogs"\s*:\s*\[/.exec(rawText);
+  if (!arrayMatch) return logs;
+  
+  let index = arrayMatch.index + arrayMatch[0].length;
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  
+  for (; index < rawText.length; index++) {
+    const ch = rawText[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) start = index;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        try {
+          logs.push(JSON.parse(rawText.slice(start, index + 1)));
+        } catch (e) {
+          // Skip a malformed entry and keep going
+        }
+        start = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break; // End of the activityLogs array
+    }
+  }
+  return logs;
+};
+
+module.exports = {
+  TRACKING_DB_KNOWN_KEYS,
+  splitTaskDocument,
+  joinTaskDocument,
+  canonicalJson,
+  computeTaskDocumentChecksum,
+  verifyTaskDocumentChecksum,
+  salvageActivityLogs
+};
@@ -0,0 +1,59 @@
+// ==================== Tracking Backends ====================
+// Everything the tracker reads from the OS goes through one backend object:
+//   {
+//     name: string,
+//     getActiveWindow(): Promise<window | null>  - active-win's shape: { title, owner: { name, processId, path }, url?, bounds? }
+//     getIdleSeconds(): Promise<number | null>    - seconds since the last user input, null if unknown
+//     onKey(listener): unsubscribe               - called once per key press
+//     onClick(listener): unsubscribe             - called once per left click
+//     captureScreens(): Promise<Array<{ image: NativeImage, display: { id, index, name, bounds, scaleFactor } }>>
+//     startInput(): Promise<boolean>             - start the keyboard / mouse hooks (false if none could start)
+//     stopInput(): Promise<void>
+//   }
+// The platform picks the native backend. Two environment variables change that:
+//   TYRO_TRACKING_BACKEND=replay:/path/session.json  - replay a recorded session (TYRO_TRACKING_REPLAY_SPEED=10 plays it 10x)
+//   TYRO_TRACKING_BACKEND=windows|macos|linux         - force a native backend
+//   TYRO_TRACKING_RECORD=/path/session.json           - record what the backend reports, for replay later
+const { createWindowsBackend } = require('./windows.cjs');
+const { createMacBackend } = require('./macos.cjs');
+const { createLinuxBackend } = require('./linux.cjs');
+const { createReplayBackend, createRecordingBackend } = require('./replay.cjs');
+const { electronImageAdapter } = require('./shared.cjs');
+
+const NATIVE_BACKENDS = {
+  windows: createWindowsBackend,
+  macos: createMacBackend,
+  linux: createLinuxBackend
+};
+
+const PLATFORM_BACKENDS = {
+  win32: 'windows',
+  darwin: 'macos',
+  linux: 'linux'
+};
+
+const createTrackingBackend = ({ isDev }) => {
+  const requested = (process.env.TYRO_TRACKING_BACKEND || '').trim();
+  let backend;
+  if (requested.startsWith('replay:')) {
+    backend = createReplayBackend({
+      sessionPath: requested.slice('replay:'.length),
+      speed: parseFloat(process.env.TYRO_TRACKING_REPLAY_SPEED) || 1,
+      imageAdapter: electronImageAdapter
+    });
+  } else {
+    if (requested && !NATIVE_BACKENDS[requested]) {
+      console.warn(`[TRACKING] ⚠️ Unknown tracking backend "${requested}", using the platform default`);
+    }
+    const name = NATIVE_BACKENDS[requested] ? requested : (PLATFORM_BACKENDS[process.platform] || 'linux');
+    backend = NATIVE_BACKENDS[name]({ isDev });
+  }
+
+  if (process.env.TYRO_TRACKING_RECORD) {
+    backend = createRecordingBackend(backend, process.env.TYRO_TRACKING_RECORD, electronImageAdapter);
+  }
+  console.log(`[TRACKING] Using the ${backend.name} tracking backend`);
+  return backend;
+};
+
+module.exports = { createTrackingBackend };
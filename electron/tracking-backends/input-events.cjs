@@ -0,0 +1,27 @@
+// Listener registry behind onKey / onClick. Listeners get no arguments - key codes and click
+// positions never leave the backend. Kept out of shared.cjs so the replay backend loads without Electron
+const createInputEvents = () => {
+  const keyListeners = new Set();
+  const clickListeners = new Set();
+  const subscribe = (listeners) => (listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+  const emit = (listeners) => () => {
+    listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[TRACKING] Input listener failed:', error);
+      }
+    });
+  };
+  return {
+    onKey: subscribe(keyListeners),
+    onClick: subscribe(clickListeners),
+    emitKey: emit(keyListeners),
+    emitClick: emit(clickListeners)
+  };
+};
+
+module.exports = { createInputEvents };
@@ -0,0 +1,236 @@
+// Linux backend. active-win only sees X11 windows on Linux and returns nothing under Wayland, so
+// the helpers below read the focused window directly and return it in active-win's shape
+// ({ title, owner: { name, processId, path }, bounds }).
+//   X11     - _NET_ACTIVE_WINDOW on the root window, then _NET_WM_NAME / WM_CLASS / _NET_WM_PID (xprop)
+//   Wayland - no desktop portal exposes the focused window, so this asks the compositor instead
+//             (hyprctl, swaymsg, kdotool, GNOME's "Window Calls" extension over D-Bus) and finally
+//             xprop again, which still sees XWayland windows
+// Idle time: XScreenSaver on X11 (powerMonitor), Mutter's IdleMonitor on GNOME Wayland, then the
+// logind IdleHint / IdleSinceHint of the session.
+const { powerMonitor } = require('electron');
+const fs = require('fs');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const { createInputEvents, createActiveWinReader, createUiohookInput, captureDisplayImages } = require('./shared.cjs');
+
+const LINUX_COMMAND_TIMEOUT_MS = 1500;
+
+const execFileAsync = promisify(execFile);
+const missingLinuxCommands = new Set(); // Binaries that aren't installed - never spawned again
+let linuxWindowBackend = null; // Backend that answered last time, tried first
+
+const isWaylandSession = () => process.env.XDG_SESSION_TYPE === 'wayland' || !!process.env.WAYLAND_DISPLAY;
+
+const runLinuxCommand = async (file, args) => {
+  if (missingLinuxCommands.has(file)) return null;
+  try {
+    const { stdout } = await execFileAsync(file, args, {
+      timeout: LINUX_COMMAND_TIMEOUT_MS,
+      maxBuffer: 4 * 1024 * 1024,
+      encoding: 'utf8'
+    });
+    return stdout;
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      missingLinuxCommands.add(file);
+      console.log(`[LINUX] ${file} is not installed, skipping it from now on`);
+    }
+    return null;
+  }
+};
+
+// GVariant text output: ('...',) -> ...
+const parseGdbusString = (output) => {
+  const match = output?.match(/^\('(.*)',\)\s*$/s);
+  return match ? match[1].replace(/\\'/g, "'").replace(/\\\\/g, '\\') : null;
+};
+
+const toLinuxWindow = ({ title, appName, pid, bounds }) => {
+  let processName = null;
+  let processPath = '';
+  if (pid) {
+    try {
+      processName = fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim();
+    } catch (error) {
+      // Process may belong to another user or already be gone
+    }
+    try {
+      processPath = fs.readlinkSync(`/proc/${pid}/exe`);
+    } catch (error) {
+      // Same as above
+    }
+  }
+  return {
+    title: title || '',
+    owner: { name: processName || appName || 'Unknown', processId: pid || 0, path: processPath },
+    bounds: bounds || undefined,
+    platform: 'linux'
+  };
+};
+
+const getX11ActiveWindow = async () => {
+  const root = await runLinuxCommand('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+  const windowId = root?.match(/window id # (0x[0-9a-f]+)/i)?.[1];
+  if (!windowId || parseInt(windowId, 16) === 0) return null;
+  
+  const props = await runLinuxCommand('xprop', ['-id', windowId, '_NET_WM_NAME', 'WM_NAME', 'WM_CLASS', '_NET_WM_PID']);
+  if (!props) return null;
+  const readString = (name) => props.match(new RegExp(`^${name}(?:\\([^)]*\\))? = "(.*)"$`, 'm'))?.[1]?.replace(/\\"/g, '"');
+  const wmClass = props.match(/^WM_CLASS(?:\([^)]*\))? = "(.*?)", "(.*?)"$/m);
+  const pid = parseInt(props.match(/^_NET_WM_PID(?:\([^)]*\))? = (\d+)$/m)?.[1], 10) || null;
+  
+  let bounds;
+  const geometry = await runLinuxCommand('xwininfo', ['-id', windowId]);
+  if (geometry) {
+    const read = (label) => parseInt(geometry.match(new RegExp(`${label}:\\s+(-?\\d+)`))?.[1], 10);
+    const [x, y, width, height] = [read('Absolute upper-left X'), read('Absolute upper-left Y'), read('Width'), read('Height')];
+    if ([x, y, width, height].every(Number.isFinite)) {
+      bounds = { x, y, width, height };
+    }
+  }
+  
+  return toLinuxWindow({
+    title: readString('_NET_WM_NAME') ?? readString('WM_NAME'),
+    appName: wmClass?.[2] || wmClass?.[1],
+    pid,
+    bounds
+  });
+};
+
+const getHyprlandActiveWindow = async () => {
+  if (!process.env.HYPRLAND_INSTANCE_SIGNATURE) return null;
+  const output = await runLinuxCommand('hyprctl', ['activewindow', '-j']);
+  const win = output ? JSON.parse(output) : null;
+  if (!win?.address) return null;
+  return toLinuxWindow({
+    title: win.title,
+    appName: win.class,
+    pid: win.pid,
+    bounds: win.at && win.size ? { x: win.at[0], y: win.at[1], width: win.size[0], height: win.size[1] } : undefined
+  });
+};
+
+const getSwayActiveWindow = async () => {
+  if (!process.env.SWAYSOCK) return null;
+  const output = await runLinuxCommand('swaymsg', ['-t', 'get_tree', '-r']);
+  if (!output) return null;
+  const findFocused = (node) => {
+    if (node.focused && (node.pid || node.app_id || node.window_properties)) return node;
+    for (const child of [...(node.nodes || []), ...(node.floating_nodes || [])]) {
+      const found = findFocused(child);
+      if (found) return found;
+    }
+    return null;
+  };
+  const win = findFocused(JSON.parse(output));
+  if (!win) return null;
+  return toLinuxWindow({
+    title: win.name,
+    appName: win.app_id || win.window_properties?.class,
+    pid: win.pid,
+    bounds: win.rect ? { x: win.rect.x, y: win.rect.y, width: win.rect.width, height: win.rect.height } : undefined
+  });
+};
+
+const getKdeActiveWindow = async () => {
+  if (!/kde/i.test(process.env.XDG_CURRENT_DESKTOP || '')) return null;
+  const windowId = (await runLinuxCommand('kdotool', ['getactivewindow']))?.trim();
+  if (!windowId) return null;
+  const [title, pid, className] = await Promise.all([
+    runLinuxCommand('kdotool', ['getwindowname', windowId]),
+    runLinuxCommand('kdotool', ['getwindowpid', windowId]),
+    runLinuxCommand('kdotool', ['getwindowclassname', windowId])
+  ]);
+  return toLinuxWindow({ title: title?.trim(), appName: className?.trim(), pid: parseInt(pid, 10) || null });
+};
+
+// Needs the "Window Calls" GNOME Shell extension - Shell.Eval is locked down since GNOME 41
+const getGnomeActiveWindow = async () => {
+  if (!/gnome/i.test(process.env.XDG_CURRENT_DESKTOP || '')) return null;
+  const callWindows = (method, args = []) => runLinuxCommand('gdbus', [
+    'call', '--session', '--dest', 'org.gnome.Shell',
+    '--object-path', '/org/gnome/Shell/Extensions/Windows',
+    '--method', `org.gnome.Shell.Extensions.Windows.${method}`, ...args
+  ]);
+  const list = parseGdbusString(await callWindows('List'));
+  const win = list ? JSON.parse(list).find(w => w.focus) : null;
+  if (!win) return null;
+  const title = win.title ?? parseGdbusString(await callWindows('GetTitle', [String(win.id)]));
+  return toLinuxWindow({ title, appName: win.wm_class, pid: win.pid });
+};
+
+const LINUX_WINDOW_BACKENDS = {
+  hyprland: getHyprlandActiveWindow,
+  sway: getSwayActiveWindow,
+  kde: getKdeActiveWindow,
+  gnome: getGnomeActiveWindow,
+  x11: getX11ActiveWindow
+};
+
+const getActiveWindowLinux = async () => {
+  const order = isWaylandSession() ? ['hyprland', 'sway', 'kde', 'gnome', 'x11'] : ['x11'];
+  if (linuxWindowBackend && order.includes(linuxWindowBackend)) {
+    order.sort((a, b) => (b === linuxWindowBackend) - (a === linuxWindowBackend));
+  }
+  for (const backend of order) {
+    try {
+      const win = await LINUX_WINDOW_BACKENDS[backend]();
+      if (win) {
+        if (linuxWindowBackend !== backend) {
+          console.log(`[LINUX] Reading the active window via ${backend}`);
+          linuxWindowBackend = backend;
+        }
+        return win;
+      }
+    } catch (error) {
+      console.warn(`[LINUX] ⚠️ ${backend} active window lookup failed:`, error.message);
+    }
+  }
+  return null;
+};
+
+// Milliseconds since the last user input according to the desktop, or null if nothing answers
+const getLinuxIdleTime = async () => {
+  if (!isWaylandSession()) {
+    return powerMonitor.getSystemIdleTime() * 1000; // XScreenSaver extension
+  }
+  
+  const mutter = await runLinuxCommand('gdbus', [
+    'call', '--session', '--dest', 'org.gnome.Mutter.IdleMonitor',
+    '--object-path', '/org/gnome/Mutter/IdleMonitor/Core',
+    '--method', 'org.gnome.Mutter.IdleMonitor.GetIdletime'
+  ]);
+  const mutterIdle = mutter?.match(/uint64 (\d+)/)?.[1];
+  if (mutterIdle) {
+    return parseInt(mutterIdle, 10);
+  }
+  
+  // logind only flips IdleHint once the desktop's own idle delay has passed
+  const hints = await runLinuxCommand('loginctl', ['show-session', process.env.XDG_SESSION_ID || 'self', '-p', 'IdleHint', '-p', 'IdleSinceHint']);
+  if (!hints) return null;
+  if (/^IdleHint=no$/m.test(hints)) return 0;
+  const idleSince = parseInt(hints.match(/^IdleSinceHint=(\d+)$/m)?.[1], 10); // µs since the epoch
+  return idleSince > 0 ? Math.max(0, Date.now() - Math.floor(idleSince / 1000)) : null;
+};
+
+const createLinuxBackend = ({ isDev }) => {
+  const events = createInputEvents();
+  const readActiveWin = createActiveWinReader();
+  const uiohook = createUiohookInput({ ...events, isDev });
+
+  return {
+    name: 'linux',
+    getActiveWindow: async () => (await readActiveWin()) || (await getActiveWindowLinux()),
+    getIdleSeconds: async () => {
+      const idleMs = await getLinuxIdleTime();
+      return idleMs !== null && Number.isFinite(idleMs) ? idleMs / 1000 : null;
+    },
+    onKey: events.onKey,
+    onClick: events.onClick,
+    captureScreens: captureDisplayImages,
+    startInput: async () => uiohook.start(),
+    stopInput: async () => uiohook.stop()
+  };
+};
+
+module.exports = { createLinuxBackend };
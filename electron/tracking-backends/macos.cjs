@@ -0,0 +1,23 @@
+// macOS backend: active-win (which also reads the URL of supported browsers), uiohook-napi and
+// desktopCapturer. All three need the Accessibility / Screen Recording permissions
+const { powerMonitor } = require('electron');
+const { createInputEvents, createActiveWinReader, createUiohookInput, captureDisplayImages } = require('./shared.cjs');
+
+const createMacBackend = ({ isDev }) => {
+  const events = createInputEvents();
+  const readActiveWin = createActiveWinReader();
+  const uiohook = createUiohookInput({ ...events, isDev });
+
+  return {
+    name: 'macos',
+    getActiveWindow: readActiveWin,
+    getIdleSeconds: async () => powerMonitor.getSystemIdleTime(),
+    onKey: events.onKey,
+    onClick: events.onClick,
+    captureScreens: captureDisplayImages,
+    startInput: async () => uiohook.start(),
+    stopInput: async () => uiohook.stop()
+  };
+};
+
+module.exports = { createMacBackend };
@@ -0,0 +1,209 @@
+// Scripted backend that replays a recorded session, plus the recorder that writes one. Lets the
+// whole tracking pipeline run headless (CI, demos) with no hooks, window lookups or screen access.
+//
+// Session file (JSON):
+//   { version: 1, recordedAt, platform,
+//     displays: [{ id, name, bounds: { x, y, width, height }, scaleFactor }],
+//     events: [{ t, type: 'window', window }   - focus moved (window in active-win's shape, or null)
+//              { t, type: 'key' }              - one key press (no key codes are recorded)
+//              { t, type: 'click' }            - one left click
+//              { t, type: 'idle', seconds }]   - system idle time read by the recorder }
+// t is milliseconds since the session started. Screens are drawn rather than captured: stripes
+// derived from the focused window, so a focus change also changes the screenshot hash.
+//
+// Nothing here needs Electron. Images and the display list come from an adapter:
+//   { createImage(bitmap, { width, height }): image, getDisplays(): Array<{ id, label, bounds, scaleFactor }> }
+// index.cjs passes the nativeImage / screen one (shared.cjs); without one, screens are plain
+// bitmap images and the recorder writes the default display.
+const fs = require('fs');
+const crypto = require('crypto');
+const { createInputEvents } = require('./input-events.cjs');
+
+const REPLAY_SESSION_VERSION = 1;
+const DEFAULT_REPLAY_DISPLAYS = [{ id: 'replay-1', name: 'Replay Display 1', bounds: { x: 0, y: 0, width: 1280, height: 720 }, scaleFactor: 1 }];
+const RECORD_IDLE_DRIFT_SECONDS = 2; // Idle readings further than this from the predicted value get recorded
+
+// Just enough of NativeImage for a headless run to inspect what would have been captured
+const createBitmapImage = (bitmap, { width, height }) => ({
+  getSize: () => ({ width, height }),
+  isEmpty: () => width === 0 || height === 0,
+  toBitmap: () => Buffer.from(bitmap)
+});
+
+const bitmapImageAdapter = {
+  createImage: createBitmapImage,
+  getDisplays: () => DEFAULT_REPLAY_DISPLAYS.map(display => ({ id: display.id, label: display.name, bounds: display.bounds, scaleFactor: display.scaleFactor }))
+};
+
+const loadReplaySession = (sessionPath) => {
+  const session = JSON.parse(fs.readFileSync(sessionPath, 'utf8'));
+  if (session.version !== REPLAY_SESSION_VERSION || !Array.isArray(session.events)) {
+    throw new Error(`${sessionPath} is not a version ${REPLAY_SESSION_VERSION} tracking session`);
+  }
+  return {
+    ...session,
+    displays: session.displays?.length ? session.displays : DEFAULT_REPLAY_DISPLAYS,
+    events: [...session.events].sort((a, b) => a.t - b.t)
+  };
+};
+
+// Horizontal grey bands; band height and shades come from a hash of the window
+const drawReplayScreen = (window, { width, height }, imageAdapter) => {
+  const seed = crypto.createHash('md5').update(`${window?.owner?.name || ''}|${window?.title || ''}|${window?.url || ''}`).digest();
+  const bandHeight = 8 + (seed[0] % 56);
+  const rowBytes = width * 4;
+  const bitmap = Buffer.alloc(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const shade = seed[Math.floor(y / bandHeight) % seed.length];
+    bitmap.fill(shade, y * rowBytes, (y + 1) * rowBytes); // BGRA, alpha ends up as the shade too
+  }
+  return imageAdapter.createImage(bitmap, { width, height });
+};
+
+// speed > 1 plays the session faster than it was recorded
+const createReplayBackend = ({ sessionPath, speed = 1, imageAdapter = bitmapImageAdapter }) => {
+  const session = loadReplaySession(sessionPath);
+  const events = createInputEvents();
+  let timers = [];
+  let currentWindow = null;
+  let idleBase = { seconds: 0, at: Date.now() }; // Idle reading and when it was true
+
+  const playEvent = (event) => {
+    switch (event.type) {
+      case 'window':
+        currentWindow = event.window || null;
+        break;
+      case 'key':
+        idleBase = { seconds: 0, at: Date.now() };
+        events.emitKey();
+        break;
+      case 'click':
+        idleBase = { seconds: 0, at: Date.now() };
+        events.emitClick();
+        break;
+      case 'idle':
+        idleBase = { seconds: event.seconds, at: Date.now() };
+        break;
+      default:
+        console.warn('[REPLAY] ⚠️ Unknown event type, skipping:', event.type);
+    }
+  };
+
+  const stopTimers = () => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers = [];
+  };
+
+  console.log(`[REPLAY] Loaded ${session.events.length} events from ${sessionPath} (recorded ${session.recordedAt || 'unknown'} on ${session.platform || 'unknown'})`);
+
+  return {
+    name: 'replay',
+    getActiveWindow: async () => currentWindow,
+    getIdleSeconds: async () => idleBase.seconds + ((Date.now() - idleBase.at) * speed) / 1000,
+    onKey: events.onKey,
+    onClick: events.onClick,
+    captureScreens: async () => session.displays.map((display, index) => ({
+      image: drawReplayScreen(currentWindow, display.bounds, imageAdapter),
+      display: { id: String(display.id), index, name: display.name, bounds: { ...display.bounds }, scaleFactor: display.scaleFactor || 1 }
+    })),
+    // Every start plays the session from the beginning
+    startInput: async () => {
+      stopTimers();
+      currentWindow = null;
+      idleBase = { seconds: 0, at: Date.now() };
+      session.events.forEach(event => {
+        timers.push(setTimeout(() => playEvent(event), Math.max(0, event.t) / speed));
+      });
+      const duration = session.events.length ? session.events[session.events.length - 1].t : 0;
+      timers.push(setTimeout(() => console.log('[REPLAY] Session finished'), duration / speed));
+      console.log(`[REPLAY] ▶️ Replaying ${Math.round(duration / 1000)}s session at ${speed}x`);
+      return true;
+    },
+    stopInput: async () => stopTimers()
+  };
+};
+
+// Wrap a backend and write what it reports to recordPath each time input stops. Window titles and
+// URLs end up in the file, so this only runs when asked for via TYRO_TRACKING_RECORD
+const createRecordingBackend = (backend, recordPath, imageAdapter = bitmapImageAdapter) => {
+  let session = null;
+  let startedAt = null;
+  let lastWindowKey = null;
+  let idleBase = null;
+
+  const record = (event) => {
+    if (session) session.events.push({ t: Date.now() - startedAt, ...event });
+  };
+  const recordInput = (type) => () => {
+    record({ type });
+    idleBase = { seconds: 0, at: Date.now() };
+  };
+  backend.onKey(recordInput('key'));
+  backend.onClick(recordInput('click'));
+
+  const saveSession = () => {
+    if (!session) return;
+    try {
+      fs.writeFileSync(recordPath, JSON.stringify(session, null, 2));
+      console.log(`[REPLAY] 💾 Recorded ${session.events.length} events to ${recordPath}`);
+    } catch (error) {
+      console.error('[REPLAY] ❌ Could not write the recorded session:', error.message);
+    }
+  };
+
+  return {
+    ...backend,
+    name: `${backend.name}+record`,
+    getActiveWindow: async () => {
+      const win = await backend.getActiveWindow();
+      const windowKey = win ? `${win.owner?.name}|${win.title}|${win.url || ''}` : null;
+      if (session && windowKey !== lastWindowKey) {
+        lastWindowKey = windowKey;
+        record({
+          type: 'window',
+          window: win ? { title: win.title, owner: win.owner, url: win.url, bounds: win.bounds, platform: win.platform } : null
+        });
+      }
+      return win;
+    },
+    getIdleSeconds: async () => {
+      const seconds = await backend.getIdleSeconds();
+      if (session && seconds !== null) {
+        const predicted = idleBase ? idleBase.seconds + (Date.now() - idleBase.at) / 1000 : null;
+        if (predicted === null || Math.abs(seconds - predicted) > RECORD_IDLE_DRIFT_SECONDS) {
+          record({ type: 'idle', seconds });
+          idleBase = { seconds, at: Date.now() };
+        }
+      }
+      return seconds;
+    },
+    startInput: async () => {
+      const started = await backend.startInput();
+      if (!session) {
+        startedAt = Date.now();
+        lastWindowKey = null;
+        idleBase = null;
+        session = {
+          version: REPLAY_SESSION_VERSION,
+          recordedAt: new Date(startedAt).toISOString(),
+          platform: process.platform,
+          displays: imageAdapter.getDisplays().map(display => ({
+            id: String(display.id),
+            name: display.label || `Display ${display.id}`,
+            bounds: { ...display.bounds },
+            scaleFactor: display.scaleFactor
+          })),
+          events: []
+        };
+        console.log(`[REPLAY] ⏺️ Recording tracking session to ${recordPath}`);
+      }
+      return started;
+    },
+    stopInput: async () => {
+      await backend.stopInput();
+      saveSession();
+    }
+  };
+};
+
+module.exports = { createReplayBackend, createRecordingBackend, loadReplaySession };
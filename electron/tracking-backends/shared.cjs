@@ -0,0 +1,135 @@
+// Pieces shared by the native tracking backends
+const { desktopCapturer, nativeImage, screen } = require('electron');
+const { createInputEvents } = require('./input-events.cjs');
+
+// Image / display adapter for backends that draw their screens (replay, recorder)
+const electronImageAdapter = {
+  createImage: (bitmap, size) => nativeImage.createFromBitmap(bitmap, size),
+  getDisplays: () => screen.getAllDisplays()
+};
+
+// active-win (ES module, needs dynamic import). Returns null when it finds nothing; after the first
+// failure it is not tried again and the backend's own fallback takes over
+const createActiveWinReader = () => {
+  let activeWindow = null;
+  let disabled = false;
+  return async () => {
+    if (disabled) return null;
+    try {
+      if (!activeWindow) {
+        // active-win v9.0.0 uses named exports, not default export
+        const module = await import('active-win');
+        activeWindow = module.activeWindow;
+      }
+      if (typeof activeWindow !== 'function') {
+        throw new Error('activeWindow is not a function');
+      }
+      return (await activeWindow()) || null;
+    } catch (error) {
+      console.error('Failed to use active-win, falling back to the platform backend:', error.message);
+      disabled = true;
+      activeWindow = null;
+      return null;
+    }
+  };
+};
+
+// System-wide keyboard and mouse hooks (uiohook-napi). Only left clicks count, as before
+const createUiohookInput = ({ emitKey, emitClick, isDev }) => {
+  let uIOhook = null;
+  let running = false;
+
+  const start = () => {
+    if (running) return true;
+    try {
+      if (!uIOhook) {
+        const uiohookModule = require('uiohook-napi');
+        uIOhook = uiohookModule.uIOhook || uiohookModule;
+        uIOhook.on('keydown', () => emitKey());
+        // e.button: 1 = left, 2 = right, 3 = middle
+        uIOhook.on('mousedown', (e) => {
+          if (e.button === 1) emitClick();
+        });
+      }
+      uIOhook.start();
+      running = true;
+      console.log('✅ System-wide tracking initialized (uiohook-napi)');
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize uiohook-napi:', error.message);
+      if (isDev) {
+        console.error('Full error:', error);
+      }
+      return false;
+    }
+  };
+
+  const stop = () => {
+    if (!running) return;
+    try {
+      uIOhook.stop();
+      console.log('System-wide tracking stopped (uiohook-napi)');
+    } catch (error) {
+      console.error('Error stopping uiohook-napi:', error);
+    }
+    running = false;
+  };
+
+  return { start, stop };
+};
+
+// Grab one image per display, sized to its logical bounds.
+// Returns Array<{ image: NativeImage, display: { id, index, name, bounds, scaleFactor } }>
+const captureDisplayImages = async () => {
+  const displays = screen.getAllDisplays();
+  // desktopCapturer uses one thumbnail box for every source - size it for the largest display
+  const thumbnailSize = displays.reduce((size, display) => ({
+    width: Math.max(size.width, display.bounds.width),
+    height: Math.max(size.height, display.bounds.height)
+  }), { width: 0, height: 0 });
+
+  const sources = await desktopCapturer.getSources({
+    types: ['screen'],
+    thumbnailSize: thumbnailSize.width > 0 ? thumbnailSize : { width: 1920, height: 1080 }
+  });
+  console.log('[TASK-SCREENSHOT] Screen sources found:', sources.length, sources.map(s => s.name), 'displays:', displays.length);
+
+  // Sources without a matching display (display_id is empty on some Linux setups) fall back to
+  // display order, then get laid out to the right of everything else
+  let nextX = displays.reduce((right, display) => Math.max(right, display.bounds.x + display.bounds.width), 0);
+  return sources.map((source, index) => {
+    const thumbnail = source.thumbnail;
+    if (!thumbnail || thumbnail.isEmpty()) {
+      console.warn(`[TASK-SCREENSHOT] ⚠️ Source "${source.name}" returned an empty thumbnail, skipping`);
+      return null;
+    }
+    const display = displays.find(d => source.display_id && String(d.id) === source.display_id) ||
+      (sources.length === displays.length ? displays[index] : null);
+    let bounds;
+    if (display) {
+      bounds = { ...display.bounds };
+    } else {
+      const size = thumbnail.getSize();
+      bounds = { x: nextX, y: 0, width: size.width, height: size.height };
+      nextX += size.width;
+    }
+    return {
+      image: thumbnail.resize({ width: bounds.width, height: bounds.height }),
+      display: {
+        id: display ? String(display.id) : (source.display_id || source.id),
+        index,
+        name: source.name,
+        bounds,
+        scaleFactor: display ? display.scaleFactor : 1
+      }
+    };
+  }).filter(Boolean);
+};
+
+module.exports = {
+  createInputEvents,
+  electronImageAdapter,
+  createActiveWinReader,
+  createUiohookInput,
+  captureDisplayImages
+};
@@ -0,0 +1,267 @@
+// Windows backend: active-win, uiohook-napi and desktopCapturer, with PowerShell fallbacks for the
+// active window and for keyboard / mouse input when the native modules fail to load
+const { powerMonitor } = require('electron');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const { exec } = require('child_process');
+const { promisify } = require('util');
+const { createInputEvents, createActiveWinReader, createUiohookInput, captureDisplayImages } = require('./shared.cjs');
+
+const execAsync = promisify(exec);
+
+// PowerShell polling is slow and spawns a process per tick - 200ms keeps resource use reasonable
+const POWERSHELL_POLL_INTERVAL_MS = 200;
+
+const ACTIVE_WINDOW_SCRIPT = `Add-Type -TypeDefinition @'
+using System;
+using System.Runtime.InteropServices;
+using System.Text;
+public class Win32 {
+  [DllImport("user32.dll")]
+  public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll", CharSet = CharSet.Auto, SetLastError = true)]
+  public static extern int GetWindowText(IntPtr hWnd, StringBuilder lpString, int nMaxCount);
+  [DllImport("user32.dll", SetLastError = true)]
+  public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
+}
+'@
+$hwnd = [Win32]::GetForegroundWindow()
+if ($hwnd -eq [IntPtr]::Zero) { exit 1 }
+$title = New-Object System.Text.StringBuilder 256
+[Win32]::GetWindowText($hwnd, $title, $title.Capacity) | Out-Null
+$processId = 0
+[Win32]::GetWindowThreadProcessId($hwnd, [ref]$processId) | Out-Null
+$process = Get-Process -Id $processId -ErrorAction SilentlyContinue
+$processName = if ($process) { $process.ProcessName } else { "Unknown" }
+$result = @{
+  Title = $title.ToString()
+  ProcessName = $processName
+  ProcessId = $processId
+} | ConvertTo-Json -Compress
+Write-Output $result`;
+
+// Uses GetAsyncKeyState - bit 15 (0x8000) = key is currently down
+// Bit 0 (0x0001) = key was pressed since last call (transition bit)
+const KEYBOARD_SCRIPT = `Add-Type -TypeDefinition @'
+using System;
+using System.Runtime.InteropServices;
+public class KeyChecker {
+  [DllImport("user32.dll")]
+  public static extern short GetAsyncKeyState(int vKey);
+
+  public static bool IsKeyPressed(int vKey) {
+    short state = GetAsyncKeyState(vKey);
+    // Check if key is currently down (bit 15) OR was just pressed (bit 0)
+    return (state & 0x8000) != 0 || (state & 0x0001) != 0;
+  }
+}
+'@
+$keys = @()
+# Check A-Z (65-90), 0-9 (48-57), Space (32), Enter (13), Tab (9), Backspace (8)
+for ($i = 65; $i -le 90; $i++) { if ([KeyChecker]::IsKeyPressed($i)) { $keys += $i } }
+for ($i = 48; $i -le 57; $i++) { if ([KeyChecker]::IsKeyPressed($i)) { $keys += $i } }
+if ([KeyChecker]::IsKeyPressed(32)) { $keys += 32 }  # Space
+if ([KeyChecker]::IsKeyPressed(13)) { $keys += 13 }  # Enter
+if ([KeyChecker]::IsKeyPressed(9)) { $keys += 9 }    # Tab
+if ([KeyChecker]::IsKeyPressed(8)) { $keys += 8 }    # Backspace
+$keys -join ','`;
+
+// VK_LBUTTON = 0x01
+const MOUSE_SCRIPT = `Add-Type -TypeDefinition @'
+using System;
+using System.Runtime.InteropServices;
+public class MouseChecker {
+  [DllImport("user32.dll")]
+  public static extern short GetAsyncKeyState(int vKey);
+
+  public static bool IsLeftMousePressed() {
+    short state = GetAsyncKeyState(0x01); // VK_LBUTTON
+    // Check if button is currently down (bit 15) OR was just pressed (bit 0)
+    return (state & 0x8000) != 0 || (state & 0x0001) != 0;
+  }
+}
+'@
+if ([MouseChecker]::IsLeftMousePressed()) { Write-Output "1" } else { Write-Output "0" }`;
+
+// Run a PowerShell script file, keeping stderr / stdout on the error for logging
+const runPowerShellScript = async (scriptPath, options = {}) => {
+  // Escape path for PowerShell (handle spaces and special characters)
+  const escapedPath = scriptPath.replace(/"/g, '""').replace(/'/g, "''");
+  try {
+    return await execAsync(`powershell -NoProfile -ExecutionPolicy Bypass -File "${escapedPath}"`, {
+      timeout: options.timeout || 2000,
+      maxBuffer: options.maxBuffer || 1024,
+      encoding: 'utf8'
+    });
+  } catch (error) {
+    const enhancedError = new Error(error.message);
+    Object.assign(enhancedError, {
+      code: error.code,
+      signal: error.signal,
+      stderr: error.stderr || '',
+      stdout: error.stdout || ''
+    });
+    throw enhancedError;
+  }
+};
+
+const getActiveWindowPowerShell = async () => {
+  const scriptPath = path.join(os.tmpdir(), `get-active-window-${Date.now()}.ps1`);
+  try {
+    fs.writeFileSync(scriptPath, ACTIVE_WINDOW_SCRIPT, 'utf8');
+    const { stdout, stderr } = await runPowerShellScript(scriptPath, { timeout: 3000, maxBuffer: 1024 * 1024 });
+    if (stderr && stderr.trim() && !stderr.includes('Warning')) {
+      console.warn('PowerShell stderr:', stderr);
+    }
+    const output = stdout.trim();
+    if (!output) return null;
+    const result = JSON.parse(output);
+    // Same shape as active-win (PowerShell can't read the URL, only the window title)
+    return {
+      title: result.Title || 'Unknown',
+      owner: { name: result.ProcessName || 'Unknown', processId: result.ProcessId || 0, path: '' },
+      platform: 'windows'
+    };
+  } catch (error) {
+    // Only log if it's not a silent failure
+    if (error.code !== 'ENOENT' && !error.message.includes('Command failed')) {
+      console.error('Error getting active window via PowerShell:', error.message);
+    }
+    return null;
+  } finally {
+    try {
+      fs.unlinkSync(scriptPath);
+    } catch (cleanupError) {
+      // Ignore cleanup errors
+    }
+  }
+};
+
+// Poll a GetAsyncKeyState script and hand each output to onOutput. Returns the interval, or null
+// if PowerShell is missing or the script fails its first run
+const startPowerShellPoller = async ({ tag, scriptName, script, onOutput, isDev }) => {
+  try {
+    await execAsync('powershell -Command "exit 0"', { timeout: 1000 });
+  } catch (error) {
+    console.error(`[${tag}] PowerShell is not available:`, error.message);
+    return null;
+  }
+
+  const scriptPath = path.join(os.tmpdir(), scriptName);
+  try {
+    fs.writeFileSync(scriptPath, script, { encoding: 'utf8' });
+    await runPowerShellScript(scriptPath);
+    if (isDev) {
+      console.log(`[${tag}] Script test successful`);
+    }
+  } catch (error) {
+    console.error(`[${tag}] Script test failed:`, error.message);
+    if (error.stderr) {
+      console.error(`[${tag}] PowerShell stderr:`, error.stderr);
+    }
+    return null;
+  }
+
+  let errorCount = 0;
+  const interval = setInterval(async () => {
+    try {
+      if (!fs.existsSync(scriptPath)) {
+        if (isDev) {
+          console.warn(`[${tag}] Script file missing, recreating...`);
+        }
+        fs.writeFileSync(scriptPath, script, { encoding: 'utf8' });
+      }
+      const { stdout, stderr } = await runPowerShellScript(scriptPath, { timeout: 1000 });
+      if (stderr && stderr.trim() && isDev) {
+        console.warn(`[${tag}] PowerShell stderr:`, stderr.trim());
+      }
+      onOutput(stdout.trim());
+    } catch (error) {
+      // Only log errors occasionally to avoid spam (every 50th error)
+      if (isDev && errorCount % 50 === 0) {
+        console.error(`[${tag}] Polling error:`, error.message);
+        if (error.stderr) {
+          console.error(`[${tag}] PowerShell stderr:`, error.stderr);
+        }
+      }
+      errorCount++;
+    }
+  }, POWERSHELL_POLL_INTERVAL_MS);
+  interval.scriptPath = scriptPath;
+  return interval;
+};
+
+const createWindowsBackend = ({ isDev }) => {
+  const events = createInputEvents();
+  const readActiveWin = createActiveWinReader();
+  const uiohook = createUiohookInput({ ...events, isDev });
+  let pollers = [];
+
+  const startPowerShellInput = async () => {
+    // Count a key once per press: pressed now but not on the previous poll
+    let pressedKeys = new Set();
+    const keyboard = await startPowerShellPoller({
+      tag: 'KEY-WIN',
+      scriptName: 'keyboard-tracker.ps1',
+      script: KEYBOARD_SCRIPT,
+      isDev,
+      onOutput: (output) => {
+        const currentKeys = new Set(output ? output.split(',').map(k => parseInt(k, 10)).filter(k => !isNaN(k)) : []);
+        currentKeys.forEach(keyCode => {
+          if (!pressedKeys.has(keyCode)) events.emitKey();
+        });
+        pressedKeys = currentKeys;
+      }
+    });
+
+    let mousePressed = false;
+    const mouse = await startPowerShellPoller({
+      tag: 'MOUSE-WIN',
+      scriptName: 'mouse-tracker.ps1',
+      script: MOUSE_SCRIPT,
+      isDev,
+      onOutput: (output) => {
+        const isPressed = output === '1';
+        // Detect click (transition from not pressed to pressed)
+        if (isPressed && !mousePressed) events.emitClick();
+        mousePressed = isPressed;
+      }
+    });
+
+    pollers = [keyboard, mouse].filter(Boolean);
+    if (pollers.length > 0) {
+      console.log('✅ Windows API keyboard/mouse tracking initialized (polling method)');
+    }
+    return pollers.length > 0;
+  };
+
+  return {
+    name: 'windows',
+    getActiveWindow: async () => (await readActiveWin()) || (await getActiveWindowPowerShell()),
+    getIdleSeconds: async () => powerMonitor.getSystemIdleTime(),
+    onKey: events.onKey,
+    onClick: events.onClick,
+    captureScreens: captureDisplayImages,
+    startInput: async () => {
+      if (uiohook.start()) return true;
+      if (pollers.length > 0) return true;
+      console.warn('⚠️  uiohook-napi not initialized - falling back to Windows API method (slower polling)');
+      return await startPowerShellInput();
+    },
+    stopInput: async () => {
+      uiohook.stop();
+      pollers.forEach(interval => {
+        clearInterval(interval);
+        try {
+          if (fs.existsSync(interval.scriptPath)) fs.unlinkSync(interval.scriptPath);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      });
+      pollers = [];
+    }
+  };
+};
+
+module.exports = { createWindowsBackend };
@@ -0,0 +1,50 @@
+// Unclassified inbox bookkeeping, free of Electron: adding reported time to the stored items and
+// trimming the inbox. main.cjs owns the store and decides which windows are private.
+//
+// Stored as { [kind:name]: { key, kind: 'app' | 'url', name, seconds, samples: [title or path], firstSeen, lastSeen } }
+const MAX_UNCLASSIFIED_ITEMS = 200;
+const MAX_UNCLASSIFIED_SAMPLES = 5;
+
+// The window an entry was seen in, shaped like the tracking backend's windows so the
+// redaction / exclusion matchers can run on it
+const getUnclassifiedEntryWindow = (entry) => ({
+  owner: { name: String(entry.app || (entry.kind === 'app' ? entry.name : '')) },
+  title: String(entry.title ?? (entry.kind === 'app' ? entry.sample : '') ?? ''),
+  url: entry.kind === 'url' ? `${entry.name}${entry.sample || ''}` : undefined
+});
+
+// Add entries ({ kind, name, seconds, sample?, app?, title? }) to inbox in place. Samples
+// (window titles, paths) are only kept when isPrivate(window) says the window is not covered by
+// a privacy rule - the time still counts
+const recordUnclassifiedEntries = (inbox, entries, isPrivate, now = new Date().toISOString()) => {
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const name = String(entry?.name || '').trim();
+    if ((entry?.kind !== 'app' && entry?.kind !== 'url') || !name || !(entry.seconds > 0)) continue;
+    const key = `${entry.kind}:${name.toLowerCase()}`;
+    const item = inbox[key] || { key, kind: entry.kind, name, seconds: 0, samples: [], firstSeen: now, lastSeen: now };
+    item.seconds += Math.round(entry.seconds);
+    item.lastSeen = now;
+    const sample = String(entry.sample || '').trim();
+    if (sample && !item.samples.includes(sample) && !isPrivate(getUnclassifiedEntryWindow({ ...entry, name }))) {
+      item.samples = [sample, ...item.samples].slice(0, MAX_UNCLASSIFIED_SAMPLES);
+    }
+    inbox[key] = item;
+  }
+  return inbox;
+};
+
+// Keep the items seen most recently, so an app that just showed up is not pushed out by the
+// ones that have piled up time (most time first among items last seen at the same moment)
+const trimUnclassifiedInbox = (inbox, limit = MAX_UNCLASSIFIED_ITEMS) => {
+  const kept = Object.values(inbox)
+    .sort((a, b) => String(b.lastSeen).localeCompare(String(a.lastSeen)) || b.seconds - a.seconds)
+    .slice(0, limit);
+  return Object.fromEntries(kept.map(item => [item.key, item]));
+};
+
+module.exports = {
+  MAX_UNCLASSIFIED_ITEMS,
+  getUnclassifiedEntryWindow,
+  recordUnclassifiedEntries,
+  trimUnclassifiedInbox
+};
@@ -38,7 +38,8 @@ export const useActivityTracker = (options: UseActivityTrackerOptions = {}) => {
         if (window.electronAPI?.processActivity) {
             try {
                 const result = await window.electronAPI.processActivity(input);
-                return result;
+                // The main process leaves categorization to the renderer and returns null
+                if (result) return result;
             } catch (error) {
                 console.warn('Electron API failed, using local processor:', error);
             }
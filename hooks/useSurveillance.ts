@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { ActivityLog, Project } from '../types';
-import { appClassifier } from '../services/appClassifier';
-import { urlClassifier } from '../services/urlClassifier';
+import { ActivityLog, Project, CodeContext } from '../types';
+import { classifyActivity } from '../services/activityCategorizer';
+import { classificationRules } from '../services/classificationRules';
+import { unclassifiedInbox } from '../services/unclassifiedInbox';
 import { deepWorkCalculator } from '../services/deepWorkCalculator';
 import { compositeScoreCalculator } from '../services/compositeScoreCalculator';
 
@@ -116,6 +117,7 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
         url: string | null;
         app: string;
         keystrokes: number;
+        codeContext?: CodeContext | null;
     } | null>(null);
     
     // Activity counters (reset every interval)
@@ -324,10 +326,10 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
                 intervalStartTime = Date.now();
                     
                 // Get REAL active window data from Electron
-                let realWindowData = {
+                let realWindowData: { title: string; owner: string; url: string | null; app: string; codeContext?: CodeContext | null } = {
                     title: 'Unknown',
                     owner: 'Unknown',
-                    url: null as string | null,
+                    url: null,
                     app: 'Unknown'
                 };
 
@@ -348,7 +350,8 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
                 const appName = activity.app || activity.owner || realWindowData.app || realWindowData.owner || 'Unknown';
                 const windowTitle = activity.title || realWindowData.title || 'Unknown';
                 
-                // Extract URL from title if not available (for browsers)
+                // URLs from the main process (browser extension bridge, active-win) are exact -
+                // parse the title only when there is none
                 let finalUrl = activity.url || realWindowData.url;
                 if (!finalUrl && windowTitle) {
                     finalUrl = extractUrlFromTitle(windowTitle, appName);
@@ -438,13 +441,13 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
                     score = Math.max(0, score - idlePenalty);
                 }
 
-                // Classify app (lightweight - in-memory lookup)
-                const appClassification = appClassifier.classifyApp(appName, windowTitle);
-                
-                // Classify URL if available (overrides app classification for browsers)
-                let urlClassification = null;
-                if (finalUrl) {
-                    urlClassification = urlClassifier.classifyUrl(finalUrl);
+                // Classify app (lightweight - in-memory lookup); scoped rules see the user's department, workspace and project
+                // The URL (if available) is classified too and overrides the app for browsers
+                const classificationContext = classificationRules.getContext(currentProjectId);
+                const classification = classifyActivity({ app: appName, title: windowTitle, url: finalUrl }, classificationContext);
+                const appClassification = classification.app;
+                const urlClassification = classification.url;
+                if (urlClassification) {
                     console.log('URL classification:', {
                         url: finalUrl,
                         domain: urlClassification.domain,
@@ -460,9 +463,14 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
                     category: appClassification.category,
                     weight: appClassification.weight,
                     matchType: appClassification.matchType,
-                    confidence: appClassification.confidence
+                    confidence: appClassification.confidence,
+                    activity: classification.activity
                 });
 
+                // Apps / domains no rule matched go to the unclassified inbox (Settings) for the user to label
+                unclassifiedInbox.record(appName, windowTitle !== 'Unknown' ? windowTitle : undefined, classification, activitySeconds)
+                    .catch(error => console.warn('[CLASSIFICATION] ⚠️ Unclassified inbox update failed:', error));
+
                 // Calculate focus metrics using recent logs
                 // In dev mode: last 6 logs = 6 minutes, in prod: last 6 logs = 1 hour
                 const recentLogs = activityLogs.slice(0, 6);
@@ -499,10 +507,13 @@ export const useSurveillance = ({ isTimerRunning, currentProjectId, currentTaskI
                     productivityScore: score,
                     activeWindow: appName,
                     activeUrl: finalUrl || undefined,
+                    windowTitle: windowTitle !== 'Unknown' ? windowTitle : undefined,
+                    codeContext: activity.codeContext || realWindowData.codeContext || undefined,
                     appCategory: appClassification.category,
                     appCategoryWeight: appClassification.weight,
                     urlCategory: urlClassification?.category,
                     urlCategoryWeight: urlClassification?.weight,
+                    activityCategory: classification.activity,
                     contextSwitches: focusMetrics.contextSwitches,
                     focusScore: focusMetrics.focusScore,
                     averageSessionLength: focusMetrics.averageSessionLength,
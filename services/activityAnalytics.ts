@@ -5,6 +5,7 @@
  */
 
 import { ActivityCategory, CategorizedActivity } from './activityCategorizer';
+import { ProductivityCategory } from '../config/appClassifications';
 
 export interface ActivityRecord {
     timestamp: number;
@@ -12,6 +13,8 @@ export interface ActivityRecord {
     title: string;
     url?: string;
     category: ActivityCategory;
+    productivityCategory: ProductivityCategory;
+    weight: number; // Rule weight (0.0-1.0), as used by the composite score
 }
 
 export interface TimeUsage {
@@ -50,6 +53,8 @@ class ActivityAnalytics {
         url?: string;
         timestamp?: number;
         category: ActivityCategory;
+        productivityCategory: ProductivityCategory;
+        weight: number;
     }): void {
         const timestamp = activity.timestamp || Date.now();
         const record: ActivityRecord = {
@@ -57,7 +62,9 @@ class ActivityAnalytics {
             app: activity.app,
             title: activity.title,
             url: activity.url,
-            category: activity.category
+            category: activity.category,
+            productivityCategory: activity.productivityCategory,
+            weight: activity.weight
         };
         
         // If we have a current session, calculate time spent
@@ -185,6 +192,41 @@ class ActivityAnalytics {
             .sort((a, b) => b.seconds - a.seconds);
     }
 
+    /**
+     * Calculate time-weighted productivity (0-100) from the rule weights, the same
+     * weights the composite score uses for its app / URL components
+     */
+    calculateProductivityPercentage(records: ActivityRecord[] = this.records): number {
+        let totalSeconds = 0;
+        let weightedSeconds = 0;
+        
+        // Process all records
+        for (let i = 0; i < records.length; i++) {
+            const record = records[i];
+            const nextRecord = records[i + 1];
+            
+            const duration = nextRecord
+                ? Math.floor((nextRecord.timestamp - record.timestamp) / 1000)
+                : 0;
+            
+            if (duration > 0) {
+                totalSeconds += duration;
+                weightedSeconds += duration * record.weight;
+            }
+        }
+        
+        // Add current session
+        if (this.currentSession && this.sessionStartTime) {
+            const currentDuration = this.getCurrentSessionDuration();
+            if (currentDuration > 0) {
+                totalSeconds += currentDuration;
+                weightedSeconds += currentDuration * this.currentSession.weight;
+            }
+        }
+        
+        return totalSeconds > 0 ? Math.round((weightedSeconds / totalSeconds) * 100) : 0;
+    }
+
     /**
      * Generate productivity insights
      */
@@ -205,14 +247,8 @@ class ActivityAnalytics {
         const communicationTime = categoryBreakdown.find(c => c.category === 'Communication')?.seconds || 0;
         const totalTime = categoryBreakdown.reduce((sum, c) => sum + c.seconds, 0);
         
-        // Calculate productivity percentage (Work + Communication + Productivity)
-        const productivityTime = categoryBreakdown
-            .filter(c => ['Work', 'Communication', 'Productivity'].includes(c.category))
-            .reduce((sum, c) => sum + c.seconds, 0);
-        
-        const productivityPercentage = totalTime > 0
-            ? Math.round((productivityTime / totalTime) * 100)
-            : 0;
+        // Productivity from the rule weights, so it agrees with the composite score
+        const productivityPercentage = this.calculateProductivityPercentage(filteredRecords);
         
         // Generate suggestions
         const suggestions: string[] = [];
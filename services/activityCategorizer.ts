@@ -1,134 +1,54 @@
 /**
  * Activity Categorizer
  * Categorizes applications and URLs into Work, Entertainment, Communication, etc.
- * Works entirely offline using JavaScript pattern matching.
+ * The category comes from the classification rules (appClassifier / urlClassifier),
+ * the same rules that give the productivity category used by the composite score.
+ * Works entirely offline.
  */
 
-export type ActivityCategory = 'Work' | 'Entertainment' | 'Communication' | 'Productivity' | 'Other';
+import { ActivityCategory, ClassificationContext, ProductivityCategory } from '../config/appClassifications';
+import { appClassifier, AppClassificationResult } from './appClassifier';
+import { urlClassifier, UrlClassificationResult } from './urlClassifier';
+
+export type { ActivityCategory } from '../config/appClassifications';
+
+export interface ActivityClassification {
+    category: ProductivityCategory; // URL result when there is a URL (it overrides the app), otherwise the app result
+    weight: number;
+    activity: ActivityCategory; // From the URL rule if one matched, otherwise from the app rule
+    app: AppClassificationResult;
+    url: UrlClassificationResult | null;
+}
 
 export interface CategorizedActivity {
     category: ActivityCategory;
+    productivityCategory: ProductivityCategory;
+    weight: number;
     description: string;
     suggestion: string;
     appName: string;
     url?: string;
 }
 
-// Work Applications
-const WORK_APPS = [
-    'code', 'vscode', 'visual studio', 'sublime', 'atom', 'webstorm', 'intellij',
-    'github desktop', 'git', 'sourcetree', 'bitbucket',
-    'chrome devtools', 'firefox developer', 'edge devtools',
-    'slack', 'microsoft teams', 'zoom', 'webex', 'jira', 'trello', 'asana',
-    'notion', 'obsidian', 'evernote', 'onenote',
-    'excel', 'word', 'powerpoint', 'outlook', 'gmail', 'thunderbird',
-    'figma', 'sketch', 'adobe xd', 'photoshop', 'illustrator',
-    'postman', 'insomnia', 'docker', 'kubernetes', 'terminal', 'powershell', 'cmd',
-    'mysql', 'mongodb', 'postgresql', 'sql server'
-];
-
-// Entertainment Applications
-const ENTERTAINMENT_APPS = [
-    'youtube', 'netflix', 'spotify', 'discord', 'steam', 'epic games',
-    'twitch', 'vimeo', 'dailymotion', 'hulu', 'disney', 'prime video',
-    'tiktok', 'instagram', 'facebook', 'twitter', 'reddit', 'pinterest',
-    'games', 'game', 'minecraft', 'fortnite', 'valorant', 'league of legends',
-    'battle.net', 'origin', 'uplay', 'gog', 'roblox'
-];
-
-// Communication Applications
-const COMMUNICATION_APPS = [
-    'whatsapp', 'telegram', 'signal', 'messenger', 'skype',
-    'discord', 'slack', 'microsoft teams', 'zoom', 'webex', 'meet',
-    'hangouts', 'wechat', 'line', 'viber'
-];
-
-// Productivity Applications (separate from work - personal productivity)
-const PRODUCTIVITY_APPS = [
-    'calendar', 'reminder', 'todo', 'task', 'habitica', 'todoist',
-    'pomodoro', 'focus', 'rescuetime', 'toggl', 'clockify'
-];
-
-// Work URLs
-const WORK_URLS = [
-    'github.com', 'gitlab.com', 'bitbucket.org', 'stackoverflow.com',
-    'dev.to', 'medium.com', 'developer.mozilla.org', 'w3schools.com',
-    'docs.', 'api.', 'console.', 'dashboard.', 'admin.',
-    'jira.', 'confluence.', 'atlassian.', 'trello.com', 'asana.com',
-    'notion.so', 'figma.com', 'miro.com', 'mural.co',
-    'google.com/search?q=', 'stackoverflow.com', 'reddit.com/r/programming'
-];
-
-// Entertainment URLs
-const ENTERTAINMENT_URLS = [
-    'youtube.com', 'youtu.be', 'netflix.com', 'hulu.com', 'disney.com',
-    'twitch.tv', 'vimeo.com', 'dailymotion.com',
-    'spotify.com', 'soundcloud.com', 'pandora.com',
-    'instagram.com', 'tiktok.com', 'facebook.com', 'twitter.com',
-    'reddit.com', 'pinterest.com', 'imgur.com', '9gag.com',
-    'steamcommunity.com', 'epicgames.com'
-];
-
-// Communication URLs
-const COMMUNICATION_URLS = [
-    'web.whatsapp.com', 'telegram.org', 'messenger.com',
-    'discord.com', 'slack.com', 'teams.microsoft.com',
-    'zoom.us', 'meet.google.com', 'webex.com'
-];
-
 /**
- * Categorize an application name
+ * Classify an app (and its URL, for browsers) with the classification rules
  */
-function categorizeApp(appName: string): ActivityCategory {
-    const lowerApp = appName.toLowerCase();
-    
-    // Check work apps
-    if (WORK_APPS.some(app => lowerApp.includes(app))) {
-        return 'Work';
-    }
-    
-    // Check entertainment apps
-    if (ENTERTAINMENT_APPS.some(app => lowerApp.includes(app))) {
-        return 'Entertainment';
-    }
-    
-    // Check communication apps
-    if (COMMUNICATION_APPS.some(app => lowerApp.includes(app))) {
-        return 'Communication';
-    }
-    
-    // Check productivity apps
-    if (PRODUCTIVITY_APPS.some(app => lowerApp.includes(app))) {
-        return 'Productivity';
-    }
-    
-    return 'Other';
-}
-
-/**
- * Categorize a URL
- */
-function categorizeUrl(url: string): ActivityCategory | null {
-    if (!url) return null;
-    
-    const lowerUrl = url.toLowerCase();
-    
-    // Check work URLs
-    if (WORK_URLS.some(workUrl => lowerUrl.includes(workUrl))) {
-        return 'Work';
-    }
-    
-    // Check entertainment URLs
-    if (ENTERTAINMENT_URLS.some(entUrl => lowerUrl.includes(entUrl))) {
-        return 'Entertainment';
-    }
-    
-    // Check communication URLs
-    if (COMMUNICATION_URLS.some(commUrl => lowerUrl.includes(commUrl))) {
-        return 'Communication';
-    }
+export function classifyActivity(input: {
+    app: string;
+    title?: string;
+    url?: string | null;
+}, context?: ClassificationContext): ActivityClassification {
+    const app = appClassifier.classifyApp(input.app, input.title, context);
+    const url = input.url ? urlClassifier.classifyUrl(input.url, context) : null;
+    const decided = url || app;
     
-    return null;
+    return {
+        category: decided.category,
+        weight: decided.weight,
+        activity: url && url.matchType !== 'none' ? url.activity : app.activity,
+        app,
+        url
+    };
 }
 
 /**
@@ -253,29 +173,20 @@ export function categorizeActivity(input: {
     app: string;
     url?: string;
     timestamp?: number;
-}): CategorizedActivity {
+}, context?: ClassificationContext): CategorizedActivity {
     const { title, app, url } = input;
     
-    // Determine category - URL takes precedence if available
-    let category: ActivityCategory = categorizeUrl(url || '') || categorizeApp(app);
-    
-    // If still Other, try categorizing by title
-    if (category === 'Other') {
-        const lowerTitle = title.toLowerCase();
-        if (WORK_URLS.some(w => lowerTitle.includes(w)) || WORK_APPS.some(w => lowerTitle.includes(w))) {
-            category = 'Work';
-        } else if (ENTERTAINMENT_URLS.some(e => lowerTitle.includes(e)) || ENTERTAINMENT_APPS.some(e => lowerTitle.includes(e))) {
-            category = 'Entertainment';
-        } else if (COMMUNICATION_URLS.some(c => lowerTitle.includes(c)) || COMMUNICATION_APPS.some(c => lowerTitle.includes(c))) {
-            category = 'Communication';
-        }
-    }
+    // URL rules take precedence over app rules; browser title rules cover a missing URL
+    const classification = classifyActivity({ app, title, url }, context);
+    const category = classification.activity;
     
     const description = generateDescription(app, url || null, category);
     const suggestion = generateSuggestion(app, url || null, category);
     
     return {
         category,
+        productivityCategory: classification.category,
+        weight: classification.weight,
         description,
         suggestion,
         appName: app,
@@ -6,6 +6,7 @@
 
 import { categorizeActivity, CategorizedActivity } from './activityCategorizer';
 import { activityAnalytics, ProductivityInsights } from './activityAnalytics';
+import { classificationRules } from './classificationRules';
 
 export interface ActivityInput {
     title: string;
@@ -25,13 +26,15 @@ export interface ActivityResponse {
  * This is the main function that matches the user's requirements
  */
 export function processActivity(input: ActivityInput): ActivityResponse {
-    // Categorize the activity
-    const categorized = categorizeActivity(input);
+    // Categorize the activity (same rules as the productivity classification, with the user's scope)
+    const categorized = categorizeActivity(input, classificationRules.getContext());
     
     // Add to analytics for tracking
     activityAnalytics.addRecord({
         ...input,
-        category: categorized.category
+        category: categorized.category,
+        productivityCategory: categorized.productivityCategory,
+        weight: categorized.weight
     });
     
     // Return in the required format
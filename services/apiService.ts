@@ -9,6 +9,7 @@ import { ActivityLog, Settings } from '../types';
 import { getAccessToken } from './tokenStorage';
 import { authState } from './authState';
 import { BASE_URL } from '../config/domainConfig';
+import type { ManualTimeEntry, ManualTimeEntryUpdate, OutboxRequest } from '../types/electron';
 
 export interface ApiResponse<T = any> {
     success: boolean;
@@ -191,6 +192,58 @@ class ApiService {
         return this.config.enabled;
     }
 
+    /**
+     * Hand a request to the main-process outbox when the server is unreachable.
+     * Returns null for HTTP errors (the server answered) or when no outbox is available.
+     */
+    private async queueInOutbox(error: any, request: OutboxRequest, message: string): Promise<ApiResponse | null> {
+        if (!axios.isAxiosError(error) || error.response) {
+            return null;
+        }
+        return this.enqueueInOutbox(request, message);
+    }
+
+    /**
+     * Queue a request behind the ones still waiting in the outbox, so the server receives
+     * writes in the order they were made. Returns null when the outbox is empty (send it live).
+     */
+    private async queueBehindOutbox(request: OutboxRequest, message: string): Promise<ApiResponse | null> {
+        if (!window.electronAPI?.getOutboxStatus) {
+            return null;
+        }
+        try {
+            const status = await window.electronAPI.getOutboxStatus();
+            if (!status.success || status.depth === 0) {
+                return null;
+            }
+        } catch {
+            return null;
+        }
+        return this.enqueueInOutbox(request, message);
+    }
+
+    private async enqueueInOutbox(request: OutboxRequest, message: string): Promise<ApiResponse | null> {
+        if (!window.electronAPI?.enqueueOutboxRequest) {
+            return null;
+        }
+        try {
+            const result = await window.electronAPI.enqueueOutboxRequest(request);
+            if (!result.success) {
+                console.error('[OUTBOX] Failed to queue request:', result.error);
+                return null;
+            }
+            console.warn(`[OUTBOX] 📥 ${request.kind} queued for replay (queue depth: ${result.depth})`);
+            return {
+                success: true,
+                data: { queued: true, outboxId: result.id },
+                message,
+            };
+        } catch (queueError) {
+            console.error('[OUTBOX] Failed to queue request:', queueError);
+            return null;
+        }
+    }
+
     /**
      * Health check
      */
@@ -491,6 +544,8 @@ class ApiService {
         file: File | Blob,
         workspaceId?: string
     ): Promise<ApiResponse> {
+        let fullUrl = '';
+        let isGzipped = false;
         try {
             // Verify token before making request
             const loginToken = typeof window !== 'undefined' ? localStorage.getItem('login_token') : null;
@@ -505,8 +560,8 @@ class ApiService {
             formData.append('task_id', taskId);
             formData.append('file', file);
             // Add compression flag if file is gzipped
-            const isGzipped = (file instanceof File && file.name.endsWith('.gz')) || 
-                             (file.type === 'application/gzip');
+            isGzipped = (file instanceof File && file.name.endsWith('.gz')) || 
+                        (file.type === 'application/gzip');
             if (isGzipped) {
                 formData.append('compressed', 'true');
             }
@@ -573,7 +628,7 @@ class ApiService {
             // Also handle version in middle of path
             baseUrl = baseUrl.replace(/\/v\d+\//g, '/');
             
-            const fullUrl = `${baseUrl}${url}`;
+            fullUrl = `${baseUrl}${url}`;
             
             // Verify route matches documentation (should be /api/vue/backend/v1/tracking-files/upload)
             const expectedRoute = '/api/vue/backend/v1/tracking-files/upload';
@@ -597,6 +652,14 @@ class ApiService {
                 throw new Error(`Route mismatch! Expected ${expectedRoute}, got ${actualRoute}`);
             }
             
+            const behindOutbox = await this.queueBehindOutbox(
+                await this.toTrackingFileOutboxRequest(fullUrl, projectId, taskId, file, isGzipped, workspaceId),
+                'Earlier uploads are still queued - tracking file queued behind them'
+            );
+            if (behindOutbox) {
+                return behindOutbox;
+            }
+
             console.log('[UPLOAD API] 🚀 Making POST request to:', fullUrl);
             console.log('[UPLOAD API] Request params:', { projectId, taskId, workspaceId, fileSize: file.size });
             console.log('[UPLOAD API] FormData entries:', {
@@ -696,6 +759,17 @@ class ApiService {
                 },
             });
 
+            if (fullUrl) {
+                const queued = await this.queueInOutbox(
+                    error,
+                    await this.toTrackingFileOutboxRequest(fullUrl, projectId, taskId, file, isGzipped, workspaceId),
+                    'Offline - tracking file queued for upload'
+                );
+                if (queued) {
+                    return queued;
+                }
+            }
+
             const errorMessage = error.response?.data?.message || error.message || 'Failed to upload tracking file';
             return {
                 success: false,
@@ -704,6 +778,34 @@ class ApiService {
         }
     }
 
+    private async toTrackingFileOutboxRequest(
+        url: string,
+        projectId: string,
+        taskId: string,
+        file: File | Blob,
+        isGzipped: boolean,
+        workspaceId?: string
+    ): Promise<OutboxRequest> {
+        const fields: Record<string, string> = { project_id: projectId, task_id: taskId };
+        if (isGzipped) {
+            fields.compressed = 'true';
+        }
+        if (workspaceId) {
+            fields.workspace_id = workspaceId;
+        }
+        return {
+            kind: 'tracking-file',
+            url,
+            fields,
+            file: {
+                field: 'file',
+                filename: file instanceof File ? file.name : `${taskId}.json`,
+                contentType: file.type || 'application/json',
+                data: new Uint8Array(await file.arrayBuffer()),
+            },
+        };
+    }
+
     async listTrackingData(params: {
         project_id: string;
         task_id: string;
@@ -767,6 +869,141 @@ class ApiService {
         }
     }
 
+    /**
+     * Manual Time Entries API (v1)
+     */
+    async submitManualTimeEntry(entry: ManualTimeEntry): Promise<ApiResponse<any>> {
+        const body = {
+            client_id: entry.id,
+            workspace_id: entry.workspaceId,
+            project_id: entry.projectId,
+            task_id: entry.taskId,
+            start_time: entry.startTime,
+            end_time: entry.endTime,
+            duration: entry.duration,
+            reason: entry.reason,
+        };
+        const outboxRequest: OutboxRequest = {
+            kind: 'manual-time-entry',
+            url: `${this.axiosInstance.defaults.baseURL || ''}${API_ENDPOINTS.MANUAL_TIME.CREATE}`,
+            body,
+        };
+        const behindOutbox = await this.queueBehindOutbox(outboxRequest, 'Earlier requests are still queued - manual time queued behind them');
+        if (behindOutbox) {
+            return behindOutbox;
+        }
+        try {
+            const response = await this.axiosInstance.post(API_ENDPOINTS.MANUAL_TIME.CREATE, body);
+            return {
+                success: true,
+                data: response.data?.data ?? response.data,
+                message: response.data?.message,
+            };
+        } catch (error: any) {
+            const queued = await this.queueInOutbox(error, outboxRequest, 'Offline - manual time queued');
+            if (queued) {
+                return queued;
+            }
+            return {
+                success: false,
+                error: error.response?.data?.message || error.message || 'Failed to submit manual time',
+            };
+        }
+    }
+
+    async withdrawManualTimeEntry(clientId: string): Promise<ApiResponse<any>> {
+        const outboxRequest: OutboxRequest = {
+            kind: 'manual-time-entry',
+            method: 'DELETE',
+            url: `${this.axiosInstance.defaults.baseURL || ''}${API_ENDPOINTS.MANUAL_TIME.DELETE(clientId)}`,
+        };
+        const behindOutbox = await this.queueBehindOutbox(outboxRequest, 'Earlier requests are still queued - withdrawal queued behind them');
+        if (behindOutbox) {
+            return behindOutbox;
+        }
+        try {
+            const response = await this.axiosInstance.delete(API_ENDPOINTS.MANUAL_TIME.DELETE(clientId));
+            return {
+                success: true,
+                data: response.data?.data ?? response.data,
+                message: response.data?.message,
+            };
+        } catch (error: any) {
+            const queued = await this.queueInOutbox(error, outboxRequest, 'Offline - withdrawal queued');
+            if (queued) {
+                return queued;
+            }
+            return {
+                success: false,
+                error: error.response?.data?.message || error.message || 'Failed to withdraw manual time',
+            };
+        }
+    }
+
+    // Review status of the given entries, as updates for window.electronAPI.updateManualTimeEntries
+    async getManualTimeEntryStatuses(clientIds: string[], workspaceId?: string): Promise<ApiResponse<ManualTimeEntryUpdate[]>> {
+        try {
+            const response = await this.axiosInstance.get(API_ENDPOINTS.MANUAL_TIME.LIST, {
+                params: { client_ids: clientIds.join(','), workspace_id: workspaceId },
+            });
+            const items: any[] = Array.isArray(response.data?.data) ? response.data.data : (Array.isArray(response.data) ? response.data : []);
+            return {
+                success: true,
+                data: items
+                    .filter(item => item?.client_id)
+                    .map(item => ({
+                        id: String(item.client_id),
+                        status: item.status,
+                        reviewerNote: item.reviewer_note ?? null,
+                        reviewedAt: item.reviewed_at ?? null,
+                    })),
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.response?.data?.message || error.message || 'Failed to load manual time status',
+            };
+        }
+    }
+
+    /**
+     * Classification Policy API (v1)
+     * Rules come back in the ClassificationRule shape (snake_case fields are accepted too)
+     */
+    async getClassificationPolicy(workspaceId: string): Promise<ApiResponse<any[]>> {
+        try {
+            const response = await this.axiosInstance.get(API_ENDPOINTS.CLASSIFICATION.POLICY, {
+                params: { workspace_id: workspaceId },
+            });
+            const payload = response.data?.data ?? response.data;
+            const items: any[] = Array.isArray(payload) ? payload : (Array.isArray(payload?.rules) ? payload.rules : []);
+            return {
+                success: true,
+                data: items.map(item => ({
+                    id: item.id !== undefined ? `policy_${item.id}` : undefined,
+                    kind: item.kind,
+                    processName: item.processName ?? item.process_name,
+                    titlePattern: item.titlePattern ?? item.title_pattern,
+                    domainPattern: item.domainPattern ?? item.domain_pattern,
+                    pathPattern: item.pathPattern ?? item.path_pattern,
+                    category: item.category,
+                    weight: item.weight,
+                    scope: item.scope ?? {
+                        departments: item.departments,
+                        workspaceIds: item.workspace_ids,
+                        projectIds: item.project_ids,
+                    },
+                    enabled: item.enabled,
+                })),
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.response?.data?.message || error.message || 'Failed to load the classification policy',
+            };
+        }
+    }
+
     /**
      * Status Management API (v1)
      */
@@ -780,6 +1017,15 @@ class ApiService {
             [key: string]: any;
         };
     }): Promise<ApiResponse<any>> {
+        const outboxRequest: OutboxRequest = {
+            kind: 'status-update',
+            url: `${this.axiosInstance.defaults.baseURL || ''}${API_ENDPOINTS.STATUS.UPDATE}`,
+            body: data,
+        };
+        const behindOutbox = await this.queueBehindOutbox(outboxRequest, 'Earlier requests are still queued - status update queued behind them');
+        if (behindOutbox) {
+            return behindOutbox;
+        }
         try {
             const response = await this.axiosInstance.post(API_ENDPOINTS.STATUS.UPDATE, data);
 
@@ -797,6 +1043,10 @@ class ApiService {
                 data: response.data,
             };
         } catch (error: any) {
+            const queued = await this.queueInOutbox(error, outboxRequest, 'Offline - status update queued');
+            if (queued) {
+                return queued;
+            }
             return {
                 success: false,
                 error: error.response?.data?.message || error.message || 'Failed to update status',
@@ -1107,6 +1357,7 @@ class ApiService {
         attendance_from?: string;
         check_in_location?: string;
     }): Promise<ApiResponse<any>> {
+        let apiUrl = '';
         try {
             // Get workspace domain for dynamic URL
             const workspaceDomain = authState.getWorkspaceDomain();
@@ -1137,12 +1388,20 @@ class ApiService {
             const port = baseUrlParts.length > 1 ? `:${baseUrlParts[1]}` : '';
             
             // Construct the full API URL with port if it exists in BASE_URL
-            const apiUrl = `${protocol}://${cleanDomain}${port}/api/vue/backend/attendance/check-in`;
+            apiUrl = `${protocol}://${cleanDomain}${port}/api/vue/backend/attendance/check-in`;
 
             console.log('[CHECK-IN] Using workspace domain:', workspaceDomain);
             console.log('[CHECK-IN] API URL:', apiUrl);
             console.log('[CHECK-IN] Request data:', checkInData);
 
+            const behindOutbox = await this.queueBehindOutbox(
+                { kind: 'check-in', url: apiUrl, body: checkInData },
+                'Earlier requests are still queued - check-in queued behind them'
+            );
+            if (behindOutbox) {
+                return behindOutbox;
+            }
+
             // Make request
             const response = await axios.post(apiUrl, checkInData, {
                 headers: {
@@ -1169,6 +1428,16 @@ class ApiService {
             }
         } catch (error: any) {
             console.error('[CHECK-IN] Error:', error);
+            if (apiUrl) {
+                const queued = await this.queueInOutbox(error, {
+                    kind: 'check-in',
+                    url: apiUrl,
+                    body: checkInData,
+                }, 'Offline - check-in queued and will be sent when connection returns');
+                if (queued) {
+                    return queued;
+                }
+            }
             return {
                 success: false,
                 error: error.response?.data?.message || error.message || 'Check-in failed',
@@ -1194,6 +1463,7 @@ class ApiService {
         remote_mode?: number;
         attendance_from?: string;
     }): Promise<ApiResponse<any>> {
+        let apiUrl = '';
         try {
             // Get workspace domain for dynamic URL
             const workspaceDomain = authState.getWorkspaceDomain();
@@ -1225,7 +1495,7 @@ class ApiService {
             
             // Construct the full API URL with port if it exists in BASE_URL
             const endpoint = API_ENDPOINTS.ATTENDANCE.CHECK_OUT(checkOutData.attendance_id);
-            const apiUrl = `${protocol}://${cleanDomain}${port}/api${endpoint}`;
+            apiUrl = `${protocol}://${cleanDomain}${port}/api${endpoint}`;
 
             // Remove attendance_id from request body (it's in URL)
             const { attendance_id, ...requestBody } = checkOutData;
@@ -1234,6 +1504,14 @@ class ApiService {
             console.log('[CHECK-OUT] API URL:', apiUrl);
             console.log('[CHECK-OUT] Request data:', requestBody);
 
+            const behindOutbox = await this.queueBehindOutbox(
+                { kind: 'check-out', url: apiUrl, body: requestBody },
+                'Earlier requests are still queued - check-out queued behind them'
+            );
+            if (behindOutbox) {
+                return behindOutbox;
+            }
+
             // Make request
             const response = await axios.post(apiUrl, requestBody, {
                 headers: {
@@ -1260,6 +1538,17 @@ class ApiService {
             }
         } catch (error: any) {
             console.error('[CHECK-OUT] Error:', error);
+            if (apiUrl) {
+                const { attendance_id, ...requestBody } = checkOutData;
+                const queued = await this.queueInOutbox(error, {
+                    kind: 'check-out',
+                    url: apiUrl,
+                    body: requestBody,
+                }, 'Offline - check-out queued and will be sent when connection returns');
+                if (queued) {
+                    return queued;
+                }
+            }
             return {
                 success: false,
                 error: error.response?.data?.message || error.message || 'Check-out failed',
@@ -2,7 +2,8 @@
  * App Classifier Service
  * 
  * Classifies applications as productive, neutral, or unproductive
- * based on process name and window title patterns.
+ * based on process name and window title patterns. The matched rule also
+ * gives the activity category (Work, Communication, ...).
  * 
  * Uses in-memory cache for fast lookups.
  */
@@ -10,22 +11,45 @@
 import { 
   ProductivityCategory, 
   AppClassificationRule, 
+  ClassificationContext,
+  ActivityCategory,
+  ClassificationLayer,
+  RuleOutcome,
   DEFAULT_APP_CLASSIFICATIONS,
-  getDefaultWeight 
+  getDefaultActivity,
+  getDefaultWeight,
+  getContextKey,
+  hasScope,
+  isRuleInScope
 } from '../config/appClassifications';
 
 export interface AppClassificationResult {
   category: ProductivityCategory;
   weight: number;
+  activity: ActivityCategory;          // Activity category from the same rule
   matchType: 'title_pattern' | 'process_exact' | 'process_partial' | 'none';
   confidence: number;
   matchedRule?: AppClassificationRule;
 }
 
+export interface AppRuleEvaluation {
+  layer: ClassificationLayer;
+  rule: AppClassificationRule;
+  outcome: RuleOutcome;
+}
+
+export interface AppClassificationExplanation {
+  result: AppClassificationResult;
+  layer?: ClassificationLayer;          // Layer of the matched rule (undefined when nothing matched)
+  evaluations: AppRuleEvaluation[];     // Rules whose process name applies, layer by layer
+  rulesChecked: number;                 // Rules across all layers
+}
+
 class AppClassifier {
   private classificationCache: Map<string, AppClassificationResult> = new Map();
   private rules: AppClassificationRule[] = [...DEFAULT_APP_CLASSIFICATIONS];
   private userCustomRules: AppClassificationRule[] = [];
+  private policyRules: AppClassificationRule[] = [];
 
   constructor() {
     // Pre-compile regex patterns for performance
@@ -42,14 +66,27 @@ class AppClassifier {
    * User rules take precedence over default rules
    */
   addCustomRules(rules: AppClassificationRule[]): void {
-    this.userCustomRules = rules.map(rule => ({
+    this.userCustomRules = this.compileRules(rules);
+    // Clear cache when rules change
+    this.classificationCache.clear();
+  }
+
+  /**
+   * Set the organization policy rules for the current workspace
+   * Policy rules rank below user rules and above default rules
+   */
+  setPolicyRules(rules: AppClassificationRule[]): void {
+    this.policyRules = this.compileRules(rules);
+    this.classificationCache.clear();
+  }
+
+  private compileRules(rules: AppClassificationRule[]): AppClassificationRule[] {
+    return rules.map(rule => ({
       ...rule,
       processName: typeof rule.processName === 'string' 
         ? new RegExp(`^${rule.processName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
         : rule.processName
     }));
-    // Clear cache when rules change
-    this.classificationCache.clear();
   }
 
   /**
@@ -57,14 +94,16 @@ class AppClassifier {
    * 
    * @param processName - Process name (e.g., "code.exe", "chrome")
    * @param windowTitle - Optional window title for context-specific classification
+   * @param context - Optional department / workspace / project for scoped rules
    * @returns Classification result
    */
   classifyApp(
     processName: string, 
-    windowTitle?: string
+    windowTitle?: string,
+    context?: ClassificationContext
   ): AppClassificationResult {
     // Create cache key
-    const cacheKey = `${processName.toLowerCase()}|${windowTitle || ''}`;
+    const cacheKey = `${processName.toLowerCase()}|${windowTitle || ''}|${getContextKey(context)}`;
     
     // Check cache first
     if (this.classificationCache.has(cacheKey)) {
@@ -74,9 +113,84 @@ class AppClassifier {
     const normalizedProcessName = processName.toLowerCase().trim();
     const normalizedTitle = windowTitle?.toLowerCase().trim() || '';
 
-    // Combine user rules (priority) with default rules
-    const allRules = [...this.userCustomRules, ...this.rules];
+    // Layers in priority order: user rules, organization policy, defaults. The first layer
+    // with any match decides, so a user rule on a process beats a default title rule for it
+    for (const layer of [this.userCustomRules, this.policyRules, this.rules]) {
+      const result = this.matchRules(this.rulesInScope(layer, context), normalizedProcessName, normalizedTitle);
+      if (result) {
+        this.classificationCache.set(cacheKey, result);
+        return result;
+      }
+    }
 
+    // Unknown app - default to neutral
+    const result: AppClassificationResult = {
+      category: 'neutral',
+      weight: getDefaultWeight('neutral'),
+      activity: 'Other',
+      matchType: 'none',
+      confidence: 0.0
+    };
+    this.classificationCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Explain a classification: every rule whose process name applies and what became of it
+   */
+  explainApp(
+    processName: string,
+    windowTitle?: string,
+    context?: ClassificationContext
+  ): AppClassificationExplanation {
+    const result = this.classifyApp(processName, windowTitle, context);
+    const normalizedProcessName = processName.toLowerCase().trim();
+    const normalizedTitle = windowTitle?.toLowerCase().trim() || '';
+    const layers: Array<[ClassificationLayer, AppClassificationRule[]]> = [
+      ['user', this.userCustomRules],
+      ['policy', this.policyRules],
+      ['default', this.rules]
+    ];
+
+    const evaluations: AppRuleEvaluation[] = [];
+    let matchedLayer: ClassificationLayer | undefined;
+    for (const [layer, rules] of layers) {
+      for (const rule of rules) {
+        if (!this.matchProcessName(rule.processName, normalizedProcessName)) continue;
+
+        let outcome: RuleOutcome;
+        if (rule === result.matchedRule) {
+          outcome = 'matched';
+          matchedLayer = layer;
+        } else if (!isRuleInScope(rule.scope, context)) {
+          outcome = 'out_of_scope';
+        } else if (rule.titlePattern && !rule.titlePattern.test(normalizedTitle)) {
+          outcome = 'pattern_mismatch';
+        } else {
+          outcome = 'outranked';
+        }
+        evaluations.push({ layer, rule, outcome });
+      }
+    }
+
+    return {
+      result,
+      layer: matchedLayer,
+      evaluations,
+      rulesChecked: layers.reduce((total, [, rules]) => total + rules.length, 0)
+    };
+  }
+
+  /**
+   * Match one layer of rules
+   * 
+   * Priority: Title pattern > Process name exact match > Process name partial match
+   */
+  private matchRules(
+    allRules: AppClassificationRule[],
+    normalizedProcessName: string,
+    normalizedTitle: string
+  ): AppClassificationResult | null {
     // Step 1: Check title patterns first (most specific)
     for (const rule of allRules) {
       const processMatches = this.matchProcessName(rule.processName, normalizedProcessName);
@@ -86,11 +200,11 @@ class AppClassifier {
           const result: AppClassificationResult = {
             category: rule.category,
             weight: rule.weight ?? getDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'title_pattern',
             confidence: 0.95,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       }
@@ -104,11 +218,11 @@ class AppClassifier {
         const result: AppClassificationResult = {
           category: rule.category,
           weight: rule.weight ?? getDefaultWeight(rule.category),
+          activity: rule.activity ?? getDefaultActivity(rule.category),
           matchType: 'process_exact',
           confidence: 0.9,
           matchedRule: rule
         };
-        this.classificationCache.set(cacheKey, result);
         return result;
       }
     }
@@ -123,11 +237,11 @@ class AppClassifier {
           const result: AppClassificationResult = {
             category: rule.category,
             weight: rule.weight ?? getDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'process_partial',
             confidence: 0.7,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       } else if (typeof processPattern === 'string') {
@@ -136,25 +250,25 @@ class AppClassifier {
           const result: AppClassificationResult = {
             category: rule.category,
             weight: rule.weight ?? getDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'process_partial',
             confidence: 0.7,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       }
     }
 
-    // Step 4: Unknown app - default to neutral
-    const result: AppClassificationResult = {
-      category: 'neutral',
-      weight: getDefaultWeight('neutral'),
-      matchType: 'none',
-      confidence: 0.0
-    };
-    this.classificationCache.set(cacheKey, result);
-    return result;
+    return null;
+  }
+
+  /**
+   * Rules of one layer that apply in this context, scoped rules first
+   */
+  private rulesInScope(rules: AppClassificationRule[], context?: ClassificationContext): AppClassificationRule[] {
+    const applicable = rules.filter(rule => isRuleInScope(rule.scope, context));
+    return [...applicable.filter(rule => hasScope(rule.scope)), ...applicable.filter(rule => !hasScope(rule.scope))];
   }
 
   /**
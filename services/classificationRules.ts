@@ -0,0 +1,209 @@
+/**
+ * Classification Rules Service
+ *
+ * Turns the stored classification rules (user rules from settings and the
+ * organization policy for the current workspace) into classifier rules.
+ *
+ * Priority: User rules > Organization policy > Default classifications
+ */
+
+import { ActivityCategory, ClassificationRule, ClassificationPolicy, ProductivityCategory } from '../types';
+import { AppClassificationRule, ClassificationContext, ClassificationScope } from '../config/appClassifications';
+import { UrlClassificationRule } from '../config/urlClassifications';
+import { appClassifier } from './appClassifier';
+import { urlClassifier } from './urlClassifier';
+import { apiService } from './apiService';
+import { authState } from './authState';
+
+const CATEGORIES: ProductivityCategory[] = ['productive', 'neutral', 'unproductive'];
+const ACTIVITIES: ActivityCategory[] = ['Work', 'Entertainment', 'Communication', 'Productivity', 'Other'];
+
+// "/.../flags" is a regex (always case-insensitive), anything else is plain text
+const toRuleRegex = (pattern: string): RegExp | null => {
+  const match = /^\/(.+)\/([a-z]*)$/i.exec(pattern.trim());
+  if (!match) return null;
+  return new RegExp(match[1], match[2].includes('i') ? match[2] : `${match[2]}i`);
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Plain text matches anywhere in the value
+const toContainsRegex = (pattern: string): RegExp => toRuleRegex(pattern) || new RegExp(escapeRegex(pattern.trim()), 'i');
+
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase()
+  .replace(/^https?:\/\//, '')
+  .replace(/^www\./, '')
+  .split('/')[0];
+
+// Trimmed, non-empty scope lists; undefined when the rule applies to everyone
+const normalizeScope = (scope: any): ClassificationScope | undefined => {
+  if (!scope || typeof scope !== 'object') return undefined;
+  const toList = (value: unknown) => {
+    const items = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+      .map(item => String(item).trim())
+      .filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+  const normalized: ClassificationScope = {
+    departments: toList(scope.departments),
+    workspaceIds: toList(scope.workspaceIds),
+    projectIds: toList(scope.projectIds)
+  };
+  return normalized.departments || normalized.workspaceIds || normalized.projectIds ? normalized : undefined;
+};
+
+/**
+ * Why a rule can't be used, or null if it is valid
+ */
+export const validateClassificationRule = (rule: Partial<ClassificationRule>): string | null => {
+  if (rule.kind !== 'app' && rule.kind !== 'url') return 'Rule type must be "app" or "url"';
+  if (rule.kind === 'app' && !rule.processName?.trim()) return 'App rules need a process name';
+  if (rule.kind === 'url' && !rule.domainPattern?.trim()) return 'Website rules need a domain';
+  if (!rule.category || !CATEGORIES.includes(rule.category)) return `Category must be one of ${CATEGORIES.join(', ')}`;
+  if (rule.weight !== undefined && (typeof rule.weight !== 'number' || rule.weight < 0 || rule.weight > 1)) {
+    return 'Weight must be between 0 and 1';
+  }
+  if (rule.activity !== undefined && !ACTIVITIES.includes(rule.activity)) return `Activity must be one of ${ACTIVITIES.join(', ')}`;
+  for (const pattern of [rule.processName, rule.titlePattern, rule.domainPattern, rule.pathPattern]) {
+    if (!pattern) continue;
+    try {
+      toRuleRegex(pattern);
+    } catch {
+      return `Invalid regular expression: ${pattern}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Read rules from imported JSON (an array, or { rules: [...] } as exported)
+ * Invalid rules are skipped rather than failing the whole import
+ */
+export const parseClassificationRules = (data: unknown): { rules: ClassificationRule[]; skipped: number } => {
+  const items: any[] = Array.isArray(data) ? data : (Array.isArray((data as any)?.rules) ? (data as any).rules : []);
+  const rules: ClassificationRule[] = [];
+  let skipped = 0;
+  items.forEach((item, index) => {
+    const rule: ClassificationRule = {
+      id: typeof item?.id === 'string' && item.id ? item.id : `classify_${Date.now()}_${index}`,
+      kind: item?.kind,
+      processName: item?.processName || undefined,
+      titlePattern: item?.titlePattern || undefined,
+      domainPattern: item?.domainPattern || undefined,
+      pathPattern: item?.pathPattern || undefined,
+      category: item?.category,
+      weight: item?.weight === undefined || item?.weight === null || item?.weight === '' ? undefined : Number(item.weight),
+      activity: item?.activity || undefined,
+      scope: normalizeScope(item?.scope),
+      enabled: item?.enabled !== false
+    };
+    if (validateClassificationRule(rule)) {
+      skipped++;
+    } else {
+      rules.push(rule);
+    }
+  });
+  return { rules, skipped };
+};
+
+export const toAppClassificationRule = (rule: ClassificationRule): AppClassificationRule => ({
+  processName: toRuleRegex(rule.processName!) || rule.processName!.trim().toLowerCase(),
+  titlePattern: rule.titlePattern ? toContainsRegex(rule.titlePattern) : undefined,
+  category: rule.category,
+  weight: rule.weight,
+  activity: rule.activity,
+  scope: normalizeScope(rule.scope),
+  sourceId: rule.id
+});
+
+export const toUrlClassificationRule = (rule: ClassificationRule): UrlClassificationRule => ({
+  domainPattern: toRuleRegex(rule.domainPattern!) || normalizeDomain(rule.domainPattern!),
+  pathPattern: rule.pathPattern ? toContainsRegex(rule.pathPattern) : undefined,
+  category: rule.category,
+  weight: rule.weight,
+  activity: rule.activity,
+  scope: normalizeScope(rule.scope),
+  sourceId: rule.id
+});
+
+class ClassificationRules {
+  private userRules: ClassificationRule[] = [];
+  private policy: ClassificationPolicy | null = null;
+
+  /**
+   * Apply the user's rules from settings
+   */
+  setUserRules(rules: ClassificationRule[] | undefined): void {
+    this.userRules = rules || [];
+    const { app, url } = this.compile(this.userRules);
+    appClassifier.addCustomRules(app);
+    urlClassifier.addCustomRules(url);
+  }
+
+  /**
+   * Apply the organization policy for the current workspace (null clears it)
+   */
+  setPolicy(policy: ClassificationPolicy | null): void {
+    this.policy = policy;
+    const { app, url } = this.compile(policy?.rules || []);
+    appClassifier.setPolicyRules(app);
+    urlClassifier.setPolicyRules(url);
+  }
+
+  getUserRules(): ClassificationRule[] {
+    return this.userRules;
+  }
+
+  getPolicy(): ClassificationPolicy | null {
+    return this.policy;
+  }
+
+  /**
+   * Context for scoped rules: the signed-in user's department, the current workspace and the tracked project
+   */
+  getContext(projectId?: string | null): ClassificationContext {
+    return {
+      department: authState.getUser()?.department_name || null,
+      workspaceId: authState.getCurrentWorkspace()?.workspace_id?.toString() || null,
+      projectId: projectId || null
+    };
+  }
+
+  /**
+   * Fetch the workspace's policy, falling back to the copy cached by the main process when offline
+   */
+  async loadPolicy(workspaceId?: string): Promise<ClassificationPolicy | null> {
+    if (!workspaceId) {
+      this.setPolicy(null);
+      return null;
+    }
+
+    let policy: ClassificationPolicy | null = null;
+    const response = await apiService.getClassificationPolicy(workspaceId);
+    if (response.success && response.data) {
+      policy = {
+        workspaceId,
+        rules: parseClassificationRules(response.data).rules,
+        fetchedAt: new Date().toISOString()
+      };
+      await window.electronAPI?.setClassificationPolicy?.(policy);
+    } else if (window.electronAPI?.getClassificationPolicy) {
+      const cached = await window.electronAPI.getClassificationPolicy(workspaceId);
+      policy = cached.success ? cached.policy : null;
+    }
+    this.setPolicy(policy);
+    console.log(`[CLASSIFICATION] Organization policy for workspace ${workspaceId}: ${policy ? `${policy.rules.length} rule(s)` : 'none'}`);
+    return policy;
+  }
+
+  private compile(rules: ClassificationRule[]): { app: AppClassificationRule[]; url: UrlClassificationRule[] } {
+    const usable = rules.filter(rule => rule.enabled !== false && !validateClassificationRule(rule));
+    return {
+      app: usable.filter(rule => rule.kind === 'app').map(toAppClassificationRule),
+      url: usable.filter(rule => rule.kind === 'url').map(toUrlClassificationRule)
+    };
+  }
+}
+
+// Export singleton instance
+export const classificationRules = new ClassificationRules();
@@ -9,6 +9,9 @@
  * - App Productivity (25%): Based on app classification
  * - URL Productivity (20%): Based on URL classification (overrides app for browsers)
  * - Focus Score (30%): Based on context switches and session length
+ *
+ * An unchanged screen (screenshot matched the previous one) halves the activity
+ * component - input that produces no visible change is weaker evidence of work.
  */
 
 import { ActivityLog, ProductivityCategory } from '../types';
@@ -23,6 +26,7 @@ export interface ScoreBreakdown {
 export interface CompositeScoreResult {
   score: number;                    // Final composite score (0-100)
   breakdown: ScoreBreakdown;        // Component scores
+  screenUnchanged: boolean;         // Activity was reduced for an unchanged screen
   weights: {                        // Weights used
     activity: number;
     app: number;
@@ -46,6 +50,9 @@ class CompositeScoreCalculator {
     focus: 0.30        // 30% - Focus score
   };
 
+  // Activity multiplier when the interval's screenshot showed no change
+  private unchangedScreenActivityFactor = 0.5;
+
   /**
    * Calculate composite productivity score
    * 
@@ -86,6 +93,7 @@ class CompositeScoreCalculator {
         url: Math.round(urlScore),
         focus: Math.round(focusScore)
       },
+      screenUnchanged: !!log.screenUnchanged,
       weights,
       classification
     };
@@ -94,20 +102,22 @@ class CompositeScoreCalculator {
   /**
    * Calculate activity score (0-100)
    * 
-   * Based on keystrokes + mouse clicks normalized to 0-100
+   * Based on keystrokes + mouse clicks normalized to 0-100,
+   * reduced when the screen did not change during the interval
    */
   private calculateActivityScore(log: ActivityLog): number {
     const totalEvents = log.keyboardEvents + log.mouseEvents;
+    const factor = log.screenUnchanged ? this.unchangedScreenActivityFactor : 1;
     
     // Normalize: 0-10 events = 0-30, 10-50 = 30-70, 50+ = 70-100
     if (totalEvents === 0) {
       return 0;
     } else if (totalEvents < 10) {
-      return (totalEvents / 10) * 30;
+      return (totalEvents / 10) * 30 * factor;
     } else if (totalEvents < 50) {
-      return 30 + ((totalEvents - 10) / 40) * 40;
+      return (30 + ((totalEvents - 10) / 40) * 40) * factor;
     } else {
-      return 70 + Math.min(30, ((totalEvents - 50) / 5));
+      return (70 + Math.min(30, ((totalEvents - 50) / 5))) * factor;
     }
   }
 
@@ -211,6 +221,10 @@ class CompositeScoreCalculator {
   getScoreExplanation(result: CompositeScoreResult): string[] {
     const explanations: string[] = [];
 
+    if (result.screenUnchanged) {
+      explanations.push('Screen did not change since the previous screenshot - activity weighted lower');
+    }
+
     if (result.breakdown.activity >= 70) {
       explanations.push('High activity level - consistent computer engagement');
     } else if (result.breakdown.activity < 30) {
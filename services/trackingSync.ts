@@ -0,0 +1,142 @@
+/**
+ * Tracking Sync Service
+ *
+ * Uploads each task's tracking data as a delta through the tracking file endpoint. The main
+ * process hands out the items past the task's sync cursor (plus tombstones for removed ones),
+ * they go up as a tracking file, and the server's answer is reported back so the cursor moves
+ * by what it accepted. An upload parked in the offline outbox moves the cursor as well (the
+ * outbox delivers it) but doesn't count the revision as synced.
+ */
+
+import { apiService } from './apiService';
+import type { TaskSyncDelta } from '../types/electron';
+
+const MAX_SYNC_ROUNDS = 20;                       // Batches per task in one sync; the rest goes next time
+const COMPRESS_ABOVE_BYTES = 1024 * 1024;
+const MAX_FILE_SIZE = 35 * 1024 * 1024;           // Safety margin below the 40MB PHP upload limit
+
+export interface TaskSyncResult {
+  success: boolean;
+  upToDate?: boolean;                  // Nothing had to be sent
+  sent?: number;                       // Items (and tombstones) the server accepted
+  requests?: number;
+  partial?: boolean;                   // The server took part of a batch - the rest goes next time
+  queued?: boolean;                    // Parked in the offline outbox
+  message?: string;
+  error?: string;
+}
+
+// The document shape the upload endpoint has always taken; sync says it only holds a delta
+const toTrackingFile = (projectId: string, taskId: string, delta: TaskSyncDelta) => {
+  const metadata = delta.metadata || {};
+  const trackingData = delta.trackingData || {};
+  return {
+    version: delta.version || '1.0.0',
+    metadata: {
+      createdAt: metadata.createdAt || new Date().toISOString(),
+      lastUpdated: metadata.lastUpdated || new Date().toISOString(),
+      taskId: metadata.taskId || taskId,
+      projectId: metadata.projectId || projectId,
+      taskName: metadata.taskName || 'Unknown Task',
+      projectName: metadata.projectName || 'Unknown Project',
+      currentSessionStart: metadata.currentSessionStart || null,
+      deviceId: metadata.deviceId || null,
+      deviceName: metadata.deviceName || null,
+    },
+    sync: { mode: 'delta', since: delta.since || {} },
+    trackingData: {
+      activityLogs: trackingData.activityLogs || [],
+      windowTracking: trackingData.activeWindows || [],
+      screenshots: trackingData.screenshots || [],
+      webcamPhotos: trackingData.webcamPhotos || [],
+      urlHistory: trackingData.urlHistory || [],
+      syncRemovals: trackingData.syncRemovals || [],
+      summary: trackingData.summary || {
+        totalTime: 0,
+        totalKeystrokes: 0,
+        totalMouseClicks: 0,
+        totalScreenshots: 0,
+        totalWebcamPhotos: 0,
+        totalUrls: 0,
+        totalActivityLogs: 0,
+        firstActivity: null,
+        lastActivity: new Date().toISOString(),
+      },
+    },
+  };
+};
+
+// Large batches (a first sync of a long day) are gzipped when the runtime can
+const toUploadFile = async (taskId: string, json: string): Promise<File> => {
+  if (typeof CompressionStream !== 'undefined' && json.length > COMPRESS_ABOVE_BYTES) {
+    try {
+      const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+      const compressed = await new Response(stream).arrayBuffer();
+      return new File([compressed], `${taskId}.json.gz`, { type: 'application/gzip' });
+    } catch (error) {
+      console.error('[UPLOAD-TASK] ❌ Compression failed, sending uncompressed:', error);
+    }
+  }
+  return new File([json], `${taskId}.json`, { type: 'application/json' });
+};
+
+class TrackingSync {
+  /**
+   * Send everything past the task's sync cursor, batch by batch, until caught up
+   */
+  async syncTask(projectId: string, taskId: string, workspaceId?: string): Promise<TaskSyncResult> {
+    const electronAPI = window.electronAPI;
+    if (!electronAPI?.getTaskSyncDelta || !electronAPI.acknowledgeTaskSync) {
+      return { success: false, error: 'Sync is not available' };
+    }
+
+    let sent = 0;
+    let requests = 0;
+    let queued = false;
+    let message: string | undefined;
+
+    for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+      const delta = await electronAPI.getTaskSyncDelta(projectId, taskId);
+      if (!delta.success) {
+        return { success: false, error: delta.error || 'Could not read the task data', sent, requests };
+      }
+      if (delta.upToDate || !delta.syncId) break;
+
+      const file = await toUploadFile(taskId, JSON.stringify(toTrackingFile(projectId, taskId, delta)));
+      if (file.size > MAX_FILE_SIZE) {
+        return {
+          success: false,
+          error: `Sync batch too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum allowed: ${(MAX_FILE_SIZE / 1024 / 1024).toFixed(2)}MB`,
+          sent,
+          requests,
+        };
+      }
+
+      const response = await apiService.uploadTrackingFile(projectId, taskId, file, workspaceId);
+      requests++;
+      if (!response.success) {
+        return { success: false, error: response.error || 'Upload failed', sent, requests };
+      }
+      message = response.message || response.data?.message;
+
+      const uploadQueued = !!response.data?.queued;
+      queued = queued || uploadQueued;
+      const ack = await electronAPI.acknowledgeTaskSync(projectId, taskId, delta.syncId, response.data ?? null, uploadQueued);
+      if (!ack.success) {
+        return { success: false, error: ack.error || 'Could not record the sync', sent, requests };
+      }
+      sent += ack.sent || 0;
+      if (ack.partial) {
+        console.warn(`[UPLOAD-TASK] ⚠️ Server accepted part of the batch for task ${taskId} - will resume from cursor`);
+        return { success: true, sent, requests, partial: true, queued, message };
+      }
+      // Behind the outbox the revision stays unconfirmed, so asking again would only queue the summary again
+      if (!ack.more || uploadQueued) break;
+    }
+
+    return { success: true, upToDate: requests === 0, sent, requests, queued, message };
+  }
+}
+
+// Export singleton instance
+export const trackingSync = new TrackingSync();
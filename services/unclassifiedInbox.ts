@@ -0,0 +1,170 @@
+/**
+ * Unclassified Inbox Service
+ *
+ * Collects the apps and domains no classification rule matched (stored by the main
+ * process with the time spent on them) and suggests a category for each from its
+ * token overlap with items that are already classified. Suggestions are computed
+ * locally - nothing leaves the computer.
+ */
+
+import { ActivityLog, ClassificationRule, ProductivityCategory } from '../types';
+import type { UnclassifiedActivity, UnclassifiedItem } from '../types/electron';
+import { ClassificationContext, DEFAULT_APP_CLASSIFICATIONS } from '../config/appClassifications';
+import { DEFAULT_URL_CLASSIFICATIONS } from '../config/urlClassifications';
+import { appClassifier } from './appClassifier';
+import { urlClassifier } from './urlClassifier';
+import { ActivityClassification, classifyActivity } from './activityCategorizer';
+
+export interface ClassificationSuggestion {
+  category: ProductivityCategory;
+  confidence: number;                  // Share of the nearest examples' votes (0-1)
+  similarTo: string[];                 // Labels of the examples that voted for it
+}
+
+// An already-classified app, domain or rule to compare against
+interface ClassifiedExample {
+  label: string;
+  tokens: Set<string>;
+  category: ProductivityCategory;
+}
+
+const NEAREST_EXAMPLES = 5;
+const MIN_SIMILARITY = 0.1;
+
+const TOKEN_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'www', 'com', 'org', 'net', 'http', 'https', 'html', 'htm', 'php',
+  'exe', 'app', 'index', 'new', 'tab', 'untitled', 'google', 'chrome', 'firefox', 'edge', 'safari',
+  'microsoft', 'windows', 'desktop', 'home', 'page'
+]);
+
+const tokenize = (text: string | undefined | null): string[] => {
+  if (!text) return [];
+  return String(text).toLowerCase().split(/[^a-z0-9]+/)
+    .map(token => token.replace(/\d+$/, ''))          // pycharm64 -> pycharm
+    .filter(token => token.length >= 3 && !TOKEN_STOPWORDS.has(token));
+};
+
+const patternText = (pattern: string | RegExp | undefined) =>
+  pattern instanceof RegExp ? pattern.source : (pattern || '');
+
+// Jaccard similarity of two token sets
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+class UnclassifiedInbox {
+  /**
+   * Report an interval's app / domain to the inbox if no rule matched them
+   */
+  async record(
+    appName: string,
+    windowTitle: string | undefined,
+    classification: ActivityClassification,
+    seconds: number
+  ): Promise<void> {
+    if (!window.electronAPI?.recordUnclassifiedActivity || seconds <= 0) return;
+
+    // app / title let the main process check the window against the privacy rules before keeping a sample
+    const entries: UnclassifiedActivity[] = [];
+    if (classification.app.matchType === 'none' && appName && appName !== 'Unknown') {
+      entries.push({ kind: 'app', name: appName, seconds, sample: windowTitle, app: appName, title: windowTitle });
+    }
+    if (classification.url && classification.url.matchType === 'none' && classification.url.domain) {
+      entries.push({ kind: 'url', name: classification.url.domain, seconds, sample: classification.url.path || undefined, app: appName, title: windowTitle });
+    }
+    if (entries.length === 0) return;
+
+    const result = await window.electronAPI.recordUnclassifiedActivity(entries);
+    if (!result.success) {
+      console.warn('[CLASSIFICATION] ⚠️ Could not record unclassified activity:', result.error);
+    }
+  }
+
+  /**
+   * Inbox items that are still unclassified under the current rules, most time first
+   */
+  async getItems(context?: ClassificationContext): Promise<UnclassifiedItem[]> {
+    if (!window.electronAPI?.getUnclassifiedInbox) return [];
+    const result = await window.electronAPI.getUnclassifiedInbox();
+    if (!result.success) return [];
+    return result.items.filter(item => item.kind === 'app'
+      ? appClassifier.classifyApp(item.name, item.samples[0], context).matchType === 'none'
+      : urlClassifier.classifyUrl(item.name, context).matchType === 'none');
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await window.electronAPI?.removeUnclassifiedItems?.(keys);
+  }
+
+  /**
+   * Already-classified items to learn from: recent activity logs a rule matched,
+   * the user's own rules and the default rules
+   */
+  buildExamples(logs: ActivityLog[], rules: ClassificationRule[], context?: ClassificationContext): ClassifiedExample[] {
+    const examples: ClassifiedExample[] = [];
+    const seen = new Set<string>();
+    const add = (label: string, text: string, category: ProductivityCategory) => {
+      const tokens = new Set(tokenize(text));
+      const key = `${category}|${Array.from(tokens).sort().join(' ')}`;
+      if (tokens.size === 0 || seen.has(key)) return;
+      seen.add(key);
+      examples.push({ label, tokens, category });
+    };
+
+    logs.forEach(log => {
+      const classification = classifyActivity({ app: log.activeWindow, title: log.windowTitle, url: log.activeUrl }, context);
+      if (classification.app.matchType !== 'none') {
+        add(log.activeWindow, `${log.activeWindow} ${log.windowTitle || ''}`, classification.app.category);
+      }
+      if (classification.url && classification.url.matchType !== 'none') {
+        add(classification.url.domain, `${classification.url.domain} ${classification.url.path} ${log.windowTitle || ''}`, classification.url.category);
+      }
+    });
+
+    rules.filter(rule => rule.enabled !== false).forEach(rule => {
+      const label = rule.kind === 'app' ? rule.processName || '' : rule.domainPattern || '';
+      add(label, [rule.processName, rule.titlePattern, rule.domainPattern, rule.pathPattern].join(' '), rule.category);
+    });
+
+    DEFAULT_APP_CLASSIFICATIONS.forEach(rule => {
+      const text = `${patternText(rule.processName)} ${patternText(rule.titlePattern)}`;
+      add(tokenize(patternText(rule.processName)).join(' '), text, rule.category);
+    });
+    DEFAULT_URL_CLASSIFICATIONS.forEach(rule => {
+      const text = `${patternText(rule.domainPattern)} ${patternText(rule.pathPattern)}`;
+      add(typeof rule.domainPattern === 'string' ? rule.domainPattern : tokenize(text).join(' '), text, rule.category);
+    });
+
+    return examples;
+  }
+
+  /**
+   * Suggest a category from the most similar classified examples, or null if nothing is similar
+   */
+  suggest(item: UnclassifiedItem, examples: ClassifiedExample[]): ClassificationSuggestion | null {
+    const tokens = new Set(tokenize(`${item.name} ${item.samples.join(' ')}`));
+    const nearest = examples
+      .map(example => ({ example, score: similarity(tokens, example.tokens) }))
+      .filter(match => match.score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, NEAREST_EXAMPLES);
+    if (nearest.length === 0) return null;
+
+    const votes: Record<ProductivityCategory, number> = { productive: 0, neutral: 0, unproductive: 0 };
+    nearest.forEach(match => { votes[match.example.category] += match.score; });
+    const total = nearest.reduce((sum, match) => sum + match.score, 0);
+    const category = (Object.keys(votes) as ProductivityCategory[]).reduce((best, next) => votes[next] > votes[best] ? next : best);
+
+    return {
+      category,
+      confidence: votes[category] / total,
+      similarTo: nearest.filter(match => match.example.category === category).map(match => match.example.label).slice(0, 3)
+    };
+  }
+}
+
+// Export singleton instance
+export const unclassifiedInbox = new UnclassifiedInbox();
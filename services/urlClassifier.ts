@@ -2,14 +2,23 @@
  * URL Classifier Service
  * 
  * Classifies URLs/domains as productive, neutral, or unproductive
- * based on domain and path patterns.
+ * based on domain and path patterns. The matched rule also gives the
+ * activity category (Work, Communication, ...).
  * 
  * Uses in-memory cache for fast lookups.
  */
 
 import { 
   ProductivityCategory, 
-  getDefaultWeight 
+  ActivityCategory,
+  ClassificationContext,
+  ClassificationLayer,
+  RuleOutcome,
+  getDefaultActivity,
+  getDefaultWeight,
+  getContextKey,
+  hasScope,
+  isRuleInScope
 } from '../config/appClassifications';
 import {
   UrlClassificationRule,
@@ -22,15 +31,30 @@ export interface UrlClassificationResult {
   path: string;
   category: ProductivityCategory;
   weight: number;
+  activity: ActivityCategory;          // Activity category from the same rule
   matchType: 'path_pattern' | 'exact_domain' | 'regex_domain' | 'subdomain' | 'none';
   confidence: number;
   matchedRule?: UrlClassificationRule;
 }
 
+export interface UrlRuleEvaluation {
+  layer: ClassificationLayer;
+  rule: UrlClassificationRule;
+  outcome: RuleOutcome;
+}
+
+export interface UrlClassificationExplanation {
+  result: UrlClassificationResult;
+  layer?: ClassificationLayer;          // Layer of the matched rule (undefined when nothing matched)
+  evaluations: UrlRuleEvaluation[];     // Rules whose domain (or base domain) applies, layer by layer
+  rulesChecked: number;                 // Rules across all layers
+}
+
 class UrlClassifier {
   private classificationCache: Map<string, UrlClassificationResult> = new Map();
   private rules: UrlClassificationRule[] = [...DEFAULT_URL_CLASSIFICATIONS];
   private userCustomRules: UrlClassificationRule[] = [];
+  private policyRules: UrlClassificationRule[] = [];
 
   constructor() {
     // Pre-compile string patterns to regex for performance
@@ -47,14 +71,27 @@ class UrlClassifier {
    * User rules take precedence over default rules
    */
   addCustomRules(rules: UrlClassificationRule[]): void {
-    this.userCustomRules = rules.map(rule => ({
+    this.userCustomRules = this.compileRules(rules);
+    // Clear cache when rules change
+    this.classificationCache.clear();
+  }
+
+  /**
+   * Set the organization policy rules for the current workspace
+   * Policy rules rank below user rules and above default rules
+   */
+  setPolicyRules(rules: UrlClassificationRule[]): void {
+    this.policyRules = this.compileRules(rules);
+    this.classificationCache.clear();
+  }
+
+  private compileRules(rules: UrlClassificationRule[]): UrlClassificationRule[] {
+    return rules.map(rule => ({
       ...rule,
       domainPattern: typeof rule.domainPattern === 'string' 
         ? new RegExp(`^${this.escapeRegex(rule.domainPattern)}$`, 'i')
         : rule.domainPattern
     }));
-    // Clear cache when rules change
-    this.classificationCache.clear();
   }
 
   /**
@@ -87,15 +124,17 @@ class UrlClassifier {
    * Classify a URL
    * 
    * @param url - Full URL or domain string
+   * @param context - Optional department / workspace / project for scoped rules
    * @returns Classification result
    */
-  classifyUrl(url: string): UrlClassificationResult {
+  classifyUrl(url: string, context?: ClassificationContext): UrlClassificationResult {
     if (!url || url.trim() === '') {
       return {
         domain: '',
         path: '',
         category: 'neutral',
         weight: getUrlDefaultWeight('neutral'),
+        activity: 'Other',
         matchType: 'none',
         confidence: 0.0
       };
@@ -111,16 +150,90 @@ class UrlClassifier {
     const path = this.extractPath(normalizedUrl);
     
     // Create cache key
-    const cacheKey = `${domain}|${path}`;
+    const cacheKey = `${domain}|${path}|${getContextKey(context)}`;
     
     // Check cache first
     if (this.classificationCache.has(cacheKey)) {
       return this.classificationCache.get(cacheKey)!;
     }
 
-    // Combine user rules (priority) with default rules
-    const allRules = [...this.userCustomRules, ...this.rules];
+    // Layers in priority order: user rules, organization policy, defaults. The first layer
+    // with any match decides
+    for (const layer of [this.userCustomRules, this.policyRules, this.rules]) {
+      const result = this.matchRules(this.rulesInScope(layer, context), domain, path);
+      if (result) {
+        this.classificationCache.set(cacheKey, result);
+        return result;
+      }
+    }
+
+    // Unknown URL - default to neutral
+    const result: UrlClassificationResult = {
+      domain,
+      path,
+      category: 'neutral',
+      weight: getUrlDefaultWeight('neutral'),
+      activity: 'Other',
+      matchType: 'none',
+      confidence: 0.0
+    };
+    this.classificationCache.set(cacheKey, result);
+    return result;
+  }
 
+  /**
+   * Explain a classification: every rule whose domain applies and what became of it
+   */
+  explainUrl(url: string, context?: ClassificationContext): UrlClassificationExplanation {
+    const result = this.classifyUrl(url, context);
+    const layers: Array<[ClassificationLayer, UrlClassificationRule[]]> = [
+      ['user', this.userCustomRules],
+      ['policy', this.policyRules],
+      ['default', this.rules]
+    ];
+    const rulesChecked = layers.reduce((total, [, rules]) => total + rules.length, 0);
+    if (!result.domain) {
+      return { result, evaluations: [], rulesChecked };
+    }
+
+    const domainParts = result.domain.split('.');
+    const baseDomain = domainParts.length > 2 ? domainParts.slice(-2).join('.') : null;
+    const evaluations: UrlRuleEvaluation[] = [];
+    let matchedLayer: ClassificationLayer | undefined;
+    for (const [layer, rules] of layers) {
+      for (const rule of rules) {
+        const domainApplies = this.matchDomain(rule.domainPattern, result.domain) ||
+          (!!baseDomain && !rule.pathPattern && this.matchDomain(rule.domainPattern, baseDomain));
+        if (!domainApplies) continue;
+
+        let outcome: RuleOutcome;
+        if (rule === result.matchedRule) {
+          outcome = 'matched';
+          matchedLayer = layer;
+        } else if (!isRuleInScope(rule.scope, context)) {
+          outcome = 'out_of_scope';
+        } else if (rule.pathPattern && !rule.pathPattern.test(result.path)) {
+          outcome = 'pattern_mismatch';
+        } else {
+          outcome = 'outranked';
+        }
+        evaluations.push({ layer, rule, outcome });
+      }
+    }
+
+    return { result, layer: matchedLayer, evaluations, rulesChecked };
+  }
+
+  /**
+   * Match one layer of rules
+   * 
+   * Priority: Path pattern > Exact domain > Regex domain > Subdomain
+   */
+  private matchRules(
+    allRules: UrlClassificationRule[],
+    domain: string,
+    path: string
+  ): UrlClassificationResult | null {
     // Step 1: Check path-specific rules first (most specific)
     for (const rule of allRules) {
       if (rule.pathPattern) {
@@ -132,11 +245,11 @@ class UrlClassifier {
             path,
             category: rule.category,
             weight: rule.weight ?? getUrlDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'path_pattern',
             confidence: 0.95,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       }
@@ -153,11 +266,11 @@ class UrlClassifier {
             path,
             category: rule.category,
             weight: rule.weight ?? getUrlDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'exact_domain',
             confidence: 0.9,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       }
@@ -172,11 +285,11 @@ class UrlClassifier {
             path,
             category: rule.category,
             weight: rule.weight ?? getUrlDefaultWeight(rule.category),
+            activity: rule.activity ?? getDefaultActivity(rule.category),
             matchType: 'regex_domain',
             confidence: 0.8,
             matchedRule: rule
           };
-          this.classificationCache.set(cacheKey, result);
           return result;
         }
       }
@@ -197,28 +310,26 @@ class UrlClassifier {
               path,
               category: rule.category,
               weight: (rule.weight ?? getUrlDefaultWeight(rule.category)) * 0.9, // Slight penalty for subdomain
+              activity: rule.activity ?? getDefaultActivity(rule.category),
               matchType: 'subdomain',
               confidence: 0.7,
               matchedRule: rule
             };
-            this.classificationCache.set(cacheKey, result);
             return result;
           }
         }
       }
     }
 
-    // Step 5: Unknown URL - default to neutral
-    const result: UrlClassificationResult = {
-      domain,
-      path,
-      category: 'neutral',
-      weight: getUrlDefaultWeight('neutral'),
-      matchType: 'none',
-      confidence: 0.0
-    };
-    this.classificationCache.set(cacheKey, result);
-    return result;
+    return null;
+  }
+
+  /**
+   * Rules of one layer that apply in this context, scoped rules first
+   */
+  private rulesInScope(rules: UrlClassificationRule[], context?: ClassificationContext): UrlClassificationRule[] {
+    const applicable = rules.filter(rule => isRuleInScope(rule.scope, context));
+    return [...applicable.filter(rule => hasScope(rule.scope)), ...applicable.filter(rule => !hasScope(rule.scope))];
   }
 
   /**
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getContextKey, hasScope, isRuleInScope } from '../../config/appClassifications';
+
+describe('isRuleInScope', () => {
+    it('applies unscoped rules everywhere', () => {
+        expect(isRuleInScope(undefined)).toBe(true);
+        expect(isRuleInScope({}, { department: 'Design' })).toBe(true);
+        expect(isRuleInScope({ departments: [] }, undefined)).toBe(true);
+    });
+
+    it('matches departments case-insensitively', () => {
+        const scope = { departments: ['Design', ' Marketing '] };
+        expect(isRuleInScope(scope, { department: 'marketing' })).toBe(true);
+        expect(isRuleInScope(scope, { department: 'Engineering' })).toBe(false);
+        expect(isRuleInScope(scope, { department: null })).toBe(false);
+        expect(isRuleInScope(scope)).toBe(false);
+    });
+
+    it('needs every scoped list to match', () => {
+        const scope = { departments: ['Design'], workspaceIds: ['7'], projectIds: ['p1', 'p2'] };
+        expect(isRuleInScope(scope, { department: 'Design', workspaceId: '7', projectId: 'p2' })).toBe(true);
+        expect(isRuleInScope(scope, { department: 'Design', workspaceId: '8', projectId: 'p2' })).toBe(false);
+        expect(isRuleInScope(scope, { department: 'Design', workspaceId: '7' })).toBe(false);
+    });
+});
+
+describe('hasScope', () => {
+    it('ignores empty lists', () => {
+        expect(hasScope(undefined)).toBe(false);
+        expect(hasScope({ departments: [], projectIds: [] })).toBe(false);
+        expect(hasScope({ projectIds: ['p1'] })).toBe(true);
+    });
+});
+
+describe('getContextKey', () => {
+    it('tells contexts apart and ignores department case', () => {
+        expect(getContextKey()).toBe('||');
+        expect(getContextKey({ department: 'Design', workspaceId: '7', projectId: 'p1' })).toBe('design|7|p1');
+        expect(getContextKey({ department: 'DESIGN' })).toBe(getContextKey({ department: 'design' }));
+        expect(getContextKey({ projectId: 'p1' })).not.toBe(getContextKey({ projectId: 'p2' }));
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyConflictResolution,
+    buildMergedTaskView,
+    getConflictDeductedSeconds,
+    mergeIntervals,
+    mergeRemoteTrackingData,
+    subtractIntervals,
+} from '../../electron/device-merge.cjs';
+
+const T0 = Date.UTC(2026, 9, 19, 9, 0, 0);
+const min = (m: number) => T0 + m * 60 * 1000;
+const capsule = (from: number, to: number) => ({ startTime: min(from), endTime: min(to), duration: (to - from) * 60 });
+const log = (id: string, at: number) => ({ id, timestamp: new Date(min(at)).toISOString() });
+
+const localDevice = { deviceId: 'laptop', deviceName: 'Laptop' };
+
+// This device tracked 9:00-10:00, the desktop 9:30-10:30
+const remoteRecord = (deviceId = 'desktop') => ({
+    metadata: { deviceId, deviceName: 'Desktop' },
+    trackingData: {
+        activityLogs: [log('r1', 35), log('r2', 80)],
+        activeWindows: [{ windowKey: 'code', timeCapsules: [capsule(30, 90)] }],
+        summary: { totalTime: 3600, lastActivity: new Date(min(90)).toISOString() }
+    }
+});
+
+const localDocument = () => {
+    const doc: any = {
+        metadata: { projectId: 'p1', taskId: 't1' },
+        trackingData: {
+            activityLogs: [log('l1', 10), log('l2', 45)],
+            activeWindows: [{ windowKey: 'code', timeCapsules: [capsule(0, 60)] }]
+        }
+    };
+    mergeRemoteTrackingData(doc.trackingData, [remoteRecord()], localDevice.deviceId, '2026-10-19T12:00:00.000Z');
+    return doc;
+};
+
+describe('mergeRemoteTrackingData', () => {
+    it('skips this device and records without a device id', () => {
+        const trackingData: any = { activeWindows: [] };
+        const result = mergeRemoteTrackingData(trackingData, [remoteRecord('laptop'), { trackingData: { activityLogs: [] } }, null], 'laptop');
+        expect(result).toEqual({ mergedRecords: 0, skippedRecords: 3 });
+        expect(trackingData.deviceMerge.devices).toEqual({});
+    });
+
+    it('keeps one copy of a log uploaded in several snapshots', () => {
+        const doc = localDocument();
+        mergeRemoteTrackingData(doc.trackingData, [{ data: JSON.stringify(remoteRecord()) }], 'laptop');
+        const desktop = doc.trackingData.deviceMerge.devices.desktop;
+        expect(desktop.activityLogs.map((l: any) => l.id)).toEqual(['r1', 'r2']);
+        expect(desktop.runs).toEqual([{ start: min(30), end: min(90) }]);
+    });
+
+    it('finds the overlap and keeps its resolution across merges', () => {
+        const doc = localDocument();
+        const [conflict] = doc.trackingData.deviceMerge.conflicts;
+        expect(conflict).toMatchObject({ deviceId: 'desktop', start: min(30), end: min(60), overlapSeconds: 1800, status: 'open' });
+
+        applyConflictResolution(doc.trackingData, conflict, 'keep-local');
+        mergeRemoteTrackingData(doc.trackingData, [remoteRecord()], 'laptop');
+        expect(doc.trackingData.deviceMerge.conflicts[0]).toMatchObject({ id: conflict.id, status: 'resolved', resolution: 'keep-local' });
+    });
+});
+
+describe('buildMergedTaskView', () => {
+    const resolved = (resolution: string) => {
+        const doc = localDocument();
+        applyConflictResolution(doc.trackingData, doc.trackingData.deviceMerge.conflicts[0], resolution);
+        return buildMergedTaskView(doc, localDevice);
+    };
+    const seconds = (view: any) => view.devices.map((d: any) => [d.deviceId, d.trackedSeconds]);
+
+    it('counts an open overlap once', () => {
+        const view = buildMergedTaskView(localDocument(), localDevice);
+        expect(view.openConflicts).toBe(1);
+        expect(view.mergedTotalTime).toBe(90 * 60);
+        expect(view.activityLogs.map((l: any) => l.id)).toEqual(['l1', 'r1', 'l2', 'r2']);
+    });
+
+    it('gives the overlap to this device on keep-local', () => {
+        const view = resolved('keep-local');
+        expect(seconds(view)).toEqual([['laptop', 3600], ['desktop', 1800]]);
+        expect(view.mergedTotalTime).toBe(90 * 60);
+        expect(view.activityLogs.map((l: any) => l.id)).toEqual(['l1', 'l2', 'r2']);
+    });
+
+    it('gives the overlap to the other device on keep-remote', () => {
+        const view = resolved('keep-remote');
+        expect(seconds(view)).toEqual([['laptop', 1800], ['desktop', 3600]]);
+        expect(view.mergedTotalTime).toBe(90 * 60);
+        expect(view.activityLogs.map((l: any) => l.id)).toEqual(['l1', 'r1', 'r2']);
+    });
+
+    it('counts the overlap on both devices on keep-both', () => {
+        const view = resolved('keep-both');
+        expect(seconds(view)).toEqual([['laptop', 3600], ['desktop', 3600]]);
+        expect(view.mergedTotalTime).toBe(120 * 60);
+    });
+});
+
+describe('getConflictDeductedSeconds', () => {
+    it('takes only keep-remote overlaps off this device', () => {
+        const doc = localDocument();
+        const [conflict] = doc.trackingData.deviceMerge.conflicts;
+        expect(getConflictDeductedSeconds(doc.trackingData)).toBe(0);
+        applyConflictResolution(doc.trackingData, conflict, 'keep-local');
+        expect(getConflictDeductedSeconds(doc.trackingData)).toBe(0);
+        applyConflictResolution(doc.trackingData, conflict, 'keep-remote');
+        expect(getConflictDeductedSeconds(doc.trackingData)).toBe(1800);
+    });
+
+    it('counts only time this device actually tracked, within the range', () => {
+        const doc = localDocument();
+        // A 10 minute gap inside the overlap
+        doc.trackingData.activeWindows = [{ windowKey: 'code', timeCapsules: [capsule(0, 40), capsule(50, 60)] }];
+        applyConflictResolution(doc.trackingData, doc.trackingData.deviceMerge.conflicts[0], 'keep-remote');
+        expect(getConflictDeductedSeconds(doc.trackingData)).toBe(20 * 60);
+        expect(getConflictDeductedSeconds(doc.trackingData, { start: min(0), end: min(35) })).toBe(5 * 60);
+    });
+});
+
+describe('applyConflictResolution', () => {
+    it('flags this device logs inside the overlap and clears the flag when the choice changes', () => {
+        const doc = localDocument();
+        const [conflict] = doc.trackingData.deviceMerge.conflicts;
+        const flagged = applyConflictResolution(doc.trackingData, conflict, 'keep-remote', '2026-10-19T12:00:00.000Z');
+        expect(flagged.map((l: any) => l.id)).toEqual(['l2']);
+        expect(doc.trackingData.activityLogs[1].excludedByConflict).toBe(conflict.id);
+        expect(conflict).toMatchObject({ status: 'resolved', resolution: 'keep-remote', resolvedAt: '2026-10-19T12:00:00.000Z' });
+
+        expect(applyConflictResolution(doc.trackingData, conflict, 'keep-remote')).toEqual([]);
+        expect(applyConflictResolution(doc.trackingData, conflict, 'keep-both').map((l: any) => l.id)).toEqual(['l2']);
+        expect(doc.trackingData.activityLogs[1].excludedByConflict).toBeUndefined();
+    });
+});
+
+describe('interval helpers', () => {
+    it('joins intervals within the gap', () => {
+        expect(mergeIntervals([{ start: 5, end: 8 }, { start: 0, end: 3 }], 2)).toEqual([{ start: 0, end: 8 }]);
+    });
+
+    it('cuts spans out of intervals', () => {
+        expect(subtractIntervals([{ start: 0, end: 10 }], [{ start: 2, end: 4 }, { start: 8, end: 12 }]))
+            .toEqual([{ start: 0, end: 2 }, { start: 4, end: 8 }]);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createEncryptionKey,
+    getKeyRing,
+    getSealedKeyId,
+    openTextWithKeys,
+    openWithKeys,
+    resolveEncryptionKeyRecord,
+    rotateKeyRecord,
+    sealTextWithKey,
+    sealWithKey,
+    withPreviousKeys,
+} from '../../electron/encryption.cjs';
+
+const seal = (text: string, record: any) => sealWithKey(Buffer.from(text), record.keyId, getKeyRing(record).get(record.keyId));
+
+describe('sealWithKey / openWithKeys', () => {
+    it('round-trips and records the key id', () => {
+        const record = createEncryptionKey();
+        const sealed = seal('{"taskId":"t1"}', record);
+        expect(sealed.includes(Buffer.from('taskId'))).toBe(false);
+        expect(getSealedKeyId(sealed)).toBe(record.keyId);
+        expect(openWithKeys(sealed, getKeyRing(record)).toString()).toBe('{"taskId":"t1"}');
+    });
+
+    it('reads plaintext as is', () => {
+        expect(openWithKeys(Buffer.from('{"a":1}'), new Map()).toString()).toBe('{"a":1}');
+        expect(openTextWithKeys('{"a":1}', new Map())).toBe('{"a":1}');
+        expect(getSealedKeyId(Buffer.from('{"a":1}'))).toBeNull();
+    });
+
+    it('fails on an unknown key and on tampered data', () => {
+        const record = createEncryptionKey();
+        const sealed = seal('secret', record);
+        expect(() => openWithKeys(sealed, getKeyRing(createEncryptionKey()))).toThrow(/unknown key/);
+
+        const tampered = Buffer.from(sealed);
+        tampered[tampered.length - 1] ^= 0xff;
+        expect(() => openWithKeys(tampered, getKeyRing(record))).toThrow();
+    });
+
+    it('round-trips database text columns', () => {
+        const record = createEncryptionKey();
+        const sealed = sealTextWithKey('[1,2]', record.keyId, getKeyRing(record).get(record.keyId));
+        expect(sealed.startsWith('TYE1:')).toBe(true);
+        expect(openTextWithKeys(sealed, getKeyRing(record))).toBe('[1,2]');
+    });
+});
+
+describe('rotateKeyRecord', () => {
+    it('seals with the new key and still reads data sealed with the old ones', () => {
+        const first = createEncryptionKey();
+        const oldData = seal('old', first);
+        const rotated = rotateKeyRecord(getKeyRing(first));
+        const keys = getKeyRing(rotated);
+
+        expect(rotated.keyId).not.toBe(first.keyId);
+        expect(Array.from(keys.keys())).toEqual([rotated.keyId, first.keyId]);
+        expect(openWithKeys(oldData, keys).toString()).toBe('old');
+        expect(getSealedKeyId(seal('new', rotated))).toBe(rotated.keyId);
+    });
+});
+
+describe('withPreviousKeys', () => {
+    it('adds only the keys the record is missing', () => {
+        const a = createEncryptionKey();
+        const b = createEncryptionKey();
+        expect(withPreviousKeys(a, a)).toBe(a);
+        expect(Array.from(getKeyRing(withPreviousKeys(a, b)).keys())).toEqual([a.keyId, b.keyId]);
+    });
+});
+
+describe('resolveEncryptionKeyRecord', () => {
+    const found = (record: any) => async () => ({ status: 'found', record });
+    const missing = async () => ({ status: 'missing' });
+    const failed = async () => ({ status: 'error', error: new Error('keychain is locked') });
+
+    const resolve = async (readKeychain: any, readFallback: any, sealedData: boolean) => {
+        const saved: any[] = [];
+        const result = await resolveEncryptionKeyRecord({
+            readKeychain,
+            readFallback,
+            hasSealedData: async () => sealedData,
+            saveRecord: async (record: any) => { saved.push(record); return 'keychain'; },
+        });
+        return { result, saved };
+    };
+
+    it('uses the keychain key', async () => {
+        const key = createEncryptionKey();
+        const { result, saved } = await resolve(found(key), missing, true);
+        expect(result).toEqual({ record: key, source: 'keychain', created: false });
+        expect(saved).toEqual([]);
+    });
+
+    it('keeps the keys of a fallback copy the keychain shadows', async () => {
+        const keychainKey = createEncryptionKey();
+        const fallbackKey = createEncryptionKey();
+        const { result } = await resolve(found(keychainKey), found(fallbackKey), true);
+        expect(Array.from(getKeyRing(result.record).keys())).toEqual([keychainKey.keyId, fallbackKey.keyId]);
+    });
+
+    it('falls back to the safeStorage key when the keychain fails', async () => {
+        const key = createEncryptionKey();
+        const { result, saved } = await resolve(failed, found(key), true);
+        expect(result).toEqual({ record: key, source: 'safeStorage', created: false });
+        expect(saved).toEqual([]);
+    });
+
+    it('refuses to create a key when a read failed and sealed data exists', async () => {
+        const keychainDown = await resolve(failed, missing, true);
+        expect(keychainDown.result).toMatchObject({ locked: true });
+        expect(keychainDown.result.error.message).toBe('keychain is locked');
+        expect(keychainDown.saved).toEqual([]);
+
+        const fallbackUnreadable = await resolve(missing, failed, true);
+        expect(fallbackUnreadable.result).toMatchObject({ locked: true });
+        expect(fallbackUnreadable.saved).toEqual([]);
+    });
+
+    it('creates a key when nothing could be stranded', async () => {
+        const fresh = await resolve(missing, missing, false);
+        expect(fresh.result).toMatchObject({ source: 'keychain', created: true });
+        expect(fresh.saved).toEqual([fresh.result.record]);
+
+        // The keychain failing on a fresh install is fine - the key goes to the fallback
+        const noSealedData = await resolve(failed, missing, false);
+        expect(noSealedData.result.created).toBe(true);
+    });
+});
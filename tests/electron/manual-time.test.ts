@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MAX_MANUAL_ENTRY_HOURS,
+    applyManualTimeUpdates,
+    assertManualTimeEntryWithdrawable,
+    createManualTimeEntry,
+    normalizeManualTimeEntry,
+} from '../../electron/manual-time.cjs';
+
+const NOW = Date.UTC(2026, 9, 19, 17, 0, 0);
+const at = (hour: number, minute = 0) => new Date(Date.UTC(2026, 9, 19, hour, minute)).toISOString();
+
+const input = (overrides: any = {}) => ({
+    workspaceId: 42,
+    projectId: 'p1',
+    taskId: 't1',
+    taskName: 'Sprint planning',
+    startTime: at(9),
+    endTime: at(10, 30),
+    reason: '  Planning in the meeting room  ',
+    ...overrides
+});
+
+describe('createManualTimeEntry', () => {
+    it('builds a pending, unsent entry with its duration', () => {
+        const entry = createManualTimeEntry(input(), [], 'entry-1', NOW);
+        expect(entry).toEqual({
+            id: 'entry-1',
+            workspaceId: '42',
+            projectId: 'p1',
+            taskId: 't1',
+            projectName: null,
+            taskName: 'Sprint planning',
+            startTime: at(9),
+            endTime: at(10, 30),
+            duration: 5400,
+            reason: 'Planning in the meeting room',
+            status: 'pending',
+            reviewerNote: null,
+            reviewedAt: null,
+            createdBy: null,
+            createdAt: new Date(NOW).toISOString(),
+            updatedAt: new Date(NOW).toISOString(),
+            submittedAt: null
+        });
+    });
+
+    it('needs a task, a reason and an end after the start', () => {
+        expect(() => createManualTimeEntry(input({ taskId: '' }), [], 'e', NOW)).toThrow(/project and task/);
+        expect(() => createManualTimeEntry(input({ reason: '   ' }), [], 'e', NOW)).toThrow(/reason/);
+        expect(() => createManualTimeEntry(input({ endTime: at(9) }), [], 'e', NOW)).toThrow(/after the start/);
+        expect(() => createManualTimeEntry(input({ startTime: 'soon' }), [], 'e', NOW)).toThrow(/after the start/);
+    });
+
+    it('only takes time that has passed, at most the maximum length', () => {
+        expect(() => createManualTimeEntry(input({ endTime: at(18) }), [], 'e', NOW)).toThrow(/already passed/);
+        expect(() => createManualTimeEntry(input({ startTime: at(1), endTime: at(1 + MAX_MANUAL_ENTRY_HOURS, 1) }), [], 'e', NOW))
+            .toThrow(`at most ${MAX_MANUAL_ENTRY_HOURS} hours`);
+    });
+
+    it('refuses to overlap manual time already added, but may touch it', () => {
+        const existing = [createManualTimeEntry(input(), [], 'entry-1', NOW)];
+        expect(() => createManualTimeEntry(input({ startTime: at(10), endTime: at(11) }), existing, 'e', NOW)).toThrow(/Sprint planning/);
+        expect(createManualTimeEntry(input({ startTime: at(10, 30), endTime: at(11) }), existing, 'e', NOW).duration).toBe(1800);
+    });
+
+    it('lets new time take the slot of a rejected entry', () => {
+        const rejected = { ...createManualTimeEntry(input(), [], 'entry-1', NOW), status: 'rejected' };
+        expect(createManualTimeEntry(input(), [rejected], 'e', NOW).duration).toBe(5400);
+    });
+});
+
+describe('applyManualTimeUpdates', () => {
+    const LATER = NOW + 60 * 1000;
+
+    it('takes review decisions and the submit time, and reports what changed', () => {
+        const entries = [createManualTimeEntry(input(), [], 'entry-1', NOW)];
+        const changed = applyManualTimeUpdates(entries, [
+            { id: 'entry-1', submittedAt: at(17, 1) },
+            { id: 'entry-1', status: 'rejected', reviewerNote: 'Not billable', reviewedAt: at(17, 2) },
+            { id: 'missing', status: 'approved' }
+        ], LATER);
+
+        expect(changed).toHaveLength(1);
+        expect(entries[0]).toMatchObject({
+            status: 'rejected',
+            reviewerNote: 'Not billable',
+            reviewedAt: at(17, 2),
+            submittedAt: at(17, 1),
+            updatedAt: new Date(LATER).toISOString()
+        });
+    });
+
+    it('ignores unknown statuses and updates that change nothing', () => {
+        const entries = [createManualTimeEntry(input(), [], 'entry-1', NOW)];
+        expect(applyManualTimeUpdates(entries, [{ id: 'entry-1', status: 'archived' as any }], LATER)).toEqual([]);
+        expect(applyManualTimeUpdates(entries, [{ id: 'entry-1', status: 'pending', reviewerNote: null }], LATER)).toEqual([]);
+        expect(entries[0].updatedAt).toBe(new Date(NOW).toISOString());
+    });
+});
+
+describe('normalizeManualTimeEntry', () => {
+    it('makes entries saved before review existed pending and unsent', () => {
+        const { status, reviewerNote, reviewedAt, submittedAt, ...saved } = createManualTimeEntry(input(), [], 'entry-1', NOW);
+        expect(normalizeManualTimeEntry(saved)).toMatchObject({ status: 'pending', reviewerNote: null, reviewedAt: null, submittedAt: null });
+    });
+});
+
+describe('assertManualTimeEntryWithdrawable', () => {
+    it('only lets pending entries be withdrawn', () => {
+        const entry = createManualTimeEntry(input(), [], 'entry-1', NOW);
+        expect(() => assertManualTimeEntryWithdrawable(entry)).not.toThrow();
+        expect(() => assertManualTimeEntryWithdrawable({ ...entry, status: 'approved' })).toThrow(/already approved/);
+    });
+});
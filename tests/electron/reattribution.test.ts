@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { getActivityLogSpans, moveTrackedWork, splitCapsulesBySpans } from '../../electron/reattribution.cjs';
+import { advanceSyncPosition, collectSyncDelta } from '../../electron/sync-delta.cjs';
+
+const T0 = Date.UTC(2026, 9, 19, 9, 0, 0);
+const min = (m: number) => T0 + m * 60 * 1000;
+const at = (m: number) => new Date(min(m)).toISOString();
+const capsule = (from: number, to: number) => ({ startTime: min(from), endTime: min(to), duration: (to - from) * 60 });
+const MOVED_AT = min(120);
+
+// One log per 10 minutes, 9:00-9:30, with a screenshot each and one window the whole time
+const sourceData = () => ({
+    activityLogs: [
+        { id: 'l1', timestamp: at(10), keyboardEvents: 10 },
+        { id: 'l2', timestamp: at(20), keyboardEvents: 20 },
+        { id: 'l3', timestamp: at(30), keyboardEvents: 30 }
+    ],
+    screenshots: [
+        { id: 's1', timestamp: min(8), activityLogId: 'l1' },
+        { id: 's2', timestamp: min(18), activityLogId: 'l2' },
+        { id: 's3', timestamp: min(19) } // older record without a log id
+    ],
+    webcamPhotos: [],
+    activeWindows: [{ windowKey: 'code', keystrokes: 60, mouseClicks: 30, lastSeen: min(30), timeCapsules: [capsule(0, 30)] }]
+} as any);
+
+const newAudit = () => ({
+    id: 'audit-1',
+    movedAt: new Date(MOVED_AT).toISOString(),
+    movedBy: { id: 7, name: 'Ada', email: 'ada@example.com' },
+    reason: 'Tracked on the wrong ticket',
+    from: { projectId: 'p1', taskId: 'source' },
+    to: { projectId: 'p1', taskId: 'target' }
+} as any);
+
+const move = (source: any, target: any, ids: string[]) => {
+    const spans = getActivityLogSpans(source.activityLogs).filter((span: any) => ids.includes(span.log.id));
+    const audit = newAudit();
+    const movedLogs = moveTrackedWork(source, target, spans, audit, MOVED_AT);
+    return { audit, movedLogs };
+};
+
+// Cursor past everything currently in the document
+const syncedCursor = (trackingData: any) => {
+    const collections: any = {};
+    const delta: any = collectSyncDelta(trackingData, { collections: {} });
+    for (const [collection, batch] of Object.entries<any[]>(delta)) {
+        if (batch.length > 0) collections[collection] = advanceSyncPosition(undefined, batch);
+    }
+    return { collections };
+};
+
+describe('getActivityLogSpans', () => {
+    it('covers the time since the previous log, at most ten minutes', () => {
+        const spans = getActivityLogSpans([{ id: 'b', timestamp: at(25) }, { id: 'a', timestamp: at(10) }, { id: 'x', timestamp: 'not a date' }]);
+        expect(spans.map((s: any) => [s.log.id, s.start, s.end])).toEqual([['a', min(0), min(10)], ['b', min(15), min(25)]]);
+    });
+});
+
+describe('splitCapsulesBySpans', () => {
+    it('cuts capsules at the span edges', () => {
+        const { kept, moved } = splitCapsulesBySpans([capsule(0, 30), capsule(40, 50)], [{ start: min(10), end: min(20) }]);
+        expect(kept).toEqual([capsule(0, 10), capsule(20, 30), capsule(40, 50)]);
+        expect(moved).toEqual([capsule(10, 20)]);
+    });
+});
+
+describe('moveTrackedWork', () => {
+    it('moves the logs with their screenshots and window time', () => {
+        const source = sourceData();
+        const target: any = { activityLogs: [{ id: 't1', timestamp: at(5) }] };
+        const { audit, movedLogs } = move(source, target, ['l2']);
+
+        expect(source.activityLogs.map((l: any) => l.id)).toEqual(['l1', 'l3']);
+        expect(target.activityLogs.map((l: any) => l.id)).toEqual(['t1', 'l2']);
+        expect(movedLogs[0]).toMatchObject({
+            taskId: 'target',
+            reattributedFrom: {
+                projectId: 'p1',
+                taskId: 'source',
+                at: audit.movedAt,
+                auditId: 'audit-1',
+                movedBy: { id: 7, name: 'Ada', email: 'ada@example.com' },
+                reason: 'Tracked on the wrong ticket'
+            }
+        });
+        expect(audit).toMatchObject({ activityLogIds: ['l2'], screenshotIds: ['s2', 's3'], movedSeconds: 600 });
+        expect(source.screenshots.map((s: any) => s.id)).toEqual(['s1']);
+        expect(target.screenshots.map((s: any) => [s.id, s.taskId])).toEqual([['s2', 'target'], ['s3', 'target']]);
+
+        expect(source.activeWindows[0]).toMatchObject({ keystrokes: 40, mouseClicks: 20, timeCapsules: [capsule(0, 10), capsule(20, 30)] });
+        expect(target.activeWindows[0]).toMatchObject({ windowKey: 'code', keystrokes: 20, mouseClicks: 10, timeCapsules: [capsule(10, 20)] });
+    });
+
+    it('does not split window time between neighbouring moved logs', () => {
+        const source = sourceData();
+        const target: any = {};
+        move(source, target, ['l2', 'l3']);
+        expect(target.activeWindows[0].timeCapsules).toEqual([capsule(10, 30)]);
+    });
+
+    it('sends the moved items with the target even when its cursor is past their timestamps', () => {
+        const source = sourceData();
+        const target: any = { activityLogs: [{ id: 't1', timestamp: at(60) }], screenshots: [{ id: 't-s1', timestamp: min(60) }], activeWindows: [] };
+        const cursor = syncedCursor(target);
+
+        move(source, target, ['l2']);
+        const delta = collectSyncDelta(target, cursor);
+        expect(delta.activityLogs.map((e: any) => e.id)).toEqual(['l2']);
+        expect(delta.screenshots.map((e: any) => e.id)).toEqual(['s2', 's3']);
+        expect(delta.activeWindows.map((e: any) => e.id)).toEqual(['code']);
+    });
+
+    it('tells the source task what left it', () => {
+        const source = sourceData();
+        const cursor = syncedCursor(source);
+
+        move(source, {}, ['l2']);
+        const delta = collectSyncDelta(source, cursor);
+        expect(delta.syncRemovals.map((e: any) => [e.item.collection, e.item.itemId, e.item.reason])).toEqual([
+            ['activityLogs', 'l2', 'moved'],
+            ['screenshots', 's2', 'moved'],
+            ['screenshots', 's3', 'moved']
+        ]);
+        // The window stays but lost time, so it goes again too
+        expect(delta.activeWindows.map((e: any) => e.id)).toEqual(['code']);
+        expect(delta.activityLogs).toEqual([]);
+    });
+
+    it('drops the tombstone when a log is moved back', () => {
+        const source = sourceData();
+        const target: any = {};
+        move(source, target, ['l2']);
+        const spans = getActivityLogSpans(target.activityLogs);
+        moveTrackedWork(target, source, spans, { ...newAudit(), from: newAudit().to, to: newAudit().from }, MOVED_AT + 1000);
+
+        const removals = collectSyncDelta(source, { collections: {} }).syncRemovals.map((e: any) => e.item.itemId);
+        expect(removals).not.toContain('l2');
+        expect(collectSyncDelta(target, { collections: {} }).syncRemovals.map((e: any) => e.item.itemId)).toContain('l2');
+    });
+});
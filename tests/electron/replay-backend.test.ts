@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRecordingBackend, createReplayBackend, loadReplaySession } from '../../electron/tracking-backends/replay.cjs';
+
+const SESSION_PATH = path.join(__dirname, '../fixtures/tracking-session.json');
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+// Replay the fixture and count the input it emits
+const startReplay = async (options: any = {}) => {
+    const backend = createReplayBackend({ sessionPath: SESSION_PATH, ...options });
+    const counts = { keys: 0, clicks: 0 };
+    backend.onKey(() => counts.keys++);
+    backend.onClick(() => counts.clicks++);
+    expect(await backend.startInput()).toBe(true);
+    return { backend, counts };
+};
+
+describe('loadReplaySession', () => {
+    it('reads the recorded displays and events', () => {
+        const session = loadReplaySession(SESSION_PATH);
+        expect(session.displays.map((d: any) => d.name)).toEqual(['Built-in Display', 'External Display']);
+        expect(session.events).toHaveLength(9);
+    });
+
+    it('rejects files that are not a tracking session', () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'replay-')), 'session.json');
+        fs.writeFileSync(file, JSON.stringify({ version: 2, events: [] }));
+        expect(() => loadReplaySession(file)).toThrow(/not a version 1 tracking session/);
+    });
+});
+
+describe('createReplayBackend', () => {
+    it('plays focus changes, input and idle time on the recorded schedule', async () => {
+        const { backend, counts } = await startReplay();
+        expect(await backend.getActiveWindow()).toBeNull();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect((await backend.getActiveWindow())?.owner.name).toBe('Code');
+        expect(counts).toEqual({ keys: 3, clicks: 0 });
+        expect(await backend.getIdleSeconds()).toBeCloseTo(0.1);
+
+        await vi.advanceTimersByTimeAsync(2500);
+        expect((await backend.getActiveWindow())?.url).toBe('https://github.com/pulls');
+        expect(counts).toEqual({ keys: 3, clicks: 2 });
+
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(await backend.getIdleSeconds()).toBeCloseTo(120.5);
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(await backend.getActiveWindow()).toBeNull();
+        await backend.stopInput();
+    });
+
+    it('plays faster with a higher speed', async () => {
+        const { backend, counts } = await startReplay({ speed: 10 });
+        await vi.advanceTimersByTimeAsync(320);
+        expect(counts).toEqual({ keys: 3, clicks: 2 });
+        expect((await backend.getActiveWindow())?.owner.name).toBe('Google Chrome');
+        await backend.stopInput();
+    });
+
+    it('stops playing when input stops and starts over on the next start', async () => {
+        const { backend, counts } = await startReplay();
+        await vi.advanceTimersByTimeAsync(600);
+        await backend.stopInput();
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(counts).toEqual({ keys: 1, clicks: 0 });
+
+        await backend.startInput();
+        expect(await backend.getActiveWindow()).toBeNull();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(counts.keys).toBe(4);
+        await backend.stopInput();
+    });
+
+    it('draws one screen per recorded display that changes with the focused window', async () => {
+        const { backend } = await startReplay();
+        await vi.advanceTimersByTimeAsync(1000);
+        const editor = await backend.captureScreens();
+        expect(editor.map((capture: any) => [capture.display.name, capture.image.getSize()])).toEqual([
+            ['Built-in Display', { width: 64, height: 48 }],
+            ['External Display', { width: 96, height: 48 }]
+        ]);
+        expect(editor[1].display).toMatchObject({ id: '2', index: 1, scaleFactor: 2 });
+
+        const again = await backend.captureScreens();
+        expect(again[0].image.toBitmap().equals(editor[0].image.toBitmap())).toBe(true);
+
+        await vi.advanceTimersByTimeAsync(2500);
+        const browser = await backend.captureScreens();
+        expect(browser[0].image.toBitmap().equals(editor[0].image.toBitmap())).toBe(false);
+        await backend.stopInput();
+    });
+
+    it('hands the drawn bitmaps to the image adapter', async () => {
+        const createImage = vi.fn((bitmap: Buffer, size: any) => ({ bitmap, size }));
+        const { backend } = await startReplay({ imageAdapter: { createImage, getDisplays: () => [] } });
+        const [capture] = await backend.captureScreens();
+        expect(createImage).toHaveBeenCalledTimes(2);
+        expect(capture.image.size).toEqual({ width: 64, height: 48 });
+        expect(capture.image.bitmap).toHaveLength(64 * 48 * 4);
+        await backend.stopInput();
+    });
+});
+
+describe('createRecordingBackend', () => {
+    it('records a replayed session into a file that replays the same way', async () => {
+        const recordPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'replay-')), 'recorded.json');
+        const replay = createReplayBackend({ sessionPath: SESSION_PATH });
+        const displays = [{ id: '7', label: 'Studio Display', bounds: { x: 0, y: 0, width: 32, height: 16 }, scaleFactor: 2 }];
+        const recorder = createRecordingBackend(replay, recordPath, { createImage: vi.fn(), getDisplays: () => displays });
+
+        await recorder.startInput();
+        // The tracker polls the window and idle time; input is recorded as it arrives
+        for (let i = 0; i < 9; i++) {
+            await recorder.getActiveWindow();
+            await recorder.getIdleSeconds();
+            await vi.advanceTimersByTimeAsync(1000);
+        }
+        await recorder.stopInput();
+
+        const recorded = loadReplaySession(recordPath);
+        expect(recorded.displays).toEqual([{ id: '7', name: 'Studio Display', bounds: displays[0].bounds, scaleFactor: 2 }]);
+        expect(recorded.events.filter((e: any) => e.type === 'key')).toHaveLength(3);
+        expect(recorded.events.filter((e: any) => e.type === 'click')).toHaveLength(2);
+        expect(recorded.events.filter((e: any) => e.type === 'window').map((e: any) => e.window?.owner.name ?? null))
+            .toEqual(['Code', 'Google Chrome', null]);
+        expect(recorded.events.some((e: any) => e.type === 'idle' && e.seconds >= 120)).toBe(true);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getRetentionPolicy, getTaskDocumentAgeDays, isTaskRevisionSynced, pruneTaskDocument } from '../../electron/retention.cjs';
+
+const PRUNED_AT = '2026-10-19T12:00:00.000Z';
+
+const taskDocument = () => ({
+    metadata: { createdAt: '2026-07-01T09:00:00.000Z', lastUpdated: '2026-07-01T17:00:00.000Z' } as any,
+    trackingData: {
+        screenshots: [{ id: 's1', timestamp: 1000 }],
+        webcamPhotos: [{ id: 'w1', timestamp: 1000 }],
+        activityLogs: [{ id: 'l1', timestamp: '2026-07-01T09:05:00.000Z' }],
+        urlHistory: [{ url: 'https://github.com', title: 'GitHub', timestamp: 1000 }],
+        deviceMerge: { devices: { desktop: { activityLogs: [{ id: 'r1' }] } }, conflicts: [] },
+        summary: { totalTime: 3600 }
+    } as any
+});
+
+describe('getRetentionPolicy', () => {
+    it('keeps everything until the user sets a limit', () => {
+        expect(getRetentionPolicy({})).toEqual({ imageDays: 0, activityLogDays: 0 });
+        expect(getRetentionPolicy({ imageRetentionDays: 0, activityLogRetentionDays: 7 })).toEqual({ imageDays: 0, activityLogDays: 7 });
+    });
+});
+
+describe('getTaskDocumentAgeDays', () => {
+    const now = new Date('2026-07-11T15:00:00').getTime();
+
+    it('counts whole days from the task file date, else the creation date', () => {
+        expect(getTaskDocumentAgeDays({ date: '2026-07-01' }, null, now)).toBe(10);
+        expect(getTaskDocumentAgeDays({}, { metadata: { createdAt: '2026-07-10T08:00:00.000Z' } }, now)).toBe(1);
+        expect(getTaskDocumentAgeDays({}, {}, now)).toBe(0);
+    });
+});
+
+describe('isTaskRevisionSynced', () => {
+    it('needs the current revision confirmed and no image waiting for review or upload', () => {
+        const doc = taskDocument();
+        const revision = doc.metadata.lastUpdated;
+        expect(isTaskRevisionSynced(doc, undefined)).toBe(false);
+        expect(isTaskRevisionSynced(doc, { lastUpdated: '2026-07-01T10:00:00.000Z' })).toBe(false);
+        expect(isTaskRevisionSynced(doc, { lastUpdated: revision })).toBe(true);
+
+        doc.trackingData.screenshots[0].uploadPending = true;
+        expect(isTaskRevisionSynced(doc, { lastUpdated: revision })).toBe(false);
+
+        doc.trackingData.screenshots[0] = { id: 's1', timestamp: 1000, reviewPending: true };
+        expect(isTaskRevisionSynced(doc, { lastUpdated: revision })).toBe(false);
+    });
+});
+
+describe('pruneTaskDocument', () => {
+    const policy = { imageDays: 30, activityLogDays: 90 };
+
+    it('leaves documents younger than both limits alone', () => {
+        const doc = taskDocument();
+        expect(pruneTaskDocument(doc, 29, policy, PRUNED_AT)).toEqual({ images: 0, activityLogs: 0 });
+        expect(doc).toEqual(taskDocument());
+    });
+
+    it('drops images first and keeps the logs until their own limit', () => {
+        const doc = taskDocument();
+        expect(pruneTaskDocument(doc, 30, policy, PRUNED_AT)).toEqual({ images: 2, activityLogs: 0 });
+        expect(doc.trackingData.screenshots).toEqual([]);
+        expect(doc.trackingData.webcamPhotos).toEqual([]);
+        expect(doc.trackingData.activityLogs).toHaveLength(1);
+        expect(doc.metadata).toMatchObject({ imagesPrunedAt: PRUNED_AT });
+        expect(doc.metadata.activityLogsPrunedAt).toBeUndefined();
+    });
+
+    it('drops logs, url history and other devices\' logs but keeps the summary', () => {
+        const doc = taskDocument();
+        expect(pruneTaskDocument(doc, 90, policy, PRUNED_AT)).toEqual({ images: 2, activityLogs: 2 });
+        expect(doc.trackingData.activityLogs).toEqual([]);
+        expect(doc.trackingData.urlHistory).toEqual([]);
+        expect(doc.trackingData.deviceMerge.devices.desktop.activityLogs).toEqual([]);
+        expect(doc.trackingData.summary).toEqual({ totalTime: 3600 });
+        expect(doc.metadata).toMatchObject({ imagesPrunedAt: PRUNED_AT, activityLogsPrunedAt: PRUNED_AT });
+    });
+
+    it('leaves no sync tombstones, so the server keeps its copies', () => {
+        const doc = taskDocument();
+        pruneTaskDocument(doc, 90, policy, PRUNED_AT);
+        expect(doc.trackingData.syncRemovals).toBeUndefined();
+    });
+
+    it('keeps everything forever when a limit is 0', () => {
+        const doc = taskDocument();
+        expect(pruneTaskDocument(doc, 1000, { imageDays: 0, activityLogDays: 0 }, PRUNED_AT)).toEqual({ images: 0, activityLogs: 0 });
+        expect(doc).toEqual(taskDocument());
+    });
+
+    it('does not stamp a document that had nothing left to prune', () => {
+        const doc = taskDocument();
+        pruneTaskDocument(doc, 90, policy, PRUNED_AT);
+        const again = pruneTaskDocument(doc, 120, policy, '2026-11-19T12:00:00.000Z');
+        expect(again).toEqual({ images: 0, activityLogs: 0 });
+        expect(doc.metadata.activityLogsPrunedAt).toBe(PRUNED_AT);
+    });
+});
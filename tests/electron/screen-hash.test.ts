@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+    SCREEN_HASH_HEIGHT,
+    SCREEN_HASH_WIDTH,
+    compareScreenHashes,
+    computeScreenHashFromBitmap,
+    getScreenHashDistance,
+} from '../../electron/screen-hash.cjs';
+
+// 9x8 BGRA bitmap from a gray level per pixel
+const bitmap = (gray: (x: number, y: number) => number) => {
+    const pixels = Buffer.alloc(SCREEN_HASH_WIDTH * SCREEN_HASH_HEIGHT * 4);
+    for (let y = 0; y < SCREEN_HASH_HEIGHT; y++) {
+        for (let x = 0; x < SCREEN_HASH_WIDTH; x++) {
+            const offset = (y * SCREEN_HASH_WIDTH + x) * 4;
+            pixels.fill(gray(x, y), offset, offset + 3);
+            pixels[offset + 3] = 255;
+        }
+    }
+    return pixels;
+};
+
+describe('computeScreenHashFromBitmap', () => {
+    it('sets a bit wherever a pixel is brighter than its right neighbour', () => {
+        expect(computeScreenHashFromBitmap(bitmap(() => 128))).toBe('0000000000000000');
+        expect(computeScreenHashFromBitmap(bitmap(x => 255 - x * 20))).toBe('ffffffffffffffff');
+        // Only the top row gets darker to the right
+        expect(computeScreenHashFromBitmap(bitmap((x, y) => (y === 0 ? 255 - x * 20 : 128)))).toBe('ff00000000000000');
+    });
+
+    it('ignores brightness changes that keep the gradient', () => {
+        const dim = bitmap(x => 200 - x * 10);
+        const bright = bitmap(x => 240 - x * 10);
+        expect(computeScreenHashFromBitmap(dim)).toBe(computeScreenHashFromBitmap(bright));
+    });
+});
+
+describe('getScreenHashDistance', () => {
+    it('counts differing bits', () => {
+        expect(getScreenHashDistance('0000000000000000', '0000000000000000')).toBe(0);
+        expect(getScreenHashDistance('0000000000000000', '0000000000000007')).toBe(3);
+        expect(getScreenHashDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    });
+});
+
+describe('compareScreenHashes', () => {
+    const previous = '0000000000000000';
+
+    it('never flags the first capture of a task', () => {
+        expect(compareScreenHashes(previous, undefined, {})).toEqual({ changePercent: null, unchanged: false, skip: false });
+    });
+
+    it('flags changes below the default 5% threshold and skips them', () => {
+        // 2 of 64 bits = 3%
+        expect(compareScreenHashes('0000000000000003', previous, {})).toEqual({ changePercent: 3, unchanged: true, skip: true });
+        // 4 of 64 bits = 6%
+        expect(compareScreenHashes('000000000000000f', previous, {})).toEqual({ changePercent: 6, unchanged: false, skip: false });
+    });
+
+    it('keeps unchanged captures when skipping is turned off', () => {
+        expect(compareScreenHashes(previous, previous, { skipUnchangedScreenshots: false })).toEqual({ changePercent: 0, unchanged: true, skip: false });
+    });
+
+    it('uses the configured threshold, and 0 turns the check off', () => {
+        expect(compareScreenHashes('000000000000000f', previous, { screenshotChangeThreshold: 10 }).unchanged).toBe(true);
+        expect(compareScreenHashes(previous, previous, { screenshotChangeThreshold: 0 })).toEqual({ changePercent: null, unchanged: false, skip: false });
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import {
+    SYNC_BATCH_LIMIT,
+    advanceSyncPosition,
+    collectSyncDelta,
+    getAcceptedCount,
+    getSyncItemId,
+    recordSyncRemovals,
+    touchSyncItems,
+} from '../../electron/sync-delta.cjs';
+
+const log = (id: string, time: number) => ({ id, timestamp: new Date(time).toISOString(), productivityScore: 50 });
+
+// Advance a cursor past a whole delta, the way syncTaskDocumentDelta does when the server takes everything
+const acknowledge = (cursor: any, delta: any) => {
+    const collections = { ...cursor.collections };
+    for (const [collection, batch] of Object.entries<any[]>(delta)) {
+        if (batch.length > 0) {
+            collections[collection] = advanceSyncPosition(collections[collection], batch);
+        }
+    }
+    return { collections };
+};
+
+const sentIds = (delta: any, collection: string) => delta[collection].map((entry: any) => entry.id);
+
+describe('collectSyncDelta', () => {
+    it('sends only items past the cursor', () => {
+        const trackingData: any = { activityLogs: [log('a', 1000), log('b', 2000)] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(trackingData, { collections: {} }));
+        trackingData.activityLogs.push(log('c', 3000));
+        expect(sentIds(collectSyncDelta(trackingData, cursor), 'activityLogs')).toEqual(['c']);
+    });
+
+    it('resends an item edited in place', () => {
+        const trackingData: any = { activityLogs: [log('a', 1000), log('b', 2000)] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(trackingData, { collections: {} }));
+
+        // Rescored after the screen change check: same id, same timestamp
+        trackingData.activityLogs[0] = { ...trackingData.activityLogs[0], productivityScore: 20 };
+        touchSyncItems([trackingData.activityLogs[0]], 5000);
+
+        const delta = collectSyncDelta(trackingData, cursor);
+        expect(sentIds(delta, 'activityLogs')).toEqual(['a']);
+        expect(delta.activityLogs[0].item.productivityScore).toBe(20);
+        expect(sentIds(collectSyncDelta(trackingData, acknowledge(cursor, delta)), 'activityLogs')).toEqual([]);
+    });
+
+    it('resends a window whose stats were edited without a newer lastSeen', () => {
+        const trackingData: any = { activeWindows: [{ windowKey: 'code', lastSeen: 2000, timeSpent: 600 }] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(trackingData, { collections: {} }));
+        trackingData.activeWindows[0].timeSpent = 300;
+        touchSyncItems(trackingData.activeWindows, 3000);
+        expect(sentIds(collectSyncDelta(trackingData, cursor), 'activeWindows')).toEqual(['code']);
+    });
+
+    it('sends an item moved into a task whose cursor is already past its timestamp', () => {
+        const target: any = { activityLogs: [log('t1', 5000)] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(target, { collections: {} }));
+
+        const moved = log('moved', 1000);
+        touchSyncItems([moved], 6000);
+        target.activityLogs.push(moved);
+        expect(sentIds(collectSyncDelta(target, cursor), 'activityLogs')).toEqual(['moved']);
+    });
+
+    it('sends a tombstone for a deleted item', () => {
+        const trackingData: any = { screenshots: [{ id: 's1', timestamp: 1000 }, { id: 's2', timestamp: 2000 }] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(trackingData, { collections: {} }));
+
+        const [discarded] = trackingData.screenshots.splice(0, 1);
+        recordSyncRemovals(trackingData, 'screenshots', [discarded], 'deleted', 3000);
+
+        const delta = collectSyncDelta(trackingData, cursor);
+        expect(sentIds(delta, 'screenshots')).toEqual([]);
+        expect(delta.syncRemovals.map((entry: any) => entry.item)).toEqual([
+            { id: 'screenshots:s1', collection: 'screenshots', itemId: 's1', reason: 'deleted', removedAt: 3000 }
+        ]);
+        expect(collectSyncDelta(trackingData, acknowledge(cursor, delta)).syncRemovals).toEqual([]);
+    });
+
+    it('does not send retention tombstones left in documents pruned earlier', () => {
+        const trackingData: any = { activityLogs: [log('a', 1000), log('b', 2000)] };
+        const cursor = acknowledge({ collections: {} }, collectSyncDelta(trackingData, { collections: {} }));
+
+        recordSyncRemovals(trackingData, 'activityLogs', [trackingData.activityLogs[0]], 'retention', 9000);
+        recordSyncRemovals(trackingData, 'activityLogs', [trackingData.activityLogs[1]], 'deleted', 9000);
+        trackingData.activityLogs = [];
+
+        const removals = collectSyncDelta(trackingData, cursor).syncRemovals.map((entry: any) => entry.item);
+        expect(removals.map((tombstone: any) => [tombstone.itemId, tombstone.reason])).toEqual([['b', 'deleted']]);
+    });
+
+    it('keeps one tombstone per item and drops it when the item is back', () => {
+        const trackingData: any = { activityLogs: [] };
+        const item = log('a', 1000);
+        recordSyncRemovals(trackingData, 'activityLogs', [item], 'moved', 2000);
+        recordSyncRemovals(trackingData, 'activityLogs', [item], 'moved', 3000);
+        expect(trackingData.syncRemovals).toHaveLength(1);
+        expect(trackingData.syncRemovals[0].removedAt).toBe(3000);
+
+        trackingData.activityLogs.push(item);
+        expect(collectSyncDelta(trackingData, { collections: {} }).syncRemovals).toEqual([]);
+    });
+
+    it('does not skip id-less url history entries that share the cursor timestamp', () => {
+        const trackingData: any = {
+            urlHistory: [
+                { url: 'https://a.example', title: 'A', timestamp: 1000 },
+                { url: 'https://b.example', title: 'B', timestamp: 1000 }
+            ]
+        };
+        const first = collectSyncDelta(trackingData, { collections: {} });
+        // The server only took the first of the two
+        const cursor = { collections: { urlHistory: advanceSyncPosition(undefined, first.urlHistory.slice(0, 1)) } };
+        trackingData.urlHistory.push({ url: 'https://c.example', title: 'C', timestamp: 1000 });
+
+        const rest = collectSyncDelta(trackingData, cursor).urlHistory.map((entry: any) => entry.item.url).sort();
+        const expected = trackingData.urlHistory.map((visit: any) => visit.url)
+            .filter((url: string) => url !== first.urlHistory[0].item.url).sort();
+        expect(rest).toEqual(expected);
+    });
+
+    it('derives the same id for the same visit', () => {
+        const visit = { url: 'https://a.example', title: 'A', timestamp: 1000 };
+        expect(getSyncItemId('urlHistory', { ...visit })).toBe(getSyncItemId('urlHistory', { ...visit }));
+        expect(getSyncItemId('urlHistory', { ...visit, timestamp: 1001 })).not.toBe(getSyncItemId('urlHistory', visit));
+        expect(getSyncItemId('urlHistory', { ...visit, id: 'u1' })).toBe('u1');
+    });
+
+    it('holds back images still waiting for upload, and everything after them', () => {
+        const trackingData: any = {
+            screenshots: [{ id: 's1', timestamp: 1000 }, { id: 's2', timestamp: 2000, uploadPending: true }, { id: 's3', timestamp: 3000 }]
+        };
+        expect(sentIds(collectSyncDelta(trackingData, { collections: {} }), 'screenshots')).toEqual(['s1']);
+    });
+
+    it('holds back captures still waiting for review', () => {
+        const trackingData: any = {
+            screenshots: [{ id: 's1', timestamp: 1000, reviewPending: true, fileUrl: null }, { id: 's2', timestamp: 2000 }]
+        };
+        expect(sentIds(collectSyncDelta(trackingData, { collections: {} }), 'screenshots')).toEqual([]);
+
+        // Released and uploaded
+        delete trackingData.screenshots[0].reviewPending;
+        trackingData.screenshots[0].fileUrl = 'https://files.example/s1.webp';
+        expect(sentIds(collectSyncDelta(trackingData, { collections: {} }), 'screenshots')).toEqual(['s1', 's2']);
+    });
+
+    it('sends at most one batch per collection', () => {
+        const trackingData: any = { activityLogs: Array.from({ length: SYNC_BATCH_LIMIT + 5 }, (_, i) => log(`l${i}`, 1000 + i)) };
+        expect(collectSyncDelta(trackingData, { collections: {} }).activityLogs).toHaveLength(SYNC_BATCH_LIMIT);
+    });
+});
+
+describe('advanceSyncPosition', () => {
+    it('remembers every id acknowledged at the last timestamp', () => {
+        const position = advanceSyncPosition(undefined, [{ timestamp: 1, id: 'a' }, { timestamp: 2, id: 'c' }]);
+        expect(position).toEqual({ timestamp: 2, id: 'c', ids: ['c'] });
+        expect(advanceSyncPosition(position, [{ timestamp: 2, id: 'b' }])).toEqual({ timestamp: 2, id: 'b', ids: ['c', 'b'] });
+    });
+
+    it('reads cursors written with only the last id', () => {
+        const legacy = { timestamp: 2, id: 'c' };
+        expect(advanceSyncPosition(legacy, [{ timestamp: 2, id: 'd' }]).ids).toEqual(['c', 'd']);
+        expect(collectSyncDelta({ urlHistory: [{ id: 'c', timestamp: 2 }, { id: 'b', timestamp: 2 }] }, { collections: { urlHistory: legacy } })
+            .urlHistory.map((entry: any) => entry.id)).toEqual(['b']);
+    });
+});
+
+describe('getAcceptedCount', () => {
+    const batch = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    it('takes the whole batch when the server does not say', () => {
+        expect(getAcceptedCount({}, 'activityLogs', batch)).toBe(3);
+    });
+
+    it('reads a count or an id list', () => {
+        expect(getAcceptedCount({ accepted: { activityLogs: 2 } }, 'activityLogs', batch)).toBe(2);
+        expect(getAcceptedCount({ data: { accepted: { activityLogs: ['a', 'c'] } } }, 'activityLogs', batch)).toBe(1);
+    });
+});
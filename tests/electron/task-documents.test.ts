@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { createHash } from 'crypto';
+import {
+    canonicalJson,
+    computeTaskDocumentChecksum,
+    joinTaskDocument,
+    salvageActivityLogs,
+    splitTaskDocument,
+    verifyTaskDocumentChecksum,
+} from '../../electron/task-documents.cjs';
+
+// What the tracking database hands back: every part went through JSON.stringify / JSON.parse
+const storeAndLoad = (data: any) => {
+    const parts = splitTaskDocument(data);
+    return joinTaskDocument(JSON.parse(JSON.stringify(parts)));
+};
+
+const document = () => ({
+    version: '1.0.0',
+    metadata: { projectId: 'p1', taskId: 't1', createdAt: '2026-10-19T08:00:00.000Z', lastUpdated: '2026-10-19T09:00:00.000Z' },
+    trackingData: {
+        activityLogs: [{ id: 'log-1', timestamp: 1000, productivityScore: 80 }],
+        summary: { totalTime: 600, totalActivityLogs: 1 },
+        deviceMerge: { devices: ['laptop'] },
+        screenshots: [{ id: 's1', timestamp: 1000 }],
+        webcamPhotos: [],
+        urlHistory: [{ url: 'https://github.com', timestamp: 1000 }],
+        activeWindows: [{ windowKey: 'code', appName: 'Code', timeSpent: 600 }],
+        syncCursor: { activityLogs: { timestamp: 1000, id: 'log-1' } }
+    },
+    deviceId: 'device-a'
+});
+
+describe('splitTaskDocument / joinTaskDocument', () => {
+    it('reads a document back exactly as written, key order included', () => {
+        const data = document();
+        expect(JSON.stringify(storeAndLoad(data))).toBe(JSON.stringify(data));
+    });
+
+    it('keeps unknown fields at both levels', () => {
+        const loaded = storeAndLoad(document());
+        expect(loaded.deviceId).toBe('device-a');
+        expect(loaded.trackingData.deviceMerge).toEqual({ devices: ['laptop'] });
+        expect(loaded.trackingData.syncCursor).toEqual({ activityLogs: { timestamp: 1000, id: 'log-1' } });
+    });
+
+    it('does not add collections the document did not have', () => {
+        const data = { version: '1.0.0', metadata: { taskId: 't1' }, trackingData: { activityLogs: [] } };
+        expect(storeAndLoad(data)).toEqual(data);
+        expect(Object.keys(storeAndLoad(data).trackingData)).toEqual(['activityLogs']);
+    });
+
+    it('keeps values a table cannot hold in extra', () => {
+        const data = { version: '1.0.0', metadata: {}, trackingData: { activityLogs: null, summary: null, urlHistory: 'n/a' } };
+        expect(storeAndLoad(data)).toEqual(data);
+    });
+
+    it('puts rows in their own tables and nothing else', () => {
+        const parts = splitTaskDocument(document());
+        expect(parts.activityLogs).toHaveLength(1);
+        expect(parts.summary).toEqual({ totalTime: 600, totalActivityLogs: 1 });
+        expect(Object.keys(parts.extra.trackingData)).toEqual(['deviceMerge', 'syncCursor']);
+        expect(parts.extra.doc).toEqual({ deviceId: 'device-a' });
+    });
+
+    it('reads rows written before key order was recorded in the old layout', () => {
+        const loaded = joinTaskDocument({
+            version: null,
+            metadata: { taskId: 't1' },
+            activityLogs: [{ id: 'log-1' }],
+            screenshots: [],
+            webcamPhotos: [],
+            urlHistory: [],
+            activeWindows: [],
+            summary: null,
+            extra: { doc: { deviceId: 'device-a' }, trackingData: { deviceMerge: {} } }
+        });
+        expect(loaded.version).toBe('1.0.0');
+        expect(loaded.deviceId).toBe('device-a');
+        expect(Object.keys(loaded.trackingData)).toEqual(['activityLogs', 'screenshots', 'webcamPhotos', 'urlHistory', 'activeWindows', 'summary', 'deviceMerge']);
+    });
+});
+
+describe('computeTaskDocumentChecksum', () => {
+    it('does not depend on key order', () => {
+        const data = document();
+        const { summary, deviceMerge, ...rest } = data.trackingData;
+        const reordered = { ...data, trackingData: { deviceMerge, summary, ...rest } };
+        expect(computeTaskDocumentChecksum(reordered)).toBe(computeTaskDocumentChecksum(data));
+    });
+
+    it('changes when the tracking data changes', () => {
+        const data = document();
+        const edited = document();
+        edited.trackingData.activityLogs[0].productivityScore = 81;
+        expect(computeTaskDocumentChecksum(edited)).not.toBe(computeTaskDocumentChecksum(data));
+    });
+
+    it('sorts keys at every level but keeps array order', () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, 1], c: undefined } })).toBe('{"a":{"d":[2,1]},"b":1}');
+    });
+});
+
+describe('verifyTaskDocumentChecksum', () => {
+    const withChecksum = (data: any, checksum: string) => ({ ...data, metadata: { ...data.metadata, checksum } });
+
+    it('accepts a database-reassembled document written with a sorted checksum', () => {
+        const data = document();
+        const saved = withChecksum(data, computeTaskDocumentChecksum(data));
+        const parts = splitTaskDocument(saved);
+        // A row written before key order was recorded comes back in the fixed layout
+        const legacyRow = { ...parts, extra: { doc: parts.extra.doc, trackingData: parts.extra.trackingData } };
+        expect(verifyTaskDocumentChecksum(joinTaskDocument(legacyRow))).toBe(true);
+    });
+
+    it('flags edited tracking data', () => {
+        const data = withChecksum(document(), computeTaskDocumentChecksum(document()));
+        data.trackingData.summary.totalTime = 1;
+        expect(verifyTaskDocumentChecksum(data)).toBe(false);
+    });
+
+    it('checks legacy checksums in stored order, unless that order is unreliable', () => {
+        const data = document();
+        const legacy = 'sha256:' + createHash('sha256').update(JSON.stringify(data.trackingData)).digest('hex');
+        expect(verifyTaskDocumentChecksum(withChecksum(data, legacy))).toBe(true);
+
+        const { summary, ...rest } = data.trackingData;
+        const reordered = withChecksum({ ...data, trackingData: { summary, ...rest } }, legacy);
+        expect(verifyTaskDocumentChecksum(reordered)).toBe(false);
+        expect(verifyTaskDocumentChecksum(reordered, { legacyOrderTrusted: false })).toBeNull();
+    });
+
+    it('has nothing to check without a checksum', () => {
+        expect(verifyTaskDocumentChecksum(document())).toBeNull();
+    });
+});
+
+describe('salvageActivityLogs', () => {
+    it('keeps every complete log from a torn file', () => {
+        const full = JSON.stringify({ trackingData: { activityLogs: [{ id: 'a', title: 'has } and { in it' }, { id: 'b' }, { id: 'c', nested: { x: 1 } }] } });
+        const torn = full.slice(0, full.indexOf('"id":"c"') + 10);
+        expect(salvageActivityLogs(torn).map((log: any) => log.id)).toEqual(['a', 'b']);
+    });
+
+    it('stops at the end of the activityLogs array', () => {
+        const text = JSON.stringify({ trackingData: { activityLogs: [{ id: 'a' }], screenshots: [{ id: 's' }] } });
+        expect(salvageActivityLogs(text)).toEqual([{ id: 'a' }]);
+    });
+
+    it('returns nothing when there is no activityLogs array', () => {
+        expect(salvageActivityLogs('{"metadata": {')).toEqual([]);
+    });
+});
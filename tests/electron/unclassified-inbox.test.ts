@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MAX_UNCLASSIFIED_ITEMS,
+    getUnclassifiedEntryWindow,
+    recordUnclassifiedEntries,
+    trimUnclassifiedInbox,
+} from '../../electron/unclassified-inbox.cjs';
+
+const nothingPrivate = () => false;
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 19, 9, minute)).toISOString();
+
+describe('recordUnclassifiedEntries', () => {
+    it('adds time to one item per kind and name', () => {
+        const inbox: any = {};
+        recordUnclassifiedEntries(inbox, [{ kind: 'app', name: 'Pixelforge', seconds: 30, sample: 'Logo.pf' }], nothingPrivate, at(0));
+        recordUnclassifiedEntries(inbox, [{ kind: 'app', name: 'pixelforge', seconds: 45.4, sample: 'Logo.pf' }], nothingPrivate, at(5));
+        expect(inbox['app:pixelforge']).toEqual({
+            key: 'app:pixelforge', kind: 'app', name: 'Pixelforge', seconds: 75, samples: ['Logo.pf'], firstSeen: at(0), lastSeen: at(5)
+        });
+    });
+
+    it('skips malformed entries', () => {
+        const inbox: any = {};
+        recordUnclassifiedEntries(inbox, [{ kind: 'file', name: 'x', seconds: 5 }, { kind: 'app', name: ' ', seconds: 5 }, { kind: 'url', name: 'a.example', seconds: 0 }], nothingPrivate);
+        expect(inbox).toEqual({});
+    });
+
+    it('keeps the newest few samples', () => {
+        const inbox: any = {};
+        const entries = Array.from({ length: 7 }, (_, i) => ({ kind: 'app', name: 'pixelforge', seconds: 1, sample: `file ${i}` }));
+        recordUnclassifiedEntries(inbox, entries, nothingPrivate);
+        expect(inbox['app:pixelforge'].samples).toEqual(['file 6', 'file 5', 'file 4', 'file 3', 'file 2']);
+    });
+
+    it('counts the time of a private window but keeps no sample from it', () => {
+        const inbox: any = {};
+        const isPrivate = (win: any) => win.title.includes('Bank');
+        recordUnclassifiedEntries(inbox, [
+            { kind: 'app', name: 'pixelforge', seconds: 30, sample: 'My Bank statement', app: 'pixelforge', title: 'My Bank statement' },
+            { kind: 'url', name: 'bank.example', seconds: 30, sample: '/accounts', app: 'firefox', title: 'My Bank - Accounts' }
+        ], isPrivate);
+        expect(inbox['app:pixelforge']).toMatchObject({ seconds: 30, samples: [] });
+        expect(inbox['url:bank.example']).toMatchObject({ seconds: 30, samples: [] });
+    });
+
+    it('checks the privacy rules against the window the entry was seen in', () => {
+        expect(getUnclassifiedEntryWindow({ kind: 'url', name: 'bank.example', sample: '/accounts', app: 'firefox', title: 'Accounts' }))
+            .toEqual({ owner: { name: 'firefox' }, title: 'Accounts', url: 'bank.example/accounts' });
+        expect(getUnclassifiedEntryWindow({ kind: 'app', name: 'pixelforge', sample: 'Logo.pf' }))
+            .toEqual({ owner: { name: 'pixelforge' }, title: 'Logo.pf', url: undefined });
+    });
+});
+
+describe('trimUnclassifiedInbox', () => {
+    it('keeps an app that just showed up over ones with more time', () => {
+        const inbox: any = {};
+        for (let i = 0; i < MAX_UNCLASSIFIED_ITEMS; i++) {
+            recordUnclassifiedEntries(inbox, [{ kind: 'app', name: `old-${i}`, seconds: 3600 }], nothingPrivate, at(0));
+        }
+        recordUnclassifiedEntries(inbox, [{ kind: 'app', name: 'newcomer', seconds: 10 }], nothingPrivate, at(1));
+
+        const trimmed = trimUnclassifiedInbox(inbox);
+        expect(Object.keys(trimmed)).toHaveLength(MAX_UNCLASSIFIED_ITEMS);
+        expect(trimmed['app:newcomer']).toBeDefined();
+    });
+
+    it('drops the item with the least time among those last seen together', () => {
+        const inbox: any = {};
+        recordUnclassifiedEntries(inbox, [
+            { kind: 'app', name: 'a', seconds: 10 },
+            { kind: 'app', name: 'b', seconds: 20 },
+            { kind: 'app', name: 'c', seconds: 5 }
+        ], nothingPrivate, at(0));
+        expect(Object.keys(trimUnclassifiedInbox(inbox, 2))).toEqual(['app:b', 'app:a']);
+    });
+});
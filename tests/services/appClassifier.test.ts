@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { appClassifier } from '../../services/appClassifier';
+
+const designers = { department: 'Design', workspaceId: '7', projectId: 'p1' };
+const developers = { department: 'Engineering', workspaceId: '7', projectId: 'p1' };
+
+afterEach(() => {
+    appClassifier.addCustomRules([]);
+    appClassifier.setPolicyRules([]);
+});
+
+describe('appClassifier scoped rules', () => {
+    it('classifies the same app per department', () => {
+        appClassifier.addCustomRules([
+            { processName: 'figma', category: 'productive', scope: { departments: ['Design'] } },
+            { processName: 'figma', category: 'neutral', weight: 0.3 }
+        ]);
+        expect(appClassifier.classifyApp('Figma', 'Landing page', designers)).toMatchObject({ category: 'productive', weight: 1 });
+        expect(appClassifier.classifyApp('Figma', 'Landing page', developers)).toMatchObject({ category: 'neutral', weight: 0.3 });
+    });
+
+    it('tries scoped rules before unscoped ones in the same layer', () => {
+        appClassifier.addCustomRules([
+            { processName: 'figma', category: 'neutral' },
+            { processName: 'figma', category: 'productive', scope: { projectIds: ['p1'] } }
+        ]);
+        expect(appClassifier.classifyApp('figma', undefined, designers).category).toBe('productive');
+        expect(appClassifier.classifyApp('figma', undefined, { ...designers, projectId: 'p2' }).category).toBe('neutral');
+    });
+
+    it('does not reuse a cached result across contexts', () => {
+        appClassifier.addCustomRules([{ processName: 'pixelforge', category: 'productive', scope: { departments: ['Design'] } }]);
+        expect(appClassifier.classifyApp('pixelforge', undefined, designers).matchType).not.toBe('none');
+        expect(appClassifier.classifyApp('pixelforge', undefined, developers).matchType).toBe('none');
+        expect(appClassifier.getCacheStats().keys).toEqual(expect.arrayContaining(['pixelforge||design|7|p1', 'pixelforge||engineering|7|p1']));
+    });
+
+    it('reports rules outside the context as out of scope', () => {
+        appClassifier.setPolicyRules([{ processName: 'pixelforge', category: 'productive', scope: { departments: ['Design'] } }]);
+        const explained = appClassifier.explainApp('pixelforge', undefined, developers);
+        expect(explained.layer).toBeUndefined();
+        expect(explained.evaluations.map(e => [e.layer, e.outcome])).toEqual([['policy', 'out_of_scope']]);
+    });
+});
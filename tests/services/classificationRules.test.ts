@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { classificationRules, parseClassificationRules, validateClassificationRule } from '../../services/classificationRules';
+import { appClassifier } from '../../services/appClassifier';
+import { urlClassifier } from '../../services/urlClassifier';
+import type { ClassificationRule } from '../../types';
+
+const appRule = (overrides: Partial<ClassificationRule> = {}): ClassificationRule => ({
+    id: 'r1', kind: 'app', processName: 'figma', category: 'productive', enabled: true, ...overrides
+});
+
+const urlRule = (overrides: Partial<ClassificationRule> = {}): ClassificationRule => ({
+    id: 'u1', kind: 'url', domainPattern: 'youtube.com', category: 'productive', enabled: true, ...overrides
+});
+
+afterEach(() => {
+    classificationRules.setUserRules([]);
+    classificationRules.setPolicy(null);
+});
+
+describe('validateClassificationRule', () => {
+    it('accepts complete rules', () => {
+        expect(validateClassificationRule(appRule({ titlePattern: '/design|prototype/', weight: 0.8, activity: 'Work' }))).toBeNull();
+        expect(validateClassificationRule(urlRule({ pathPattern: '/watch' }))).toBeNull();
+    });
+
+    it('says what is wrong', () => {
+        expect(validateClassificationRule(appRule({ processName: ' ' }))).toBe('App rules need a process name');
+        expect(validateClassificationRule(urlRule({ domainPattern: undefined }))).toBe('Website rules need a domain');
+        expect(validateClassificationRule(appRule({ category: 'great' as any }))).toMatch(/Category must be one of/);
+        expect(validateClassificationRule(appRule({ weight: 1.5 }))).toBe('Weight must be between 0 and 1');
+        expect(validateClassificationRule(appRule({ processName: '/fig(ma/' }))).toBe('Invalid regular expression: /fig(ma/');
+    });
+});
+
+describe('parseClassificationRules', () => {
+    it('reads an export and skips invalid rules', () => {
+        const { rules, skipped } = parseClassificationRules({
+            rules: [
+                { id: 'a', kind: 'app', processName: 'figma', category: 'productive', weight: '0.9', scope: { departments: 'Design, Marketing' } },
+                { kind: 'url', domainPattern: 'youtube.com', category: 'neutral', enabled: false },
+                { kind: 'app', category: 'productive' }
+            ]
+        });
+        expect(skipped).toBe(1);
+        expect(rules[0]).toMatchObject({ id: 'a', weight: 0.9, enabled: true, scope: { departments: ['Design', 'Marketing'] } });
+        expect(rules[1]).toMatchObject({ kind: 'url', enabled: false, scope: undefined });
+        expect(rules[1].id).toMatch(/^classify_/);
+    });
+
+    it('reads a plain array and ignores anything else', () => {
+        expect(parseClassificationRules([appRule()]).rules).toHaveLength(1);
+        expect(parseClassificationRules('not rules')).toEqual({ rules: [], skipped: 0 });
+    });
+});
+
+describe('rule layers', () => {
+    it('ranks user rules above the organization policy and the policy above the defaults', () => {
+        // Spotify is unproductive by default
+        expect(appClassifier.classifyApp('spotify').category).toBe('unproductive');
+
+        classificationRules.setPolicy({ workspaceId: 'w1', rules: [appRule({ id: 'p1', processName: 'spotify', category: 'neutral' })], fetchedAt: '' });
+        expect(appClassifier.explainApp('spotify')).toMatchObject({ layer: 'policy', result: { category: 'neutral' } });
+
+        classificationRules.setUserRules([appRule({ processName: 'spotify', category: 'productive' })]);
+        const explained = appClassifier.explainApp('spotify');
+        expect(explained).toMatchObject({ layer: 'user', result: { category: 'productive' } });
+        expect(explained.evaluations.map(e => [e.layer, e.outcome])).toEqual(expect.arrayContaining([['user', 'matched'], ['policy', 'outranked'], ['default', 'outranked']]));
+    });
+
+    it('drops disabled and invalid user rules', () => {
+        classificationRules.setUserRules([appRule({ processName: 'spotify', category: 'productive', enabled: false }), appRule({ processName: 'spotify', weight: 7 })]);
+        expect(appClassifier.classifyApp('spotify').category).toBe('unproductive');
+    });
+
+    it('applies website rules the same way', () => {
+        classificationRules.setUserRules([urlRule({ domainPattern: 'https://www.example-docs.dev/guide' })]);
+        expect(urlClassifier.classifyUrl('https://example-docs.dev/guide/intro')).toMatchObject({ category: 'productive', matchType: 'exact_domain' });
+        classificationRules.setUserRules([]);
+        expect(urlClassifier.classifyUrl('https://example-docs.dev/guide/intro').matchType).toBe('none');
+    });
+});
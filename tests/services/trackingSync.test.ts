@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    acknowledgeSyncDelta,
+    collectSyncDelta,
+    getSyncBatchPayload,
+    isSyncUpToDate,
+    recordSyncRemovals,
+} from '../../electron/sync-delta.cjs';
+import { trackingSync } from '../../services/trackingSync';
+
+const uploads: any[] = [];
+let nextResponse: (body: any) => any = () => ({ success: true, data: { result: true } });
+
+vi.mock('../../services/apiService', () => ({
+    apiService: {
+        uploadTrackingFile: async (projectId: string, taskId: string, file: File) => {
+            const body = JSON.parse(await file.text());
+            uploads.push(body);
+            return nextResponse(body);
+        },
+    },
+}));
+
+const log = (id: string, time: number) => ({ id, timestamp: new Date(time).toISOString() });
+
+// The main process side of get-task-sync-delta / acknowledge-task-sync, on one in-memory task document
+const createMainProcess = (doc: any) => {
+    let cursor: any = { collections: {} };
+    let pending: any = null;
+    return {
+        get cursor() { return cursor; },
+        electronAPI: {
+            getTaskSyncDelta: async () => {
+                const delta = collectSyncDelta(doc.trackingData, cursor);
+                if (isSyncUpToDate(delta, cursor, doc.metadata.lastUpdated)) return { success: true, upToDate: true };
+                pending = { syncId: `sync-${Math.random()}`, cursor, delta, revision: doc.metadata.lastUpdated };
+                return {
+                    success: true,
+                    upToDate: false,
+                    syncId: pending.syncId,
+                    since: cursor.collections,
+                    metadata: doc.metadata,
+                    trackingData: getSyncBatchPayload(doc.trackingData, delta),
+                };
+            },
+            acknowledgeTaskSync: async (projectId: string, taskId: string, syncId: string, ack: any, queued = false) => {
+                if (pending?.syncId !== syncId) return { success: false, error: 'Sync delta is out of date' };
+                const result = acknowledgeSyncDelta(pending.cursor, pending.delta, ack, pending.revision, { confirmRevision: !queued });
+                cursor = result.cursor;
+                pending = null;
+                return { success: true, sent: result.sent, partial: result.partial, more: result.more };
+            },
+        },
+    };
+};
+
+const taskDocument = () => ({
+    metadata: { projectId: 'p1', taskId: 't1', taskName: 'Task', projectName: 'Project', lastUpdated: '2026-10-19T10:00:00.000Z' },
+    trackingData: {
+        activityLogs: [log('a', 1000), log('b', 2000)],
+        activeWindows: [{ windowKey: 'code', lastSeen: 2000, timeSpent: 60 }],
+        screenshots: [{ id: 's1', timestamp: 1500, fileUrl: 'https://files.example/s1.webp' }],
+        summary: { totalTime: 120 },
+    } as any,
+});
+
+const ids = (items: any[]) => items.map(item => item.id ?? item.windowKey);
+
+beforeEach(() => {
+    uploads.length = 0;
+    nextResponse = () => ({ success: true, data: { result: true } });
+});
+
+afterEach(() => {
+    delete (globalThis as any).window;
+});
+
+const setUp = () => {
+    const doc = taskDocument();
+    const main = createMainProcess(doc);
+    (globalThis as any).window = { electronAPI: main.electronAPI };
+    return { doc, main };
+};
+
+describe('trackingSync.syncTask', () => {
+    it('uploads only what the server has not acknowledged yet', async () => {
+        const { doc } = setUp();
+
+        const first = await trackingSync.syncTask('p1', 't1', '7');
+        expect(first).toMatchObject({ success: true, sent: 4, requests: 1 });
+        expect(uploads[0].sync).toEqual({ mode: 'delta', since: {} });
+        expect(ids(uploads[0].trackingData.activityLogs)).toEqual(['a', 'b']);
+        expect(ids(uploads[0].trackingData.windowTracking)).toEqual(['code']);
+        expect(uploads[0].trackingData.summary).toEqual({ totalTime: 120 });
+
+        expect(await trackingSync.syncTask('p1', 't1', '7')).toMatchObject({ success: true, upToDate: true });
+        expect(uploads).toHaveLength(1);
+
+        doc.trackingData.activityLogs.push(log('c', 3000));
+        doc.metadata.lastUpdated = '2026-10-19T10:05:00.000Z';
+        await trackingSync.syncTask('p1', 't1', '7');
+        expect(ids(uploads[1].trackingData.activityLogs)).toEqual(['c']);
+        expect(uploads[1].trackingData.screenshots).toEqual([]);
+    });
+
+    it('sends deletions as tombstones', async () => {
+        const { doc } = setUp();
+        await trackingSync.syncTask('p1', 't1');
+
+        const [removed] = doc.trackingData.screenshots.splice(0, 1);
+        recordSyncRemovals(doc.trackingData, 'screenshots', [removed], 'deleted', 5000);
+        doc.metadata.lastUpdated = '2026-10-19T10:05:00.000Z';
+        await trackingSync.syncTask('p1', 't1');
+
+        expect(uploads[1].trackingData.syncRemovals).toEqual([
+            { id: 'screenshots:s1', collection: 'screenshots', itemId: 's1', reason: 'deleted', removedAt: 5000 }
+        ]);
+        expect(uploads[1].trackingData.activityLogs).toEqual([]);
+    });
+
+    it('resumes after the items the server did not take', async () => {
+        setUp();
+        nextResponse = () => ({ success: true, data: { accepted: { activityLogs: 1 } } });
+        expect(await trackingSync.syncTask('p1', 't1')).toMatchObject({ success: true, partial: true });
+
+        nextResponse = () => ({ success: true, data: { result: true } });
+        await trackingSync.syncTask('p1', 't1');
+        expect(ids(uploads[1].trackingData.activityLogs)).toEqual(['b']);
+    });
+
+    it('keeps the cursor when the upload fails', async () => {
+        setUp();
+        nextResponse = () => ({ success: false, error: 'Server error' });
+        expect(await trackingSync.syncTask('p1', 't1')).toMatchObject({ success: false, error: 'Server error' });
+
+        nextResponse = () => ({ success: true, data: { result: true } });
+        await trackingSync.syncTask('p1', 't1');
+        expect(ids(uploads[1].trackingData.activityLogs)).toEqual(['a', 'b']);
+    });
+
+    it('does not count an upload parked in the outbox as synced', async () => {
+        const { doc, main } = setUp();
+        nextResponse = () => ({ success: true, data: { queued: true, outboxId: 'o1' } });
+        expect(await trackingSync.syncTask('p1', 't1')).toMatchObject({ success: true, queued: true, requests: 1 });
+        expect(main.cursor.lastUpdated).toBeUndefined();
+
+        // The outbox delivers the items; the next sync only confirms the summary
+        nextResponse = () => ({ success: true, data: { result: true } });
+        await trackingSync.syncTask('p1', 't1');
+        expect(ids(uploads[1].trackingData.activityLogs)).toEqual([]);
+        expect(main.cursor.lastUpdated).toBe(doc.metadata.lastUpdated);
+    });
+});
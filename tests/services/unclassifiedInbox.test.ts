@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { unclassifiedInbox } from '../../services/unclassifiedInbox';
+
+const item = (name: string, samples: string[] = []): any => ({
+    key: `app:${name}`, kind: 'app', name, seconds: 60, samples, firstSeen: '2026-10-19T09:00:00.000Z', lastSeen: '2026-10-19T09:00:00.000Z'
+});
+const example = (label: string, tokens: string[], category: any) => ({ label, tokens: new Set(tokens), category });
+
+describe('unclassifiedInbox.suggest', () => {
+    it('takes the category of the most similar examples', () => {
+        const suggestion = unclassifiedInbox.suggest(item('pycharm64', ['project - main.py']), [
+            example('pycharm', ['pycharm', 'project'], 'productive'),
+            example('vscode', ['code', 'project'], 'productive'),
+            example('steam', ['steam', 'games'], 'unproductive')
+        ]);
+        expect(suggestion).toEqual({ category: 'productive', confidence: 1, similarTo: ['pycharm', 'vscode'] });
+    });
+
+    it('weighs each vote by its similarity', () => {
+        const suggestion = unclassifiedInbox.suggest(item('teamchat', ['team chat']), [
+            example('chat', ['chat', 'team'], 'neutral'),
+            example('standup', ['team', 'standup', 'notes'], 'productive'),
+            example('sprint', ['team', 'sprint'], 'productive')
+        ]);
+        expect(suggestion?.category).toBe('neutral');
+        expect(suggestion?.confidence).toBeCloseTo(0.6, 1);
+        expect(suggestion?.similarTo).toEqual(['chat']);
+    });
+
+    it('suggests nothing when no example is similar', () => {
+        expect(unclassifiedInbox.suggest(item('pixelforge'), [example('steam', ['steam', 'games'], 'unproductive')])).toBeNull();
+    });
+});
+
+describe('unclassifiedInbox.buildExamples', () => {
+    it('learns from the user rules', () => {
+        const examples = unclassifiedInbox.buildExamples([], [
+            { id: 'r1', kind: 'app', processName: 'pixelforge', category: 'productive', enabled: true },
+            { id: 'r2', kind: 'app', processName: 'gamebox', category: 'unproductive', enabled: false }
+        ]);
+        expect(unclassifiedInbox.suggest(item('PixelForge', ['Logo']), examples)).toMatchObject({ category: 'productive', similarTo: ['pixelforge'] });
+        expect(examples.some(e => e.label === 'gamebox')).toBe(false);
+    });
+});
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { urlClassifier } from '../../services/urlClassifier';
+
+const marketing = { department: 'Marketing', workspaceId: '7', projectId: 'launch' };
+const engineering = { department: 'Engineering', workspaceId: '7', projectId: 'launch' };
+
+afterEach(() => {
+    urlClassifier.addCustomRules([]);
+    urlClassifier.setPolicyRules([]);
+});
+
+describe('urlClassifier scoped rules', () => {
+    it('lets a department rule override the default for that department only', () => {
+        const byDefault = urlClassifier.classifyUrl('https://www.youtube.com/watch?v=1', engineering).category;
+        urlClassifier.setPolicyRules([{ domainPattern: 'youtube.com', category: 'productive', scope: { departments: ['marketing'] } }]);
+
+        expect(urlClassifier.classifyUrl('https://www.youtube.com/watch?v=1', marketing).category).toBe('productive');
+        expect(urlClassifier.classifyUrl('https://www.youtube.com/watch?v=1', engineering).category).toBe(byDefault);
+        expect(urlClassifier.classifyUrl('https://www.youtube.com/watch?v=1').category).toBe(byDefault);
+    });
+
+    it('scopes by project', () => {
+        urlClassifier.addCustomRules([{ domainPattern: 'dribbble.com', category: 'productive', scope: { projectIds: ['launch'] } }]);
+        expect(urlClassifier.classifyUrl('https://dribbble.com/shots', marketing).category).toBe('productive');
+        expect(urlClassifier.classifyUrl('https://dribbble.com/shots', { ...marketing, projectId: 'other' }).matchType).not.toBe('exact_domain');
+    });
+});
@@ -5,7 +5,65 @@ export enum AppView {
     SCREENCAST = 'SCREENCAST',
     INSIGHTS = 'INSIGHTS',
     SETTINGS = 'SETTINGS',
-    CALCULATION_DETAILS = 'CALCULATION_DETAILS'
+    CAPTURE_REVIEW = 'CAPTURE_REVIEW',
+    CALCULATION_DETAILS = 'CALCULATION_DETAILS',
+    TIMELINE_EDITOR = 'TIMELINE_EDITOR',
+    MANUAL_TIME = 'MANUAL_TIME'
+}
+
+// How captured images are scaled and encoded before upload
+export interface CaptureProfile {
+    maxWidth: number; // resolution cap in px (0 = no cap)
+    maxHeight: number; // resolution cap in px (0 = no cap)
+    format: 'png' | 'jpeg' | 'webp';
+    quality: number; // 1-100, JPEG and WebP only
+    grayscale: boolean;
+}
+
+// Sensitive window to hide inside screenshots (matched case-insensitively)
+export interface RedactionRule {
+    id: string;
+    match: 'app' | 'url' | 'title'; // process name, domain (incl. subdomains) or window title
+    pattern: string;
+    action: 'blur' | 'blackout';
+    enabled: boolean;
+}
+
+// Focused windows that are never screenshotted. Same fields as AppClassificationRule /
+// UrlClassificationRule, kept as strings so they can be stored ("/.../" for a regex)
+export interface ScreenshotExclusionRule {
+    id: string;
+    processName?: string;
+    titlePattern?: string;
+    domainPattern?: string;
+    pathPattern?: string;
+    enabled: boolean;
+}
+
+// Custom productivity classification, stored with the same string convention as
+// ScreenshotExclusionRule ("/.../flags" for a regex). processName and domainPattern match
+// exactly, titlePattern and pathPattern match anywhere in the title / path
+export interface ClassificationRule {
+    id: string;
+    kind: 'app' | 'url';
+    processName?: string; // app rules
+    titlePattern?: string;
+    domainPattern?: string; // url rules
+    pathPattern?: string;
+    category: ProductivityCategory;
+    weight?: number; // 0.0-1.0, default based on category
+    activity?: ActivityCategory; // default based on category (productive = Work, unproductive = Entertainment)
+    // Only for these departments (AuthenticatedUser.department_name), workspaces or projects;
+    // within a layer, scoped rules are tried before rules for everyone
+    scope?: { departments?: string[]; workspaceIds?: string[]; projectIds?: string[] };
+    enabled: boolean;
+}
+
+// Read-only rules set by the organization for one workspace (cached for offline use)
+export interface ClassificationPolicy {
+    workspaceId: string;
+    rules: ClassificationRule[];
+    fetchedAt: string;
 }
 
 export interface Settings {
@@ -17,6 +75,25 @@ export interface Settings {
     screenshotCaptureInterval?: number; // minutes - interval for taking screenshots
     cameraPhotoInterval?: number; // minutes - interval for taking camera photos
     autoSyncInterval?: number; // minutes - interval for auto-syncing data
+    // Multi-monitor screenshots: one image stitched by display layout, or one image per display in a shared batch
+    multiMonitorMode?: 'stitched' | 'separate';
+    // Screenshot change detection - captures differing from the last kept one by less than this % count as unchanged (0 = off)
+    screenshotChangeThreshold?: number;
+    skipUnchangedScreenshots?: boolean; // true = don't upload unchanged screenshots, false = upload and mark them
+    // Capture profiles (the profile used is stored with each image)
+    screenshotProfile?: CaptureProfile;
+    webcamProfile?: CaptureProfile;
+    redactionRules?: RedactionRule[]; // Windows hidden in screenshots (what was hidden is stored with each image)
+    screenshotExclusions?: ScreenshotExclusionRule[]; // No screenshot while a matching window is focused
+    classificationRules?: ClassificationRule[]; // Rank above the organization policy and the default classifications
+    // Review before upload - screenshots wait locally so the user can delete them first
+    reviewBeforeUpload?: boolean;
+    reviewGraceMinutes?: number; // how long a capture waits before it uploads on its own
+    reviewDeletionPolicy?: 'deduct-interval' | 'keep-time'; // company policy for time covered by a deleted capture
+    browserBridgeEnabled?: boolean; // Accept exact tab URLs from the paired browser extension
+    // Local retention (days, 0 = keep forever) - applied only to data already synced
+    imageRetentionDays?: number; // screenshots and webcam photos
+    activityLogRetentionDays?: number; // activity logs and URL history (daily summaries are always kept)
     // API Configuration
     apiEnabled?: boolean;
     apiBaseUrl?: string;
@@ -128,26 +205,57 @@ export interface ScreenShot {
 
 export type ProductivityCategory = 'productive' | 'neutral' | 'unproductive';
 
+export type ActivityCategory = 'Work' | 'Entertainment' | 'Communication' | 'Productivity' | 'Other';
+
+// What an editor or terminal window was working on (resolved from its title and the local .git)
+export interface CodeContext {
+    tool: 'vscode' | 'cursor' | 'jetbrains' | 'editor' | 'terminal';
+    repo: string | null; // "owner/name" from the origin remote, else the repository folder name
+    branch: string | null; // Short commit hash when HEAD is detached
+    file: string | null; // Relative to the repository when its location is known
+    language: string | null;
+}
+
 export interface ActivityLog {
     id: string;
     timestamp: Date;
     projectId: string;
     taskId?: string; // Optional: specific task ID for better filtering
+    deviceId?: string; // Machine that recorded this interval (stamped by the main process)
     keyboardEvents: number;
     mouseEvents: number;
     productivityScore: number; // 0-100
     activeWindow: string; // "VS Code", "Chrome", etc.
     activeUrl?: string; // Current URL if browser window
+    windowTitle?: string; // Focused window title, kept so the app classification can be explained later
+    codeContext?: CodeContext; // Editor / terminal context at the end of the interval
     screenshotUrl?: string; // Keep for backward compatibility
     screenshotUrls?: string[]; // Array of all screenshots
     webcamUrl?: string;
     isIdle?: boolean; // True if this interval was marked as idle
     idleDuration?: number; // Duration of idle time in seconds
+    screenUnchanged?: boolean; // Screenshot for this interval matched the previous one (perceptual hash)
+    screenChangePercent?: number; // How much the screenshot differed from the previous one (0-100)
+    screenshotSuppressed?: boolean; // Screenshot skipped for privacy - focused window matched an exclusion rule
+    screenshotSuppressedRuleId?: string;
+    screenshotRemovedByUser?: boolean; // User deleted this interval's screenshot before upload
+    screenshotRemovedAt?: string;
+    deductedSeconds?: number; // Tracked time taken off for the removed screenshot (per reviewDeletionPolicy)
+    reattributedFrom?: { // Moved here from another task in the timeline editor
+        projectId: string;
+        taskId: string;
+        at: string;
+        auditId: string;
+        movedBy?: { id: number | string; name: string; email: string } | null;
+        reason?: string | null;
+    };
+    excludedByConflict?: string; // Id of the device conflict resolved in the other device's favour - this interval no longer counts
     // Hubstaff algorithm fields (lightweight)
     appCategory?: ProductivityCategory; // Classified app category
     appCategoryWeight?: number; // Weight for app category (0.0-1.0)
     urlCategory?: ProductivityCategory; // Classified URL category (overrides app category for browsers)
     urlCategoryWeight?: number; // Weight for URL category (0.0-1.0)
+    activityCategory?: ActivityCategory; // Activity category from the rule that decided (URL rule if one matched, else app rule)
     // Deep work metrics
     contextSwitches?: number; // Number of app/window changes in recent period
     focusScore?: number; // 0-100 focus score (higher = more focused)
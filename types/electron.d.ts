@@ -1,4 +1,251 @@
-import { Settings } from '../types';
+import { Settings, CodeContext, ClassificationRule, ClassificationPolicy, ActivityLog } from '../types';
+
+export type OutboxKind = 'tracking-image' | 'tracking-file' | 'status-update' | 'check-in' | 'check-out' | 'manual-time-entry';
+
+// Request persisted by the main process and replayed when connectivity returns
+export interface OutboxRequest {
+    kind: OutboxKind;
+    method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    url: string; // Absolute URL - Bearer token is attached at replay time
+    body?: any; // JSON body (ignored when file is set)
+    fields?: Record<string, string>; // Multipart fields sent alongside file
+    file?: { field: string; filename: string; contentType: string; data: Uint8Array };
+}
+
+export interface OutboxStatus {
+    depth: number;
+    failed: number;
+    byKind: Partial<Record<OutboxKind, number>>;
+    oldestCreatedAt: number | null;
+    nextAttemptAt: number | null;
+    lastError: string | null;
+    isOnline: boolean;
+    isReplaying: boolean;
+}
+
+export type DeviceConflictResolution = 'keep-local' | 'keep-remote' | 'keep-both';
+
+// Overlapping timer runs for the same task on this device and another one
+export interface DeviceConflict {
+    id: string;
+    deviceId: string;
+    deviceName: string;
+    start: number;
+    end: number;
+    overlapSeconds: number;
+    status: 'open' | 'resolved';
+    resolution: DeviceConflictResolution | null;
+    resolvedAt: string | null;
+}
+
+export interface MergedTaskTracking {
+    projectId: string;
+    taskId: string;
+    devices: Array<{ deviceId: string | null; deviceName: string; isLocal: boolean; activityLogs: number; trackedSeconds: number; lastMergedAt?: string | null }>;
+    conflicts: DeviceConflict[];
+    openConflicts: number;
+    activityLogs: any[];
+    mergedTotalTime: number;
+}
+
+// Items of one task past its sync cursor (at most one batch per collection), plus removal tombstones
+export interface TaskSyncDelta {
+    success: boolean;
+    upToDate?: boolean; // Nothing to send - the server has this revision
+    syncId?: string; // Pass back to acknowledgeTaskSync
+    since?: Record<string, { timestamp: number; id: string; ids?: string[] }>;
+    version?: string;
+    metadata?: Record<string, any>;
+    trackingData?: {
+        summary?: any;
+        activityLogs?: any[];
+        activeWindows?: any[];
+        screenshots?: any[];
+        webcamPhotos?: any[];
+        urlHistory?: any[];
+        syncRemovals?: Array<{ id: string; collection: string; itemId: string; reason: 'deleted' | 'moved'; removedAt: number }>;
+    };
+    error?: string;
+}
+
+export interface PruneResult {
+    success: boolean;
+    ranAt?: string;
+    policy?: { imageDays: number; activityLogDays: number };
+    checked?: number;
+    pruned?: number;
+    skippedUnsynced?: number;
+    removedImages?: number;
+    removedActivityLogs?: number;
+    error?: string;
+}
+
+export interface DiskUsage {
+    success: boolean;
+    storage?: 'sqlite' | 'json';
+    workspaces?: Array<{ workspaceId: string; bytes: number; taskFiles: number; days: number }>;
+    databaseBytes?: number;
+    outboxBytes?: number;
+    totalBytes?: number;
+    lastPrune?: PruneResult | null;
+    error?: string;
+}
+
+// Perceptual-hash comparison of a capture with the previous screenshot kept for the task
+export interface ScreenChange {
+    unchanged: boolean;
+    changePercent: number | null; // null for the first capture of a task
+    skipped: boolean; // true when the capture was not uploaded
+}
+
+// Screenshot held locally until its review grace window ends (or the user keeps / deletes it)
+export interface PendingCapture {
+    id: string;
+    projectId: string;
+    taskId: string;
+    activityLogId: string | null;
+    capturedAt: number;
+    releaseAt: number;
+    imageCount: number; // > 1 when displays are stored separately
+}
+
+export interface PendingCaptureImage {
+    recordId: string;
+    display: { id: string; index: number; name: string } | null;
+    dataUrl: string | null; // Preview only
+}
+
+export interface EncryptionStatus {
+    enabled: boolean;
+    keyId: string | null;
+    keySource: 'keychain' | 'safeStorage' | null;
+    pendingKeys: number; // Older keys still needed after an incomplete rotation
+    error: string | null; // The key couldn't be read - encrypted data is left untouched until it can
+}
+
+// Local WebSocket bridge the companion browser extension pushes the active tab to
+export interface BrowserBridgeStatus {
+    enabled: boolean;
+    listening: boolean;
+    port: number;
+    token: string; // Pairing token entered in the extension's options
+    clients: Array<{ browser: string; connectedAt: number; lastTabAt: number | null }>;
+}
+
+// One activity log in the timeline editor, with the interval it covers
+export interface TimelineEntry {
+    id: string;
+    start: string;
+    end: string;
+    activeWindow: string;
+    activeUrl?: string;
+    keyboardEvents: number;
+    mouseEvents: number;
+    productivityScore: number;
+    isIdle: boolean;
+    screenshotCount: number;
+    reattributedFrom?: ActivityLog['reattributedFrom'];
+}
+
+// Who moved which activity logs (and the screenshots / time that went with them) between tasks
+export interface ReattributionAudit {
+    id: string;
+    movedAt: string;
+    movedBy: { id: number | string; name: string; email: string } | null;
+    reason: string | null;
+    from: { projectId: string; taskId: string };
+    to: { projectId: string; taskId: string };
+    activityLogIds: string[];
+    screenshotIds: string[];
+    webcamPhotoIds: string[];
+    movedSeconds: number;
+}
+
+export interface ReattributionRequest {
+    projectId: string;
+    taskId: string;
+    activityLogIds: string[];
+    targetProjectId: string;
+    targetTaskId: string;
+    targetTaskName?: string;
+    targetProjectName?: string;
+    movedBy?: ReattributionAudit['movedBy'];
+    reason?: string;
+}
+
+export type ManualTimeEntryStatus = 'pending' | 'approved' | 'rejected';
+
+// Time worked away from the computer, added by hand and approved or rejected on the server
+export interface ManualTimeEntry {
+    id: string; // Sent to the server as client_id
+    workspaceId: string | null;
+    projectId: string;
+    taskId: string;
+    projectName: string | null;
+    taskName: string | null;
+    startTime: string;
+    endTime: string;
+    duration: number; // Seconds
+    reason: string;
+    status: ManualTimeEntryStatus;
+    reviewerNote: string | null;
+    reviewedAt: string | null;
+    createdBy: { id: number | string; name: string; email: string } | null;
+    createdAt: string;
+    updatedAt: string;
+    submittedAt: string | null; // When the server (or the outbox) took it
+}
+
+export interface ManualTimeEntryInput {
+    workspaceId?: string;
+    projectId: string;
+    taskId: string;
+    projectName?: string;
+    taskName?: string;
+    startTime: string;
+    endTime: string;
+    reason: string;
+    createdBy?: ManualTimeEntry['createdBy'];
+}
+
+export interface ManualTimeEntryUpdate {
+    id: string;
+    status?: ManualTimeEntryStatus;
+    reviewerNote?: string | null;
+    reviewedAt?: string | null;
+    submittedAt?: string;
+}
+
+// Task that fits the last few minutes of focus better than the running one, learned from past activity logs
+export interface TaskSuggestion {
+    projectId: string;
+    taskId: string;
+    score: number;
+    confidence: number; // Share of all candidates' score (0-1)
+    reasons: Array<{ kind: 'app' | 'domain' | 'repo' | 'branch' | 'word' | 'name'; value: string }>;
+}
+
+// Time on an app or domain no classification rule matched, reported once per activity interval
+export interface UnclassifiedActivity {
+    kind: 'app' | 'url';
+    name: string; // Process name or domain
+    seconds: number;
+    sample?: string; // Window title (apps) or path (domains)
+    // The window it was seen in, only for matching the redaction / exclusion rules - not stored
+    app?: string;
+    title?: string;
+}
+
+// One entry in the unclassified inbox (key is "kind:lowercased name")
+export interface UnclassifiedItem {
+    key: string;
+    kind: 'app' | 'url';
+    name: string;
+    seconds: number;
+    samples: string[]; // Most recent distinct titles / paths
+    firstSeen: string;
+    lastSeen: string;
+}
 
 // Shared Electron API type definition
 declare global {
@@ -11,10 +258,10 @@ declare global {
             windowIsMaximized: () => Promise<boolean>;
             
             // Screenshot & capture
-            captureScreenshot: (isBlurred?: boolean) => Promise<string | { dataUrl?: string; fileUrl?: string } | null>;
+            captureScreenshot: (isBlurred?: boolean, activityLogId?: string) => Promise<string | { dataUrl?: string; fileUrl?: string | null; fileUrls?: string[]; batchId?: string | null; queued?: boolean; pendingReview?: boolean; screenChange?: ScreenChange; suppressed?: boolean; suppressedRuleId?: string } | null>;
             
             // Activity monitoring
-            getActiveWindow: () => Promise<{ title: string; owner: string; url: string | null; app: string }>;
+            getActiveWindow: () => Promise<{ title: string; owner: string; url: string | null; app: string; codeContext?: CodeContext | null }>;
             startActivityMonitoring: (projectId?: string, taskId?: string, taskName?: string, projectName?: string) => Promise<boolean>;
             stopActivityMonitoring: () => Promise<boolean>;
             updateTaskTracking: (projectId?: string, taskId?: string, taskName?: string, projectName?: string) => Promise<boolean>;
@@ -57,7 +304,7 @@ declare global {
                 webcamPhotoCount: number;
                 summary?: any;
             }>>;
-            getTrackingDataPath: () => Promise<{ projectRoot: string; trackingDataPath: string; exists: boolean }>;
+            getTrackingDataPath: () => Promise<{ projectRoot: string; trackingDataPath: string; exists: boolean; storage?: 'sqlite' | 'json'; databasePath?: string | null }>;
             verifyTrackingData: (projectId?: string) => Promise<any>;
             
             // Active task state management (for restoration on app restart - only uses task JSON files)
@@ -95,15 +342,76 @@ declare global {
             getSettings: () => Promise<Settings>;
             setSettings: (settings: Settings) => Promise<boolean>;
             
+            // Classification rules (import returns the parsed file; rules are validated by services/classificationRules)
+            exportClassificationRules: (rules: ClassificationRule[]) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
+            importClassificationRules: () => Promise<{ success: boolean; data?: unknown; canceled?: boolean; error?: string }>;
+            getClassificationPolicy: (workspaceId: string) => Promise<{ success: boolean; policy: ClassificationPolicy | null; error?: string }>;
+            setClassificationPolicy: (policy: ClassificationPolicy) => Promise<{ success: boolean; error?: string }>;
+            recordUnclassifiedActivity: (entries: UnclassifiedActivity[]) => Promise<{ success: boolean; error?: string }>;
+            getUnclassifiedInbox: () => Promise<{ success: boolean; items: UnclassifiedItem[]; error?: string }>;
+            removeUnclassifiedItems: (keys: string[]) => Promise<{ success: boolean; removed: number; error?: string }>;
+            
             // Data management
             exportData: (data: any) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
             deleteAllData: () => Promise<boolean>;
             
             // API Sync
-            syncTaskTracking: (projectId: string, taskId: string) => Promise<{ success: boolean; error?: string }>;
-            syncAllTasks: () => Promise<{ success: boolean; synced: number; errors: number; error?: string }>;
+            syncTaskTracking: (projectId: string, taskId: string) => Promise<{ success: boolean; sent?: number; requests?: number; partial?: boolean; upToDate?: boolean; error?: string }>;
+            syncAllTasks: () => Promise<{ success: boolean; synced: number; skipped?: number; errors: number; error?: string }>;
+            getTaskSyncDelta: (projectId: string, taskId: string) => Promise<TaskSyncDelta>;
+            acknowledgeTaskSync: (projectId: string, taskId: string, syncId: string, ack: any, queued?: boolean) => Promise<{ success: boolean; sent?: number; partial?: boolean; more?: boolean; error?: string }>;
             testApiConnection: () => Promise<{ success: boolean; error?: string }>;
             
+            // Offline upload outbox
+            enqueueOutboxRequest: (request: OutboxRequest) => Promise<{ success: boolean; id?: string; depth?: number; error?: string }>;
+            getOutboxStatus: () => Promise<OutboxStatus & { success: boolean }>;
+            flushOutbox: () => Promise<{ success: boolean; depth: number }>;
+            onOutboxStatusUpdate: (callback: (status: OutboxStatus) => void) => void;
+            removeOutboxStatusListener: () => void;
+            
+            // Review before upload
+            getPendingCaptures: () => Promise<{ success: boolean; captures: Array<PendingCapture & { images: PendingCaptureImage[] }>; error?: string }>;
+            keepPendingCapture: (captureId: string) => Promise<{ success: boolean; error?: string }>;
+            deletePendingCapture: (captureId: string) => Promise<{ success: boolean; activityLogId?: string | null; deductedSeconds?: number; error?: string }>;
+            onPendingCapturesUpdate: (callback: (captures: PendingCapture[]) => void) => void;
+            removePendingCapturesListener: () => void;
+            
+            // Local data retention
+            getDiskUsage: () => Promise<DiskUsage>;
+            pruneTrackingData: () => Promise<PruneResult>;
+            
+            // Encryption at rest
+            getEncryptionStatus: () => Promise<EncryptionStatus>;
+            rotateEncryptionKey: () => Promise<{ success: boolean; keyId?: string; previousKeyId?: string; documents?: number; files?: number; failed?: number; error?: string }>;
+            
+            // Browser extension bridge
+            getBrowserBridgeStatus: () => Promise<BrowserBridgeStatus & { success: boolean; error?: string }>;
+            regenerateBrowserBridgeToken: () => Promise<BrowserBridgeStatus & { success: boolean; error?: string }>;
+            
+            // Task suggestions
+            getTaskSuggestion: (tasks: Array<{ id: string; projectId: string; name: string }>) => Promise<{ success: boolean; suggestion: TaskSuggestion | null; error?: string }>;
+            
+            // Timeline editor (moving activity logs between tasks)
+            getTaskTimeline: (projectId: string, taskId: string) => Promise<{ success: boolean; running: boolean; totalTime: number; entries: TimelineEntry[]; error?: string }>;
+            reattributeActivityLogs: (request: ReattributionRequest) => Promise<{
+                success: boolean;
+                audit?: ReattributionAudit;
+                source?: { projectId: string; taskId: string; totalTime: number };
+                target?: { projectId: string; taskId: string; totalTime: number };
+                error?: string;
+            }>;
+            
+            // Manual time entries
+            getManualTimeEntries: () => Promise<{ success: boolean; entries: ManualTimeEntry[]; error?: string }>;
+            addManualTimeEntry: (input: ManualTimeEntryInput) => Promise<{ success: boolean; entry?: ManualTimeEntry; error?: string }>;
+            deleteManualTimeEntry: (entryId: string) => Promise<{ success: boolean; entry?: ManualTimeEntry; error?: string }>;
+            updateManualTimeEntries: (updates: ManualTimeEntryUpdate[]) => Promise<{ success: boolean; changed: number; entries?: ManualTimeEntry[]; error?: string }>;
+            
+            // Multi-device merge
+            mergeRemoteTrackingData: (projectId: string, taskId: string, records: any[]) => Promise<MergedTaskTracking & { success: boolean; mergedRecords?: number; skippedRecords?: number; error?: string }>;
+            getMergedTaskTracking: (projectId: string, taskId: string) => Promise<MergedTaskTracking & { success: boolean; error?: string }>;
+            resolveDeviceConflict: (projectId: string, taskId: string, conflictId: string, resolution: DeviceConflictResolution) => Promise<MergedTaskTracking & { success: boolean; error?: string }>;
+            
             // OAuth Authentication
             oauthAuthenticate: () => Promise<{ success: boolean; error?: string; message?: string; user?: any; workspaces?: any[]; currentWorkspace?: any; token?: string; expires_at?: number }>;
             oauthCheckStatus: () => Promise<{ authenticated: boolean; user?: any; workspaces?: any[]; currentWorkspace?: any; expires_at?: number; error?: string }>;